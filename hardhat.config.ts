@@ -49,10 +49,14 @@ const _DEFAULT_HARDHAT_ACCOUNTS = [
 /**
  * Hardhat Configuration for Cyberia (CAP) Token
  *
- * Supports three environments:
- * 1. localhost - Local Hardhat network for development/testing
+ * Supports these environments:
+ * 1. hardhat / localhost - Local Hardhat network for development/testing
  * 2. sepolia - Ethereum Sepolia testnet
  * 3. mainnet - Ethereum mainnet (production)
+ * 4. arbitrum, optimism, base, polygon and their testnets - LayerZero OFT chains
+ *
+ * Every network here must also be listed in NETWORKS (scripts/config/environments.ts);
+ * test/unit/NetworkConfig.test.ts fails when the two drift apart.
  */
 const config: HardhatUserConfig = {
   solidity: {
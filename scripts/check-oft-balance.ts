@@ -1,5 +1,7 @@
 import { ethers } from "hardhat";
 import { config as dotenvConfig } from "dotenv";
+import { getLayerZeroChainById } from "./config/layerzero";
+import { requireOFTAddress } from "./utils/oft-registry";
 dotenvConfig();
 
 /**
@@ -20,41 +22,14 @@ async function main() {
   console.log("Chain ID:", network.chainId.toString());
   console.log("Address:", signer.address);
 
-  // Determine OFT address based on network
-  let oftAddress = "";
-  const chainId = network.chainId;
+  // Resolve OFT address from deployments.json (env var overrides it)
+  const chain = getLayerZeroChainById(network.chainId);
 
-  if (chainId === 421614n) {
-    // Arbitrum Sepolia
-    oftAddress = process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS || "";
-  } else if (chainId === 42161n) {
-    // Arbitrum
-    oftAddress = process.env.ARBITRUM_OFT_ADDRESS || "";
-  } else if (chainId === 11155420n) {
-    // Optimism Sepolia
-    oftAddress = process.env.OPTIMISM_SEPOLIA_OFT_ADDRESS || "";
-  } else if (chainId === 10n) {
-    // Optimism
-    oftAddress = process.env.OPTIMISM_OFT_ADDRESS || "";
-  } else if (chainId === 84532n) {
-    // Base Sepolia
-    oftAddress = process.env.BASE_SEPOLIA_OFT_ADDRESS || "";
-  } else if (chainId === 8453n) {
-    // Base
-    oftAddress = process.env.BASE_OFT_ADDRESS || "";
-  } else if (chainId === 80002n) {
-    // Polygon Amoy
-    oftAddress = process.env.POLYGON_AMOY_OFT_ADDRESS || "";
-  } else if (chainId === 137n) {
-    // Polygon
-    oftAddress = process.env.POLYGON_OFT_ADDRESS || "";
-  } else {
-    throw new Error(`Unsupported network: ${network.name} (Chain ID: ${chainId})`);
+  if (chain.contract !== "CAPTokenOFT") {
+    throw new Error(`Unsupported network: ${chain.name} hosts the OFTAdapter, not an OFT`);
   }
 
-  if (!oftAddress || oftAddress === "") {
-    throw new Error(`OFT address not configured for ${network.name}. Check your .env file.`);
-  }
+  const oftAddress = requireOFTAddress("CAPTokenOFT", { chainId: chain.chainId }).address;
 
   console.log("OFT Address:", oftAddress);
 
@@ -76,19 +51,19 @@ async function main() {
 
   console.log("\n💰 Balance Information");
   console.log("==================================================");
-  console.log("Your Balance:", ethers.formatEther(balance), symbol);
-  console.log("Total Supply:", ethers.formatEther(totalSupply), symbol);
+  console.log("Your Balance:", ethers.utils.formatEther(balance), symbol);
+  console.log("Total Supply:", ethers.utils.formatEther(totalSupply), symbol);
 
-  if (balance === 0n) {
+  if (balance.isZero()) {
     console.log("\n⚠️  You have no", symbol, "tokens on", network.name);
     console.log("\nPossible reasons:");
     console.log("1. Bridge transaction is still being processed (wait 1-2 minutes)");
     console.log("2. Bridge transaction failed (check LayerZero Scan)");
     console.log("3. No tokens have been bridged to this address yet");
     console.log("\nCheck LayerZero Scan:");
-    console.log("https://layerzeroscan.com");
+    console.log(chain.isTestnet ? "https://testnet.layerzeroscan.com" : "https://layerzeroscan.com");
   } else {
-    console.log("\n✅ You have", ethers.formatEther(balance), symbol, "on", network.name);
+    console.log("\n✅ You have", ethers.utils.formatEther(balance), symbol, "on", network.name);
   }
 
   console.log("\n==================================================\n");
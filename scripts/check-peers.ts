@@ -1,5 +1,8 @@
 import { ethers } from "hardhat";
 import { config as dotenvConfig } from "dotenv";
+import { LayerZeroChain, getHomeChain, getLayerZeroChainById, getOFTChains } from "./config/layerzero";
+import { findOFTDeployment } from "./utils/deployment-tracker";
+import { peerToAddress, requireOFTAddress } from "./utils/oft-registry";
 dotenvConfig();
 
 /**
@@ -7,8 +10,22 @@ dotenvConfig();
  *
  * This script checks which peers are configured on OFT/OFTAdapter contracts
  * Use this to verify peer connections and detect stale configurations
+ *
+ * Addresses come from deployments.json; *_OFT_ADDRESS / *_OFT_ADAPTER_ADDRESS env vars override them.
+ * On-chain peers are compared against the addresses recorded for the remote chains.
+ *
+ * This only reads the --network side; layerzero/peer-matrix.ts checks every chain in both directions.
  */
 
+function describeExpected(actual: string, expected: string | undefined): string {
+  if (!expected) {
+    return "";
+  }
+  return actual.toLowerCase() === expected.toLowerCase()
+    ? " (matches deployments.json)"
+    : ` (⚠️  deployments.json has ${expected})`;
+}
+
 async function main() {
   const [signer] = await ethers.getSigners();
   const network = await ethers.provider.getNetwork();
@@ -20,49 +37,30 @@ async function main() {
   console.log("Chain ID:", network.chainId.toString());
   console.log("Signer:", signer.address);
 
-  const chainId = network.chainId;
-
   // Determine which contract to check based on network
-  const isEthereum = chainId === 1n || chainId === 11155111n;
+  const chain = getLayerZeroChainById(network.chainId);
 
-  if (isEthereum) {
+  if (chain.contract === "CAPTokenOFTAdapter") {
     // Check OFTAdapter on Ethereum/Sepolia
-    await checkAdapterPeers();
+    await checkAdapterPeers(chain);
   } else {
     // Check OFT on destination chain
-    await checkOFTPeers();
+    await checkOFTPeers(chain);
   }
 
   console.log("\n==================================================\n");
 }
 
-async function checkAdapterPeers() {
-  const network = await ethers.provider.getNetwork();
-  const adapterAddress =
-    network.chainId === 11155111n ? process.env.SEPOLIA_OFT_ADAPTER_ADDRESS : process.env.OFT_ADAPTER_ADDRESS;
-
-  if (!adapterAddress) {
-    throw new Error("OFT Adapter address not configured");
-  }
+async function checkAdapterPeers(chain: LayerZeroChain) {
+  const resolved = requireOFTAddress("CAPTokenOFTAdapter", { chainId: chain.chainId });
+  const adapterAddress = resolved.address;
 
-  console.log("\n📝 OFTAdapter:", adapterAddress);
+  console.log("\n📝 OFTAdapter:", adapterAddress, `(from ${resolved.source})`);
 
   const adapter = await ethers.getContractAt("CAPTokenOFTAdapter", adapterAddress);
 
   // Check peers for each destination chain
-  const peersToCheck =
-    network.chainId === 11155111n
-      ? [
-          { name: "Arbitrum Sepolia", eid: 40231 },
-          { name: "Optimism Sepolia", eid: 40232 },
-          { name: "Base Sepolia", eid: 40245 },
-        ]
-      : [
-          { name: "Arbitrum", eid: 30110 },
-          { name: "Optimism", eid: 30111 },
-          { name: "Base", eid: 30184 },
-          { name: "Polygon", eid: 30109 },
-        ];
+  const peersToCheck = getOFTChains(chain.isTestnet).map((remote) => ({ name: remote.name, eid: remote.eid }));
 
   console.log("\n🔗 Configured Peers:");
   console.log("==================================================");
@@ -71,12 +69,13 @@ async function checkAdapterPeers() {
     try {
       const peerAddress = await adapter.peers(peer.eid);
 
-      if (peerAddress === "0x0000000000000000000000000000000000000000000000000000000000000000") {
-        console.log(`❌ ${peer.name} (EID ${peer.eid}): NOT CONFIGURED`);
+      const addressHex = peerToAddress(peerAddress);
+      const expected = findOFTDeployment("CAPTokenOFT", { eid: peer.eid })?.address;
+
+      if (!addressHex) {
+        console.log(`❌ ${peer.name} (EID ${peer.eid}): NOT CONFIGURED${expected ? ` (deployed at ${expected})` : ""}`);
       } else {
-        // Convert bytes32 to address (take last 20 bytes)
-        const addressHex = "0x" + peerAddress.slice(-40);
-        console.log(`✅ ${peer.name} (EID ${peer.eid}): ${addressHex}`);
+        console.log(`✅ ${peer.name} (EID ${peer.eid}): ${addressHex}${describeExpected(addressHex, expected)}`);
       }
     } catch {
       console.log(`⚠️  ${peer.name} (EID ${peer.eid}): Error reading peer`);
@@ -84,41 +83,20 @@ async function checkAdapterPeers() {
   }
 }
 
-async function checkOFTPeers() {
-  const network = await ethers.provider.getNetwork();
-  const chainId = network.chainId;
-
-  // Get OFT address based on network
-  let oftAddress = "";
-  if (chainId === 421614n) oftAddress = process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS || "";
-  else if (chainId === 42161n) oftAddress = process.env.ARBITRUM_OFT_ADDRESS || "";
-  else if (chainId === 11155420n) oftAddress = process.env.OPTIMISM_SEPOLIA_OFT_ADDRESS || "";
-  else if (chainId === 10n) oftAddress = process.env.OPTIMISM_OFT_ADDRESS || "";
-  else if (chainId === 84532n) oftAddress = process.env.BASE_SEPOLIA_OFT_ADDRESS || "";
-  else if (chainId === 8453n) oftAddress = process.env.BASE_OFT_ADDRESS || "";
-  else if (chainId === 80002n) oftAddress = process.env.POLYGON_AMOY_OFT_ADDRESS || "";
-  else if (chainId === 137n) oftAddress = process.env.POLYGON_OFT_ADDRESS || "";
-
-  if (!oftAddress) {
-    throw new Error("OFT address not configured for this network");
-  }
+async function checkOFTPeers(chain: LayerZeroChain) {
+  // Get OFT address for this network
+  const resolved = requireOFTAddress("CAPTokenOFT", { chainId: chain.chainId });
+  const oftAddress = resolved.address;
 
-  console.log("\n📝 OFT:", oftAddress);
+  console.log("\n📝 OFT:", oftAddress, `(from ${resolved.source})`);
 
   const oft = await ethers.getContractAt("CAPTokenOFT", oftAddress);
 
-  // Determine if testnet or mainnet
-  const isTestnet =
-    chainId === 421614n || // Arbitrum Sepolia
-    chainId === 11155420n || // Optimism Sepolia
-    chainId === 84532n || // Base Sepolia
-    chainId === 80002n; // Polygon Amoy
-
   // Check peers for Ethereum (both mainnet and testnet EIDs to detect wrong config)
-  const peersToCheck = [
-    { name: "Ethereum Sepolia", eid: 40161, expected: isTestnet },
-    { name: "Ethereum Mainnet", eid: 30101, expected: !isTestnet },
-  ];
+  const peersToCheck = [true, false].map((isTestnet) => {
+    const home = getHomeChain(isTestnet);
+    return { name: home.name, eid: home.eid, expected: isTestnet === chain.isTestnet };
+  });
 
   console.log("\n🔗 Configured Peers:");
   console.log("==================================================");
@@ -126,17 +104,20 @@ async function checkOFTPeers() {
   for (const peer of peersToCheck) {
     try {
       const peerAddress = await oft.peers(peer.eid);
+      const addressHex = peerToAddress(peerAddress);
 
-      if (peerAddress === "0x0000000000000000000000000000000000000000000000000000000000000000") {
+      if (!addressHex) {
         if (peer.expected) {
           console.log(`❌ ${peer.name} (EID ${peer.eid}): NOT CONFIGURED (SHOULD BE)`);
         } else {
           console.log(`✅ ${peer.name} (EID ${peer.eid}): Not configured (correct)`);
         }
       } else {
-        const addressHex = "0x" + peerAddress.slice(-40);
+        const expected = findOFTDeployment("CAPTokenOFTAdapter", { eid: peer.eid })?.address;
         if (peer.expected) {
-          console.log(`✅ ${peer.name} (EID ${peer.eid}): ${addressHex} (CORRECT)`);
+          console.log(
+            `✅ ${peer.name} (EID ${peer.eid}): ${addressHex} (CORRECT)${describeExpected(addressHex, expected)}`
+          );
         } else {
           console.log(`⚠️  ${peer.name} (EID ${peer.eid}): ${addressHex} (STALE/WRONG!)`);
         }
@@ -1,3 +1,5 @@
+import { LAYERZERO_CHAINS } from "./layerzero";
+
 export interface NetworkConfig {
   name: string;
   rpcUrl: string;
@@ -25,6 +27,19 @@ export interface DeploymentConfig {
 }
 
 export const NETWORKS: Record<string, NetworkConfig> = {
+  hardhat: {
+    name: "Hardhat",
+    rpcUrl: "", // In-process network, no RPC endpoint
+    chainId: 31337,
+    isTestnet: true,
+    nativeCurrency: {
+      name: "Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    explorerUrl: "",
+    confirmations: 1,
+  },
   localhost: {
     name: "Localhost",
     rpcUrl: "http://127.0.0.1:8545",
@@ -65,8 +80,116 @@ export const NETWORKS: Record<string, NetworkConfig> = {
     confirmations: 5,
     gasMultiplier: 1.1, // 10% buffer for mainnet
   },
+  // LayerZero OFT chains (see scripts/config/layerzero.ts)
+  arbitrum: {
+    name: "Arbitrum One",
+    rpcUrl: process.env.ARBITRUM_RPC_URL || "https://arb1.arbitrum.io/rpc",
+    chainId: 42161,
+    isTestnet: false,
+    nativeCurrency: {
+      name: "Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    explorerUrl: "https://arbiscan.io",
+    confirmations: 2,
+  },
+  optimism: {
+    name: "OP Mainnet",
+    rpcUrl: process.env.OPTIMISM_RPC_URL || "https://mainnet.optimism.io",
+    chainId: 10,
+    isTestnet: false,
+    nativeCurrency: {
+      name: "Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    explorerUrl: "https://optimistic.etherscan.io",
+    confirmations: 2,
+  },
+  base: {
+    name: "Base",
+    rpcUrl: process.env.BASE_RPC_URL || "https://mainnet.base.org",
+    chainId: 8453,
+    isTestnet: false,
+    nativeCurrency: {
+      name: "Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    explorerUrl: "https://basescan.org",
+    confirmations: 2,
+  },
+  polygon: {
+    name: "Polygon PoS",
+    rpcUrl: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com",
+    chainId: 137,
+    isTestnet: false,
+    nativeCurrency: {
+      name: "POL",
+      symbol: "POL",
+      decimals: 18,
+    },
+    explorerUrl: "https://polygonscan.com",
+    confirmations: 5,
+  },
+  arbitrumSepolia: {
+    name: "Arbitrum Sepolia",
+    rpcUrl: process.env.ARBITRUM_SEPOLIA_RPC_URL || "https://sepolia-rollup.arbitrum.io/rpc",
+    chainId: 421614,
+    isTestnet: true,
+    nativeCurrency: {
+      name: "Sepolia Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    explorerUrl: "https://sepolia.arbiscan.io",
+    confirmations: 1,
+  },
+  optimismSepolia: {
+    name: "OP Sepolia",
+    rpcUrl: process.env.OPTIMISM_SEPOLIA_RPC_URL || "https://sepolia.optimism.io",
+    chainId: 11155420,
+    isTestnet: true,
+    nativeCurrency: {
+      name: "Sepolia Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    explorerUrl: "https://sepolia-optimism.etherscan.io",
+    confirmations: 1,
+  },
+  baseSepolia: {
+    name: "Base Sepolia",
+    rpcUrl: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
+    chainId: 84532,
+    isTestnet: true,
+    nativeCurrency: {
+      name: "Sepolia Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    explorerUrl: "https://sepolia.basescan.org",
+    confirmations: 1,
+  },
+  polygonAmoy: {
+    name: "Polygon Amoy",
+    rpcUrl: process.env.POLYGON_AMOY_RPC_URL || "https://rpc-amoy.polygon.technology",
+    chainId: 80002,
+    isTestnet: true,
+    nativeCurrency: {
+      name: "POL",
+      symbol: "POL",
+      decimals: 18,
+    },
+    explorerUrl: "https://amoy.polygonscan.com",
+    confirmations: 2,
+  },
 };
 
+/** Networks that run against a local Hardhat node and use default test accounts */
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
 export function getNetworkConfig(networkName: string): NetworkConfig {
   const config = NETWORKS[networkName];
   if (!config) {
@@ -75,11 +198,18 @@ export function getNetworkConfig(networkName: string): NetworkConfig {
   return config;
 }
 
+/**
+ * Env var prefix for a hardhat network name, e.g. arbitrumSepolia -> ARBITRUM_SEPOLIA
+ */
+export function getEnvPrefix(networkName: string): string {
+  return networkName.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
 export function getDeploymentConfig(networkName: string): DeploymentConfig {
-  const envPrefix = networkName.toUpperCase();
+  const envPrefix = getEnvPrefix(networkName);
 
-  // For localhost, use default test values
-  if (networkName === "localhost") {
+  // For local networks, use default test values
+  if (LOCAL_NETWORKS.includes(networkName)) {
     return {
       owner: process.env.LOCALHOST_OWNER_ADDRESS || "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266", // Default Hardhat account #0
       feeRecipient: process.env.LOCALHOST_FEE_RECIPIENT || "0x70997970C51812dc3A010C7d01b50e0d17dc79C8", // Default Hardhat account #1
@@ -111,13 +241,56 @@ export function getDeploymentConfig(networkName: string): DeploymentConfig {
 export function validateEnvironment(networkName: string): void {
   const config = getNetworkConfig(networkName);
 
-  if (networkName !== "localhost" && !config.rpcUrl) {
-    throw new Error(`RPC URL not configured for ${networkName}. Set ${networkName.toUpperCase()}_RPC_URL in .env`);
+  if (!LOCAL_NETWORKS.includes(networkName) && !config.rpcUrl) {
+    throw new Error(`RPC URL not configured for ${networkName}. Set ${getEnvPrefix(networkName)}_RPC_URL in .env`);
   }
 
-  if (networkName === "mainnet") {
-    console.warn("\n⚠️  WARNING: Deploying to MAINNET ⚠️");
-    console.warn("This will use real ETH and deploy to production.");
+  if (!config.isTestnet) {
+    console.warn(`\n⚠️  WARNING: Deploying to ${config.name.toUpperCase()} ⚠️`);
+    console.warn(`This will use real ${config.nativeCurrency.symbol} and deploy to production.`);
     console.warn("Please ensure you have reviewed all configurations carefully.\n");
   }
 }
+
+/**
+ * Compare NETWORKS against the networks defined in hardhat.config.ts and the LayerZero chain registry.
+ * Returns one message per mismatch; an empty array means the lists agree.
+ * @param hardhatNetworks - `config.networks` from the Hardhat runtime environment
+ */
+export function checkNetworkConsistency(hardhatNetworks: Record<string, { chainId?: number }>): string[] {
+  const errors: string[] = [];
+
+  for (const [name, hardhatNetwork] of Object.entries(hardhatNetworks)) {
+    const config = NETWORKS[name];
+    if (!config) {
+      errors.push(`${name}: defined in hardhat.config.ts but missing from NETWORKS`);
+    } else if (hardhatNetwork.chainId !== undefined && hardhatNetwork.chainId !== config.chainId) {
+      errors.push(`${name}: chain ID ${hardhatNetwork.chainId} in hardhat.config.ts, ${config.chainId} in NETWORKS`);
+    }
+  }
+
+  for (const name of Object.keys(NETWORKS)) {
+    if (!hardhatNetworks[name]) {
+      errors.push(`${name}: defined in NETWORKS but missing from hardhat.config.ts`);
+    }
+  }
+
+  for (const [name, chain] of Object.entries(LAYERZERO_CHAINS)) {
+    const config = NETWORKS[chain.hardhatNetwork];
+    if (!config) {
+      errors.push(`${name}: LayerZero chain has no NETWORKS entry for "${chain.hardhatNetwork}"`);
+      continue;
+    }
+    if (config.chainId !== chain.chainId) {
+      errors.push(`${name}: chain ID ${chain.chainId} in LAYERZERO_CHAINS, ${config.chainId} in NETWORKS`);
+    }
+    if (config.isTestnet !== chain.isTestnet) {
+      errors.push(`${name}: isTestnet differs between LAYERZERO_CHAINS and NETWORKS`);
+    }
+    if (getEnvPrefix(chain.hardhatNetwork) !== chain.envPrefix) {
+      errors.push(`${name}: env prefix ${chain.envPrefix} does not match ${getEnvPrefix(chain.hardhatNetwork)}`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,296 @@
+/**
+ * LayerZero V2 chain registry
+ *
+ * Single source of truth for every chain the CAP token bridges to. CAP lives natively
+ * on Ethereum (mainnet/Sepolia), where the OFTAdapter locks tokens; every other chain
+ * runs a CAPTokenOFT that mints/burns.
+ *
+ * Adding a chain = adding one entry below (plus its hardhat network in hardhat.config.ts).
+ */
+
+export type LayerZeroContract = "CAPTokenOFTAdapter" | "CAPTokenOFT";
+
+export interface LayerZeroChain {
+  /** Human-readable chain name */
+  name: string;
+  /** Network name in hardhat.config.ts */
+  hardhatNetwork: string;
+  chainId: number;
+  /** LayerZero V2 endpoint ID */
+  eid: number;
+  /** LayerZero V2 EndpointV2 address */
+  endpoint: string;
+  isTestnet: boolean;
+  /** Hardhat network of the mainnet/testnet counterpart */
+  pair: string;
+  explorerUrl: string;
+  /** Prefix of the per-chain env vars, e.g. ARBITRUM_SEPOLIA -> ARBITRUM_SEPOLIA_OFT_ADDRESS */
+  envPrefix: string;
+  /** Which CAP contract is deployed on this chain */
+  contract: LayerZeroContract;
+  /** LayerZero message libraries and executor on this chain, pinned by oft:configure:security */
+  messageLibs?: MessageLibs;
+  /** DVN addresses on this chain by provider name, referenced from the security policy */
+  dvns?: Record<string, string>;
+  faucets?: string[];
+}
+
+export interface MessageLibs {
+  /** SendUln302 */
+  sendLibrary: string;
+  /** ReceiveUln302 */
+  receiveLibrary: string;
+  executor: string;
+}
+
+const MAINNET_ENDPOINT = "0x1a44076050125825900e736c501f859c50fE728c";
+const TESTNET_ENDPOINT = "0x6EDCE65403992e310A62460808c4b910D972f10f";
+
+export const LAYERZERO_CHAINS: Record<string, LayerZeroChain> = {
+  mainnet: {
+    name: "Ethereum",
+    hardhatNetwork: "mainnet",
+    chainId: 1,
+    eid: 30101,
+    endpoint: MAINNET_ENDPOINT,
+    isTestnet: false,
+    pair: "sepolia",
+    explorerUrl: "https://etherscan.io",
+    envPrefix: "MAINNET",
+    contract: "CAPTokenOFTAdapter",
+    messageLibs: {
+      sendLibrary: "0xbB2Ea70C9E858123480642Cf96acbcCE1372dCe1",
+      receiveLibrary: "0xc02Ab410f0734EFa3F14628780e6e695156024C2",
+      executor: "0x173272739Bd7Aa6e4e214714048a9fE699453059",
+    },
+    dvns: { layerzero: "0x589dEDbD617e0CBcB916A9223F4d1300c294236b" },
+  },
+  sepolia: {
+    name: "Ethereum Sepolia",
+    hardhatNetwork: "sepolia",
+    chainId: 11155111,
+    eid: 40161,
+    endpoint: TESTNET_ENDPOINT,
+    isTestnet: true,
+    pair: "mainnet",
+    explorerUrl: "https://sepolia.etherscan.io",
+    envPrefix: "SEPOLIA",
+    contract: "CAPTokenOFTAdapter",
+    messageLibs: {
+      sendLibrary: "0xcc1ae8Cf5D3904Cef3360A9532B477529b177cCE",
+      receiveLibrary: "0xdAf00F5eE2158dD58E0d3857851c432E34A3A851",
+      executor: "0x718B92b5CB0a5552039B593faF724D182A881eDA",
+    },
+    dvns: { layerzero: "0x8eebf8b423B73bFCa51a1Db4B7354AA0bFCA9193" },
+    faucets: [
+      "QuickNode: https://faucet.quicknode.com/ethereum/sepolia",
+      "Alchemy: https://www.alchemy.com/faucets/ethereum-sepolia",
+      "Chainlink: https://faucets.chain.link/sepolia",
+    ],
+  },
+  arbitrum: {
+    name: "Arbitrum",
+    hardhatNetwork: "arbitrum",
+    chainId: 42161,
+    eid: 30110,
+    endpoint: MAINNET_ENDPOINT,
+    isTestnet: false,
+    pair: "arbitrumSepolia",
+    explorerUrl: "https://arbiscan.io",
+    envPrefix: "ARBITRUM",
+    contract: "CAPTokenOFT",
+    messageLibs: {
+      sendLibrary: "0x975bcD720be66659e3EB3C0e4F1866a3020E493A",
+      receiveLibrary: "0x7B9E184e07a6EE1aC23eAe0fe8D6Be2f663f05e6",
+      executor: "0x31CAe3B7fB82d847621859fb1585353c5720660D",
+    },
+    dvns: { layerzero: "0x2f55C492897526677C5B68fb199ea31E2c126416" },
+  },
+  arbitrumSepolia: {
+    name: "Arbitrum Sepolia",
+    hardhatNetwork: "arbitrumSepolia",
+    chainId: 421614,
+    eid: 40231,
+    endpoint: TESTNET_ENDPOINT,
+    isTestnet: true,
+    pair: "arbitrum",
+    explorerUrl: "https://sepolia.arbiscan.io",
+    envPrefix: "ARBITRUM_SEPOLIA",
+    contract: "CAPTokenOFT",
+    messageLibs: {
+      sendLibrary: "0x4f7cd4DA19ABB31b0eC98b9066B9e857B1bf9C0E",
+      receiveLibrary: "0x75Db67CDab2824970131D5aa9CECfC9F69c69636",
+      executor: "0x5Df3a1cEbBD9c8BA7F8dF51Fd632A9aef8308897",
+    },
+    dvns: { layerzero: "0x53f488E93b4f1b60E8E83aa374dBe1780A1EE8a8" },
+    faucets: [
+      "QuickNode: https://faucet.quicknode.com/arbitrum/sepolia",
+      "Alchemy: https://www.alchemy.com/faucets/arbitrum-sepolia",
+      "Chainlink: https://faucets.chain.link/arbitrum-sepolia",
+    ],
+  },
+  optimism: {
+    name: "Optimism",
+    hardhatNetwork: "optimism",
+    chainId: 10,
+    eid: 30111,
+    endpoint: MAINNET_ENDPOINT,
+    isTestnet: false,
+    pair: "optimismSepolia",
+    explorerUrl: "https://optimistic.etherscan.io",
+    envPrefix: "OPTIMISM",
+    contract: "CAPTokenOFT",
+  },
+  optimismSepolia: {
+    name: "Optimism Sepolia",
+    hardhatNetwork: "optimismSepolia",
+    chainId: 11155420,
+    eid: 40232,
+    endpoint: TESTNET_ENDPOINT,
+    isTestnet: true,
+    pair: "optimism",
+    explorerUrl: "https://sepolia-optimism.etherscan.io",
+    envPrefix: "OPTIMISM_SEPOLIA",
+    contract: "CAPTokenOFT",
+    faucets: [
+      "QuickNode: https://faucet.quicknode.com/optimism/sepolia",
+      "Alchemy: https://www.alchemy.com/faucets/optimism-sepolia",
+    ],
+  },
+  base: {
+    name: "Base",
+    hardhatNetwork: "base",
+    chainId: 8453,
+    eid: 30184,
+    endpoint: MAINNET_ENDPOINT,
+    isTestnet: false,
+    pair: "baseSepolia",
+    explorerUrl: "https://basescan.org",
+    envPrefix: "BASE",
+    contract: "CAPTokenOFT",
+  },
+  baseSepolia: {
+    name: "Base Sepolia",
+    hardhatNetwork: "baseSepolia",
+    chainId: 84532,
+    eid: 40245,
+    endpoint: TESTNET_ENDPOINT,
+    isTestnet: true,
+    pair: "base",
+    explorerUrl: "https://sepolia.basescan.org",
+    envPrefix: "BASE_SEPOLIA",
+    contract: "CAPTokenOFT",
+    faucets: [
+      "QuickNode: https://faucet.quicknode.com/base/sepolia",
+      "Alchemy: https://www.alchemy.com/faucets/base-sepolia",
+    ],
+  },
+  polygon: {
+    name: "Polygon",
+    hardhatNetwork: "polygon",
+    chainId: 137,
+    eid: 30109,
+    endpoint: MAINNET_ENDPOINT,
+    isTestnet: false,
+    pair: "polygonAmoy",
+    explorerUrl: "https://polygonscan.com",
+    envPrefix: "POLYGON",
+    contract: "CAPTokenOFT",
+  },
+  polygonAmoy: {
+    name: "Polygon Amoy",
+    hardhatNetwork: "polygonAmoy",
+    chainId: 80002,
+    eid: 40267,
+    endpoint: TESTNET_ENDPOINT,
+    isTestnet: true,
+    pair: "polygon",
+    explorerUrl: "https://amoy.polygonscan.com",
+    envPrefix: "POLYGON_AMOY",
+    contract: "CAPTokenOFT",
+    faucets: ["QuickNode: https://faucet.quicknode.com/polygon/amoy"],
+  },
+};
+
+export function getLayerZeroChain(networkName: string): LayerZeroChain {
+  const chain = LAYERZERO_CHAINS[networkName];
+  if (!chain) {
+    throw new Error(
+      `No LayerZero chain for network: ${networkName}. Supported: ${Object.keys(LAYERZERO_CHAINS).join(", ")}`
+    );
+  }
+  return chain;
+}
+
+export function findLayerZeroChain(selector: { chainId?: number | bigint; eid?: number }): LayerZeroChain | undefined {
+  return Object.values(LAYERZERO_CHAINS).find(
+    (chain) =>
+      (selector.chainId === undefined || chain.chainId === Number(selector.chainId)) &&
+      (selector.eid === undefined || chain.eid === selector.eid)
+  );
+}
+
+export function getLayerZeroChainById(chainId: number | bigint): LayerZeroChain {
+  const chain = findLayerZeroChain({ chainId });
+  if (!chain) {
+    throw new Error(`Unsupported network for LayerZero: chain ID ${chainId}`);
+  }
+  return chain;
+}
+
+/**
+ * The chain hosting the OFTAdapter (Ethereum or Sepolia)
+ */
+export function getHomeChain(isTestnet: boolean): LayerZeroChain {
+  const home = Object.values(LAYERZERO_CHAINS).find(
+    (chain) => chain.contract === "CAPTokenOFTAdapter" && chain.isTestnet === isTestnet
+  );
+  if (!home) {
+    throw new Error(`No OFTAdapter chain configured for ${isTestnet ? "testnet" : "mainnet"}`);
+  }
+  return home;
+}
+
+/**
+ * Chains running CAPTokenOFT on testnet or mainnet
+ */
+export function getOFTChains(isTestnet: boolean): LayerZeroChain[] {
+  return Object.values(LAYERZERO_CHAINS).filter(
+    (chain) => chain.contract === "CAPTokenOFT" && chain.isTestnet === isTestnet
+  );
+}
+
+export function getPairedChain(chain: LayerZeroChain): LayerZeroChain {
+  return getLayerZeroChain(chain.pair);
+}
+
+/**
+ * Message libraries and executor pinned on a chain
+ * @throws If the registry has none for the chain
+ */
+export function getMessageLibs(chain: LayerZeroChain): MessageLibs {
+  if (!chain.messageLibs) {
+    throw new Error(
+      `${chain.name} has no send/receive library or executor in the LayerZero registry ` +
+        `(set LAYERZERO_CHAINS.${chain.hardhatNetwork}.messageLibs)`
+    );
+  }
+  return chain.messageLibs;
+}
+
+/**
+ * Address of a DVN provider on a chain
+ * @throws If the chain has no DVNs in the registry, or none under that name
+ */
+export function getDVNAddress(chain: LayerZeroChain, name: string): string {
+  if (!chain.dvns || Object.keys(chain.dvns).length === 0) {
+    throw new Error(
+      `${chain.name} has no DVNs in the LayerZero registry (set LAYERZERO_CHAINS.${chain.hardhatNetwork}.dvns)`
+    );
+  }
+  const address = chain.dvns[name];
+  if (!address) {
+    throw new Error(`DVN "${name}" has no address on ${chain.name}. Configured: ${Object.keys(chain.dvns).join(", ")}`);
+  }
+  return address;
+}
@@ -1,53 +1,95 @@
 import { ethers, network } from "hardhat";
 import { getNetworkConfig } from "./config/environments";
-import { getDeployment } from "./utils/deployment-tracker";
-import type { CAPToken } from "../typechain-types";
+import { buildCapAction } from "./dao/build-proposal";
+import { CapClient, PendingTaxChange, resolveCapTokenAddress } from "./sdk";
+import { TaxRates, formatTaxRates, readTaxLimits, validateTaxRates } from "./utils/tax-validation";
+import { TxSink } from "./utils/tx-sink";
+
+/**
+ * Tax changes go through the two-phase timelock in CAPToken:
+ *   propose - proposeTaxChange(transfer, sell, buy), starts the 24h TAX_CHANGE_DELAY
+ *   apply   - applyTaxChange(), only once taxChangeTimestamp has passed
+ *   cancel  - cancelTaxChange(), discards the pending change
+ *
+ * Every call goes through the transaction sink (utils/tx-sink.ts): sent from the signer by default,
+ * or collected into a Safe Transaction Builder batch (TX_SINK=safe) or a DAO action list (TX_SINK=dao)
+ * for governance to execute.
+ *
+ * Usage:
+ *   TAX_ACTION=propose TRANSFER_TAX_BP=150 SELL_TAX_BP=150 BUY_TAX_BP=0 npm run configure:sepolia
+ *   TAX_ACTION=apply npm run configure:sepolia
+ *   TAX_ACTION=cancel npm run configure:sepolia
+ *   TX_SINK=dao NEW_FEE_RECIPIENT=0x... npm run configure:sepolia
+ */
+type TaxAction = "propose" | "apply" | "cancel";
+
+const TAX_ACTIONS: TaxAction[] = ["propose", "apply", "cancel"];
 
 interface ConfigOptions {
   contractAddress: string;
   poolAddress?: string;
   newFeeRecipient?: string;
-  taxes?: {
-    transfer: number;
-    sell: number;
-    buy: number;
+  taxAction?: TaxAction;
+  taxes?: TaxRates;
+}
+
+function parseTaxBp(name: string): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    throw new Error(`${name} must be set when proposing a tax change`);
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name}: ${value} (expected basis points, e.g. 100 = 1%)`);
+  }
+
+  return parsed;
+}
+
+function parseTaxOptions(): Pick<ConfigOptions, "taxAction" | "taxes"> {
+  const action = process.env.TAX_ACTION?.toLowerCase();
+  if (!action) {
+    return {};
+  }
+
+  if (!TAX_ACTIONS.includes(action as TaxAction)) {
+    throw new Error(`Invalid TAX_ACTION: ${action}. Supported: ${TAX_ACTIONS.join(", ")}`);
+  }
+
+  if (action !== "propose") {
+    return { taxAction: action as TaxAction };
+  }
+
+  return {
+    taxAction: "propose",
+    taxes: {
+      transfer: parseTaxBp("TRANSFER_TAX_BP"),
+      sell: parseTaxBp("SELL_TAX_BP"),
+      buy: parseTaxBp("BUY_TAX_BP"),
+    },
   };
 }
 
 async function validateConfig(networkName: string): Promise<ConfigOptions> {
-  let contractAddress = process.env.CAP_TOKEN_ADDRESS;
-
-  // Try to get address from deployment history if not provided
-  if (!contractAddress) {
-    console.log("📖 CAP_TOKEN_ADDRESS not set, checking deployment history...");
-    const deployment = getDeployment(networkName);
-    if (deployment) {
-      contractAddress = deployment.proxyAddress;
-      console.log(`✅ Found deployed contract for ${networkName}: ${contractAddress}`);
-    } else {
-      throw new Error(
-        `CAP_TOKEN_ADDRESS not set and no deployment found for ${networkName}. ` +
-          `Please set CAP_TOKEN_ADDRESS in .env or deploy first.`
-      );
-    }
+  // Falls back to the deployment history when CAP_TOKEN_ADDRESS is not set
+  const contractAddress = resolveCapTokenAddress(networkName);
+  if (!process.env.CAP_TOKEN_ADDRESS) {
+    console.log(`✅ Found deployed contract for ${networkName}: ${contractAddress}`);
   }
 
   const poolAddress = process.env.POOL_ADDRESS;
   const newFeeRecipient = process.env.NEW_FEE_RECIPIENT;
 
-  if (!ethers.isAddress(contractAddress)) {
-    throw new Error(`Invalid CAP_TOKEN_ADDRESS: ${contractAddress}`);
-  }
-
   // Validate optional addresses
-  if (poolAddress && !ethers.isAddress(poolAddress)) {
+  if (poolAddress && !ethers.utils.isAddress(poolAddress)) {
     throw new Error(`Invalid POOL_ADDRESS: ${poolAddress}`);
   }
 
   if (
     newFeeRecipient &&
     newFeeRecipient !== "0x0000000000000000000000000000000000000000" &&
-    !ethers.isAddress(newFeeRecipient)
+    !ethers.utils.isAddress(newFeeRecipient)
   ) {
     throw new Error(`Invalid NEW_FEE_RECIPIENT: ${newFeeRecipient}`);
   }
@@ -56,46 +98,27 @@ async function validateConfig(networkName: string): Promise<ConfigOptions> {
     contractAddress,
     poolAddress: poolAddress || undefined,
     newFeeRecipient: newFeeRecipient || undefined,
+    ...parseTaxOptions(),
   };
 }
 
-async function getContractInstance(address: string) {
-  try {
-    const contract = await ethers.getContractAt("CAPToken", address);
-
-    // Verify it's actually a CAP token
-    const name = await contract.name();
-    const symbol = await contract.symbol();
-
-    if (name !== "Cyberia" || symbol !== "CAP") {
-      throw new Error(`Contract at ${address} is not a CAP token (name: ${name}, symbol: ${symbol})`);
-    }
-
-    return contract;
-  } catch (error) {
-    throw new Error(`Failed to connect to contract at ${address}: ${error}`);
-  }
-}
-
-async function addPool(contract: CAPToken, poolAddress: string) {
+async function addPool(cap: CapClient, sink: TxSink, poolAddress: string) {
   console.log(`📝 Adding pool: ${poolAddress}`);
 
   // Check if pool is already added
-  const isAlreadyPool = await contract.isPool(poolAddress);
+  const isAlreadyPool = await cap.token.isPool(poolAddress);
   if (isAlreadyPool) {
     console.log("⚠️  Pool is already registered, skipping...");
     return;
   }
 
-  const tx = await contract.addPool(poolAddress);
-  console.log(`⏳ Transaction submitted: ${tx.hash}`);
-
-  await tx.wait();
-  console.log("✅ Pool added successfully");
+  if (await sink.submit(buildCapAction(cap.address, { method: "addPool", args: [poolAddress] }))) {
+    console.log("✅ Pool added successfully");
+  }
 }
 
-async function updateFeeRecipient(contract: CAPToken, newFeeRecipient: string) {
-  const currentRecipient = await contract.feeRecipient();
+async function updateFeeRecipient(cap: CapClient, sink: TxSink, newFeeRecipient: string) {
+  const currentRecipient = await cap.token.feeRecipient();
 
   if (currentRecipient === newFeeRecipient) {
     console.log("⚠️  Fee recipient is already set to this address, skipping...");
@@ -106,52 +129,134 @@ async function updateFeeRecipient(contract: CAPToken, newFeeRecipient: string) {
     `📝 Updating fee recipient to: ${newFeeRecipient === "0x0000000000000000000000000000000000000000" ? "Burn Mode" : newFeeRecipient}`
   );
 
-  const tx = await contract.setFeeRecipient(newFeeRecipient);
-  console.log(`⏳ Transaction submitted: ${tx.hash}`);
+  if (await sink.submit(buildCapAction(cap.address, { method: "setFeeRecipient", args: [newFeeRecipient] }))) {
+    console.log("✅ Fee recipient updated successfully");
+  }
+}
 
-  await tx.wait();
-  console.log("✅ Fee recipient updated successfully");
+async function getPendingTaxChange(cap: CapClient): Promise<PendingTaxChange | null> {
+  return (await cap.getGovernanceState()).pendingTaxChange;
 }
 
-async function updateTaxes(contract: CAPToken, taxes: { transfer: number; sell: number; buy: number }) {
-  console.log(
-    `📝 Updating taxes to: ${taxes.transfer / 100}% transfer, ${taxes.sell / 100}% sell, ${taxes.buy / 100}% buy`
-  );
+function formatDuration(seconds: bigint): string {
+  const hours = seconds / 3600n;
+  const minutes = (seconds % 3600n) / 60n;
+  return `${hours}h ${minutes}m`;
+}
 
-  // Validate tax ranges
-  if (taxes.transfer > 500 || taxes.sell > 500 || taxes.buy > 500) {
-    throw new Error("Tax rates cannot exceed 5% (500 basis points)");
+function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+export async function proposeTaxChange(cap: CapClient, sink: TxSink, taxes: TaxRates) {
+  console.log(`📝 Proposing tax change: ${formatTaxRates(taxes)}`);
+
+  // Enforce the contract's caps before sending anything
+  const limits = await readTaxLimits(cap.token);
+  const errors = validateTaxRates(taxes, limits);
+  if (errors.length > 0) {
+    throw new Error(`Tax proposal would revert:\n   - ${errors.join("\n   - ")}`);
+  }
+
+  const pending = await getPendingTaxChange(cap);
+  if (pending) {
+    console.warn(`⚠️  A pending tax change (${formatTaxRates(pending.taxes)}) will be replaced`);
+    console.warn(`   and the 24h timelock will restart.`);
+  }
+
+  const call = buildCapAction(cap.address, {
+    method: "proposeTaxChange",
+    args: [taxes.transfer, taxes.sell, taxes.buy],
+  });
+  if (!(await sink.submit(call))) {
+    return;
+  }
+
+  const proposed = await getPendingTaxChange(cap);
+  console.log("✅ Tax change proposed successfully");
+  console.log(`   Can be applied after: ${formatTimestamp(proposed!.executableAt)}`);
+}
+
+export async function applyTaxChange(cap: CapClient, sink: TxSink) {
+  const pending = await getPendingTaxChange(cap);
+  if (!pending) {
+    throw new Error("No pending tax change to apply (NO_PENDING_CHANGE)");
+  }
+
+  const now = await cap.latestTimestamp();
+  if (now < pending.executableAt && !sink.sends) {
+    // The batch executes later; it only has to wait for the timelock
+    console.warn(
+      `⚠️  The timelock expires in ${formatDuration(pending.executableAt - now)} ` +
+        `(${formatTimestamp(pending.executableAt)}); the batch must not execute earlier`
+    );
+  } else if (now < pending.executableAt) {
+    throw new Error(
+      `Timelock has not expired (TIMELOCK_NOT_EXPIRED). ` +
+        `Pending change can be applied in ${formatDuration(pending.executableAt - now)} ` +
+        `(at ${formatTimestamp(pending.executableAt)})`
+    );
+  }
+
+  console.log(`📝 Applying pending tax change: ${formatTaxRates(pending.taxes)}`);
+
+  if (await sink.submit(buildCapAction(cap.address, { method: "applyTaxChange" }))) {
+    console.log("✅ Taxes updated successfully");
+  }
+}
+
+export async function cancelTaxChange(cap: CapClient, sink: TxSink) {
+  const pending = await getPendingTaxChange(cap);
+  if (!pending) {
+    throw new Error("No pending tax change to cancel (NO_PENDING_CHANGE)");
   }
 
-  const tx = await contract.setTaxes(taxes.transfer, taxes.sell, taxes.buy);
-  console.log(`⏳ Transaction submitted: ${tx.hash}`);
+  console.log(`📝 Cancelling pending tax change: ${formatTaxRates(pending.taxes)}`);
 
-  await tx.wait();
-  console.log("✅ Taxes updated successfully");
+  if (await sink.submit(buildCapAction(cap.address, { method: "cancelTaxChange" }))) {
+    console.log("✅ Tax change cancelled successfully");
+  }
 }
 
-async function displayCurrentConfig(contract: CAPToken, options: ConfigOptions) {
+async function runTaxAction(cap: CapClient, sink: TxSink, options: ConfigOptions) {
+  switch (options.taxAction) {
+    case "propose":
+      await proposeTaxChange(cap, sink, options.taxes!);
+      break;
+    case "apply":
+      await applyTaxChange(cap, sink);
+      break;
+    case "cancel":
+      await cancelTaxChange(cap, sink);
+      break;
+  }
+}
+
+async function displayCurrentConfig(cap: CapClient, options: ConfigOptions) {
   console.log("\n=== Current Configuration ===");
 
-  const [transferTax, sellTax, buyTax, feeRecipient, owner] = await Promise.all([
-    contract.transferTaxBp(),
-    contract.sellTaxBp(),
-    contract.buyTaxBp(),
-    contract.feeRecipient(),
-    contract.owner(),
-  ]);
+  const { governance, feeRecipient, taxes, pendingTaxChange: pending } = await cap.getGovernanceState();
 
   console.log(`Contract Address: ${options.contractAddress}`);
-  console.log(`Owner: ${owner}`);
-  console.log(`Transfer Tax: ${Number(transferTax) / 100}% (${transferTax} bp)`);
-  console.log(`Sell Tax: ${Number(sellTax) / 100}% (${sellTax} bp)`);
-  console.log(`Buy Tax: ${Number(buyTax) / 100}% (${buyTax} bp)`);
+  console.log(`Governance: ${governance}`);
+  console.log(`Transfer Tax: ${taxes.transfer / 100}% (${taxes.transfer} bp)`);
+  console.log(`Sell Tax: ${taxes.sell / 100}% (${taxes.sell} bp)`);
+  console.log(`Buy Tax: ${taxes.buy / 100}% (${taxes.buy} bp)`);
   console.log(
     `Fee Recipient: ${feeRecipient === "0x0000000000000000000000000000000000000000" ? "Burn Mode" : feeRecipient}`
   );
 
+  if (pending) {
+    const now = await cap.latestTimestamp();
+    const status =
+      now >= pending.executableAt ? "ready to apply" : `applicable in ${formatDuration(pending.executableAt - now)}`;
+    console.log(`Pending Tax Change: ${formatTaxRates(pending.taxes)} (${status})`);
+  } else {
+    console.log("Pending Tax Change: None");
+  }
+
   if (options.poolAddress) {
-    const isPool = await contract.isPool(options.poolAddress);
+    const isPool = await cap.token.isPool(options.poolAddress);
     console.log(`Pool ${options.poolAddress} registered: ${isPool}`);
   }
 }
@@ -168,35 +273,50 @@ async function main() {
     console.log(`🌐 Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
 
     const options = await validateConfig(networkName);
-    const contract = await getContractInstance(options.contractAddress);
+    const [signer] = await ethers.getSigners();
+    const cap = await CapClient.connect(options.contractAddress, signer);
 
     console.log(`📍 Contract Address: ${options.contractAddress}\n`);
-
-    const [signer] = await ethers.getSigners();
     console.log(`🔑 Signer: ${signer.address}`);
 
-    // Verify signer is owner
-    const owner = await contract.owner();
-    if (signer.address !== owner) {
-      console.warn(`\n⚠️  WARNING: Signer (${signer.address}) is not the contract owner (${owner})`);
+    // Verify signer is governance
+    const governance = await cap.governance();
+    const isGovernance = await cap.isGovernance(signer.address);
+    const sink = await TxSink.open({
+      title: "Configure CAP token",
+      name: "configure",
+      safe: governance,
+      dao: governance,
+    });
+    if (!sink.sends) {
+      console.log(`📥 Batching calls for ${sink.sender} (TX_SINK=${sink.mode})`);
+    } else if (!isGovernance) {
+      console.warn(`\n⚠️  WARNING: Signer (${signer.address}) is not the governance address (${governance})`);
       console.warn(`   Configuration operations will likely fail unless executed through governance.\n`);
     }
 
+    if (options.taxAction && !isGovernance && sink.sends) {
+      throw new Error(
+        `TAX_ACTION=${options.taxAction} requires the governance signer (${governance}). ` +
+          `Batch the change for governance instead (TX_SINK=dao or TX_SINK=safe).`
+      );
+    }
+
     // Execute configurations
     let operationsExecuted = 0;
 
     if (options.poolAddress) {
-      await addPool(contract, options.poolAddress);
+      await addPool(cap, sink, options.poolAddress);
       operationsExecuted++;
     }
 
     if (options.newFeeRecipient) {
-      await updateFeeRecipient(contract, options.newFeeRecipient);
+      await updateFeeRecipient(cap, sink, options.newFeeRecipient);
       operationsExecuted++;
     }
 
-    if (options.taxes) {
-      await updateTaxes(contract, options.taxes);
+    if (options.taxAction) {
+      await runTaxAction(cap, sink, options);
       operationsExecuted++;
     }
 
@@ -205,11 +325,18 @@ async function main() {
       console.log("\nAvailable configuration options:");
       console.log("  - POOL_ADDRESS: Add AMM pool address");
       console.log("  - NEW_FEE_RECIPIENT: Update fee recipient");
+      console.log(
+        "  - TAX_ACTION=propose + TRANSFER_TAX_BP, SELL_TAX_BP, BUY_TAX_BP: Propose new taxes (24h timelock)"
+      );
+      console.log("  - TAX_ACTION=apply: Apply the pending tax change after the timelock");
+      console.log("  - TAX_ACTION=cancel: Cancel the pending tax change");
       console.log("\nSet these in your .env file and run again.");
     }
 
+    await sink.flush();
+
     // Display final configuration
-    await displayCurrentConfig(contract, options);
+    await displayCurrentConfig(cap, options);
 
     console.log("\n🎉 Configuration completed successfully!");
 
@@ -225,4 +352,7 @@ async function main() {
   }
 }
 
-main();
+// The tax actions are reused by test/unit/TaxTimelock.test.ts
+if (require.main === module) {
+  main();
+}
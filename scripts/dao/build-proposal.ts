@@ -0,0 +1,366 @@
+/**
+ * Build Aragon DAO proposals for CAP token governance actions
+ *
+ * Every admin function on CAPToken is onlyGovernance, so once governance is the
+ * Aragon DAO each change has to be voted on as an IDAO.Action[]. This module
+ * encodes those actions, writes them to a proposal JSON and can optionally submit
+ * the proposal through the TokenVoting plugin.
+ *
+ * Proposal spec (PROPOSAL_SPEC=path/to/spec.json):
+ *   {
+ *     "title": "Lower sell tax",
+ *     "summary": "Reduce sell tax to 0.5%",
+ *     "actions": [
+ *       { "method": "proposeTaxChange", "args": [100, 50, 0] },
+ *       { "method": "addPool", "args": ["0x..."] }
+ *     ]
+ *   }
+ *
+ * Usage:
+ *   PROPOSAL_SPEC=spec.json npm run dao:build-proposal
+ *   PROPOSAL_SPEC=spec.json SUBMIT_PROPOSAL=true npm run dao:build-proposal
+ *
+ * Optional:
+ *   PROPOSAL_OUTPUT            Where to write the proposal JSON (default: proposals/<network>-<timestamp>.json)
+ *   PROPOSAL_METADATA_URI      Metadata URI (e.g. ipfs://<CID>) attached when submitting
+ *   CAP_GOVERNANCE_PLUGIN_ADDRESS  TokenVoting plugin used when submitting
+ */
+
+import { ethers, network } from "hardhat";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import * as dotenv from "dotenv";
+import type { utils } from "ethers";
+import { CAPToken__factory } from "../../typechain-types";
+import { CapClient, resolveCapTokenAddress } from "../sdk";
+import { TaxRates, formatTaxRates, validateTaxRates } from "../utils/tax-validation";
+
+dotenv.config();
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/** IDAO.Action as executed by the Aragon DAO */
+export interface DaoAction {
+  to: string;
+  value: string;
+  data: string;
+}
+
+/** Every onlyGovernance function on CAPToken with its arguments */
+export type CapGovernanceCall =
+  | { method: "setGovernance"; args: [string] }
+  | { method: "proposeTaxChange"; args: [number, number, number] }
+  | { method: "applyTaxChange"; args?: [] }
+  | { method: "cancelTaxChange"; args?: [] }
+  | { method: "setFeeRecipient"; args: [string] }
+  | { method: "addPool"; args: [string] }
+  | { method: "removePool"; args: [string] }
+  | { method: "proposeMint"; args: [string, string] }
+  | { method: "executeMint"; args?: [] }
+  | { method: "cancelMint"; args?: [] }
+  | { method: "upgradeToAndCall"; args: [string, string?] };
+
+export type CapGovernanceMethod = CapGovernanceCall["method"];
+
+export interface ProposalAction extends DaoAction {
+  method: CapGovernanceMethod;
+  args: (string | number)[];
+  description: string;
+}
+
+export interface DaoProposal {
+  title: string;
+  summary: string;
+  network: string;
+  chainId: number;
+  capToken: string;
+  dao?: string;
+  plugin?: string;
+  createdAt: string;
+  actions: ProposalAction[];
+}
+
+export interface ProposalSpec {
+  title: string;
+  summary?: string;
+  actions: CapGovernanceCall[];
+}
+
+const capInterface: utils.Interface = CAPToken__factory.createInterface();
+
+function requireAddress(method: string, value: string, allowZero = false): string {
+  if (!ethers.utils.isAddress(value)) {
+    throw new Error(`${method}: invalid address ${value}`);
+  }
+  if (!allowZero && value.toLowerCase() === ZERO_ADDRESS) {
+    throw new Error(`${method}: zero address is not allowed`);
+  }
+  return ethers.utils.getAddress(value);
+}
+
+function describeCall(call: CapGovernanceCall, capToken: string): string {
+  switch (call.method) {
+    case "setGovernance":
+      return `Transfer governance to ${call.args[0]}`;
+    case "proposeTaxChange": {
+      const [transfer, sell, buy] = call.args;
+      return `Propose taxes: ${formatTaxRates({ transfer, sell, buy })} (24h timelock)`;
+    }
+    case "applyTaxChange":
+      return "Apply the pending tax change";
+    case "cancelTaxChange":
+      return "Cancel the pending tax change";
+    case "setFeeRecipient":
+      return call.args[0] === ZERO_ADDRESS ? "Switch to burn mode" : `Set fee recipient to ${call.args[0]}`;
+    case "addPool":
+      return `Register AMM pool ${call.args[0]}`;
+    case "removePool":
+      return `Unregister AMM pool ${call.args[0]}`;
+    case "proposeMint":
+      return `Propose mint of ${ethers.utils.formatEther(call.args[1])} CAP to ${call.args[0]} (7d timelock)`;
+    case "executeMint":
+      return "Execute the pending mint";
+    case "cancelMint":
+      return "Cancel the pending mint";
+    case "upgradeToAndCall":
+      return `Upgrade ${capToken} to implementation ${call.args[0]}${call.args[1] && call.args[1] !== "0x" ? " and call initializer" : ""}`;
+  }
+}
+
+/**
+ * Validate and encode a single CAPToken governance call into an IDAO.Action
+ */
+export function buildCapAction(capToken: string, call: CapGovernanceCall): ProposalAction {
+  let args: (string | number)[];
+
+  switch (call.method) {
+    case "setGovernance":
+      args = [requireAddress(call.method, call.args[0])];
+      break;
+    case "proposeTaxChange": {
+      const [transfer, sell, buy] = call.args;
+      const taxes: TaxRates = { transfer, sell, buy };
+      const errors = validateTaxRates(taxes);
+      if (errors.length > 0) {
+        throw new Error(`proposeTaxChange would revert:\n   - ${errors.join("\n   - ")}`);
+      }
+      args = [transfer, sell, buy];
+      break;
+    }
+    case "setFeeRecipient": {
+      const recipient = requireAddress(call.method, call.args[0], true);
+      if (recipient.toLowerCase() === capToken.toLowerCase()) {
+        throw new Error("setFeeRecipient: FEE_RECIPIENT_CANNOT_BE_CONTRACT");
+      }
+      args = [recipient];
+      break;
+    }
+    case "addPool":
+    case "removePool":
+      args = [requireAddress(call.method, call.args[0])];
+      break;
+    case "proposeMint": {
+      const amount = BigInt(call.args[1]);
+      if (amount <= 0n) {
+        throw new Error("proposeMint: amount must be greater than zero");
+      }
+      args = [requireAddress(call.method, call.args[0]), amount.toString()];
+      break;
+    }
+    case "upgradeToAndCall": {
+      const initData = call.args[1] || "0x";
+      if (!ethers.utils.isHexString(initData)) {
+        throw new Error(`upgradeToAndCall: init data must be hex, got ${initData}`);
+      }
+      args = [requireAddress(call.method, call.args[0]), initData];
+      break;
+    }
+    default:
+      args = [];
+  }
+
+  const normalized = { method: call.method, args } as CapGovernanceCall;
+
+  return {
+    to: capToken,
+    value: "0",
+    data: capInterface.encodeFunctionData(call.method, args),
+    method: call.method,
+    args,
+    description: describeCall(normalized, capToken),
+  };
+}
+
+/**
+ * Build a full proposal for the given network from a list of governance calls
+ */
+export function buildProposal(
+  spec: ProposalSpec,
+  context: { network: string; chainId: number; capToken: string; dao?: string; plugin?: string }
+): DaoProposal {
+  if (spec.actions.length === 0) {
+    throw new Error("Proposal must contain at least one action");
+  }
+
+  return {
+    title: spec.title,
+    summary: spec.summary || "",
+    network: context.network,
+    chainId: context.chainId,
+    capToken: context.capToken,
+    dao: context.dao,
+    plugin: context.plugin,
+    createdAt: new Date().toISOString(),
+    actions: spec.actions.map((call) => buildCapAction(context.capToken, call)),
+  };
+}
+
+/**
+ * Strip a proposal (or a tx-sink action list) down to the IDAO.Action[] the DAO will execute
+ */
+export function toDaoActions(proposal: { actions: DaoAction[] }): DaoAction[] {
+  return proposal.actions.map(({ to, value, data }) => ({ to, value, data }));
+}
+
+export function writeProposal(proposal: DaoProposal, outputPath?: string): string {
+  const path =
+    outputPath ||
+    join(process.cwd(), "proposals", `${proposal.network}-${proposal.createdAt.replace(/[:.]/g, "-")}.json`);
+
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  writeFileSync(path, JSON.stringify(proposal, null, 2) + "\n", "utf8");
+  return path;
+}
+
+// MajorityVotingBase.VoteOption: 0 = None, 1 = Abstain, 2 = Yes, 3 = No
+const VOTE_OPTION_NONE = 0;
+
+const TOKEN_VOTING_ABI = [
+  "function createProposal(bytes _metadata, tuple(address to, uint256 value, bytes data)[] _actions, uint256 _allowFailureMap, uint64 _startDate, uint64 _endDate, uint8 _voteOption, bool _tryEarlyExecution) external returns (uint256 proposalId)",
+  "event ProposalCreated(uint256 indexed proposalId, address indexed creator, uint64 startDate, uint64 endDate, bytes metadata, tuple(address to, uint256 value, bytes data)[] actions, uint256 allowFailureMap)",
+];
+
+/**
+ * Submit a proposal through the TokenVoting plugin
+ * @returns The proposal ID and transaction hash
+ */
+export async function submitProposal(
+  proposal: { actions: DaoAction[] },
+  pluginAddress: string,
+  metadataUri?: string
+): Promise<{ proposalId: string; txHash: string }> {
+  const [signer] = await ethers.getSigners();
+  const plugin = new ethers.Contract(pluginAddress, TOKEN_VOTING_ABI, signer);
+
+  const metadata = metadataUri ? ethers.utils.toUtf8Bytes(metadataUri) : "0x";
+
+  // Start now, end after the plugin's minimum duration (0 = use plugin defaults)
+  const tx = await plugin.createProposal(metadata, toDaoActions(proposal), 0, 0, 0, VOTE_OPTION_NONE, false);
+  const receipt = await tx.wait();
+
+  for (const log of receipt.logs) {
+    try {
+      const parsed = plugin.interface.parseLog(log);
+      if (parsed && parsed.name === "ProposalCreated") {
+        return { proposalId: parsed.args.proposalId.toString(), txHash: receipt.transactionHash };
+      }
+    } catch {
+      // Not a plugin event
+    }
+  }
+
+  throw new Error(`ProposalCreated event not found in transaction ${receipt.transactionHash}`);
+}
+
+function loadProposalSpec(): ProposalSpec {
+  const specPath = process.env.PROPOSAL_SPEC;
+  if (!specPath) {
+    throw new Error("PROPOSAL_SPEC not set. Point it at a JSON file with { title, summary, actions }");
+  }
+  if (!existsSync(specPath)) {
+    throw new Error(`Proposal spec not found: ${specPath}`);
+  }
+
+  return JSON.parse(readFileSync(specPath, "utf8"));
+}
+
+async function main() {
+  console.log("\n╔════════════════════════════════════════════════════════════╗");
+  console.log("║              Build CAP Governance Proposal                 ║");
+  console.log("╚════════════════════════════════════════════════════════════╝\n");
+
+  const chain = await ethers.provider.getNetwork();
+  const capToken = resolveCapTokenAddress(network.name);
+  const daoAddress = process.env.ARAGON_DAO_ADDRESS;
+  const pluginAddress = process.env.CAP_GOVERNANCE_PLUGIN_ADDRESS;
+
+  const spec = loadProposalSpec();
+  const proposal = buildProposal(spec, {
+    network: network.name,
+    chainId: Number(chain.chainId),
+    capToken,
+    dao: daoAddress,
+    plugin: pluginAddress,
+  });
+
+  console.log("📋 Proposal:");
+  console.log("  Title:", proposal.title);
+  console.log("  CAP Token:", capToken);
+  console.log("  Actions:");
+  proposal.actions.forEach((action, index) => {
+    console.log(`   ${index + 1}. ${action.method}(${action.args.join(", ")})`);
+    console.log(`      ${action.description}`);
+  });
+  console.log("");
+
+  // The proposal only executes if the DAO holds governance
+  if (daoAddress) {
+    const cap = await CapClient.connect(capToken, ethers.provider);
+    if (!(await cap.isGovernance(daoAddress))) {
+      console.warn(`⚠️  WARNING: CAP governance (${await cap.governance()}) is not the DAO (${daoAddress})`);
+      console.warn("   The proposal actions will revert with ONLY_GOVERNANCE when executed.\n");
+    }
+  }
+
+  const outputPath = writeProposal(proposal, process.env.PROPOSAL_OUTPUT);
+  console.log("📄 Proposal written to:", outputPath);
+
+  if (process.env.SUBMIT_PROPOSAL !== "true") {
+    console.log("\n💡 To submit through the TokenVoting plugin, re-run with SUBMIT_PROPOSAL=true");
+    return;
+  }
+
+  if (!pluginAddress) {
+    throw new Error("❌ CAP_GOVERNANCE_PLUGIN_ADDRESS not set in .env");
+  }
+
+  if (!process.env.PROPOSAL_METADATA_URI) {
+    console.warn("⚠️  PROPOSAL_METADATA_URI not set - the proposal will have no title in the Aragon UI");
+  }
+
+  console.log("\n📤 Submitting proposal to TokenVoting plugin:", pluginAddress);
+  const { proposalId, txHash } = await submitProposal(proposal, pluginAddress, process.env.PROPOSAL_METADATA_URI);
+
+  console.log("✅ Proposal created!");
+  console.log("  Proposal ID:", proposalId);
+  console.log("  Transaction:", txHash);
+  if (daoAddress) {
+    console.log(`  View: https://app.aragon.org/dao/ethereum-${network.name}/${daoAddress}/proposals/${proposalId}`);
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => {
+      console.log("\n✅ Script completed successfully\n");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("\n❌ Script failed:", error.message);
+      process.exit(1);
+    });
+}
@@ -11,13 +11,19 @@
  * - Upgrades require DAO approval
  * - Minting requires DAO approval + 7d timelock
  *
+ * When governance is already a Safe (e.g. during the launch phase), TX_SINK=safe writes the
+ * setGovernance call as a Safe Transaction Builder batch for it instead (see utils/tx-sink.ts).
+ *
  * Usage:
  *   npm run dao:transfer-governance
  *   or: npx hardhat run --network sepolia scripts/dao/transfer-governance.ts
+ *   TX_SINK=safe npm run dao:transfer-governance
  */
 
-import { ethers } from "hardhat";
+import { ethers, network as hardhatNetwork } from "hardhat";
 import * as dotenv from "dotenv";
+import { getDeployment, recordDeploymentEvent } from "../utils/deployment-tracker";
+import { TxSink } from "../utils/tx-sink";
 
 dotenv.config();
 
@@ -65,13 +71,21 @@ async function main() {
     return;
   }
 
-  if (currentGovernance.toLowerCase() !== deployer.address.toLowerCase()) {
+  const sink = await TxSink.open({
+    title: "Transfer CAP token governance to DAO",
+    name: "transfer-governance",
+    safe: currentGovernance,
+    dao: currentGovernance,
+  });
+
+  if (sink.sender.toLowerCase() !== currentGovernance.toLowerCase()) {
+    const sender = sink.sends ? "deployer" : `TX_SINK=${sink.mode} sender`;
     throw new Error(
-      `❌ Current governance (${currentGovernance}) is not the deployer (${deployer.address}). Cannot transfer.`
+      `❌ Current governance (${currentGovernance}) is not the ${sender} (${sink.sender}). Cannot transfer.`
     );
   }
 
-  console.log("✅ Deployer has governance control\n");
+  console.log(`✅ ${sink.sends ? "Deployer" : sink.sender} has governance control\n`);
 
   // Confirm transfer
   console.log("⚠️  WARNING: This action is IRREVERSIBLE!");
@@ -89,16 +103,18 @@ async function main() {
   console.log(`   To:   ${daoAddress}\n`);
 
   try {
-    const tx = await capToken.setGovernance(daoAddress);
-    console.log("📝 Transaction submitted:", tx.hash);
-    console.log("⏳ Waiting for confirmation...\n");
-
-    const receipt = await tx.wait();
+    const txHash = await sink.submit({
+      to: capTokenAddress,
+      data: capToken.interface.encodeFunctionData("setGovernance", [daoAddress]),
+      description: `setGovernance(${daoAddress})`,
+    });
+    if (!txHash) {
+      await sink.flush();
+      console.log("\n💡 Governance moves once the batch executes; re-run this script afterwards to verify");
+      return;
+    }
 
-    console.log("✅ Transaction confirmed!");
-    console.log("   Block:", receipt.blockNumber);
-    console.log("   Gas Used:", receipt.gasUsed.toString());
-    console.log("");
+    console.log("✅ Transaction confirmed!\n");
 
     // Verify transfer
     console.log("🔍 Verifying governance transfer...");
@@ -106,7 +122,20 @@ async function main() {
     console.log("   New Governance:", newGovernance);
 
     if (newGovernance.toLowerCase() === daoAddress.toLowerCase()) {
-      console.log("✅ Governance successfully transferred to DAO!\n");
+      console.log("✅ Governance successfully transferred to DAO!");
+
+      // Append the transfer to the deployment history if this is the tracked deployment
+      const deployment = getDeployment(hardhatNetwork.name);
+      if (deployment && deployment.proxyAddress.toLowerCase() === capTokenAddress.toLowerCase()) {
+        recordDeploymentEvent(hardhatNetwork.name, {
+          action: "governance-transfer",
+          contract: "CAPToken",
+          timestamp: new Date().toISOString(),
+          txHash,
+          record: { ...deployment, owner: newGovernance },
+        });
+      }
+      console.log("");
 
       console.log("╔════════════════════════════════════════════════════════════╗");
       console.log("║                  🎉 TRANSFER COMPLETE!                     ║");
@@ -1,9 +1,10 @@
 import { ethers, upgrades, network } from "hardhat";
 import { getNetworkConfig, getDeploymentConfig, validateEnvironment } from "./config/environments";
+import { CapClient } from "./sdk";
 import { saveDeployment } from "./utils/deployment-tracker";
 import { runPostDeploymentUpdates } from "./utils/post-deployment";
 
-interface DeployConfig {
+export interface DeployConfig {
   owner: string;
   feeRecipient: string;
 }
@@ -16,18 +17,21 @@ async function validateConfig(networkName: string): Promise<DeployConfig> {
   const config = getDeploymentConfig(networkName);
 
   // Validate addresses
-  if (!ethers.isAddress(config.owner)) {
+  if (!ethers.utils.isAddress(config.owner)) {
     throw new Error(`Invalid OWNER_ADDRESS: ${config.owner}`);
   }
 
-  if (config.feeRecipient !== "0x0000000000000000000000000000000000000000" && !ethers.isAddress(config.feeRecipient)) {
+  if (
+    config.feeRecipient !== "0x0000000000000000000000000000000000000000" &&
+    !ethers.utils.isAddress(config.feeRecipient)
+  ) {
     throw new Error(`Invalid FEE_RECIPIENT: ${config.feeRecipient}`);
   }
 
   return config;
 }
 
-async function deployContract(config: DeployConfig, networkName: string) {
+export async function deployContract(config: DeployConfig, networkName: string) {
   const networkConfig = getNetworkConfig(networkName);
 
   console.log("🚀 Deploying Cyberia (CAP) Token...");
@@ -41,7 +45,7 @@ async function deployContract(config: DeployConfig, networkName: string) {
   console.log(`🔑 Deployer: ${deployer.address}`);
 
   const balance = await ethers.provider.getBalance(deployer.address);
-  console.log(`💵 Deployer Balance: ${ethers.formatEther(balance)} ETH`);
+  console.log(`💵 Deployer Balance: ${ethers.utils.formatEther(balance)} ETH`);
 
   const contractFactory = await ethers.getContractFactory("CAPToken");
 
@@ -51,34 +55,26 @@ async function deployContract(config: DeployConfig, networkName: string) {
     initializer: "initialize",
   });
 
-  await contract.waitForDeployment();
-  const proxyAddress = await contract.getAddress();
+  await contract.deployed();
+  const proxyAddress = contract.address;
 
   // Get implementation address
   const implementationAddress = await upgrades.erc1967.getImplementationAddress(proxyAddress);
 
   // Get deployment transaction details
-  const deployTx = contract.deploymentTransaction();
-  if (!deployTx) {
-    throw new Error("Deployment transaction not found");
-  }
-
-  const receipt = await deployTx.wait(networkConfig.confirmations);
-  if (!receipt) {
-    throw new Error("Transaction receipt not found");
-  }
+  const receipt = await contract.deployTransaction.wait(networkConfig.confirmations);
 
   console.log(`✅ CAP Token deployed successfully!`);
   console.log(`📍 Proxy Address: ${proxyAddress}`);
   console.log(`📍 Implementation Address: ${implementationAddress}`);
-  console.log(`📝 Transaction Hash: ${receipt.hash}`);
+  console.log(`📝 Transaction Hash: ${receipt.transactionHash}`);
   console.log(`⛽ Gas Used: ${receipt.gasUsed.toString()}`);
 
   return {
     contract,
     proxyAddress,
     implementationAddress,
-    txHash: receipt.hash,
+    txHash: receipt.transactionHash,
     blockNumber: receipt.blockNumber,
     deployer: deployer.address,
   };
@@ -87,7 +83,9 @@ async function deployContract(config: DeployConfig, networkName: string) {
 async function verifyDeployment(address: string, config: DeployConfig) {
   console.log("\n🔍 Verifying deployment...");
 
-  const contract = await ethers.getContractAt("CAPToken", address);
+  const [signer] = await ethers.getSigners();
+  const cap = await CapClient.connect(address, signer, { verify: false });
+  const contract = cap.token;
 
   const name = await contract.name();
   const symbol = await contract.symbol();
@@ -97,13 +95,12 @@ async function verifyDeployment(address: string, config: DeployConfig) {
 
   console.log(`Token Name: ${name}`);
   console.log(`Token Symbol: ${symbol}`);
-  console.log(`Total Supply: ${ethers.formatEther(totalSupply)} CAP`);
+  console.log(`Total Supply: ${ethers.utils.formatEther(totalSupply)} CAP`);
   console.log(`Governance: ${governance}`);
   console.log(`Fee Recipient: ${feeRecipient}`);
 
   // Validate deployment
-  if (name !== "Cyberia") throw new Error("Invalid token name");
-  if (symbol !== "CAP") throw new Error("Invalid token symbol");
+  await cap.verify();
   if (governance !== config.owner) throw new Error("Governance mismatch");
   if (feeRecipient !== config.feeRecipient) throw new Error("Fee recipient mismatch");
 
@@ -170,4 +167,7 @@ async function main() {
   }
 }
 
-main();
+// deployContract is reused by scripts/manifest/planner.ts
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,203 @@
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+/**
+ * SQLite storage for decoded CAPToken events
+ *
+ * Tables:
+ *   events - one row per log; uint256 arguments are stored as decimal strings inside the args JSON,
+ *            so they can be read with json_extract() without losing precision in the application
+ *   blocks - hashes of the most recent (unconfirmed) blocks, used to detect reorgs
+ *   state  - indexer cursor and the contract/chain the database belongs to
+ */
+
+export type EventStore = Database.Database;
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  /** Unix seconds */
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  event: string;
+  args: Record<string, string>;
+}
+
+export interface EventQuery {
+  event?: string | string[];
+  fromBlock?: number;
+  toBlock?: number;
+  /** Only events in blocks that have reached the network's confirmation depth */
+  confirmedOnly?: boolean;
+}
+
+interface EventRow {
+  block_number: number;
+  block_hash: string;
+  block_timestamp: number;
+  transaction_hash: string;
+  log_index: number;
+  event: string;
+  args: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_timestamp INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    event TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (event, block_number);
+
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/**
+ * Open (and create if needed) an event database
+ * @param path - File path, or ":memory:" for tests
+ */
+export function openEventStore(path: string): EventStore {
+  if (path !== ":memory:") {
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  return db;
+}
+
+export function getState(db: EventStore, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM state WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setState(db: EventStore, key: string, value: string | number): void {
+  db.prepare("INSERT INTO state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(
+    key,
+    String(value)
+  );
+}
+
+/**
+ * Bind the database to one contract on one chain, so a file is never reused across deployments
+ */
+export function bindEventStore(db: EventStore, contract: string, chainId: number): void {
+  const boundContract = getState(db, "contract");
+  const boundChainId = getState(db, "chainId");
+
+  if (boundContract === undefined) {
+    setState(db, "contract", contract.toLowerCase());
+    setState(db, "chainId", chainId);
+    return;
+  }
+
+  if (boundContract !== contract.toLowerCase() || Number(boundChainId) !== chainId) {
+    throw new Error(
+      `Event database belongs to ${boundContract} on chain ${boundChainId}, not ${contract} on chain ${chainId}`
+    );
+  }
+}
+
+export function insertEvents(db: EventStore, events: IndexedEvent[]): void {
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO events
+       (block_number, block_hash, block_timestamp, transaction_hash, log_index, event, args)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const event of events) {
+    insert.run(
+      event.blockNumber,
+      event.blockHash,
+      event.blockTimestamp,
+      event.transactionHash,
+      event.logIndex,
+      event.event,
+      JSON.stringify(event.args)
+    );
+  }
+}
+
+/**
+ * Drop everything indexed from a block onwards (after a reorg)
+ */
+export function deleteFromBlock(db: EventStore, blockNumber: number): void {
+  db.prepare("DELETE FROM events WHERE block_number >= ?").run(blockNumber);
+  db.prepare("DELETE FROM blocks WHERE number >= ?").run(blockNumber);
+}
+
+export function recordBlockHashes(db: EventStore, blocks: { number: number; hash: string }[]): void {
+  const insert = db.prepare(
+    "INSERT INTO blocks (number, hash) VALUES (?, ?) ON CONFLICT(number) DO UPDATE SET hash = excluded.hash"
+  );
+  for (const block of blocks) {
+    insert.run(block.number, block.hash);
+  }
+}
+
+/**
+ * Recorded block hashes, newest first
+ */
+export function getRecordedBlocks(db: EventStore): { number: number; hash: string }[] {
+  return db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as { number: number; hash: string }[];
+}
+
+export function pruneBlockHashes(db: EventStore, belowBlock: number): void {
+  db.prepare("DELETE FROM blocks WHERE number < ?").run(belowBlock);
+}
+
+export function queryEvents(db: EventStore, query: EventQuery = {}): IndexedEvent[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.event !== undefined) {
+    const names = Array.isArray(query.event) ? query.event : [query.event];
+    conditions.push(`event IN (${names.map(() => "?").join(", ")})`);
+    params.push(...names);
+  }
+  if (query.fromBlock !== undefined) {
+    conditions.push("block_number >= ?");
+    params.push(query.fromBlock);
+  }
+  if (query.toBlock !== undefined) {
+    conditions.push("block_number <= ?");
+    params.push(query.toBlock);
+  }
+  if (query.confirmedOnly) {
+    conditions.push("block_number <= ?");
+    params.push(Number(getState(db, "confirmedBlock") ?? -1));
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = db
+    .prepare(`SELECT * FROM events ${where} ORDER BY block_number, log_index`)
+    .all(...params) as EventRow[];
+
+  return rows.map((row) => ({
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    blockTimestamp: row.block_timestamp,
+    transactionHash: row.transaction_hash,
+    logIndex: row.log_index,
+    event: row.event,
+    args: JSON.parse(row.args),
+  }));
+}
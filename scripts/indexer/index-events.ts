@@ -0,0 +1,95 @@
+import { ethers, network } from "hardhat";
+import { join } from "path";
+import { getNetworkConfig } from "../config/environments";
+import { CapClient, resolveCapTokenAddress } from "../sdk";
+import { getDeployment } from "../utils/deployment-tracker";
+import { bindEventStore, openEventStore } from "./event-store";
+import { syncEvents } from "./indexer";
+
+/**
+ * CAPToken event indexer
+ *
+ * Backfills tax, pool, governance and mint events into SQLite from the deployment block recorded
+ * in deployments.json, then follows new blocks. Blocks newer than the network's `confirmations`
+ * are re-checked on every poll and re-indexed if they were reorged.
+ *
+ * Usage:
+ *   npm run indexer:sepolia
+ *   INDEXER_FOLLOW=false npm run indexer:sepolia     # backfill and exit
+ *   npx hardhat run scripts/indexer/index-events.ts --network localhost
+ *
+ * Optional:
+ *   CAP_TOKEN_ADDRESS       token to index (default: latest CAPToken in deployments.json)
+ *   INDEXER_FROM_BLOCK      first block for an empty database (default: deployment block)
+ *   INDEXER_DB              database file (default: indexer/<network>.sqlite)
+ *   INDEXER_POLL_INTERVAL   milliseconds between polls (default: 12000)
+ *
+ * Query example:
+ *   sqlite3 indexer/sepolia.sqlite \
+ *     "SELECT block_number, json_extract(args, '$.taxAmount') FROM events WHERE event = 'TaxCollected'"
+ */
+
+const DEFAULT_POLL_INTERVAL = 12_000;
+
+async function main() {
+  const networkName = network.name;
+  const networkConfig = getNetworkConfig(networkName);
+  const deployment = getDeployment(networkName);
+
+  const capAddress = resolveCapTokenAddress(networkName);
+
+  const fromBlock = process.env.INDEXER_FROM_BLOCK
+    ? Number(process.env.INDEXER_FROM_BLOCK)
+    : deployment?.blockNumber || 0;
+  const dbPath = process.env.INDEXER_DB || join("indexer", `${networkName}.sqlite`);
+  const pollInterval = Number(process.env.INDEXER_POLL_INTERVAL) || DEFAULT_POLL_INTERVAL;
+  const follow = process.env.INDEXER_FOLLOW !== "false";
+
+  console.log("\n==================================================");
+  console.log("📚 CAP Event Indexer");
+  console.log("==================================================\n");
+  console.log(`🌐 Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
+  console.log(`📍 CAP Token: ${capAddress}`);
+  console.log(`🗄️  Database: ${dbPath}`);
+  console.log(`🔒 Confirmations: ${networkConfig.confirmations}`);
+
+  await CapClient.connect(capAddress, ethers.provider);
+
+  const db = openEventStore(dbPath);
+  bindEventStore(db, capAddress, networkConfig.chainId);
+
+  let stopping = false;
+  process.on("SIGINT", () => {
+    console.log("\n🛑 Stopping after the current sync...");
+    stopping = true;
+  });
+
+  try {
+    do {
+      const result = await syncEvents(db, capAddress, {
+        fromBlock,
+        confirmations: networkConfig.confirmations,
+      });
+
+      if (result.reorgedFrom !== undefined) {
+        console.warn(`⚠️  Reorg detected - re-indexed from block ${result.reorgedFrom}`);
+      }
+      if (result.fromBlock <= result.toBlock) {
+        console.log(`✅ Blocks ${result.fromBlock}-${result.toBlock}: ${result.inserted} event(s)`);
+      }
+
+      if (follow && !stopping) {
+        await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      }
+    } while (follow && !stopping);
+  } finally {
+    db.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
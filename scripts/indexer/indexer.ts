@@ -0,0 +1,164 @@
+import { ethers } from "hardhat";
+import { CapClient } from "../sdk";
+import { queryInChunks } from "../utils/logs";
+import {
+  EventStore,
+  IndexedEvent,
+  deleteFromBlock,
+  getRecordedBlocks,
+  getState,
+  insertEvents,
+  pruneBlockHashes,
+  recordBlockHashes,
+  setState,
+} from "./event-store";
+
+/**
+ * CAPToken events written to the database. Transfer and the ERC20Votes events are left out;
+ * balances and votes are better read from the contract.
+ */
+export const INDEXED_EVENTS = [
+  "TaxCollected",
+  "TaxBurned",
+  "PoolAdded",
+  "PoolRemoved",
+  "TaxChangeProposed",
+  "TaxChangeCancelled",
+  "TaxesUpdated",
+  "MintProposed",
+  "MintCancelled",
+  "TokensMinted",
+  "GovernanceTransferred",
+  "FeeRecipientUpdated",
+];
+
+export interface SyncOptions {
+  /** First block to index when the database is empty (usually the deployment block) */
+  fromBlock: number;
+  /** Blocks after which a block is treated as final (NetworkConfig.confirmations) */
+  confirmations: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  inserted: number;
+  /** First block that was rolled back, if a reorg was detected */
+  reorgedFrom?: number;
+}
+
+async function getBlockHash(blockNumber: number): Promise<string | undefined> {
+  const block = await ethers.provider.getBlock(blockNumber);
+  return block?.hash || undefined;
+}
+
+/**
+ * Compare the recorded hashes of recent blocks with the chain
+ * @returns The lowest block that no longer matches, or undefined if there was no reorg
+ */
+export async function detectReorg(db: EventStore): Promise<number | undefined> {
+  const recorded = getRecordedBlocks(db);
+  let reorgedFrom: number | undefined;
+
+  for (const block of recorded) {
+    if ((await getBlockHash(block.number)) === block.hash) {
+      break;
+    }
+    reorgedFrom = block.number;
+  }
+
+  if (reorgedFrom !== undefined && reorgedFrom === recorded[recorded.length - 1].number) {
+    throw new Error(
+      `Reorg deeper than the ${recorded.length} unconfirmed blocks tracked (down to block ${reorgedFrom}). ` +
+        `Increase confirmations or rebuild the database.`
+    );
+  }
+
+  return reorgedFrom;
+}
+
+/**
+ * Index CAPToken events from the last indexed block up to the chain head
+ *
+ * Hashes of the last `confirmations` blocks are kept; if any of them changed since the previous
+ * sync, everything from the first changed block is deleted and indexed again.
+ */
+export async function syncEvents(db: EventStore, capAddress: string, options: SyncOptions): Promise<SyncResult> {
+  // Called on every poll: index-events.ts checks the token identity once, at startup
+  const { token: cap } = await CapClient.connect(capAddress, ethers.provider, { verify: false });
+
+  const reorgedFrom = await detectReorg(db);
+  if (reorgedFrom !== undefined) {
+    db.transaction(() => {
+      deleteFromBlock(db, reorgedFrom);
+      setState(db, "lastBlock", reorgedFrom - 1);
+    })();
+  }
+
+  const lastBlock = Number(getState(db, "lastBlock") ?? options.fromBlock - 1);
+  const fromBlock = lastBlock + 1;
+  const toBlock = await ethers.provider.getBlockNumber();
+
+  // Hashes are read before the logs: if the chain reorgs in between, the next sync sees the mismatch
+  const windowStart = Math.max(toBlock - options.confirmations, 0);
+  const window: { number: number; hash: string }[] = [];
+  for (let number = windowStart; number <= toBlock; number++) {
+    const hash = await getBlockHash(number);
+    if (hash) {
+      window.push({ number, hash });
+    }
+  }
+
+  const events: IndexedEvent[] = [];
+  if (fromBlock <= toBlock) {
+    const logs = await queryInChunks(
+      (from, to) => ethers.provider.getLogs({ address: capAddress, fromBlock: from, toBlock: to }),
+      fromBlock,
+      toBlock
+    );
+
+    const timestamps = new Map<number, number>();
+    for (const log of logs) {
+      let parsed;
+      try {
+        parsed = cap.interface.parseLog(log);
+      } catch {
+        continue; // Not a CAPToken event
+      }
+      if (!parsed || !INDEXED_EVENTS.includes(parsed.name)) {
+        continue;
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await ethers.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block ? Number(block.timestamp) : 0);
+      }
+
+      const values = parsed.args;
+      const args: Record<string, string> = {};
+      parsed.eventFragment.inputs.forEach((input, index) => {
+        args[input.name] = String(values[index]);
+      });
+
+      events.push({
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        blockTimestamp: timestamps.get(log.blockNumber)!,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        event: parsed.name,
+        args,
+      });
+    }
+  }
+
+  db.transaction(() => {
+    insertEvents(db, events);
+    recordBlockHashes(db, window);
+    pruneBlockHashes(db, windowStart);
+    setState(db, "lastBlock", Math.max(lastBlock, toBlock));
+    setState(db, "confirmedBlock", toBlock - options.confirmations);
+  })();
+
+  return { fromBlock, toBlock, inserted: events.length, reorgedFrom };
+}
@@ -0,0 +1,137 @@
+import { ethers, network } from "hardhat";
+import { writeFileSync } from "fs";
+import { getHomeChain, getLayerZeroChainById, getOFTChains } from "../config/layerzero";
+import { formatCapAmount } from "../reports/tax-report";
+import { getNetworkProvider } from "../utils/network-providers";
+import { requireOFTAddress, resolveOFTAddress } from "../utils/oft-registry";
+import { AuditTarget, SupplyAudit, auditSupply } from "../utils/supply-audit";
+
+/**
+ * Cross-chain supply audit
+ *
+ * Reads balanceOf(OFTAdapter) on Ethereum/Sepolia and totalSupply() on every OFT chain with a
+ * deployment, matches OFTSent/OFTReceived GUIDs to find messages still in flight, and checks
+ *   locked = Σ OFT supply + in flight
+ * Exits with code 1 when the adapter holds less than that, or when a GUID cannot be matched, so
+ * it can run on a schedule (see .github/workflows/supply-audit.yml).
+ *
+ * --network only selects testnet or mainnet; every chain is read through its RPC URL in
+ * hardhat.config.ts. Chains without a deployment in deployments.json (or env override) are skipped.
+ *
+ * Usage:
+ *   npm run oft:audit-supply -- --network sepolia
+ *   SUPPLY_AUDIT_OUTPUT=audit.json npm run oft:audit-supply -- --network mainnet
+ *
+ * Optional:
+ *   SUPPLY_AUDIT_OUTPUT  Write the audit as JSON to this file
+ *   LOG_CHUNK_SIZE       Block range per eth_getLogs call
+ */
+
+function resolveTargets(isTestnet: boolean): AuditTarget[] {
+  const home = getHomeChain(isTestnet);
+  const adapter = requireOFTAddress("CAPTokenOFTAdapter", { chainId: home.chainId });
+  const targets: AuditTarget[] = [
+    {
+      name: home.name,
+      eid: home.eid,
+      kind: "CAPTokenOFTAdapter",
+      address: adapter.address,
+      provider: getNetworkProvider(home.hardhatNetwork),
+      fromBlock: adapter.record?.blockNumber ?? 0,
+    },
+  ];
+
+  for (const chain of getOFTChains(isTestnet)) {
+    const oft = resolveOFTAddress("CAPTokenOFT", { chainId: chain.chainId });
+    if (!oft) {
+      console.log(`⏭️  ${chain.name}: no CAPTokenOFT deployment, skipped`);
+      continue;
+    }
+    targets.push({
+      name: chain.name,
+      eid: chain.eid,
+      kind: "CAPTokenOFT",
+      address: oft.address,
+      provider: getNetworkProvider(chain.hardhatNetwork),
+      fromBlock: oft.record?.blockNumber ?? 0,
+    });
+  }
+
+  for (const target of targets) {
+    if (target.fromBlock === 0) {
+      console.warn(`⚠️  ${target.name}: deployment block unknown, scanning logs from block 0`);
+    }
+  }
+  return targets;
+}
+
+function displayAudit(audit: SupplyAudit) {
+  console.log("\n📊 Supply by Chain");
+  console.log("==================================================");
+  for (const chain of audit.chains) {
+    const label = chain.kind === "CAPTokenOFTAdapter" ? "locked" : "supply";
+    console.log(
+      `${chain.name.padEnd(20)} ${label} ${formatCapAmount(chain.amountLD).padStart(28)} CAP` +
+        `  (block ${chain.blockNumber}, ${chain.sent.length} sent, ${chain.received.length} received)`
+    );
+  }
+
+  const names = new Map(audit.chains.map((chain) => [chain.eid, chain.name]));
+  console.log(`\n✈️  In Flight (${audit.inFlight.length})`);
+  console.log("==================================================");
+  for (const message of audit.inFlight) {
+    console.log(
+      `${message.guid}  ${names.get(message.srcEid)} → ${names.get(message.dstEid)}  ${formatCapAmount(message.amountLD)} CAP`
+    );
+  }
+
+  console.log("\n⚖️  Invariant");
+  console.log("==================================================");
+  console.log(`Locked in adapter:  ${formatCapAmount(audit.locked)} CAP`);
+  console.log(`OFT supply:         ${formatCapAmount(audit.oftSupply)} CAP`);
+  console.log(`In flight:          ${formatCapAmount(audit.inFlightLD)} CAP`);
+  console.log(`Discrepancy:        ${formatCapAmount(audit.discrepancy)} CAP`);
+
+  for (const warning of audit.warnings) {
+    console.warn(`⚠️  ${warning}`);
+  }
+  for (const issue of audit.issues) {
+    console.error(`❌ ${issue}`);
+  }
+}
+
+async function main() {
+  try {
+    const chain = getLayerZeroChainById((await ethers.provider.getNetwork()).chainId);
+
+    console.log("\n╔════════════════════════════════════════════════════════════════╗");
+    console.log("║        CYBERIA (CAP) CROSS-CHAIN SUPPLY AUDIT                  ║");
+    console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+    console.log(`🌐 ${chain.isTestnet ? "Testnet" : "Mainnet"} chains (from --network ${network.name})`);
+
+    const audit = await auditSupply(resolveTargets(chain.isTestnet));
+    displayAudit(audit);
+
+    const output = process.env.SUPPLY_AUDIT_OUTPUT;
+    if (output) {
+      writeFileSync(
+        output,
+        JSON.stringify(audit, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n"
+      );
+      console.log(`\n💾 Audit written to ${output}`);
+    }
+
+    if (audit.ok) {
+      console.log("\n✅ Supply invariant holds");
+    } else {
+      console.error("\n❌ Supply invariant broken");
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("\n❌ Supply audit failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,256 @@
+import { ethers, network } from "hardhat";
+import type { CAPTokenOFT } from "../../typechain-types";
+import { LayerZeroChain, getLayerZeroChain, getLayerZeroChainById } from "../config/layerzero";
+import { BridgeQuote, CapBridge, DEFAULT_LZ_RECEIVE_GAS, UnlockQuote, addressToBytes32 } from "../sdk";
+import { getNetworkProvider } from "../utils/network-providers";
+import { requireOFTAddress } from "../utils/oft-registry";
+
+/**
+ * Bridge CAP between any two LayerZero chains in the registry
+ *
+ * The source chain is --network; the direction follows from the contracts on each side:
+ *   adapter → OFT  lock on Ethereum/Sepolia, mint on the OFT chain
+ *   OFT → adapter  burn on the OFT chain, unlock on Ethereum/Sepolia
+ *   OFT → OFT      burn on one OFT chain, mint on another
+ *
+ * Locking goes through a regular transferFrom, so minAmountLD is computed from the amount left
+ * after the current transferTaxBp (and the shared-decimals dust), minus BRIDGE_SLIPPAGE_BP.
+ * Unlocking is taxed again on the home chain; that leg is estimated from the home chain's RPC.
+ *
+ * Environment:
+ *   BRIDGE_TO           Destination network name (e.g. arbitrumSepolia, sepolia, mainnet)
+ *   BRIDGE_AMOUNT       Amount in CAP (e.g. 100 or 2.5)
+ *   BRIDGE_RECIPIENT    Recipient on the destination (default: the signer)
+ *   BRIDGE_SLIPPAGE_BP  Tolerance below the quoted amount (default: 0)
+ *   BRIDGE_GAS_LIMIT    Executor gas for lzReceive on the destination (default: 200000)
+ *   BRIDGE_FROM         Optional: expected source network, checked against --network
+ *   BRIDGE_DRY_RUN      true = quote only, send nothing
+ *
+ * Usage:
+ *   BRIDGE_TO=arbitrumSepolia BRIDGE_AMOUNT=100 npm run oft:bridge -- --network sepolia
+ *   BRIDGE_TO=sepolia BRIDGE_AMOUNT=50 BRIDGE_RECIPIENT=0x... npm run oft:bridge -- --network arbitrumSepolia
+ *   BRIDGE_TO=baseSepolia BRIDGE_AMOUNT=10 BRIDGE_DRY_RUN=true npm run oft:bridge -- --network optimismSepolia
+ */
+
+interface BridgeOptions {
+  source: LayerZeroChain;
+  destination: LayerZeroChain;
+  amount: bigint;
+  recipient: string;
+  slippageBp: number;
+  gasLimit: number;
+  dryRun: boolean;
+}
+
+function parseInteger(name: string, fallback: number, max: number): number {
+  const input = process.env[name];
+  if (!input) {
+    return fallback;
+  }
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw new Error(`Invalid ${name}: ${input} (expected an integer between 0 and ${max})`);
+  }
+  return value;
+}
+
+function parseBridgeOptions(source: LayerZeroChain, signer: string): BridgeOptions {
+  if (process.env.BRIDGE_FROM && process.env.BRIDGE_FROM !== source.hardhatNetwork) {
+    throw new Error(`BRIDGE_FROM is ${process.env.BRIDGE_FROM} but --network is ${source.hardhatNetwork}`);
+  }
+
+  const to = process.env.BRIDGE_TO;
+  if (!to) {
+    throw new Error("BRIDGE_TO must be set to the destination network (e.g. arbitrumSepolia)");
+  }
+  const destination = getLayerZeroChain(to);
+  if (destination.eid === source.eid) {
+    throw new Error(`Source and destination are both ${source.name}`);
+  }
+  if (destination.isTestnet !== source.isTestnet) {
+    throw new Error(
+      `Cannot bridge between ${source.isTestnet ? "testnet" : "mainnet"} ${source.name} and ` +
+        `${destination.isTestnet ? "testnet" : "mainnet"} ${destination.name}`
+    );
+  }
+
+  const amountInput = process.env.BRIDGE_AMOUNT;
+  if (!amountInput) {
+    throw new Error("BRIDGE_AMOUNT must be set (in CAP, e.g. 100)");
+  }
+  let amount: bigint;
+  try {
+    amount = BigInt(ethers.utils.parseEther(amountInput).toString());
+  } catch {
+    throw new Error(`Invalid BRIDGE_AMOUNT: ${amountInput} (expected a CAP amount, e.g. 100 or 2.5)`);
+  }
+  if (amount <= 0n) {
+    throw new Error("BRIDGE_AMOUNT must be greater than zero");
+  }
+
+  const recipient = process.env.BRIDGE_RECIPIENT || signer;
+  if (!ethers.utils.isAddress(recipient)) {
+    throw new Error(`Invalid BRIDGE_RECIPIENT: ${recipient}`);
+  }
+
+  return {
+    source,
+    destination,
+    amount,
+    recipient: ethers.utils.getAddress(recipient),
+    slippageBp: parseInteger("BRIDGE_SLIPPAGE_BP", 0, 10_000),
+    gasLimit: parseInteger("BRIDGE_GAS_LIMIT", DEFAULT_LZ_RECEIVE_GAS, 10_000_000),
+    dryRun: process.env.BRIDGE_DRY_RUN === "true",
+  };
+}
+
+/**
+ * The source contract must point at the registered destination contract, or the message is lost
+ */
+async function checkPeer(bridge: CapBridge, destination: LayerZeroChain): Promise<string> {
+  const expected = requireOFTAddress(destination.contract, { eid: destination.eid, chainId: destination.chainId });
+  const peer = await bridge.peer(destination.eid);
+
+  if (peer.toLowerCase() !== addressToBytes32(expected.address)) {
+    throw new Error(
+      `Peer mismatch: ${bridge.kind} on the source has peers(${destination.eid}) = ${peer}, ` +
+        `but ${destination.contract} on ${destination.name} is ${expected.address} (${expected.source}). ` +
+        "Run oft:configure:peers first."
+    );
+  }
+  return expected.address;
+}
+
+/**
+ * Estimate the unlock leg on the home chain; not fatal when its RPC is unavailable
+ */
+async function quoteHomeUnlock(
+  options: BridgeOptions,
+  adapterAddress: string,
+  quote: BridgeQuote
+): Promise<UnlockQuote | null> {
+  try {
+    const home = await CapBridge.connect(adapterAddress, getNetworkProvider(options.destination.hardhatNetwork));
+    return await home.quoteUnlock(options.recipient, quote.amountReceivedLD);
+  } catch (error) {
+    console.warn(`⚠️  Could not estimate the unlock tax on ${options.destination.name}: ${error}`);
+    return null;
+  }
+}
+
+function describeDirection(options: BridgeOptions): string {
+  const side = (chain: LayerZeroChain) => (chain.contract === "CAPTokenOFTAdapter" ? "adapter" : "OFT");
+  return `${side(options.source)} → ${side(options.destination)}`;
+}
+
+function displayQuote(options: BridgeOptions, quote: BridgeQuote, unlock: UnlockQuote | null) {
+  const cap = (amount: bigint) => `${ethers.utils.formatEther(amount)} CAP`;
+
+  console.log("\n📋 Bridge Quote");
+  console.log("==================================================");
+  console.log(
+    `Route:            ${options.source.name} (${options.source.eid}) → ${options.destination.name} (${options.destination.eid})`
+  );
+  console.log(`Direction:        ${describeDirection(options)}`);
+  console.log(`Recipient:        ${options.recipient}`);
+  console.log(`Amount:           ${cap(options.amount)}`);
+  if (quote.taxQuote) {
+    console.log(`Source tax:       ${cap(quote.taxAmountLD)} (${quote.taxQuote.kind}, ${quote.taxQuote.taxBp} bp)`);
+  }
+  if (quote.amountSentLD !== options.amount) {
+    console.log(`Debited:          ${cap(quote.amountSentLD)}`);
+  }
+  console.log(`Credited:         ${cap(quote.amountReceivedLD)}`);
+  console.log(`minAmountLD:      ${cap(quote.sendParam.minAmountLD)} (slippage ${options.slippageBp} bp)`);
+  console.log(`lzReceive gas:    ${options.gasLimit}`);
+  console.log(`LayerZero fee:    ${ethers.utils.formatEther(quote.nativeFee)} (native)`);
+
+  if (unlock) {
+    console.log(
+      `Unlock tax:       ${cap(unlock.taxQuote.taxAmount)} (${unlock.taxQuote.kind}, ${unlock.taxQuote.taxBp} bp)`
+    );
+    console.log(`Recipient gets:   ${cap(unlock.amountReceivedLD)}`);
+    if (!unlock.withinSlippage) {
+      console.warn(
+        `\n⚠️  The unlock would revert: ${cap(unlock.amountReceivedLD)} is below the adapter's ` +
+          `maxInboundSlippageBp floor of ${cap(unlock.minInboundLD)} (${unlock.maxInboundSlippageBp} bp)`
+      );
+    }
+  }
+}
+
+async function main() {
+  try {
+    const [signer] = await ethers.getSigners();
+    const source = getLayerZeroChainById((await ethers.provider.getNetwork()).chainId);
+
+    console.log("\n╔════════════════════════════════════════════════════════════════╗");
+    console.log("║        CYBERIA (CAP) LAYERZERO BRIDGE                          ║");
+    console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+    console.log(`🌐 Source: ${source.name} (${network.name}, EID ${source.eid})`);
+    console.log(`🔑 Signer: ${signer.address}`);
+
+    const options = parseBridgeOptions(source, signer.address);
+    const sourceAddress = requireOFTAddress(source.contract, { chainId: source.chainId }).address;
+    const bridge = await CapBridge.connect(sourceAddress, signer);
+    if (bridge.kind !== source.contract) {
+      throw new Error(`${sourceAddress} is a ${bridge.kind}, but ${source.name} should host a ${source.contract}`);
+    }
+    console.log(`📍 ${bridge.kind}: ${sourceAddress}`);
+
+    const destinationAddress = await checkPeer(bridge, options.destination);
+    console.log(`🔗 Peer on ${options.destination.name}: ${destinationAddress} ✅`);
+
+    const quote = await bridge.quote({
+      dstEid: options.destination.eid,
+      to: options.recipient,
+      amountLD: options.amount,
+      slippageBp: options.slippageBp,
+      gasLimit: options.gasLimit,
+    });
+    const unlock =
+      options.destination.contract === "CAPTokenOFTAdapter"
+        ? await quoteHomeUnlock(options, destinationAddress, quote)
+        : null;
+    displayQuote(options, quote, unlock);
+
+    // The adapter debits CAP on the home chain; an OFT burns its own balance
+    const balance = bridge.cap
+      ? await bridge.cap.balanceOf(signer.address)
+      : BigInt((await (bridge.contract as CAPTokenOFT).balanceOf(signer.address)).toString());
+    if (balance < quote.amountSentLD) {
+      throw new Error(`Insufficient CAP: ${ethers.utils.formatEther(balance)} available`);
+    }
+
+    const nativeBalance = BigInt((await ethers.provider.getBalance(signer.address)).toString());
+    if (nativeBalance < quote.nativeFee) {
+      throw new Error(`Insufficient native balance for the LayerZero fee: ${ethers.utils.formatEther(nativeBalance)}`);
+    }
+
+    if (options.dryRun) {
+      console.log("\n🧪 BRIDGE_DRY_RUN=true - nothing sent");
+      return;
+    }
+
+    console.log("\n🚀 Sending...");
+    const receipt = await bridge.send(quote);
+    if (receipt.approvalHash) {
+      console.log(`📝 Approval: ${receipt.approvalHash}`);
+    }
+    console.log(`⏳ Transaction: ${source.explorerUrl}/tx/${receipt.transactionHash}`);
+    console.log(
+      `✅ Sent ${ethers.utils.formatEther(receipt.amountSentLD)} CAP, ${ethers.utils.formatEther(receipt.amountReceivedLD)} CAP in flight`
+    );
+
+    const layerZeroScan = source.isTestnet ? "https://testnet.layerzeroscan.com" : "https://layerzeroscan.com";
+    console.log(`\n🆔 LayerZero GUID: ${receipt.guid}`);
+    console.log(`🔍 Track: ${layerZeroScan}/tx/${receipt.transactionHash}`);
+    console.log(`💰 Recipient: ${options.destination.explorerUrl}/address/${options.recipient}`);
+  } catch (error) {
+    console.error("\n❌ Bridge failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -1,5 +1,10 @@
-import { ethers } from "hardhat";
+import { ethers, network as hardhatNetwork } from "hardhat";
 import { config as dotenvConfig } from "dotenv";
+import { LayerZeroChain, getHomeChain, getLayerZeroChainById, getOFTChains } from "../config/layerzero";
+import { addressToBytes32 } from "../sdk";
+import { updateOFTPeers } from "../utils/deployment-tracker";
+import { oftEnvOverrides, requireOFTAddress, resolveOFTAddress } from "../utils/oft-registry";
+import { TxSink } from "../utils/tx-sink";
 dotenvConfig();
 
 /**
@@ -12,22 +17,16 @@ dotenvConfig();
  * 1. OFTAdapter on Ethereum must trust OFT on destination chain
  * 2. OFT on destination chain must trust OFTAdapter on Ethereum
  *
- * LayerZero V2 Endpoint IDs (EIDs):
- * - Ethereum: 30101
- * - Arbitrum: 30110
- * - Optimism: 30111
- * - Base: 30184
- * - Polygon: 30109
+ * Chains and EIDs come from scripts/config/layerzero.ts.
+ * Addresses are read from deployments.json (written by deploy-oft*.ts).
+ * The *_OFT_ADDRESS / *_OFT_ADAPTER_ADDRESS env vars override them if set.
  *
- * Testnet EIDs:
- * - Sepolia: 40161
- * - Arbitrum Sepolia: 40231
- * - Optimism Sepolia: 40232
- * - Base Sepolia: 40245
- * - Polygon Amoy: 40267
+ * The setPeer calls go through the transaction sink (utils/tx-sink.ts). When the OFT owner is a
+ * multisig, TX_SINK=safe writes them as a Safe Transaction Builder batch for the owner
+ * (TX_SINK_SAFE defaults to owner()); deployments.json is only updated for calls that were sent.
  */
 
-interface PeerConfig {
+export interface PeerConfig {
   chainName: string;
   eid: number;
   oftAddress: string;
@@ -36,107 +35,43 @@ interface PeerConfig {
 async function main() {
   const [signer] = await ethers.getSigners();
   const network = await ethers.provider.getNetwork();
+  const chain = getLayerZeroChainById(network.chainId);
 
   console.log("\n==================================================");
   console.log("🔗 Configuring OFT Peer Connections");
   console.log("==================================================\n");
   console.log("Signer address:", signer.address);
-  console.log("Network:", network.name, `(Chain ID: ${network.chainId})`);
-
-  // Configuration: Update these with your deployed addresses
-  const config: {
-    ethereum: { adapter: string };
-    peers: PeerConfig[];
-  } = {
-    // OFTAdapter on Ethereum
-    ethereum: {
-      adapter:
-        network.chainId === 11155111n
-          ? process.env.SEPOLIA_OFT_ADAPTER_ADDRESS || process.env.OFT_ADAPTER_ADDRESS || ""
-          : process.env.OFT_ADAPTER_ADDRESS || "",
-    },
-    // OFT contracts on destination chains
-    peers: [
-      {
-        chainName: "Arbitrum",
-        eid: 30110, // Arbitrum mainnet EID
-        oftAddress: process.env.ARBITRUM_OFT_ADDRESS || "",
-      },
-      {
-        chainName: "Optimism",
-        eid: 30111, // Optimism mainnet EID
-        oftAddress: process.env.OPTIMISM_OFT_ADDRESS || "",
-      },
-      {
-        chainName: "Base",
-        eid: 30184, // Base mainnet EID
-        oftAddress: process.env.BASE_OFT_ADDRESS || "",
-      },
-      {
-        chainName: "Polygon",
-        eid: 30109, // Polygon mainnet EID
-        oftAddress: process.env.POLYGON_OFT_ADDRESS || "",
-      },
-    ],
-  };
-
-  // For testnet, use testnet EIDs
-  if (network.chainId === 11155111n) {
-    // Sepolia
-    config.peers = [
-      {
-        chainName: "Arbitrum Sepolia",
-        eid: 40231,
-        oftAddress: process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS || "",
-      },
-      {
-        chainName: "Optimism Sepolia",
-        eid: 40232,
-        oftAddress: process.env.OPTIMISM_SEPOLIA_OFT_ADDRESS || "",
-      },
-      {
-        chainName: "Base Sepolia",
-        eid: 40245,
-        oftAddress: process.env.BASE_SEPOLIA_OFT_ADDRESS || "",
-      },
-    ];
-  }
-
-  // Determine if we're configuring from Ethereum or destination chain
-  const isEthereum = network.chainId === 1n || network.chainId === 11155111n;
+  console.log("Network:", chain.name, `(Chain ID: ${network.chainId}, EID: ${chain.eid})`);
 
-  if (isEthereum) {
+  if (chain.contract === "CAPTokenOFTAdapter") {
     // Configure OFTAdapter on Ethereum to trust destination OFTs
-    await configureAdapterPeers(config);
+    const peers: PeerConfig[] = getOFTChains(chain.isTestnet).map((remote) => ({
+      chainName: remote.name,
+      eid: remote.eid,
+      oftAddress: resolveOFTAddress("CAPTokenOFT", { chainId: remote.chainId })?.address || "",
+    }));
+    await configureAdapterPeers(chain, peers);
   } else {
     // Configure OFT on destination chain to trust Ethereum OFTAdapter
-    await configureOFTPeer(config);
+    await configureOFTPeer(chain);
   }
-
-  console.log("\n✅ Peer configuration completed!");
 }
 
-async function configureAdapterPeers(config: { ethereum: { adapter: string }; peers: PeerConfig[] }) {
-  let adapterAddress = config.ethereum.adapter;
-
-  // If not set in config, try network-specific env vars
-  if (!adapterAddress || adapterAddress === "") {
-    adapterAddress = process.env.SEPOLIA_OFT_ADAPTER_ADDRESS || process.env.OFT_ADAPTER_ADDRESS || "";
-  }
-
-  if (!adapterAddress || adapterAddress === "") {
-    throw new Error(
-      "OFT Adapter address not configured. Set SEPOLIA_OFT_ADAPTER_ADDRESS or OFT_ADAPTER_ADDRESS in .env"
-    );
-  }
+export async function configureAdapterPeers(chain: LayerZeroChain, peers: PeerConfig[]) {
+  const adapterAddress = requireOFTAddress("CAPTokenOFTAdapter", { chainId: chain.chainId }).address;
 
   console.log("\n📝 Configuring OFTAdapter at:", adapterAddress);
 
   const adapter = await ethers.getContractAt("CAPTokenOFTAdapter", adapterAddress);
+  const sink = await TxSink.open({
+    title: `Configure ${chain.name} OFTAdapter peers`,
+    name: "oft-peers",
+    safe: await adapter.owner(),
+  });
 
-  for (const peer of config.peers) {
+  for (const peer of peers) {
     if (!peer.oftAddress || peer.oftAddress === "") {
-      console.log(`⚠️  Skipping ${peer.chainName} - OFT address not configured`);
+      console.log(`⚠️  Skipping ${peer.chainName} - OFT not found in deployments.json or .env`);
       continue;
     }
 
@@ -144,104 +79,86 @@ async function configureAdapterPeers(config: { ethereum: { adapter: string }; pe
     console.log(`  - EID: ${peer.eid}`);
     console.log(`  - OFT Address: ${peer.oftAddress}`);
 
-    // Convert address to bytes32 format (pad with zeros)
-    const peerBytes32 = ethers.zeroPadValue(peer.oftAddress, 32);
+    const peerBytes32 = addressToBytes32(peer.oftAddress);
 
     try {
-      const tx = await adapter.setPeer(peer.eid, peerBytes32);
-      console.log(`  - Transaction: ${tx.hash}`);
-
-      await tx.wait();
-      console.log(`  ✅ Peer configured successfully`);
+      const hash = await sink.submit({
+        to: adapterAddress,
+        data: adapter.interface.encodeFunctionData("setPeer", [peer.eid, peerBytes32]),
+        description: `setPeer(${peer.eid}, ${peer.oftAddress}) for ${peer.chainName}`,
+      });
+      if (hash) {
+        console.log(`  ✅ Peer configured successfully`);
+        updateOFTPeers(hardhatNetwork.name, "CAPTokenOFTAdapter", { [peer.eid]: peer.oftAddress }, hash);
+      }
     } catch (error) {
       console.error(`  ❌ Failed to set peer:`, error);
     }
   }
-}
-
-async function configureOFTPeer(config: { ethereum: { adapter: string }; peers: PeerConfig[] }) {
-  // Get current network's OFT address from environment
-  const network = await ethers.provider.getNetwork();
-  const chainId = network.chainId;
-
-  // Determine which OFT address to use based on current network
-  const oftAddressKey =
-    chainId === 42161n
-      ? "ARBITRUM_OFT_ADDRESS"
-      : chainId === 421614n
-        ? "ARBITRUM_SEPOLIA_OFT_ADDRESS"
-        : chainId === 10n
-          ? "OPTIMISM_OFT_ADDRESS"
-          : chainId === 11155420n
-            ? "OPTIMISM_SEPOLIA_OFT_ADDRESS"
-            : chainId === 8453n
-              ? "BASE_OFT_ADDRESS"
-              : chainId === 84532n
-                ? "BASE_SEPOLIA_OFT_ADDRESS"
-                : chainId === 137n
-                  ? "POLYGON_OFT_ADDRESS"
-                  : chainId === 80002n
-                    ? "POLYGON_AMOY_OFT_ADDRESS"
-                    : "";
-
-  if (!oftAddressKey) {
-    throw new Error(`Unsupported network for OFT configuration: ${network.name}`);
-  }
-
-  const oftAddress = process.env[oftAddressKey] || "";
-
-  if (!oftAddress || oftAddress === "") {
-    throw new Error(`OFT address not configured. Set ${oftAddressKey} in .env`);
-  }
 
-  let adapterAddress = config.ethereum.adapter;
+  await finish(sink);
+}
 
-  // If not set in config, try network-specific env vars
-  if (!adapterAddress || adapterAddress === "") {
-    adapterAddress = process.env.SEPOLIA_OFT_ADAPTER_ADDRESS || process.env.OFT_ADAPTER_ADDRESS || "";
-  }
+export async function configureOFTPeer(chain: LayerZeroChain) {
+  // Get current network's OFT address from deployments.json (or env override)
+  const oftAddress = requireOFTAddress("CAPTokenOFT", { chainId: chain.chainId }).address;
 
-  if (!adapterAddress || adapterAddress === "") {
-    throw new Error(
-      "OFT Adapter address not configured. Set SEPOLIA_OFT_ADAPTER_ADDRESS or OFT_ADAPTER_ADDRESS in .env"
-    );
-  }
+  // The adapter lives on Ethereum (Sepolia for testnets), so look it up there
+  const home = getHomeChain(chain.isTestnet);
+  const adapterAddress = requireOFTAddress(
+    "CAPTokenOFTAdapter",
+    { chainId: home.chainId },
+    oftEnvOverrides("CAPTokenOFTAdapter", home.chainId)
+  ).address;
 
   console.log("\n📝 Configuring OFT at:", oftAddress);
-  console.log("To trust Ethereum OFTAdapter at:", adapterAddress);
+  console.log(`To trust ${home.name} OFTAdapter at:`, adapterAddress);
 
   const oft = await ethers.getContractAt("CAPTokenOFT", oftAddress);
+  const sink = await TxSink.open({
+    title: `Configure ${chain.name} OFT peer`,
+    name: "oft-peers",
+    safe: await oft.owner(),
+  });
 
-  // Determine Ethereum EID based on network (testnet vs mainnet)
-  const isTestnet =
-    chainId === 421614n || // Arbitrum Sepolia
-    chainId === 11155420n || // Optimism Sepolia
-    chainId === 84532n || // Base Sepolia
-    chainId === 80002n; // Polygon Amoy
-
-  const ethereumEid = isTestnet ? 40161 : 30101; // Sepolia or Mainnet
-
-  // Convert adapter address to bytes32 format
-  const peerBytes32 = ethers.zeroPadValue(adapterAddress, 32);
+  const peerBytes32 = addressToBytes32(adapterAddress);
 
-  console.log(`\n🔗 Setting peer for Ethereum:`);
-  console.log(`  - EID: ${ethereumEid}`);
+  console.log(`\n🔗 Setting peer for ${home.name}:`);
+  console.log(`  - EID: ${home.eid}`);
   console.log(`  - Adapter Address: ${adapterAddress}`);
 
   try {
-    const tx = await oft.setPeer(ethereumEid, peerBytes32);
-    console.log(`  - Transaction: ${tx.hash}`);
-
-    await tx.wait();
-    console.log(`  ✅ Peer configured successfully`);
+    const hash = await sink.submit({
+      to: oftAddress,
+      data: oft.interface.encodeFunctionData("setPeer", [home.eid, peerBytes32]),
+      description: `setPeer(${home.eid}, ${adapterAddress}) for ${home.name}`,
+    });
+    if (hash) {
+      console.log(`  ✅ Peer configured successfully`);
+      updateOFTPeers(hardhatNetwork.name, "CAPTokenOFT", { [home.eid]: adapterAddress }, hash);
+    }
   } catch (error) {
     console.error(`  ❌ Failed to set peer:`, error);
   }
+
+  await finish(sink);
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+async function finish(sink: TxSink) {
+  await sink.flush();
+  if (sink.sends) {
+    console.log("\n✅ Peer configuration completed!");
+  } else {
+    console.log(`\n✅ Peer configuration batched for ${sink.sender}; run npm run oft:check-peers once it has executed`);
+  }
+}
+
+// configureAdapterPeers and configureOFTPeer are reused by test/integration/ConfigureOFTPeers.test.ts
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,233 @@
+import { ethers, network } from "hardhat";
+import { LayerZeroChain, getLayerZeroChainById } from "../config/layerzero";
+import { CapManifest, loadManifest, manifestPathways, resolveManifestPath } from "../manifest/manifest";
+import { declaredPathwaySecurity } from "../manifest/planner";
+import {
+  MSG_TYPES,
+  PathwayReadback,
+  PathwaySecurity,
+  SecurityChange,
+  diffPathwaySecurity,
+  formatExecutorConfig,
+  formatUlnConfig,
+  isRegisteredLibrary,
+  readDelegate,
+  readPathwaySecurity,
+} from "../utils/oapp-security";
+import { requireOFTAddress } from "../utils/oft-registry";
+import { TxSink } from "../utils/tx-sink";
+
+/**
+ * LayerZero pathway security
+ *
+ * Reads back, for every pathway of the OFTAdapter or OFT on --network, the send/receive libraries,
+ * the ULN config (DVNs and confirmations), the executor config and the enforced options per
+ * message type, and compares them with the manifest (layerzero.security and
+ * layerzero.enforcedOptions). Pathways are hub-and-spoke, as in the manifest: the adapter has one
+ * per listed chain, each OFT one to the adapter.
+ *
+ * SECURITY_ACTION=apply sends the missing settings through the endpoint (as the OApp delegate) and
+ * setEnforcedOptions (as the OApp owner), then reads everything back again. The calls go through the
+ * transaction sink (utils/tx-sink.ts): TX_SINK=safe or TX_SINK=dao batches the calls the Safe or DAO
+ * may send instead. Calls its sender is not allowed to make are printed for the delegate/owner.
+ *
+ * Exits with code 1 while any pathway differs from the declaration.
+ *
+ * Usage:
+ *   npm run oft:configure:security -- --network sepolia
+ *   SECURITY_ACTION=apply npm run oft:configure:security -- --network arbitrumSepolia
+ *
+ * Optional:
+ *   SECURITY_ACTION  show (default) or apply
+ *   MANIFEST         Manifest path (default: manifests/testnet.json or manifests/mainnet.json)
+ */
+
+type SecurityAction = "show" | "apply";
+
+interface Pathway {
+  remote: LayerZeroChain;
+  desired: PathwaySecurity;
+  current: PathwayReadback;
+  changes: SecurityChange[];
+}
+
+function parseAction(): SecurityAction {
+  const action = process.env.SECURITY_ACTION || "show";
+  if (action !== "show" && action !== "apply") {
+    throw new Error(`Invalid SECURITY_ACTION: ${action} (expected show or apply)`);
+  }
+  return action;
+}
+
+async function readPathways(
+  manifest: CapManifest,
+  chain: LayerZeroChain,
+  oappAddress: string,
+  remotes: LayerZeroChain[]
+): Promise<Pathway[]> {
+  const pathways: Pathway[] = [];
+  for (const remote of remotes) {
+    const desired = declaredPathwaySecurity(manifest, chain, remote);
+    const current = await readPathwaySecurity(chain.endpoint, oappAddress, remote.eid);
+    const changes = diffPathwaySecurity(chain.endpoint, oappAddress, remote.eid, current, desired);
+    pathways.push({ remote, desired, current, changes });
+  }
+  return pathways;
+}
+
+function displayPathway(pathway: Pathway) {
+  const { remote, current, changes } = pathway;
+  const mark = (setting: SecurityChange["setting"]) =>
+    changes.some((change) => change.setting === setting) ? "❌" : "✅";
+  const library = (address: string, isDefault: boolean) => `${address}${isDefault ? " (default)" : ""}`;
+
+  console.log(`\n🛣️  ${remote.name} (EID ${remote.eid})`);
+  console.log("==================================================");
+  console.log(
+    `${mark("send-library")} Send library:      ${library(current.sendLibrary, current.sendLibraryIsDefault)}`
+  );
+  console.log(`${mark("send-config")} Send ULN:          ${formatUlnConfig(current.sendUln)}`);
+  console.log(`${mark("send-config")} Executor:          ${formatExecutorConfig(current.executor)}`);
+  console.log(
+    `${mark("receive-library")} Receive library:   ${library(current.receiveLibrary, current.receiveLibraryIsDefault)}`
+  );
+  console.log(`${mark("receive-config")} Receive ULN:       ${formatUlnConfig(current.receiveUln)}`);
+  for (const msgType of MSG_TYPES) {
+    console.log(
+      `${mark("enforced-options")} Enforced options (type ${msgType}): ${current.enforcedOptions[msgType] || "0x"}`
+    );
+  }
+
+  for (const change of changes) {
+    console.log(`   → ${change.description}`);
+    console.log(`     current: ${change.current}`);
+    console.log(`     desired: ${change.desired}`);
+  }
+}
+
+/**
+ * A pinned library the endpoint does not know would make every message on the pathway revert
+ */
+async function checkLibraries(chain: LayerZeroChain, pathways: Pathway[]) {
+  const libraries = new Set<string>();
+  for (const { desired, changes } of pathways) {
+    for (const change of changes) {
+      if (change.setting === "send-library" && desired.sendLibrary) {
+        libraries.add(desired.sendLibrary);
+      } else if (change.setting === "receive-library" && desired.receiveLibrary) {
+        libraries.add(desired.receiveLibrary);
+      }
+    }
+  }
+  for (const library of libraries) {
+    if (!(await isRegisteredLibrary(chain.endpoint, library))) {
+      throw new Error(`${library} is not a registered message library on the ${chain.name} endpoint`);
+    }
+  }
+}
+
+/**
+ * @returns Whether the calls were sent (and the pathways should be read back)
+ */
+async function applyChanges(
+  chain: LayerZeroChain,
+  oappAddress: string,
+  owner: string,
+  pathways: Pathway[]
+): Promise<boolean> {
+  const delegate = await readDelegate(chain.endpoint, oappAddress);
+  const changes = pathways.flatMap((pathway) => pathway.changes);
+  if (changes.length === 0) {
+    console.log("\n✅ Nothing to apply");
+    return false;
+  }
+  await checkLibraries(chain, pathways);
+
+  const sink = await TxSink.open({
+    title: `Configure ${chain.name} LayerZero pathway security`,
+    name: "oapp-security",
+    safe: owner,
+    dao: owner,
+  });
+  const senders = { delegate, owner };
+  const forwarded: SecurityChange[] = [];
+
+  console.log(`\n🚀 Applying as ${sink.sender}${sink.sends ? "" : ` (TX_SINK=${sink.mode})`}...`);
+  for (const change of changes) {
+    if (senders[change.sender].toLowerCase() !== sink.sender.toLowerCase()) {
+      forwarded.push(change);
+      continue;
+    }
+    console.log(`\n▶️  ${change.description}`);
+    const hash = await sink.submit({ to: change.to, data: change.data, description: change.description });
+    if (hash) {
+      console.log(`   Transaction: ${chain.explorerUrl}/tx/${hash}`);
+      console.log("   ✅ Confirmed");
+    }
+  }
+  await sink.flush();
+
+  if (forwarded.length > 0) {
+    console.log(`\n📨 ${forwarded.length} call(s) need another sender:`);
+    for (const change of forwarded) {
+      console.log(`\n${change.description}`);
+      console.log(`  from: ${senders[change.sender]} (${change.sender})`);
+      console.log(`  to:   ${change.to}`);
+      console.log(`  data: ${change.data}`);
+    }
+  }
+  return sink.sends;
+}
+
+async function main() {
+  try {
+    const action = parseAction();
+    const chain = getLayerZeroChainById((await ethers.provider.getNetwork()).chainId);
+
+    console.log("\n╔════════════════════════════════════════════════════════════════╗");
+    console.log("║        CYBERIA (CAP) LAYERZERO PATHWAY SECURITY                ║");
+    console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+    const manifestPath = resolveManifestPath(network.name);
+    const manifest = loadManifest(manifestPath);
+    if (!manifest.layerzero?.security) {
+      throw new Error(`Manifest ${manifestPath} has no layerzero.security policy`);
+    }
+    const remotes = manifestPathways(manifest, network.name);
+    if (remotes.length === 0) {
+      throw new Error(`Manifest ${manifestPath} declares no LayerZero pathway for ${network.name}`);
+    }
+
+    const oappAddress = requireOFTAddress(chain.contract, { chainId: chain.chainId }).address;
+    const oapp = await ethers.getContractAt(chain.contract, oappAddress);
+    const owner: string = await oapp.owner();
+
+    console.log(`📄 Manifest: ${manifestPath}`);
+    console.log(`🌐 Network: ${chain.name} (${network.name}, EID ${chain.eid})`);
+    console.log(`📍 ${chain.contract}: ${oappAddress}`);
+    console.log(`👤 Owner: ${owner}`);
+    console.log(`🔑 Delegate: ${await readDelegate(chain.endpoint, oappAddress)}`);
+
+    let pathways = await readPathways(manifest, chain, oappAddress, remotes);
+    pathways.forEach(displayPathway);
+
+    if (action === "apply" && (await applyChanges(chain, oappAddress, owner, pathways))) {
+      console.log("\n🔍 Reading back...");
+      pathways = await readPathways(manifest, chain, oappAddress, remotes);
+      pathways.forEach(displayPathway);
+    }
+
+    const pending = pathways.reduce((count, pathway) => count + pathway.changes.length, 0);
+    if (pending === 0) {
+      console.log(`\n✅ ${pathways.length} pathway(s) match the declared security configuration`);
+    } else {
+      console.error(`\n❌ ${pending} setting(s) differ from the declared security configuration`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("\n❌ Pathway security check failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main();
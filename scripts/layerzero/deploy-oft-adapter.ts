@@ -1,5 +1,7 @@
-import { ethers } from "hardhat";
+import { ethers, network as hardhatNetwork } from "hardhat";
 import { config as dotenvConfig } from "dotenv";
+import { getLayerZeroChainById } from "../config/layerzero";
+import { getDeployment, saveOFTDeployment } from "../utils/deployment-tracker";
 dotenvConfig();
 
 /**
@@ -28,36 +30,24 @@ async function main() {
   console.log("Deployer address:", deployer.address);
   console.log("Network:", network.name, `(Chain ID: ${network.chainId})`);
 
-  // Network-specific configuration
-  const config: {
-    [key: string]: { capToken: string; lzEndpoint: string; governance: string };
-  } = {
-    // Ethereum Mainnet
-    "1": {
-      capToken: process.env.MAINNET_CAP_TOKEN_ADDRESS || "",
-      lzEndpoint: "0x1a44076050125825900e736c501f859c50fE728c", // LayerZero V2 Endpoint
-      governance: process.env.MAINNET_OWNER_ADDRESS || deployer.address,
-    },
-    // Sepolia Testnet
-    "11155111": {
-      capToken: process.env.SEPOLIA_CAP_TOKEN_ADDRESS || "0xA6B680A88c16056de7194CF775D04A45D0692C11",
-      lzEndpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f", // LayerZero V2 Endpoint
-      governance: process.env.SEPOLIA_OWNER_ADDRESS || process.env.TESTNET_OWNER_ADDRESS || deployer.address,
-    },
-  };
-
-  const chainId = network.chainId.toString();
-  const networkConfig = config[chainId];
-
-  if (!networkConfig) {
-    throw new Error(`Unsupported network: ${network.name} (Chain ID: ${chainId})`);
+  // Network-specific configuration from the LayerZero chain registry
+  const chain = getLayerZeroChainById(network.chainId);
+
+  if (chain.contract !== "CAPTokenOFTAdapter") {
+    throw new Error(`${chain.name} runs a CAPTokenOFT, not the adapter. Use deploy-oft.ts instead.`);
   }
 
-  const { capToken, lzEndpoint, governance } = networkConfig;
+  const capToken =
+    process.env[`${chain.envPrefix}_CAP_TOKEN_ADDRESS`] || getDeployment(hardhatNetwork.name)?.proxyAddress || "";
+  const lzEndpoint = chain.endpoint;
+  const governance =
+    process.env[`${chain.envPrefix}_OWNER_ADDRESS`] ||
+    (chain.isTestnet ? process.env.TESTNET_OWNER_ADDRESS : undefined) ||
+    deployer.address;
 
-  if (!capToken || capToken === "") {
+  if (!capToken) {
     throw new Error(
-      "CAP token address not configured. Set MAINNET_CAP_TOKEN_ADDRESS or SEPOLIA_CAP_TOKEN_ADDRESS in .env"
+      `CAP token address not configured. Deploy CAPToken first or set ${chain.envPrefix}_CAP_TOKEN_ADDRESS in .env`
     );
   }
 
@@ -68,15 +58,13 @@ async function main() {
 
   // Check deployer balance
   const balance = await ethers.provider.getBalance(deployer.address);
-  console.log("\nDeployer balance:", ethers.formatEther(balance), "ETH");
+  console.log("\nDeployer balance:", ethers.utils.formatEther(balance), "ETH");
 
-  if (balance === 0n) {
+  if (balance.isZero()) {
     console.error("\n❌ ERROR: Deployer has no ETH!");
-    console.log("\n🚰 Get testnet ETH from faucets:");
-    if (network.chainId === 11155111n) {
-      console.log("- QuickNode: https://faucet.quicknode.com/ethereum/sepolia");
-      console.log("- Alchemy: https://www.alchemy.com/faucets/ethereum-sepolia");
-      console.log("- Chainlink: https://faucets.chain.link/sepolia");
+    if (chain.faucets) {
+      console.log("\n🚰 Get testnet ETH from faucets:");
+      chain.faucets.forEach((faucet) => console.log(`- ${faucet}`));
     }
     throw new Error("Please fund the deployer account");
   }
@@ -86,38 +74,40 @@ async function main() {
   const deployTx = OFTAdapter.getDeployTransaction(capToken, lzEndpoint, governance);
   const estimatedGas = await ethers.provider.estimateGas(deployTx);
   const feeData = await ethers.provider.getFeeData();
-  const estimatedCost = estimatedGas * (feeData.gasPrice || feeData.maxFeePerGas || 0n);
+  const estimatedCost = estimatedGas.mul(feeData.gasPrice || feeData.maxFeePerGas || 0);
 
   console.log("\n⛽ Gas Estimation:");
   console.log("- Estimated gas:", estimatedGas.toString());
-  console.log("- Gas price:", ethers.formatUnits(feeData.gasPrice || 0n, "gwei"), "gwei");
-  console.log("- Estimated cost:", ethers.formatEther(estimatedCost), "ETH");
-  console.log("- Balance after deploy:", ethers.formatEther(balance - estimatedCost), "ETH (estimated)");
+  console.log("- Gas price:", ethers.utils.formatUnits(feeData.gasPrice || 0, "gwei"), "gwei");
+  console.log("- Estimated cost:", ethers.utils.formatEther(estimatedCost), "ETH");
+  console.log("- Balance after deploy:", ethers.utils.formatEther(balance.sub(estimatedCost)), "ETH (estimated)");
 
-  if (balance < estimatedCost) {
+  if (balance.lt(estimatedCost)) {
     console.error("\n❌ ERROR: Insufficient balance for deployment!");
-    console.log("Need:", ethers.formatEther(estimatedCost), "ETH");
-    console.log("Have:", ethers.formatEther(balance), "ETH");
-    console.log("Short:", ethers.formatEther(estimatedCost - balance), "ETH");
+    console.log("Need:", ethers.utils.formatEther(estimatedCost), "ETH");
+    console.log("Have:", ethers.utils.formatEther(balance), "ETH");
+    console.log("Short:", ethers.utils.formatEther(estimatedCost.sub(balance)), "ETH");
     throw new Error("Insufficient balance");
   }
 
-  if (balance < estimatedCost * 2n) {
+  if (balance.lt(estimatedCost.mul(2))) {
     console.log(
       "\n⚠️  WARNING: Balance is low. You have enough for deployment but may not have enough for peer configuration."
     );
-    console.log("Recommended balance:", ethers.formatEther(estimatedCost * 2n), "ETH");
+    console.log("Recommended balance:", ethers.utils.formatEther(estimatedCost.mul(2)), "ETH");
   }
 
   // Deploy OFTAdapter
   console.log("\n📝 Deploying CAPTokenOFTAdapter...");
   const oftAdapter = await OFTAdapter.deploy(capToken, lzEndpoint, governance);
 
-  await oftAdapter.waitForDeployment();
-  const adapterAddress = await oftAdapter.getAddress();
+  await oftAdapter.deployed();
+  const adapterAddress = oftAdapter.address;
 
   console.log("✅ CAPTokenOFTAdapter deployed at:", adapterAddress);
 
+  const receipt = await oftAdapter.deployTransaction.wait();
+
   // Verification info
   console.log("\n==================================================");
   console.log("📋 Deployment Summary");
@@ -125,7 +115,7 @@ async function main() {
   console.log("Network:", network.name);
   console.log("OFTAdapter:", adapterAddress);
   console.log("CAP Token:", capToken);
-  console.log("LayerZero Endpoint:", lzEndpoint);
+  console.log("LayerZero Endpoint:", lzEndpoint, `(EID ${chain.eid})`);
   console.log("Owner:", governance);
 
   console.log("\n==================================================");
@@ -144,20 +134,22 @@ async function main() {
   console.log("\n4. Configure peer connections:");
   console.log("   npm run configure:oft-peers");
 
-  // Save deployment info
-  const deploymentInfo = {
-    network: network.name,
-    chainId: network.chainId.toString(),
-    oftAdapter: adapterAddress,
-    capToken: capToken,
-    lzEndpoint: lzEndpoint,
-    owner: governance,
+  // Save deployment record (other LayerZero scripts resolve the adapter address from it)
+  saveOFTDeployment(hardhatNetwork.name, "CAPTokenOFTAdapter", {
+    network: hardhatNetwork.name,
+    chainId: Number(network.chainId),
     timestamp: new Date().toISOString(),
+    address: adapterAddress,
     deployer: deployer.address,
-  };
-
-  console.log("\n📄 Deployment Info:");
-  console.log(JSON.stringify(deploymentInfo, null, 2));
+    owner: governance,
+    eid: chain.eid,
+    endpoint: lzEndpoint,
+    token: capToken,
+    peers: {},
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    verified: false,
+  });
 }
 
 main()
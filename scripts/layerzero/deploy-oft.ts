@@ -1,5 +1,7 @@
-import { ethers } from "hardhat";
+import { ethers, network as hardhatNetwork } from "hardhat";
 import { config as dotenvConfig } from "dotenv";
+import { getLayerZeroChainById } from "../config/layerzero";
+import { saveOFTDeployment } from "../utils/deployment-tracker";
 dotenvConfig();
 
 /**
@@ -28,61 +30,18 @@ async function main() {
   console.log("Deployer address:", deployer.address);
   console.log("Network:", network.name, `(Chain ID: ${network.chainId})`);
 
-  // Network-specific configuration
-  // LayerZero V2 uses the same endpoint address across most chains
-  const config: {
-    [key: string]: { lzEndpoint: string; owner: string };
-  } = {
-    // Arbitrum One
-    "42161": {
-      lzEndpoint: "0x1a44076050125825900e736c501f859c50fE728c",
-      owner: process.env.ARBITRUM_OWNER_ADDRESS || deployer.address,
-    },
-    // Arbitrum Sepolia (testnet)
-    "421614": {
-      lzEndpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
-      owner: process.env.ARBITRUM_SEPOLIA_OWNER_ADDRESS || process.env.TESTNET_OWNER_ADDRESS || deployer.address,
-    },
-    // Optimism
-    "10": {
-      lzEndpoint: "0x1a44076050125825900e736c501f859c50fE728c",
-      owner: process.env.OPTIMISM_OWNER_ADDRESS || deployer.address,
-    },
-    // Optimism Sepolia (testnet)
-    "11155420": {
-      lzEndpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
-      owner: process.env.OPTIMISM_SEPOLIA_OWNER_ADDRESS || process.env.TESTNET_OWNER_ADDRESS || deployer.address,
-    },
-    // Base
-    "8453": {
-      lzEndpoint: "0x1a44076050125825900e736c501f859c50fE728c",
-      owner: process.env.BASE_OWNER_ADDRESS || deployer.address,
-    },
-    // Base Sepolia (testnet)
-    "84532": {
-      lzEndpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
-      owner: process.env.BASE_SEPOLIA_OWNER_ADDRESS || process.env.TESTNET_OWNER_ADDRESS || deployer.address,
-    },
-    // Polygon
-    "137": {
-      lzEndpoint: "0x1a44076050125825900e736c501f859c50fE728c",
-      owner: process.env.POLYGON_OWNER_ADDRESS || deployer.address,
-    },
-    // Polygon Amoy (testnet)
-    "80002": {
-      lzEndpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
-      owner: process.env.POLYGON_AMOY_OWNER_ADDRESS || process.env.TESTNET_OWNER_ADDRESS || deployer.address,
-    },
-  };
-
-  const chainId = network.chainId.toString();
-  const networkConfig = config[chainId];
-
-  if (!networkConfig) {
-    throw new Error(`Unsupported network: ${network.name} (Chain ID: ${chainId})`);
+  // Network-specific configuration from the LayerZero chain registry
+  const chain = getLayerZeroChainById(network.chainId);
+
+  if (chain.contract !== "CAPTokenOFT") {
+    throw new Error(`${chain.name} hosts the OFTAdapter, not an OFT. Use deploy-oft-adapter.ts instead.`);
   }
 
-  const { lzEndpoint, owner } = networkConfig;
+  const lzEndpoint = chain.endpoint;
+  const owner =
+    process.env[`${chain.envPrefix}_OWNER_ADDRESS`] ||
+    (chain.isTestnet ? process.env.TESTNET_OWNER_ADDRESS : undefined) ||
+    deployer.address;
 
   console.log("\nConfiguration:");
   console.log("- LayerZero Endpoint:", lzEndpoint);
@@ -90,27 +49,13 @@ async function main() {
 
   // Check deployer balance
   const balance = await ethers.provider.getBalance(deployer.address);
-  console.log("\nDeployer balance:", ethers.formatEther(balance), "ETH");
+  console.log("\nDeployer balance:", ethers.utils.formatEther(balance), "ETH");
 
-  if (balance === 0n) {
+  if (balance.isZero()) {
     console.error("\n❌ ERROR: Deployer has no ETH!");
-    console.log("\n🚰 Get testnet ETH from faucets:");
-    if (chainId === "421614") {
-      // Arbitrum Sepolia
-      console.log("- QuickNode: https://faucet.quicknode.com/arbitrum/sepolia");
-      console.log("- Alchemy: https://www.alchemy.com/faucets/arbitrum-sepolia");
-      console.log("- Chainlink: https://faucets.chain.link/arbitrum-sepolia");
-    } else if (chainId === "11155420") {
-      // Optimism Sepolia
-      console.log("- QuickNode: https://faucet.quicknode.com/optimism/sepolia");
-      console.log("- Alchemy: https://www.alchemy.com/faucets/optimism-sepolia");
-    } else if (chainId === "84532") {
-      // Base Sepolia
-      console.log("- QuickNode: https://faucet.quicknode.com/base/sepolia");
-      console.log("- Alchemy: https://www.alchemy.com/faucets/base-sepolia");
-    } else if (chainId === "80002") {
-      // Polygon Amoy
-      console.log("- QuickNode: https://faucet.quicknode.com/polygon/amoy");
+    if (chain.faucets) {
+      console.log("\n🚰 Get testnet ETH from faucets:");
+      chain.faucets.forEach((faucet) => console.log(`- ${faucet}`));
     }
     throw new Error("Please fund the deployer account");
   }
@@ -120,38 +65,40 @@ async function main() {
   const deployTx = OFT.getDeployTransaction(lzEndpoint, owner);
   const estimatedGas = await ethers.provider.estimateGas(deployTx);
   const feeData = await ethers.provider.getFeeData();
-  const estimatedCost = estimatedGas * (feeData.gasPrice || feeData.maxFeePerGas || 0n);
+  const estimatedCost = estimatedGas.mul(feeData.gasPrice || feeData.maxFeePerGas || 0);
 
   console.log("\n⛽ Gas Estimation:");
   console.log("- Estimated gas:", estimatedGas.toString());
-  console.log("- Gas price:", ethers.formatUnits(feeData.gasPrice || 0n, "gwei"), "gwei");
-  console.log("- Estimated cost:", ethers.formatEther(estimatedCost), "ETH");
-  console.log("- Balance after deploy:", ethers.formatEther(balance - estimatedCost), "ETH (estimated)");
+  console.log("- Gas price:", ethers.utils.formatUnits(feeData.gasPrice || 0, "gwei"), "gwei");
+  console.log("- Estimated cost:", ethers.utils.formatEther(estimatedCost), "ETH");
+  console.log("- Balance after deploy:", ethers.utils.formatEther(balance.sub(estimatedCost)), "ETH (estimated)");
 
-  if (balance < estimatedCost) {
+  if (balance.lt(estimatedCost)) {
     console.error("\n❌ ERROR: Insufficient balance for deployment!");
-    console.log("Need:", ethers.formatEther(estimatedCost), "ETH");
-    console.log("Have:", ethers.formatEther(balance), "ETH");
-    console.log("Short:", ethers.formatEther(estimatedCost - balance), "ETH");
+    console.log("Need:", ethers.utils.formatEther(estimatedCost), "ETH");
+    console.log("Have:", ethers.utils.formatEther(balance), "ETH");
+    console.log("Short:", ethers.utils.formatEther(estimatedCost.sub(balance)), "ETH");
     throw new Error("Insufficient balance");
   }
 
-  if (balance < estimatedCost * 2n) {
+  if (balance.lt(estimatedCost.mul(2))) {
     console.log(
       "\n⚠️  WARNING: Balance is low. You have enough for deployment but may not have enough for peer configuration."
     );
-    console.log("Recommended balance:", ethers.formatEther(estimatedCost * 2n), "ETH");
+    console.log("Recommended balance:", ethers.utils.formatEther(estimatedCost.mul(2)), "ETH");
   }
 
   // Deploy OFT
   console.log("\n📝 Deploying CAPTokenOFT...");
   const oft = await OFT.deploy(lzEndpoint, owner);
 
-  await oft.waitForDeployment();
-  const oftAddress = await oft.getAddress();
+  await oft.deployed();
+  const oftAddress = oft.address;
 
   console.log("✅ CAPTokenOFT deployed at:", oftAddress);
 
+  const receipt = await oft.deployTransaction.wait();
+
   // Get token info
   const name = await oft.name();
   const symbol = await oft.symbol();
@@ -168,7 +115,7 @@ async function main() {
   console.log("==================================================");
   console.log("Network:", network.name);
   console.log("OFT:", oftAddress);
-  console.log("LayerZero Endpoint:", lzEndpoint);
+  console.log("LayerZero Endpoint:", lzEndpoint, `(EID ${chain.eid})`);
   console.log("Owner:", owner);
 
   console.log("\n==================================================");
@@ -181,24 +128,21 @@ async function main() {
   console.log("\n3. Test bridging from Ethereum to this chain");
   console.log("   (Start with small amounts)");
 
-  // Save deployment info
-  const deploymentInfo = {
-    network: network.name,
-    chainId: network.chainId.toString(),
-    oft: oftAddress,
-    lzEndpoint: lzEndpoint,
-    owner: owner,
-    token: {
-      name: name,
-      symbol: symbol,
-      decimals: decimals.toString(), // Convert BigInt to string for JSON serialization
-    },
+  // Save deployment record (other LayerZero scripts resolve the OFT address from it)
+  saveOFTDeployment(hardhatNetwork.name, "CAPTokenOFT", {
+    network: hardhatNetwork.name,
+    chainId: Number(network.chainId),
     timestamp: new Date().toISOString(),
+    address: oftAddress,
     deployer: deployer.address,
-  };
-
-  console.log("\n📄 Deployment Info:");
-  console.log(JSON.stringify(deploymentInfo, null, 2));
+    owner,
+    eid: chain.eid,
+    endpoint: lzEndpoint,
+    peers: {},
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    verified: false,
+  });
 }
 
 main()
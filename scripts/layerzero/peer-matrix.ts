@@ -0,0 +1,153 @@
+import { ethers, network } from "hardhat";
+import { writeFileSync } from "fs";
+import { LAYERZERO_CHAINS, getLayerZeroChainById } from "../config/layerzero";
+import { getNetworkProvider } from "../utils/network-providers";
+import { PeerEndpoint, PeerNode, PeerReport, checkPeerMatrix, registeredEndpoints } from "../utils/peer-matrix";
+
+/**
+ * Peer consistency matrix
+ *
+ * Connects to every chain of the environment in one run and reads peers(eid) on each OFTAdapter/OFT
+ * for every EID in the registry, mainnet and testnet alike. Flags:
+ *   - asymmetric peers (B trusts A, A does not trust B)
+ *   - peers that are not the OFTAdapter/OFT registered for that EID
+ *   - mainnet/testnet cross-links
+ * and prints the setPeer calls that fix them, grouped by network. Exits with code 1 on any finding.
+ * remove-stale-peer.ts sends (or batches) the removals for one contract.
+ *
+ * --network only selects testnet or mainnet; every chain is read through its RPC URL in
+ * hardhat.config.ts. Registered addresses come from deployments.json (or the env overrides).
+ *
+ * Usage:
+ *   npm run oft:peer-matrix -- --network sepolia
+ *   PEER_MATRIX_OUTPUT=peers.json npm run oft:peer-matrix -- --network mainnet
+ *
+ * Optional:
+ *   PEER_MATRIX_OUTPUT  Write the matrix, findings and fix plan as JSON to this file
+ */
+
+function resolveNodes(isTestnet: boolean, remotes: PeerEndpoint[]): PeerNode[] {
+  const nodes: PeerNode[] = [];
+  for (const chain of Object.values(LAYERZERO_CHAINS).filter((entry) => entry.isTestnet === isTestnet)) {
+    const endpoint = remotes.find((remote) => remote.eid === chain.eid)!;
+    if (!endpoint.address) {
+      console.log(`⏭️  ${chain.name}: no ${chain.contract} deployment, skipped`);
+      continue;
+    }
+    try {
+      nodes.push({
+        ...endpoint,
+        address: endpoint.address,
+        kind: chain.contract,
+        provider: getNetworkProvider(chain.hardhatNetwork),
+      });
+    } catch (error) {
+      console.warn(`⚠️  ${chain.name}: ${error instanceof Error ? error.message : error}, skipped`);
+    }
+  }
+  return nodes;
+}
+
+function displayMatrix(report: PeerReport) {
+  const { nodes, peers } = report.matrix;
+  const width = Math.max(...nodes.map((node) => node.name.length)) + 2;
+  const cellWidth = 12;
+
+  // Rows hold the peer each contract sets for the column's EID
+  const cell = (from: PeerNode, to: PeerNode): string => {
+    if (from.eid === to.eid) {
+      return "—";
+    }
+    const peer = peers[from.eid]?.[to.eid];
+    const finding = report.findings.find((entry) => entry.from.eid === from.eid && entry.to.eid === to.eid);
+    if (finding) {
+      return finding.issue === "asymmetric" ? "missing" : "wrong";
+    }
+    if (!peer) {
+      return "·";
+    }
+    return peers[to.eid]?.[from.eid]?.toLowerCase() === from.address.toLowerCase() ? "ok" : "one-way";
+  };
+
+  console.log("\n🔗 peers(eid) Matrix (row trusts column)");
+  console.log("==================================================");
+  console.log(" ".repeat(width) + nodes.map((node) => String(node.eid).padEnd(cellWidth)).join(""));
+  for (const from of nodes) {
+    console.log(from.name.padEnd(width) + nodes.map((to) => cell(from, to).padEnd(cellWidth)).join(""));
+  }
+  console.log("\nok = both sides trust each other, one-way = the other side has no peer yet, · = no peer");
+}
+
+function displayFindings(report: PeerReport) {
+  console.log(`\n🔎 Findings (${report.findings.length})`);
+  console.log("==================================================");
+  for (const finding of report.findings) {
+    console.log(`❌ [${finding.issue}] ${finding.message}`);
+  }
+
+  if (report.fixes.length === 0) {
+    return;
+  }
+
+  console.log("\n🛠️  Fix Plan");
+  console.log("==================================================");
+  const byNetwork = new Map<string, typeof report.fixes>();
+  for (const fix of report.fixes) {
+    byNetwork.set(fix.network, [...(byNetwork.get(fix.network) || []), fix]);
+  }
+  for (const [fixNetwork, fixes] of byNetwork) {
+    console.log(`\n--network ${fixNetwork}`);
+    for (const fix of fixes) {
+      console.log(`  setPeer(${fix.eid}, ${fix.peer})  # ${fix.reason}`);
+      console.log(`    to:   ${fix.oapp}`);
+      console.log(`    data: ${fix.data}`);
+    }
+  }
+}
+
+async function main() {
+  try {
+    const chain = getLayerZeroChainById((await ethers.provider.getNetwork()).chainId);
+
+    console.log("\n╔════════════════════════════════════════════════════════════════╗");
+    console.log("║        CYBERIA (CAP) PEER CONSISTENCY MATRIX                   ║");
+    console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+    console.log(`🌐 ${chain.isTestnet ? "Testnet" : "Mainnet"} chains (from --network ${network.name})`);
+
+    // Both environments are queried so that cross-links show up
+    const remotes = registeredEndpoints();
+    const nodes = resolveNodes(chain.isTestnet, remotes);
+    if (nodes.length === 0) {
+      throw new Error("No OFTAdapter/OFT deployment found on any chain");
+    }
+
+    const report = await checkPeerMatrix(nodes, remotes);
+    displayMatrix(report);
+    displayFindings(report);
+
+    const output = process.env.PEER_MATRIX_OUTPUT;
+    if (output) {
+      const json = {
+        nodes: report.matrix.nodes.map(({ provider: _provider, ...node }) => node),
+        peers: report.matrix.peers,
+        findings: report.findings,
+        fixes: report.fixes,
+      };
+      writeFileSync(output, JSON.stringify(json, null, 2) + "\n");
+      console.log(`\n💾 Report written to ${output}`);
+    }
+
+    if (report.ok) {
+      console.log(`\n✅ ${nodes.length} contract(s) agree on their peers`);
+    } else {
+      console.error(`\n❌ ${report.findings.length} peer problem(s); send the fix plan from each listed network`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("\n❌ Peer matrix failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -1,14 +1,82 @@
-import { ethers } from "hardhat";
+import { ethers, network as hardhatNetwork } from "hardhat";
 import { config as dotenvConfig } from "dotenv";
+import { updateOFTPeers } from "../utils/deployment-tracker";
+import { getLayerZeroChainById } from "../config/layerzero";
+import { requireOFTAddress } from "../utils/oft-registry";
+import { PeerFix, PeerNode, checkPeerMatrix, planPeerRemovals, registeredEndpoints } from "../utils/peer-matrix";
+import { TxSink } from "../utils/tx-sink";
 dotenvConfig();
 
 /**
  * Remove Stale Peer Configuration
  *
- * This script removes incorrect/stale peer configurations by setting them to zero address
- * Use this to clean up misconfigured peers from deployment errors
+ * Reads peers(eid) on the OFTAdapter or OFT of --network for every EID in the LayerZero registry
+ * and removes (sets to zero) every peer that is not expected:
+ *   - mainnet/testnet cross-links (e.g. a testnet OFT still trusting the Ethereum adapter)
+ *   - peers on EIDs without a registered deployment
+ *   - peers that differ from the registered contract (re-run oft:configure:peers afterwards)
+ * The same checks as `npm run oft:peer-matrix`, applied to one contract.
+ *
+ * The removals are shown as a diff first and only sent with PEER_CLEANUP_CONFIRM=true.
+ * They go through the transaction sink (utils/tx-sink.ts); when the owner is a contract (Safe
+ * multisig or DAO), it defaults to TX_SINK=safe and the setPeer(eid, 0x0) calls are written as a
+ * Safe Transaction Builder batch for the owner instead of being sent.
+ *
+ * Usage:
+ *   npm run oft:remove-stale-peers -- --network arbitrumSepolia                           # show the diff
+ *   PEER_CLEANUP_CONFIRM=true npm run oft:remove-stale-peers -- --network arbitrumSepolia # send
+ *
+ * Optional:
+ *   TX_SINK_OUTPUT  Batch file when the owner is a contract (default: proposals/stale-peers-<network>-<timestamp>.json)
  */
 
+const ZERO_PEER = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+function printDiff(node: PeerNode, peers: Record<number, string>, removals: PeerFix[]) {
+  const names = new Map(registeredEndpoints().map((endpoint) => [endpoint.eid, endpoint.name]));
+
+  console.log("\n🔗 Peer Diff:");
+  console.log("==================================================");
+  for (const [eid, peer] of Object.entries(peers)) {
+    const removal = removals.find((fix) => fix.eid === Number(eid));
+    const label = `${names.get(Number(eid)) || "Unknown"} (EID ${eid})`;
+    if (removal) {
+      console.log(`- ${label}: ${peer} → 0x0`);
+      console.log(`    ${removal.reason}`);
+    } else {
+      console.log(`  ${label}: ${peer} (kept)`);
+    }
+  }
+  if (Object.keys(peers).length === 0) {
+    console.log(`  ${node.name} has no peers`);
+  }
+}
+
+async function submitRemovals(node: PeerNode, sink: TxSink, removals: PeerFix[]) {
+  const oapp = await ethers.getContractAt(node.kind, node.address);
+
+  for (const removal of removals) {
+    console.log(`\n🧹 Removing peer for EID ${removal.eid}...`);
+    const hash = await sink.submit({
+      to: removal.oapp,
+      data: removal.data,
+      description: `setPeer(${removal.eid}, 0x0): ${removal.reason}`,
+    });
+    if (!hash) {
+      continue;
+    }
+
+    updateOFTPeers(hardhatNetwork.name, node.kind, { [removal.eid]: null }, hash);
+
+    // Verify removal
+    if ((await oapp.peers(removal.eid)) === ZERO_PEER) {
+      console.log("✅ Verified: Peer is now set to zero address");
+    } else {
+      console.log("⚠️  Warning: Peer may not have been removed correctly");
+    }
+  }
+}
+
 async function main() {
   const [signer] = await ethers.getSigners();
   const network = await ethers.provider.getNetwork();
@@ -20,86 +88,60 @@ async function main() {
   console.log("Chain ID:", network.chainId.toString());
   console.log("Signer:", signer.address);
 
-  // Get OFT address based on network
-  const chainId = network.chainId;
-  let oftAddress = "";
-
-  if (chainId === 421614n) {
-    oftAddress = process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS || "";
-  } else if (chainId === 42161n) {
-    oftAddress = process.env.ARBITRUM_OFT_ADDRESS || "";
-  } else if (chainId === 11155420n) {
-    oftAddress = process.env.OPTIMISM_SEPOLIA_OFT_ADDRESS || "";
-  } else if (chainId === 10n) {
-    oftAddress = process.env.OPTIMISM_OFT_ADDRESS || "";
-  } else if (chainId === 84532n) {
-    oftAddress = process.env.BASE_SEPOLIA_OFT_ADDRESS || "";
-  } else if (chainId === 8453n) {
-    oftAddress = process.env.BASE_OFT_ADDRESS || "";
-  } else if (chainId === 80002n) {
-    oftAddress = process.env.POLYGON_AMOY_OFT_ADDRESS || "";
-  } else if (chainId === 137n) {
-    oftAddress = process.env.POLYGON_OFT_ADDRESS || "";
-  } else {
-    throw new Error(`Unsupported network: ${network.name}`);
-  }
-
-  if (!oftAddress) {
-    throw new Error("OFT address not configured for this network");
+  // Adapter or OFT, from deployments.json (env var overrides it)
+  const chain = getLayerZeroChainById(network.chainId);
+  const resolved = requireOFTAddress(chain.contract, { chainId: chain.chainId });
+  const node: PeerNode = {
+    name: chain.name,
+    network: chain.hardhatNetwork,
+    eid: chain.eid,
+    isTestnet: chain.isTestnet,
+    kind: chain.contract,
+    address: resolved.address,
+    provider: ethers.provider,
+  };
+
+  console.log(`\n📝 ${chain.contract}:`, node.address, `(from ${resolved.source})`);
+
+  const report = await checkPeerMatrix([node], registeredEndpoints());
+  const removals = planPeerRemovals(report, node);
+  printDiff(node, report.matrix.peers[node.eid] || {}, removals);
+
+  if (removals.length === 0) {
+    console.log("\n✅ No stale peer found. Configuration is clean!");
+    return;
   }
 
-  console.log("\n📝 OFT Contract:", oftAddress);
-
-  const oft = await ethers.getContractAt("CAPTokenOFT", oftAddress);
-
-  // For testnets, remove mainnet Ethereum peer (EID 30101)
-  // For mainnet, remove testnet Sepolia peer (EID 40161)
-  const isTestnet =
-    chainId === 421614n || // Arbitrum Sepolia
-    chainId === 11155420n || // Optimism Sepolia
-    chainId === 84532n || // Base Sepolia
-    chainId === 80002n; // Polygon Amoy
-
-  const staleEid = isTestnet ? 30101 : 40161; // Remove mainnet peer on testnet, vice versa
-  const staleName = isTestnet ? "Ethereum Mainnet" : "Ethereum Sepolia";
-
-  console.log(`\n🔍 Checking for stale peer: ${staleName} (EID ${staleEid})`);
+  const oapp = await ethers.getContractAt(chain.contract, node.address);
+  const owner: string = await oapp.owner();
+  console.log(`\nOwner: ${owner}`);
+
+  // A multisig/DAO owner gets a Safe batch unless TX_SINK says otherwise
+  const isSigner = owner.toLowerCase() === signer.address.toLowerCase();
+  const isContract = (await ethers.provider.getCode(owner)) !== "0x";
+  const sink = await TxSink.open({
+    title: `Remove stale ${node.kind} peers on ${node.name}`,
+    name: "stale-peers",
+    fallback: isSigner || !isContract ? "send" : "safe",
+    safe: owner,
+    dao: owner,
+  });
 
-  // Check if stale peer exists
-  const currentPeer = await oft.peers(staleEid);
+  if (sink.sends && !isSigner) {
+    throw new Error(
+      `Owner ${owner} is not the signer; run this script with the owner key or batch the removals (TX_SINK=safe)`
+    );
+  }
 
-  if (currentPeer === "0x0000000000000000000000000000000000000000000000000000000000000000") {
-    console.log("✅ No stale peer found. Configuration is clean!");
+  if (sink.sends && process.env.PEER_CLEANUP_CONFIRM !== "true") {
+    console.log(`\nℹ️  ${removals.length} peer(s) would be removed. Re-run with PEER_CLEANUP_CONFIRM=true to send.`);
     return;
   }
 
-  const currentPeerAddress = "0x" + currentPeer.slice(-40);
-  console.log(`⚠️  Found stale peer: ${currentPeerAddress}`);
-
-  // Remove stale peer by setting to zero bytes32
-  const zeroPeer = "0x0000000000000000000000000000000000000000000000000000000000000000";
-
-  console.log(`\n🧹 Removing stale peer for ${staleName} (EID ${staleEid})...`);
-
-  try {
-    const tx = await oft.setPeer(staleEid, zeroPeer);
-    console.log("Transaction hash:", tx.hash);
-
-    console.log("⏳ Waiting for confirmation...");
-    await tx.wait();
-
-    console.log("✅ Stale peer removed successfully!");
-
-    // Verify removal
-    const verifyPeer = await oft.peers(staleEid);
-    if (verifyPeer === zeroPeer) {
-      console.log("✅ Verified: Peer is now set to zero address");
-    } else {
-      console.log("⚠️  Warning: Peer may not have been removed correctly");
-    }
-  } catch (error) {
-    console.error("❌ Failed to remove stale peer:", error);
-    throw error;
+  await submitRemovals(node, sink, removals);
+  if (!sink.sends) {
+    await sink.flush();
+    return;
   }
 
   console.log("\n==================================================");
@@ -1,15 +1,19 @@
 import { ethers } from "hardhat";
-import { Options } from "@layerzerolabs/lz-v2-utilities";
+import { CapBridge } from "../sdk";
+import { getLayerZeroChain } from "../config/layerzero";
+import { resolveOFTAddress } from "../utils/oft-registry";
 
 /**
  * Test Bridge Script
  *
  * Tests bridging CAP tokens from Sepolia to Arbitrum Sepolia
- * This script demonstrates the complete bridge flow including:
+ * This script demonstrates the complete bridge flow (through CapBridge in scripts/sdk) including:
+ * - Quoting the transfer tax and LayerZero fees
  * - Approving the adapter
- * - Estimating LayerZero fees
  * - Sending tokens cross-chain
  * - Verifying 1% tax is applied
+ *
+ * For operational transfers (any route, amount or recipient) use scripts/layerzero/bridge.ts
  */
 
 async function main() {
@@ -22,131 +26,97 @@ async function main() {
   console.log("Network:", network.name);
   console.log("Tester:", deployer.address);
 
-  // Configuration - loaded from .env
-  const CAP_TOKEN_ADDRESS = process.env.SEPOLIA_CAP_TOKEN_ADDRESS || "0xA6B680A88c16056de7194CF775D04A45D0692C11";
-  const OFT_ADAPTER_ADDRESS = process.env.SEPOLIA_OFT_ADAPTER_ADDRESS || "";
-  const ARBITRUM_SEPOLIA_EID = 40231; // LayerZero V2 Endpoint ID for Arbitrum Sepolia
+  // Configuration - loaded from deployments.json, .env overrides
+  const adapter = resolveOFTAddress("CAPTokenOFTAdapter", { chainId: Number(network.chainId) }, [
+    "SEPOLIA_OFT_ADAPTER_ADDRESS",
+  ]);
+  const OFT_ADAPTER_ADDRESS = adapter?.address || "";
+  const destination = getLayerZeroChain("arbitrumSepolia");
+  const layerZeroScan = destination.isTestnet ? "https://testnet.layerzeroscan.com" : "https://layerzeroscan.com";
 
   if (!OFT_ADAPTER_ADDRESS) {
-    throw new Error("Please set SEPOLIA_OFT_ADAPTER_ADDRESS in .env");
+    throw new Error(
+      "OFT Adapter not found in deployments.json. Deploy it first or set SEPOLIA_OFT_ADAPTER_ADDRESS in .env"
+    );
   }
 
-  console.log("Using CAP Token:", CAP_TOKEN_ADDRESS);
-  console.log("Using OFT Adapter:", OFT_ADAPTER_ADDRESS);
+  // The CAP token is read from the adapter (token()) and checked to be Cyberia/CAP
+  const bridge = await CapBridge.connect(OFT_ADAPTER_ADDRESS, deployer);
+  if (!bridge.cap) {
+    throw new Error(`${OFT_ADAPTER_ADDRESS} is a CAPTokenOFT, not the OFT Adapter`);
+  }
+  const capToken = bridge.cap;
 
-  // Get contract instances
-  const capToken = await ethers.getContractAt("CAPToken", CAP_TOKEN_ADDRESS);
-  const oftAdapter = await ethers.getContractAt("CAPTokenOFTAdapter", OFT_ADAPTER_ADDRESS);
+  console.log("Using CAP Token:", capToken.address);
+  console.log("Using OFT Adapter:", OFT_ADAPTER_ADDRESS);
 
   // Test amount: 100 CAP tokens
-  const testAmount = ethers.parseEther("100");
+  const testAmount = BigInt(ethers.utils.parseEther("100").toString());
 
   console.log("\n📋 Test Configuration");
   console.log("==================================================");
-  console.log("CAP Token:", CAP_TOKEN_ADDRESS);
+  console.log("CAP Token:", capToken.address);
   console.log("OFT Adapter:", OFT_ADAPTER_ADDRESS);
-  console.log("Destination Chain: Arbitrum Sepolia (EID:", ARBITRUM_SEPOLIA_EID, ")");
-  console.log("Test Amount:", ethers.formatEther(testAmount), "CAP");
+  console.log(`Destination Chain: ${destination.name} (EID: ${destination.eid})`);
+  console.log("Test Amount:", ethers.utils.formatEther(testAmount), "CAP");
 
   // Check balances
   const balance = await capToken.balanceOf(deployer.address);
-  console.log("\n💰 Current Balance:", ethers.formatEther(balance), "CAP");
+  console.log("\n💰 Current Balance:", ethers.utils.formatEther(balance), "CAP");
 
   if (balance < testAmount) {
     throw new Error(
-      `Insufficient balance. You have ${ethers.formatEther(balance)} CAP but need ${ethers.formatEther(testAmount)} CAP`
+      `Insufficient balance. You have ${ethers.utils.formatEther(balance)} CAP but need ${ethers.utils.formatEther(testAmount)} CAP`
     );
   }
 
   // Check if adapter is a pool (it shouldn't be)
-  const isPool = await capToken.isPool(OFT_ADAPTER_ADDRESS);
+  const isPool = await capToken.token.isPool(OFT_ADAPTER_ADDRESS);
   console.log("\n🔍 Adapter Pool Status:", isPool ? "❌ IS POOL (2% tax)" : "✅ NOT POOL (1% tax)");
 
-  // Step 1: Approve adapter
-  console.log("\n📝 Step 1: Approving OFT Adapter");
-  console.log("==================================================");
-
-  const currentAllowance = await capToken.allowance(deployer.address, OFT_ADAPTER_ADDRESS);
-
-  if (currentAllowance < testAmount) {
-    console.log("Approving", ethers.formatEther(testAmount), "CAP...");
-    const approveTx = await capToken.approve(OFT_ADAPTER_ADDRESS, testAmount);
-    await approveTx.wait();
-    console.log("✅ Approved!");
-  } else {
-    console.log("✅ Already approved");
-  }
-
-  // Step 2: Calculate expected tax
-  console.log("\n💸 Step 2: Tax Calculation");
+  // Step 1: Quote tax and LayerZero fee
+  console.log("\n💸 Step 1: Tax Calculation and LayerZero Fee");
   console.log("==================================================");
 
-  const transferTaxBp = await capToken.transferTaxBp();
-  const expectedTax = (testAmount * transferTaxBp) / 10000n;
+  const quote = await bridge.quote({ dstEid: destination.eid, to: deployer.address, amountLD: testAmount });
+  const expectedTax = quote.taxAmountLD;
   const expectedLocked = testAmount - expectedTax;
 
-  console.log("Transfer Tax Rate:", Number(transferTaxBp) / 100, "%");
-  console.log("Amount to bridge:", ethers.formatEther(testAmount), "CAP");
-  console.log("Expected tax:", ethers.formatEther(expectedTax), "CAP");
-  console.log("Expected locked in adapter:", ethers.formatEther(expectedLocked), "CAP");
-  console.log("Expected to receive on Arbitrum:", ethers.formatEther(expectedLocked), "CAP");
-
-  // Step 3: Quote LayerZero fee
-  console.log("\n⛽ Step 3: Estimating LayerZero Fee");
-  console.log("==================================================");
-
-  // Create send parameters
-  const options = Options.newOptions()
-    .addExecutorLzReceiveOption(200000, 0) // 200k gas for receive
-    .toHex();
-
-  const sendParam = {
-    dstEid: ARBITRUM_SEPOLIA_EID,
-    to: ethers.zeroPadValue(deployer.address, 32), // recipient on destination chain
-    amountLD: testAmount,
-    minAmountLD: expectedLocked, // minimum to receive after tax
-    extraOptions: options,
-    composeMsg: "0x",
-    oftCmd: "0x",
-  };
-
-  const [nativeFee] = await oftAdapter.quoteSend(sendParam, false);
-  console.log("LayerZero Fee:", ethers.formatEther(nativeFee), "ETH");
+  console.log("Tax Rate:", quote.taxQuote!.taxBp / 100, "%");
+  console.log("Amount to bridge:", ethers.utils.formatEther(testAmount), "CAP");
+  console.log("Expected tax:", ethers.utils.formatEther(expectedTax), "CAP");
+  console.log("Expected locked in adapter:", ethers.utils.formatEther(expectedLocked), "CAP");
+  console.log(`Expected to receive on ${destination.name}:`, ethers.utils.formatEther(quote.amountReceivedLD), "CAP");
+  console.log("LayerZero Fee:", ethers.utils.formatEther(quote.nativeFee), "ETH");
 
   // Check ETH balance for gas
-  const ethBalance = await ethers.provider.getBalance(deployer.address);
-  console.log("Your ETH Balance:", ethers.formatEther(ethBalance), "ETH");
+  const ethBalance = BigInt((await ethers.provider.getBalance(deployer.address)).toString());
+  console.log("Your ETH Balance:", ethers.utils.formatEther(ethBalance), "ETH");
 
-  if (ethBalance < nativeFee) {
-    throw new Error(`Insufficient ETH for LayerZero fee. Need ${ethers.formatEther(nativeFee)} ETH`);
+  if (ethBalance < quote.nativeFee) {
+    throw new Error(`Insufficient ETH for LayerZero fee. Need ${ethers.utils.formatEther(quote.nativeFee)} ETH`);
   }
 
-  // Step 4: Send tokens
-  console.log("\n🚀 Step 4: Sending Tokens Cross-Chain");
+  // Step 2: Approve and send tokens
+  console.log("\n🚀 Step 2: Sending Tokens Cross-Chain");
   console.log("==================================================");
 
   const balanceBefore = await capToken.balanceOf(deployer.address);
   const adapterBalanceBefore = await capToken.balanceOf(OFT_ADAPTER_ADDRESS);
 
-  console.log("Sending", ethers.formatEther(testAmount), "CAP to Arbitrum Sepolia...");
+  console.log("Sending", ethers.utils.formatEther(testAmount), `CAP to ${destination.name}...`);
   console.log("\n⏳ Broadcasting transaction...");
 
-  const sendTx = await oftAdapter.send(
-    sendParam,
-    { nativeFee, lzTokenFee: 0 },
-    deployer.address, // refund address
-    { value: nativeFee }
-  );
-
-  console.log("TX Hash:", sendTx.hash);
-  console.log("⏳ Waiting for confirmation...");
-
-  const receipt = await sendTx.wait();
+  const receipt = await bridge.send(quote);
+  if (receipt.approvalHash) {
+    console.log("Approval TX Hash:", receipt.approvalHash);
+  }
+  console.log("TX Hash:", receipt.transactionHash);
+  console.log("LayerZero GUID:", receipt.guid);
   console.log("✅ Transaction confirmed!");
-  console.log("Gas used:", receipt.gasUsed.toString());
 
-  // Step 5: Verify results
-  console.log("\n✅ Step 5: Verifying Results");
+  // Step 3: Verify results
+  console.log("\n✅ Step 3: Verifying Results");
   console.log("==================================================");
 
   const balanceAfter = await capToken.balanceOf(deployer.address);
@@ -157,23 +127,28 @@ async function main() {
   const actualTax = actualDeducted - actualLocked;
 
   console.log("\n📊 Results:");
-  console.log("Amount deducted from sender:", ethers.formatEther(actualDeducted), "CAP");
-  console.log("Amount locked in adapter:", ethers.formatEther(actualLocked), "CAP");
-  console.log("Tax collected:", ethers.formatEther(actualTax), "CAP");
+  console.log("Amount deducted from sender:", ethers.utils.formatEther(actualDeducted), "CAP");
+  console.log("Amount locked in adapter:", ethers.utils.formatEther(actualLocked), "CAP");
+  console.log("Tax collected:", ethers.utils.formatEther(actualTax), "CAP");
   console.log("Tax rate:", Number((actualTax * 10000n) / actualDeducted) / 100, "%");
 
   // Compare with expected
   console.log("\n🔍 Comparison:");
-  console.log("Expected tax:", ethers.formatEther(expectedTax), "CAP");
-  console.log("Actual tax:", ethers.formatEther(actualTax), "CAP");
+  console.log("Expected tax:", ethers.utils.formatEther(expectedTax), "CAP");
+  console.log("Actual tax:", ethers.utils.formatEther(actualTax), "CAP");
   console.log("Match:", expectedTax === actualTax ? "✅ YES" : "❌ NO");
 
   console.log("\n📝 Next Steps:");
   console.log("1. Wait 1-2 minutes for LayerZero message delivery");
-  console.log("2. Check Arbitrum Sepolia for received tokens");
-  console.log("3. Verify you received:", ethers.formatEther(actualLocked), "CAP on Arbitrum");
-  console.log("\nArbitrum Sepolia Explorer:");
-  console.log(`https://sepolia.arbiscan.io/address/${deployer.address}`);
+  console.log(`2. Check ${destination.name} for received tokens`);
+  console.log(
+    "3. Verify you received:",
+    ethers.utils.formatEther(receipt.amountReceivedLD),
+    `CAP on ${destination.name}`
+  );
+  console.log(`4. Track the message: ${layerZeroScan}/tx/${receipt.transactionHash}`);
+  console.log(`\n${destination.name} Explorer:`);
+  console.log(`${destination.explorerUrl}/address/${deployer.address}`);
 
   console.log("\n==================================================");
   console.log("🎉 Bridge Test Complete!");
@@ -0,0 +1,102 @@
+/**
+ * Bring the current network in line with the manifest
+ *
+ * Repeatedly plans and runs the first pending step the signer can send, so every
+ * step sees the state left by the previous one (e.g. peers are set right after a
+ * deploy). Re-running is safe: steps that are already done are skipped.
+ *
+ * CAPToken steps the signer cannot send (governance is the DAO) are written to a
+ * proposal spec for `npm run dao:build-proposal`. Timelocked steps (tax changes)
+ * stay blocked until the delay has passed; re-run apply afterwards.
+ *
+ * Usage:
+ *   npm run manifest:apply -- --network sepolia
+ *   MANIFEST=manifests/testnet.json npx hardhat run scripts/manifest/apply.ts --network arbitrumSepolia
+ *
+ * Optional:
+ *   PROPOSAL_OUTPUT  Where to write the proposal spec (default: proposals/manifest-<network>-<timestamp>.json)
+ */
+
+import { network } from "hardhat";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import * as dotenv from "dotenv";
+import { CapGovernanceCall, ProposalSpec } from "../dao/build-proposal";
+import { loadManifest, resolveManifestPath } from "./manifest";
+import { ManifestPlan, buildPlan, printPlan } from "./planner";
+
+dotenv.config();
+
+function writeProposalSpec(plan: ManifestPlan, calls: CapGovernanceCall[]): string {
+  const spec: ProposalSpec = {
+    title: `Apply deployment manifest "${plan.manifest}" on ${plan.network}`,
+    summary: `Brings CAP token ${plan.capToken} in line with the "${plan.manifest}" manifest.`,
+    actions: calls,
+  };
+
+  const path =
+    process.env.PROPOSAL_OUTPUT ||
+    join(process.cwd(), "proposals", `manifest-${plan.network}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`);
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(spec, null, 2) + "\n", "utf8");
+  return path;
+}
+
+async function main() {
+  console.log("\n╔════════════════════════════════════════════════════════════╗");
+  console.log("║               CAP Deployment Manifest: Apply               ║");
+  console.log("╚════════════════════════════════════════════════════════════╝\n");
+
+  const manifestPath = resolveManifestPath(network.name);
+  const manifest = loadManifest(manifestPath);
+  console.log(`📄 ${manifestPath}\n`);
+
+  const executed = new Set<string>();
+  let plan = await buildPlan(manifest, network.name);
+
+  // Each step runs at most once per invocation, so the loop ends even if a step never converges
+  for (;;) {
+    const next = plan.steps.find((step) => step.status === "pending" && step.execute);
+    if (!next || !next.execute) {
+      break;
+    }
+    if (executed.has(next.id)) {
+      throw new Error(`Step ${next.id} is still pending after it was executed`);
+    }
+    executed.add(next.id);
+
+    console.log(`▶️  ${next.description}  [${next.id}]`);
+    const txHash = await next.execute();
+    console.log(`   ✅ ${txHash ? `Transaction: ${txHash}` : "Done"}\n`);
+
+    plan = await buildPlan(manifest, network.name);
+  }
+
+  console.log("\n📋 Resulting state:\n");
+  printPlan(plan);
+
+  const calls = plan.steps
+    .map((step) => step.governanceCall)
+    .filter((call): call is CapGovernanceCall => call !== undefined);
+  if (calls.length > 0) {
+    const specPath = writeProposalSpec(plan, calls);
+    console.log(`\n🗳️  ${calls.length} CAPToken change(s) need a DAO vote. Proposal spec written to: ${specPath}`);
+    console.log(`   PROPOSAL_SPEC=${specPath} npx hardhat run scripts/dao/build-proposal.ts --network ${network.name}`);
+  }
+
+  if (plan.steps.some((step) => step.status === "blocked")) {
+    console.log("\n⏸️  Some steps are blocked. Resolve them (or wait for the timelock) and re-run apply.");
+  } else if (calls.length === 0) {
+    console.log(`\n🎉 ${network.name} matches the manifest.`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Apply failed:", error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,260 @@
+/**
+ * Declarative deployment manifest
+ *
+ * A manifest describes the desired state of a full CAP rollout (token, taxes, pools,
+ * fee recipient, governance and the LayerZero mesh) for one environment. The plan/apply
+ * scripts diff it against on-chain state and only run the missing steps.
+ *
+ * Example (manifests/testnet.json):
+ *   {
+ *     "name": "testnet",
+ *     "token": {
+ *       "network": "sepolia",
+ *       "feeRecipient": "0x...",
+ *       "taxes": { "transfer": 100, "sell": 100, "buy": 0 },
+ *       "pools": ["0x..."],
+ *       "governance": "0x..."
+ *     },
+ *     "layerzero": {
+ *       "adapter": { "owner": "0x..." },
+ *       "chains": [{ "network": "arbitrumSepolia", "owner": "0x..." }],
+ *       "enforcedOptions": { "lzReceiveGas": 200000 },
+ *       "security": {
+ *         "confirmations": { "sepolia": 2, "arbitrumSepolia": 1 },
+ *         "requiredDVNs": ["layerzero"]
+ *       }
+ *     }
+ *   }
+ *
+ * Peers are hub-and-spoke, as configured by configure-oft-peers.ts: the OFTAdapter on
+ * token.network peers with every chain listed, and each OFT peers with the adapter.
+ * Enforced options and the security policy (libraries, DVNs, executor) apply to every such pathway.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { NETWORKS, getNetworkConfig } from "../config/environments";
+import { LAYERZERO_CHAINS, LayerZeroChain, getHomeChain } from "../config/layerzero";
+import type { SecurityPolicy } from "../utils/oapp-security";
+import { CAP_TAX_LIMITS, TaxRates, validateTaxRates } from "../utils/tax-validation";
+
+export interface TokenManifest {
+  /** Hardhat network the CAP proxy lives on */
+  network: string;
+  /** Proxy address of an existing deployment (default: latest CAPToken in deployments.json) */
+  address?: string;
+  /** Governance passed to initialize() when the proxy is deployed (default: the deployer) */
+  initialGovernance?: string;
+  /** Zero address enables burn mode */
+  feeRecipient: string;
+  taxes: TaxRates;
+  /** Pools that must be registered (pools not listed are left untouched) */
+  pools?: string[];
+  /** Final governance (e.g. the Aragon DAO), handed over once every other token step is done */
+  governance: string;
+}
+
+export interface OAppManifest {
+  /** Final OApp owner, transferred once peers and options are set (default: left as deployed) */
+  owner?: string;
+}
+
+export interface OFTChainManifest extends OAppManifest {
+  /** Hardhat network running a CAPTokenOFT */
+  network: string;
+}
+
+export interface EnforcedOptionsManifest {
+  /** Gas for lzReceive on the destination chain */
+  lzReceiveGas: number;
+  /** Native value forwarded to lzReceive (wei, default 0) */
+  lzReceiveValue?: number;
+  /** Gas for lzCompose, enforced on SEND_AND_CALL only */
+  lzComposeGas?: number;
+}
+
+export interface LayerZeroManifest {
+  /** OFTAdapter on token.network */
+  adapter: OAppManifest;
+  chains: OFTChainManifest[];
+  /** Applied to SEND and SEND_AND_CALL for every peer */
+  enforcedOptions?: EnforcedOptionsManifest;
+  /** Send/receive libraries, ULN (DVN) and executor config pinned on every pathway */
+  security?: SecurityPolicy;
+}
+
+export interface CapManifest {
+  name: string;
+  token: TokenManifest;
+  layerzero?: LayerZeroManifest;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+function checkAddress(errors: string[], path: string, value: string | undefined, optional = false): void {
+  if (value === undefined) {
+    if (!optional) {
+      errors.push(`${path}: missing`);
+    }
+    return;
+  }
+  if (!ADDRESS_PATTERN.test(value)) {
+    errors.push(`${path}: ${value} is not a valid address`);
+  }
+}
+
+/**
+ * Check a manifest for structural problems
+ * @returns A list of errors (empty if the manifest is valid)
+ */
+export function validateManifest(manifest: CapManifest): string[] {
+  const errors: string[] = [];
+  const { token, layerzero } = manifest;
+
+  if (!token) {
+    return ["token: missing"];
+  }
+
+  if (!NETWORKS[token.network]) {
+    errors.push(`token.network: unknown network ${token.network}`);
+  }
+  checkAddress(errors, "token.address", token.address, true);
+  checkAddress(errors, "token.initialGovernance", token.initialGovernance, true);
+  checkAddress(errors, "token.feeRecipient", token.feeRecipient);
+  checkAddress(errors, "token.governance", token.governance);
+  (token.pools || []).forEach((pool, index) => checkAddress(errors, `token.pools[${index}]`, pool));
+
+  if (!token.taxes) {
+    errors.push("token.taxes: missing");
+  } else {
+    validateTaxRates(token.taxes, CAP_TAX_LIMITS).forEach((error) => errors.push(`token.taxes: ${error}`));
+  }
+
+  if (!layerzero) {
+    return errors;
+  }
+
+  const home = LAYERZERO_CHAINS[token.network];
+  if (!home || home.contract !== "CAPTokenOFTAdapter") {
+    errors.push(`layerzero: token.network ${token.network} cannot host the OFTAdapter`);
+  }
+  checkAddress(errors, "layerzero.adapter.owner", layerzero.adapter?.owner, true);
+
+  const seen = new Set<string>();
+  (layerzero.chains || []).forEach((entry, index) => {
+    const path = `layerzero.chains[${index}]`;
+    const chain = LAYERZERO_CHAINS[entry.network];
+    if (!chain || chain.contract !== "CAPTokenOFT") {
+      errors.push(`${path}.network: ${entry.network} is not a CAPTokenOFT chain`);
+    } else if (home && chain.isTestnet !== home.isTestnet) {
+      errors.push(`${path}.network: ${entry.network} cannot peer with ${token.network} (mainnet/testnet mismatch)`);
+    }
+    if (seen.has(entry.network)) {
+      errors.push(`${path}.network: ${entry.network} listed twice`);
+    }
+    seen.add(entry.network);
+    checkAddress(errors, `${path}.owner`, entry.owner, true);
+  });
+
+  const options = layerzero.enforcedOptions;
+  if (options && (!Number.isInteger(options.lzReceiveGas) || options.lzReceiveGas <= 0)) {
+    errors.push(`layerzero.enforcedOptions.lzReceiveGas: must be a positive integer`);
+  }
+  if (options?.lzComposeGas !== undefined && (!Number.isInteger(options.lzComposeGas) || options.lzComposeGas <= 0)) {
+    errors.push(`layerzero.enforcedOptions.lzComposeGas: must be a positive integer`);
+  }
+
+  if (layerzero.security) {
+    validateSecurityPolicy(errors, layerzero.security, manifestNetworks(manifest));
+  }
+
+  return errors;
+}
+
+function validateSecurityPolicy(errors: string[], policy: SecurityPolicy, networks: string[]): void {
+  const path = "layerzero.security";
+  const required = policy.requiredDVNs || [];
+  const optional = policy.optionalDVNs || [];
+
+  if (required.length === 0 && optional.length === 0) {
+    errors.push(`${path}: at least one required or optional DVN must be declared`);
+  }
+  const threshold = policy.optionalDVNThreshold || 0;
+  if (threshold > optional.length || (optional.length > 0 && threshold === 0)) {
+    errors.push(`${path}.optionalDVNThreshold: must be between 1 and ${optional.length} optional DVNs`);
+  }
+  const duplicates = [...required, ...optional].filter((name, index, names) => names.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`${path}: DVN ${duplicates.join(", ")} listed twice`);
+  }
+  if (policy.maxMessageSize !== undefined && (!Number.isInteger(policy.maxMessageSize) || policy.maxMessageSize <= 0)) {
+    errors.push(`${path}.maxMessageSize: must be a positive integer`);
+  }
+
+  for (const network of networks) {
+    const chain = LAYERZERO_CHAINS[network];
+    if (!chain) {
+      continue;
+    }
+    const confirmations = policy.confirmations?.[network];
+    if (!Number.isInteger(confirmations) || confirmations <= 0) {
+      errors.push(`${path}.confirmations.${network}: must be a positive integer`);
+    }
+    if (!chain.messageLibs) {
+      errors.push(`${path}: ${network} has no message libraries in the LayerZero registry`);
+    }
+    for (const name of [...required, ...optional]) {
+      if (!chain.dvns?.[name]) {
+        errors.push(`${path}: DVN "${name}" has no address on ${network}`);
+      }
+    }
+  }
+}
+
+/**
+ * Load and validate a manifest from disk
+ */
+export function loadManifest(path: string): CapManifest {
+  if (!existsSync(path)) {
+    throw new Error(`Manifest not found: ${path}`);
+  }
+
+  const manifest: CapManifest = JSON.parse(readFileSync(path, "utf8"));
+  const errors = validateManifest(manifest);
+  if (errors.length > 0) {
+    throw new Error(`Invalid manifest ${path}:\n  - ${errors.join("\n  - ")}`);
+  }
+  return manifest;
+}
+
+/**
+ * Hardhat networks a manifest touches, in rollout order
+ */
+export function manifestNetworks(manifest: CapManifest): string[] {
+  return [manifest.token.network, ...(manifest.layerzero?.chains || []).map((chain) => chain.network)];
+}
+
+/**
+ * Remote chains the LayerZero contract on `network` has a pathway to: every listed chain for the
+ * OFTAdapter, the adapter's chain for an OFT
+ */
+export function manifestPathways(manifest: CapManifest, network: string): LayerZeroChain[] {
+  const layerzero = manifest.layerzero;
+  const chain = LAYERZERO_CHAINS[network];
+  if (!layerzero || !chain) {
+    return [];
+  }
+  if (network === manifest.token.network) {
+    return layerzero.chains.map((entry) => LAYERZERO_CHAINS[entry.network]);
+  }
+  return layerzero.chains.some((entry) => entry.network === network) ? [getHomeChain(chain.isTestnet)] : [];
+}
+
+/**
+ * MANIFEST env var, or manifests/testnet.json / manifests/mainnet.json depending on the network
+ */
+export function resolveManifestPath(network: string): string {
+  return (
+    process.env.MANIFEST || join("manifests", `${getNetworkConfig(network).isTestnet ? "testnet" : "mainnet"}.json`)
+  );
+}
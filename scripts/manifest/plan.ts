@@ -0,0 +1,45 @@
+/**
+ * Show what `manifest:apply` would do on the current network
+ *
+ * Reads the manifest, diffs it against on-chain state and prints every step as
+ * done, pending or blocked. Nothing is sent.
+ *
+ * Usage:
+ *   npm run manifest:plan -- --network sepolia
+ *   MANIFEST=manifests/testnet.json npx hardhat run scripts/manifest/plan.ts --network arbitrumSepolia
+ */
+
+import { network } from "hardhat";
+import * as dotenv from "dotenv";
+import { loadManifest, manifestNetworks, resolveManifestPath } from "./manifest";
+import { buildPlan, printPlan } from "./planner";
+
+dotenv.config();
+
+async function main() {
+  console.log("\n╔════════════════════════════════════════════════════════════╗");
+  console.log("║                CAP Deployment Manifest: Plan               ║");
+  console.log("╚════════════════════════════════════════════════════════════╝\n");
+
+  const manifestPath = resolveManifestPath(network.name);
+  const manifest = loadManifest(manifestPath);
+  console.log(`📄 ${manifestPath}\n`);
+
+  const plan = await buildPlan(manifest, network.name);
+  printPlan(plan);
+
+  const others = manifestNetworks(manifest).filter((name) => name !== network.name);
+  if (others.length > 0) {
+    console.log(`\n💡 This manifest also covers: ${others.join(", ")} (run plan with --network <name>)`);
+  }
+  if (plan.steps.some((step) => step.status === "pending")) {
+    console.log(`\n👉 npm run manifest:apply -- --network ${network.name}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Plan failed:", error.message);
+    process.exit(1);
+  });
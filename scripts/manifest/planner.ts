@@ -0,0 +1,502 @@
+import { ethers } from "hardhat";
+import { getNetworkConfig } from "../config/environments";
+import { LAYERZERO_CHAINS, LayerZeroChain } from "../config/layerzero";
+import { CapGovernanceCall, buildCapAction } from "../dao/build-proposal";
+import { deployContract } from "../deploy";
+import { CapClient } from "../sdk";
+import {
+  OFTContractKind,
+  getDeployment,
+  saveDeployment,
+  saveOFTDeployment,
+  updateOFTPeers,
+} from "../utils/deployment-tracker";
+import {
+  PathwaySecurity,
+  SecurityChange,
+  desiredPathwaySecurity,
+  diffPathwaySecurity,
+  enforcedOptionsByType,
+  managedSettings,
+  readDelegate,
+  readPathwaySecurity,
+} from "../utils/oapp-security";
+import { peerToAddress, resolveOFTAddress } from "../utils/oft-registry";
+import { formatTaxRates } from "../utils/tax-validation";
+import { CapManifest, OAppManifest, manifestNetworks, manifestPathways } from "./manifest";
+
+export type StepStatus = "done" | "pending" | "blocked";
+
+export interface PlanStep {
+  /** Stable identifier, e.g. "sepolia:cap:fee-recipient" */
+  id: string;
+  description: string;
+  status: StepStatus;
+  current?: string;
+  desired?: string;
+  /** Why a step is blocked */
+  reason?: string;
+  /** Sends the transaction(s) for a pending step the signer is allowed to run; returns the tx hash */
+  execute?: () => Promise<string>;
+  /** Pending CAPToken call the signer cannot send because it is not governance */
+  governanceCall?: CapGovernanceCall;
+}
+
+export interface ManifestPlan {
+  manifest: string;
+  network: string;
+  chainId: number;
+  signer: string;
+  /** CAP proxy on this network, if any */
+  capToken?: string;
+  steps: PlanStep[];
+}
+
+interface PeerTarget {
+  chain: LayerZeroChain;
+  network: string;
+  eid: number;
+  /** Remote OApp address, undefined while it is not deployed */
+  address?: string;
+}
+
+const SECURITY_SETTINGS: Record<SecurityChange["setting"], string> = {
+  "send-library": "Pin send library",
+  "receive-library": "Pin receive library",
+  "send-config": "Set send ULN/executor config",
+  "receive-config": "Set receive ULN config",
+  "enforced-options": "Set enforced options",
+};
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+async function hasCode(address: string | undefined): Promise<boolean> {
+  return !!address && (await ethers.provider.getCode(address)) !== "0x";
+}
+
+function blockedBy(steps: PlanStep[]): string | undefined {
+  const open = steps.filter((step) => step.status !== "done").map((step) => step.id);
+  return open.length > 0 ? `waiting for ${open.join(", ")}` : undefined;
+}
+
+/**
+ * Declared configuration of one pathway: the security policy if any, plus enforced options
+ */
+export function declaredPathwaySecurity(
+  manifest: CapManifest,
+  local: LayerZeroChain,
+  remote: LayerZeroChain
+): PathwaySecurity {
+  const { security, enforcedOptions } = manifest.layerzero || {};
+  if (security) {
+    return desiredPathwaySecurity(security, local, remote, enforcedOptions);
+  }
+  return { enforcedOptions: enforcedOptions ? enforcedOptionsByType(enforcedOptions) : undefined };
+}
+
+async function planToken(
+  manifest: CapManifest,
+  network: string,
+  signer: string,
+  capToken: string | undefined
+): Promise<PlanStep[]> {
+  const token = manifest.token;
+  const networkConfig = getNetworkConfig(network);
+
+  if (!capToken && token.address) {
+    return [
+      {
+        id: `${network}:cap:deploy`,
+        description: "Locate CAPToken proxy",
+        status: "blocked",
+        reason: `no contract at token.address ${token.address}`,
+      },
+    ];
+  }
+
+  if (!capToken) {
+    const initialGovernance = token.initialGovernance || signer;
+    return [
+      {
+        id: `${network}:cap:deploy`,
+        description: "Deploy CAPToken proxy",
+        status: "pending",
+        desired: `governance ${initialGovernance}, fee recipient ${token.feeRecipient}`,
+        execute: async () => {
+          const config = { owner: initialGovernance, feeRecipient: token.feeRecipient };
+          const deployment = await deployContract(config, network);
+          saveDeployment(network, {
+            network,
+            chainId: networkConfig.chainId,
+            timestamp: new Date().toISOString(),
+            proxyAddress: deployment.proxyAddress,
+            implementationAddress: deployment.implementationAddress,
+            deployer: deployment.deployer,
+            owner: config.owner,
+            feeRecipient: config.feeRecipient,
+            txHash: deployment.txHash,
+            blockNumber: deployment.blockNumber,
+            verified: false,
+          });
+          return deployment.txHash;
+        },
+      },
+    ];
+  }
+
+  const address = capToken;
+  const cap = await CapClient.connect(address, ethers.provider);
+  const { governance, feeRecipient, taxes: current, pendingTaxChange } = await cap.getGovernanceState();
+  const canGovern = sameAddress(governance, signer);
+  const steps: PlanStep[] = [];
+
+  // Pending CAPToken call: sent directly when the signer is governance, otherwise proposed to the DAO
+  const governanceStep = (step: Omit<PlanStep, "status">, call: CapGovernanceCall): PlanStep => {
+    if (!canGovern) {
+      return { ...step, status: "pending", governanceCall: call };
+    }
+    return {
+      ...step,
+      status: "pending",
+      execute: async () => {
+        const action = buildCapAction(address, call);
+        const [wallet] = await ethers.getSigners();
+        const tx = await wallet.sendTransaction({ to: action.to, data: action.data });
+        const receipt = await tx.wait(networkConfig.confirmations);
+        return receipt.transactionHash;
+      },
+    };
+  };
+
+  // Fee recipient
+  const feeStep = {
+    id: `${network}:cap:fee-recipient`,
+    description: "Set fee recipient",
+    current: feeRecipient,
+    desired: token.feeRecipient,
+  };
+  steps.push(
+    sameAddress(feeRecipient, token.feeRecipient)
+      ? { ...feeStep, status: "done" }
+      : governanceStep(feeStep, { method: "setFeeRecipient", args: [token.feeRecipient] })
+  );
+
+  // Pools (only additions; pools missing from the manifest are left registered)
+  for (const pool of token.pools || []) {
+    const poolStep = { id: `${network}:cap:pool:${pool.toLowerCase()}`, description: `Register pool ${pool}` };
+    steps.push(
+      (await cap.token.isPool(pool))
+        ? { ...poolStep, status: "done" }
+        : governanceStep(poolStep, { method: "addPool", args: [pool] })
+    );
+  }
+
+  // Taxes (24h timelock: propose, then apply on a later run)
+  const desired = token.taxes;
+  const taxStep = {
+    id: `${network}:cap:taxes`,
+    description: "Set taxes",
+    current: formatTaxRates(current),
+    desired: formatTaxRates(desired),
+  };
+  const sameTaxes = (a: typeof current) =>
+    a.transfer === desired.transfer && a.sell === desired.sell && a.buy === desired.buy;
+
+  if (sameTaxes(current)) {
+    steps.push({ ...taxStep, status: "done" });
+  } else {
+    if (!pendingTaxChange || !sameTaxes(pendingTaxChange.taxes)) {
+      steps.push(
+        governanceStep(
+          { ...taxStep, description: "Propose tax change (24h timelock)" },
+          { method: "proposeTaxChange", args: [desired.transfer, desired.sell, desired.buy] }
+        )
+      );
+    } else if ((await cap.latestTimestamp()) < pendingTaxChange.executableAt) {
+      steps.push({
+        ...taxStep,
+        description: "Apply tax change",
+        status: "blocked",
+        reason: `timelock expires ${new Date(Number(pendingTaxChange.executableAt) * 1000).toISOString()}`,
+      });
+    } else {
+      steps.push(governanceStep({ ...taxStep, description: "Apply tax change" }, { method: "applyTaxChange" }));
+    }
+  }
+
+  // Governance handover comes last: once it moves, this signer can no longer finish the steps above
+  const handover = {
+    id: `${network}:cap:governance`,
+    description: "Transfer governance",
+    current: governance,
+    desired: token.governance,
+  };
+  if (sameAddress(governance, token.governance)) {
+    steps.push({ ...handover, status: "done" });
+  } else if (canGovern && blockedBy(steps)) {
+    steps.push({ ...handover, status: "blocked", reason: blockedBy(steps) });
+  } else {
+    steps.push(governanceStep(handover, { method: "setGovernance", args: [token.governance] }));
+  }
+
+  return steps;
+}
+
+async function planOApp(
+  contract: OFTContractKind,
+  chain: LayerZeroChain,
+  address: string,
+  config: OAppManifest,
+  peers: PeerTarget[],
+  manifest: CapManifest,
+  signer: string
+): Promise<PlanStep[]> {
+  const network = chain.hardhatNetwork;
+  const prefix = `${network}:${contract === "CAPTokenOFTAdapter" ? "adapter" : "oft"}`;
+  const confirmations = getNetworkConfig(network).confirmations;
+  const oapp = await ethers.getContractAt(contract, address);
+  const owner: string = await oapp.owner();
+  const canOwn = sameAddress(owner, signer);
+  const notOwner = `signer is not the ${contract} owner (${owner})`;
+  const steps: PlanStep[] = [];
+
+  for (const peer of peers) {
+    const step = { id: `${prefix}:peer:${peer.network}`, description: `Set peer ${peer.network} (EID ${peer.eid})` };
+    const current = peerToAddress(await oapp.peers(peer.eid));
+
+    if (!peer.address) {
+      steps.push({ ...step, status: "blocked", current: current || "none", reason: `deploy on ${peer.network} first` });
+    } else if (sameAddress(current, peer.address)) {
+      steps.push({ ...step, status: "done", current: current || "none" });
+    } else if (!canOwn) {
+      steps.push({ ...step, status: "blocked", current: current || "none", desired: peer.address, reason: notOwner });
+    } else {
+      const remote = peer.address;
+      steps.push({
+        ...step,
+        status: "pending",
+        current: current || "none",
+        desired: remote,
+        execute: async () => {
+          const tx = await oapp.setPeer(peer.eid, ethers.utils.hexZeroPad(remote, 32));
+          const receipt = await tx.wait(confirmations);
+          updateOFTPeers(network, contract, { [peer.eid]: remote }, tx.hash);
+          return receipt.transactionHash;
+        },
+      });
+    }
+  }
+
+  // Endpoint settings need the OApp delegate, enforced options the owner
+  const delegate = manifest.layerzero?.security ? await readDelegate(chain.endpoint, address) : undefined;
+  for (const peer of peers) {
+    const desired = declaredPathwaySecurity(manifest, chain, peer.chain);
+    const settings = managedSettings(desired);
+    if (settings.length === 0) {
+      continue;
+    }
+
+    const current = await readPathwaySecurity(chain.endpoint, address, peer.eid);
+    const changes = diffPathwaySecurity(chain.endpoint, address, peer.eid, current, desired);
+    for (const setting of settings) {
+      const step = {
+        id: `${prefix}:${setting}:${peer.network}`,
+        description: `${SECURITY_SETTINGS[setting]} for ${peer.network}`,
+      };
+      const change = changes.find((entry) => entry.setting === setting);
+      if (!change) {
+        steps.push({ ...step, status: "done" });
+        continue;
+      }
+
+      const detail = { ...step, current: change.current, desired: change.desired };
+      const allowed = change.sender === "owner" ? canOwn : sameAddress(delegate, signer);
+      if (!allowed) {
+        const reason =
+          change.sender === "owner" ? notOwner : `signer is not the endpoint delegate of ${contract} (${delegate})`;
+        steps.push({ ...detail, status: "blocked", reason });
+        continue;
+      }
+      steps.push({
+        ...detail,
+        status: "pending",
+        execute: async () => {
+          const [wallet] = await ethers.getSigners();
+          const tx = await wallet.sendTransaction({ to: change.to, data: change.data });
+          const receipt = await tx.wait(confirmations);
+          return receipt.transactionHash;
+        },
+      });
+    }
+  }
+
+  // Ownership handover comes last, like governance on the token
+  if (config.owner) {
+    const desiredOwner = config.owner;
+    const step = { id: `${prefix}:owner`, description: "Transfer ownership", current: owner, desired: desiredOwner };
+    if (sameAddress(owner, desiredOwner)) {
+      steps.push({ ...step, status: "done" });
+    } else if (!canOwn) {
+      steps.push({ ...step, status: "blocked", reason: notOwner });
+    } else if (blockedBy(steps)) {
+      steps.push({ ...step, status: "blocked", reason: blockedBy(steps) });
+    } else {
+      steps.push({
+        ...step,
+        status: "pending",
+        execute: async () => {
+          const tx = await oapp.transferOwnership(desiredOwner);
+          const receipt = await tx.wait(confirmations);
+          return receipt.transactionHash;
+        },
+      });
+    }
+  }
+
+  return steps;
+}
+
+async function deployOApp(
+  contract: OFTContractKind,
+  chain: LayerZeroChain,
+  signer: string,
+  capToken?: string
+): Promise<string> {
+  const network = chain.hardhatNetwork;
+  const factory = await ethers.getContractFactory(contract);
+  // Deploy owned by the signer so peers and options can be set before the ownership handover
+  const oapp =
+    contract === "CAPTokenOFTAdapter"
+      ? await factory.deploy(capToken, chain.endpoint, signer)
+      : await factory.deploy(chain.endpoint, signer);
+  await oapp.deployed();
+  const receipt = await oapp.deployTransaction.wait(getNetworkConfig(network).confirmations);
+
+  saveOFTDeployment(network, contract, {
+    network,
+    chainId: chain.chainId,
+    timestamp: new Date().toISOString(),
+    address: oapp.address,
+    deployer: signer,
+    owner: signer,
+    eid: chain.eid,
+    endpoint: chain.endpoint,
+    token: capToken,
+    peers: {},
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    verified: false,
+  });
+
+  return receipt.transactionHash;
+}
+
+async function planLayerZero(
+  manifest: CapManifest,
+  network: string,
+  signer: string,
+  capToken: string | undefined
+): Promise<PlanStep[]> {
+  const layerzero = manifest.layerzero;
+  if (!layerzero) {
+    return [];
+  }
+
+  const chain = LAYERZERO_CHAINS[network];
+  const isAdapterChain = network === manifest.token.network;
+  const contract: OFTContractKind = isAdapterChain ? "CAPTokenOFTAdapter" : "CAPTokenOFT";
+  const config = isAdapterChain ? layerzero.adapter : layerzero.chains.find((entry) => entry.network === network);
+  if (!chain || !config) {
+    return [];
+  }
+
+  const address = resolveOFTAddress(contract, { chainId: chain.chainId })?.address;
+  if (!address || !(await hasCode(address))) {
+    const step = { id: `${network}:${isAdapterChain ? "adapter" : "oft"}:deploy`, description: `Deploy ${contract}` };
+    if (isAdapterChain && !capToken) {
+      return [{ ...step, status: "blocked", reason: `waiting for ${network}:cap:deploy` }];
+    }
+    return [
+      {
+        ...step,
+        status: "pending",
+        desired: `endpoint ${chain.endpoint} (EID ${chain.eid})`,
+        execute: () => deployOApp(contract, chain, signer, capToken),
+      },
+    ];
+  }
+
+  const peers: PeerTarget[] = manifestPathways(manifest, network).map((remote) => ({
+    chain: remote,
+    network: remote.hardhatNetwork,
+    eid: remote.eid,
+    address: resolveOFTAddress(remote.contract, { chainId: remote.chainId })?.address,
+  }));
+
+  return planOApp(contract, chain, address, config, peers, manifest, signer);
+}
+
+/**
+ * Diff the manifest against on-chain state of the current network
+ */
+export async function buildPlan(manifest: CapManifest, network: string): Promise<ManifestPlan> {
+  if (!manifestNetworks(manifest).includes(network)) {
+    throw new Error(
+      `Manifest "${manifest.name}" does not cover ${network}. Networks: ${manifestNetworks(manifest).join(", ")}`
+    );
+  }
+
+  const [signer] = await ethers.getSigners();
+  const chain = await ethers.provider.getNetwork();
+  const steps: PlanStep[] = [];
+  let capToken: string | undefined;
+
+  if (network === manifest.token.network) {
+    const deployed = manifest.token.address || getDeployment(network)?.proxyAddress;
+    capToken = (await hasCode(deployed)) ? deployed : undefined;
+    steps.push(...(await planToken(manifest, network, signer.address, capToken)));
+  }
+  steps.push(...(await planLayerZero(manifest, network, signer.address, capToken)));
+
+  return {
+    manifest: manifest.name,
+    network,
+    chainId: Number(chain.chainId),
+    signer: signer.address,
+    capToken,
+    steps,
+  };
+}
+
+const STATUS_ICONS: Record<StepStatus, string> = { done: "✅", pending: "⏳", blocked: "⛔" };
+
+export function printPlan(plan: ManifestPlan): void {
+  console.log(`📋 Manifest: ${plan.manifest}`);
+  console.log(`🌐 Network: ${plan.network} (Chain ID: ${plan.chainId})`);
+  console.log(`🔑 Signer: ${plan.signer}`);
+  if (plan.capToken) {
+    console.log(`📍 CAP Token: ${plan.capToken}`);
+  }
+  console.log("");
+
+  for (const step of plan.steps) {
+    console.log(`${STATUS_ICONS[step.status]} ${step.description}  [${step.id}]`);
+    if (step.status !== "done" && step.current !== undefined) {
+      console.log(`     current: ${step.current}`);
+    }
+    if (step.status !== "done" && step.desired !== undefined) {
+      console.log(`     desired: ${step.desired}`);
+    }
+    if (step.governanceCall) {
+      console.log(`     → needs a DAO proposal (${step.governanceCall.method})`);
+    }
+    if (step.reason) {
+      console.log(`     → ${step.reason}`);
+    }
+  }
+
+  const count = (status: StepStatus) => plan.steps.filter((step) => step.status === status).length;
+  console.log(`\n${count("done")} done, ${count("pending")} pending, ${count("blocked")} blocked`);
+}
@@ -0,0 +1,268 @@
+import { ethers, network } from "hardhat";
+import { getNetworkConfig } from "./config/environments";
+import { CapGovernanceCall, buildCapAction } from "./dao/build-proposal";
+import { CapClient, MintStatus, resolveCapTokenAddress } from "./sdk";
+import { MintLimits, MintState, checkMintExecution, checkMintProposal } from "./utils/mint-window";
+import { TxSink } from "./utils/tx-sink";
+
+/**
+ * Minting goes through the timelock and rate limit in CAPToken:
+ *   status  - pending mint, mintTimestamp countdown and the remaining MINT_CAP_PER_PERIOD allowance
+ *   propose - proposeMint(to, amount), starts the 7 day MINT_DELAY
+ *   execute - executeMint(), only once mintTimestamp has passed
+ *   cancel  - cancelMint(), discards the pending mint
+ *
+ * The allowance is computed off-chain by replaying the lastMintPeriodStart rollover, since the
+ * stored period is only advanced when proposeMint/executeMint run.
+ *
+ * propose/execute/cancel go through the transaction sink (utils/tx-sink.ts): sent when the signer is
+ * governance, otherwise written as a DAO proposal with the matching action (SUBMIT_PROPOSAL=true
+ * submits it). TX_SINK=safe writes a Safe Transaction Builder batch instead.
+ *
+ * Usage:
+ *   npm run mint:sepolia
+ *   MINT_ACTION=propose MINT_TO=0x... MINT_AMOUNT=1000000 npm run mint:sepolia
+ *   MINT_ACTION=execute npm run mint:sepolia
+ *   MINT_ACTION=cancel npm run mint:sepolia
+ */
+type MintAction = "status" | "propose" | "execute" | "cancel";
+
+const MINT_ACTIONS: MintAction[] = ["status", "propose", "execute", "cancel"];
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+interface MintOptions {
+  contractAddress: string;
+  action: MintAction;
+  to?: string;
+  amount?: bigint;
+}
+
+function parseMintOptions(networkName: string): MintOptions {
+  const contractAddress = resolveCapTokenAddress(networkName);
+
+  const action = (process.env.MINT_ACTION || "status").toLowerCase();
+  if (!MINT_ACTIONS.includes(action as MintAction)) {
+    throw new Error(`Invalid MINT_ACTION: ${action}. Supported: ${MINT_ACTIONS.join(", ")}`);
+  }
+
+  if (action !== "propose") {
+    return { contractAddress, action: action as MintAction };
+  }
+
+  const to = process.env.MINT_TO;
+  if (!to || !ethers.utils.isAddress(to)) {
+    throw new Error(`MINT_TO must be a valid address when proposing a mint (got ${to})`);
+  }
+
+  const amountInput = process.env.MINT_AMOUNT;
+  if (!amountInput) {
+    throw new Error("MINT_AMOUNT must be set when proposing a mint (in CAP, e.g. 1000000)");
+  }
+
+  let amount: bigint;
+  try {
+    amount = BigInt(ethers.utils.parseEther(amountInput).toString());
+  } catch {
+    throw new Error(`Invalid MINT_AMOUNT: ${amountInput} (expected a CAP amount, e.g. 1000000 or 2.5)`);
+  }
+  if (amount <= 0n) {
+    throw new Error("MINT_AMOUNT must be greater than zero");
+  }
+
+  return { contractAddress, action: "propose", to: ethers.utils.getAddress(to), amount };
+}
+
+function formatDuration(seconds: bigint): string {
+  const days = seconds / 86400n;
+  const hours = (seconds % 86400n) / 3600n;
+  const minutes = (seconds % 3600n) / 60n;
+  return days > 0n ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m`;
+}
+
+function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+function formatCap(amount: bigint): string {
+  return `${ethers.utils.formatEther(amount)} CAP`;
+}
+
+function displayMintStatus({ state, limits, window, now }: MintStatus) {
+  console.log("\n=== Mint Status ===");
+  console.log(`Total Supply: ${formatCap(state.totalSupply)} / ${formatCap(limits.maxSupply)}`);
+  console.log(`Cap Per Period: ${formatCap(limits.capPerPeriod)} every ${formatDuration(limits.period)}`);
+
+  console.log("\n📅 Current Period");
+  if (window.rolledOver) {
+    console.log(
+      `   Stored period (${formatTimestamp(state.lastMintPeriodStart)}) has expired; ` +
+        `the next proposeMint/executeMint rolls it over`
+    );
+  }
+  console.log(`   Start: ${formatTimestamp(window.periodStart)}`);
+  console.log(`   Resets: ${formatTimestamp(window.periodEnd)} (in ${formatDuration(window.periodEnd - now)})`);
+  console.log(`   Minted: ${formatCap(window.minted)}`);
+  console.log(`   Remaining allowance: ${formatCap(window.remaining)}`);
+  if (window.supplyRemaining < window.periodRemaining) {
+    console.log(`   ⚠️  Limited by MAX_SUPPLY (${formatCap(window.supplyRemaining)} left)`);
+  }
+
+  console.log("\n⏳ Pending Mint");
+  if (state.mintTimestamp === 0n) {
+    console.log("   None");
+    return;
+  }
+
+  console.log(`   To: ${state.pendingMintTo}`);
+  console.log(`   Amount: ${formatCap(state.pendingMintAmount)}`);
+  console.log(
+    `   Executable: ${formatTimestamp(state.mintTimestamp)} ` +
+      `(${now >= state.mintTimestamp ? "ready to execute" : `in ${formatDuration(state.mintTimestamp - now)}`})`
+  );
+
+  // The cap is re-checked at execution time, against whichever period executeMint lands in
+  const executeAt = now > state.mintTimestamp ? now : state.mintTimestamp;
+  const errors = checkMintExecution(state, limits, executeAt).filter(
+    (error) => !error.startsWith("MINT_TIMELOCK_NOT_EXPIRED")
+  );
+  if (errors.length > 0) {
+    console.log(`   ⚠️  executeMint would revert at ${formatTimestamp(executeAt)}:`);
+    errors.forEach((error) => console.log(`      - ${error}`));
+  }
+}
+
+function mintCall(options: MintOptions): CapGovernanceCall {
+  switch (options.action) {
+    case "propose":
+      return { method: "proposeMint", args: [options.to!, options.amount!.toString()] };
+    case "execute":
+      return { method: "executeMint", args: [] };
+    default:
+      return { method: "cancelMint", args: [] };
+  }
+}
+
+/**
+ * Check the action against the contract's require() conditions
+ * @param viaDao - execute is checked at mintTimestamp instead of now, since a DAO vote or Safe batch executes later
+ */
+function preflight(state: MintState, limits: MintLimits, options: MintOptions, now: bigint, viaDao: boolean) {
+  let errors: string[] = [];
+
+  switch (options.action) {
+    case "propose":
+      errors = checkMintProposal(state, limits, options.to!, options.amount!, now);
+      if (state.mintTimestamp !== 0n) {
+        console.warn(
+          `⚠️  The pending mint of ${formatCap(state.pendingMintAmount)} to ${state.pendingMintTo} will be replaced`
+        );
+        console.warn(`   and the 7 day timelock will restart.`);
+      }
+      break;
+    case "execute":
+      if (viaDao && state.mintTimestamp > now) {
+        // The vote cannot execute before the timelock, so check against the period it will land in
+        errors = checkMintExecution(state, limits, state.mintTimestamp);
+        console.warn(
+          `⚠️  The timelock expires in ${formatDuration(state.mintTimestamp - now)} ` +
+            `(${formatTimestamp(state.mintTimestamp)}); the proposal must not execute earlier`
+        );
+      } else {
+        errors = checkMintExecution(state, limits, now);
+      }
+      break;
+    case "cancel":
+      if (state.mintTimestamp === 0n) {
+        errors = ["NO_PENDING_MINT: there is no pending mint"];
+      }
+      break;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`${mintCall(options).method} would revert:\n   - ${errors.join("\n   - ")}`);
+  }
+}
+
+function mintTitle(options: MintOptions): string {
+  switch (options.action) {
+    case "propose":
+      return `Propose mint of ${formatCap(options.amount!)} to ${options.to}`;
+    case "execute":
+      return "Execute pending CAP mint";
+    default:
+      return "Cancel pending CAP mint";
+  }
+}
+
+async function main() {
+  try {
+    const networkName = network.name;
+    const networkConfig = getNetworkConfig(networkName);
+
+    console.log("\n╔════════════════════════════════════════════════════════════════╗");
+    console.log("║        CYBERIA (CAP) TOKEN MINT SCRIPT                         ║");
+    console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+    console.log(`🌐 Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
+
+    const options = parseMintOptions(networkName);
+    const [signer] = await ethers.getSigners();
+    const cap = await CapClient.connect(options.contractAddress, signer);
+    console.log(`📍 Contract Address: ${options.contractAddress}`);
+
+    const governance = await cap.governance();
+    const isGovernance = await cap.isGovernance(signer.address);
+    console.log(`🔑 Signer: ${signer.address}${isGovernance ? " (governance)" : ""}`);
+    console.log(`🏛️  Governance: ${governance}`);
+
+    const status = await cap.getMintStatus();
+    let sent = false;
+
+    if (options.action !== "status") {
+      // Governance sends directly; anyone else builds a DAO proposal unless TX_SINK says otherwise
+      const sink = await TxSink.open({
+        title: mintTitle(options),
+        name: "mint",
+        fallback: isGovernance ? "send" : "dao",
+        safe: governance,
+        dao: governance,
+      });
+      if (!isGovernance && sink.sends) {
+        throw new Error(`Signer is not governance (${governance}); use TX_SINK=dao or TX_SINK=safe`);
+      }
+
+      console.log("");
+      preflight(status.state, status.limits, options, status.now, !sink.sends);
+
+      const action = buildCapAction(options.contractAddress, mintCall(options));
+      if (sink.sends) {
+        console.log(`📝 ${action.description}`);
+      } else {
+        console.log(`ℹ️  Batching the ${action.method} call for ${sink.sender} instead of sending it`);
+      }
+      sent = (await sink.submit(action)) !== undefined;
+      await sink.flush();
+
+      if (sent) {
+        console.log(`✅ ${action.method} succeeded`);
+      }
+      if (sent && options.action === "propose") {
+        const { pendingMint } = await cap.getGovernanceState();
+        console.log(`   Can be executed after: ${formatTimestamp(pendingMint!.executableAt)}`);
+      }
+    }
+
+    const finalStatus = sent ? await cap.getMintStatus() : status;
+    displayMintStatus(finalStatus);
+
+    if (finalStatus.state.pendingMintTo === ZERO_ADDRESS && options.action === "status") {
+      console.log("\n💡 Propose a mint with: MINT_ACTION=propose MINT_TO=0x... MINT_AMOUNT=<CAP>");
+    }
+  } catch (error) {
+    console.error("\n❌ Mint script failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main();
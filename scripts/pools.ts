@@ -0,0 +1,237 @@
+import { ethers, network } from "hardhat";
+import { getNetworkConfig } from "./config/environments";
+import { CapGovernanceCall, buildCapAction } from "./dao/build-proposal";
+import { CapClient, resolveCapTokenAddress } from "./sdk";
+import { getDeployment } from "./utils/deployment-tracker";
+import { PoolCheck, checkPoolPair, discoverFactoryPairs, planPoolSync, rebuildPoolSet } from "./utils/pool-registry";
+import { TxSink } from "./utils/tx-sink";
+import type { CAPToken } from "../typechain-types";
+
+/**
+ * Pool registry management
+ *
+ * Rebuilds the registered pool set from PoolAdded/PoolRemoved logs and, when POOLS is set,
+ * syncs isPool to that list with addPool/removePool. Pools not in POOLS are removed.
+ *
+ * Every pool to add must expose token0()/token1() with CAP on one side (as MockDEXPair and
+ * Uniswap V2/V3 pairs do); set POOL_SKIP_PAIR_CHECK=true for pools that don't.
+ *
+ * The addPool/removePool calls go through the transaction sink (utils/tx-sink.ts): sent when the
+ * signer is governance, otherwise written as a single DAO proposal (SUBMIT_PROPOSAL=true submits it).
+ * TX_SINK=safe writes a Safe Transaction Builder batch instead.
+ *
+ * Usage:
+ *   npm run pools:sepolia                                        # report only
+ *   POOLS=0xPool1,0xPool2 npm run pools:sepolia                  # sync
+ *   POOLS=0xPool1 POOL_SYNC_DRY_RUN=true npm run pools:sepolia   # show the diff, send nothing
+ *
+ * Optional:
+ *   DEX_FACTORIES=0xFactory1,0xFactory2  warn about CAP pairs from PairCreated that are not registered
+ *   POOL_SYNC_FROM_BLOCK                 first block to scan (default: deployment block from deployments.json)
+ */
+
+interface PoolOptions {
+  contractAddress: string;
+  fromBlock: number;
+  desired?: string[];
+  factories: string[];
+  skipPairCheck: boolean;
+  dryRun: boolean;
+}
+
+function parseAddressList(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") {
+    return undefined;
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+    .map((entry) => {
+      if (!ethers.utils.isAddress(entry)) {
+        throw new Error(`Invalid address in ${name}: ${entry}`);
+      }
+      return ethers.utils.getAddress(entry);
+    });
+}
+
+function parsePoolOptions(networkName: string): PoolOptions {
+  const deployment = getDeployment(networkName);
+  const contractAddress = resolveCapTokenAddress(networkName);
+
+  const fromBlock = process.env.POOL_SYNC_FROM_BLOCK
+    ? Number(process.env.POOL_SYNC_FROM_BLOCK)
+    : deployment?.blockNumber || 0;
+  if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+    throw new Error(`Invalid POOL_SYNC_FROM_BLOCK: ${process.env.POOL_SYNC_FROM_BLOCK}`);
+  }
+
+  return {
+    contractAddress,
+    fromBlock,
+    desired: parseAddressList("POOLS"),
+    factories: parseAddressList("DEX_FACTORIES") || [],
+    skipPairCheck: process.env.POOL_SKIP_PAIR_CHECK === "true",
+    dryRun: process.env.POOL_SYNC_DRY_RUN === "true",
+  };
+}
+
+function describeCheck(check: PoolCheck): string {
+  if (check.containsCap) {
+    return `✅ ${check.pool} (${check.token0} / ${check.token1})`;
+  }
+  return `⚠️  ${check.pool}: ${check.error}`;
+}
+
+async function reportRegisteredPools(cap: CAPToken, options: PoolOptions, pools: string[]) {
+  console.log(`\n=== Registered Pools (from block ${options.fromBlock}) ===`);
+  if (pools.length === 0) {
+    console.log("None");
+  }
+
+  for (const pool of pools) {
+    // The log replay and the mapping must agree; a mismatch means the scan started too late
+    if (!(await cap.isPool(pool))) {
+      console.log(`❌ ${pool}: PoolAdded found but isPool() is false`);
+      continue;
+    }
+    console.log(describeCheck(await checkPoolPair(pool, options.contractAddress)));
+  }
+}
+
+async function reportUnregisteredPairs(options: PoolOptions, registered: string[], toBlock: number) {
+  if (options.factories.length === 0) {
+    return;
+  }
+
+  console.log("\n=== Factory Pairs ===");
+  const registeredSet = new Set(registered.map((pool) => pool.toLowerCase()));
+  let unregistered = 0;
+
+  for (const factory of options.factories) {
+    const pairs = await discoverFactoryPairs(factory, options.contractAddress, options.fromBlock, toBlock);
+    console.log(`🏭 ${factory}: ${pairs.length} CAP pair(s)`);
+
+    for (const pair of pairs) {
+      if (registeredSet.has(pair.pair.toLowerCase())) {
+        console.log(`   ✅ ${pair.pair} (${pair.token0} / ${pair.token1}) registered`);
+      } else {
+        console.warn(
+          `   ⚠️  ${pair.pair} (${pair.token0} / ${pair.token1}, block ${pair.blockNumber}) is NOT registered - ` +
+            `trades through it are taxed as regular transfers`
+        );
+        unregistered++;
+      }
+    }
+  }
+
+  if (unregistered > 0) {
+    console.warn(`\n⚠️  ${unregistered} unregistered CAP pair(s) found; add them to POOLS to register them`);
+  }
+}
+
+async function syncPools(cap: CapClient, options: PoolOptions, current: string[]) {
+  const plan = planPoolSync(current, options.desired!);
+
+  console.log("\n=== Pool Sync Plan ===");
+  plan.unchanged.forEach((pool) => console.log(`   = ${pool}`));
+  plan.add.forEach((pool) => console.log(`   + ${pool}`));
+  plan.remove.forEach((pool) => console.log(`   - ${pool}`));
+
+  if (plan.add.length === 0 && plan.remove.length === 0) {
+    console.log("✅ Pool registry already matches POOLS");
+    return;
+  }
+
+  const failed: PoolCheck[] = [];
+  for (const pool of plan.add) {
+    const check = await checkPoolPair(pool, options.contractAddress);
+    console.log(describeCheck(check));
+    if (!check.containsCap) {
+      failed.push(check);
+    }
+  }
+  if (failed.length > 0 && !options.skipPairCheck) {
+    throw new Error(
+      `${failed.length} pool(s) failed the token0()/token1() check. ` +
+        `Fix POOLS or set POOL_SKIP_PAIR_CHECK=true to register them anyway.`
+    );
+  }
+
+  if (options.dryRun) {
+    console.log("\nℹ️  POOL_SYNC_DRY_RUN=true - nothing sent");
+    return;
+  }
+
+  const calls: CapGovernanceCall[] = [
+    ...plan.remove.map((pool): CapGovernanceCall => ({ method: "removePool", args: [ethers.utils.getAddress(pool)] })),
+    ...plan.add.map((pool): CapGovernanceCall => ({ method: "addPool", args: [ethers.utils.getAddress(pool)] })),
+  ];
+
+  // Governance sends directly; anyone else builds a DAO proposal unless TX_SINK says otherwise
+  const [signer] = await ethers.getSigners();
+  const governance = await cap.governance();
+  const isGovernance = await cap.isGovernance(signer.address);
+  const sink = await TxSink.open({
+    title: `Sync CAP pool registry (${calls.length} change${calls.length === 1 ? "" : "s"})`,
+    name: "pools",
+    fallback: isGovernance ? "send" : "dao",
+    safe: governance,
+    dao: governance,
+  });
+  if (!isGovernance && sink.sends) {
+    throw new Error(`Signer is not governance (${governance}); use TX_SINK=dao or TX_SINK=safe`);
+  }
+  if (!isGovernance) {
+    console.log(`\nℹ️  Signer is not governance (${governance}) - batching the calls for ${sink.sender}`);
+  }
+
+  console.log("");
+  for (const call of calls) {
+    const action = buildCapAction(options.contractAddress, call);
+    if (sink.sends) {
+      console.log(`📝 ${action.description}`);
+    }
+    if (await sink.submit(action)) {
+      console.log(`✅ ${call.method} succeeded`);
+    }
+  }
+  await sink.flush();
+}
+
+async function main() {
+  try {
+    const networkName = network.name;
+    const networkConfig = getNetworkConfig(networkName);
+
+    console.log("\n╔════════════════════════════════════════════════════════════════╗");
+    console.log("║        CYBERIA (CAP) POOL REGISTRY                             ║");
+    console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+    console.log(`🌐 Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
+
+    const options = parsePoolOptions(networkName);
+    const [signer] = await ethers.getSigners();
+    const cap = await CapClient.connect(options.contractAddress, signer);
+    console.log(`📍 Contract Address: ${options.contractAddress}`);
+
+    const toBlock = await ethers.provider.getBlockNumber();
+    const current = await rebuildPoolSet(cap.token, options.fromBlock, toBlock);
+
+    await reportRegisteredPools(cap.token, options, current);
+    await reportUnregisteredPairs(options, options.desired || current, toBlock);
+
+    if (options.desired) {
+      await syncPools(cap, options, current);
+    } else {
+      console.log("\n💡 Set POOLS=0x...,0x... to sync the registry to a list");
+    }
+  } catch (error) {
+    console.error("\n❌ Pool registry failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main();
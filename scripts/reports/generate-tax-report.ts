@@ -0,0 +1,125 @@
+import { ethers, network } from "hardhat";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { getNetworkConfig } from "../config/environments";
+import { CapClient, resolveCapTokenAddress } from "../sdk";
+import { bindEventStore, getState, openEventStore, queryEvents } from "../indexer/event-store";
+import {
+  REPORT_FORMATS,
+  REPORT_PERIODS,
+  ReportFormat,
+  ReportPeriod,
+  buildTaxReport,
+  formatTaxReport,
+} from "./tax-report";
+
+/**
+ * Tax revenue and burn report
+ *
+ * Reads the SQLite database written by the event indexer (run `npm run indexer:<network>` first)
+ * and aggregates confirmed TaxCollected/TaxBurned events by period, direction, fee recipient and pool.
+ *
+ * Usage:
+ *   npm run report:tax:sepolia
+ *   REPORT_FROM=2025-10-01 REPORT_TO=2025-11-01 REPORT_FORMAT=csv npm run report:tax:sepolia
+ *
+ * Optional:
+ *   REPORT_FORMAT   markdown (default), csv or json
+ *   REPORT_PERIOD   month (default), week or day
+ *   REPORT_FROM     start date, inclusive (ISO 8601, UTC)
+ *   REPORT_TO       end date, exclusive (ISO 8601, UTC)
+ *   REPORT_OUTPUT   output file (default: reports/tax-<network>-<range>.<ext>; "-" prints to stdout)
+ *   INDEXER_DB      database file (default: indexer/<network>.sqlite)
+ */
+
+const EXTENSIONS: Record<ReportFormat, string> = { markdown: "md", csv: "csv", json: "json" };
+
+function parseDate(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid ${name}: ${value} (expected an ISO 8601 date, e.g. 2025-10-01)`);
+  }
+  return Math.floor(time / 1000);
+}
+
+function parseChoice<T extends string>(name: string, choices: T[], fallback: T): T {
+  const value = (process.env[name] || fallback).toLowerCase();
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid ${name}: ${value}. Supported: ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+async function main() {
+  const networkName = network.name;
+  const networkConfig = getNetworkConfig(networkName);
+
+  const capAddress = resolveCapTokenAddress(networkName);
+
+  const format = parseChoice("REPORT_FORMAT", REPORT_FORMATS, "markdown");
+  const period = parseChoice<ReportPeriod>("REPORT_PERIOD", REPORT_PERIODS, "month");
+  const from = parseDate("REPORT_FROM");
+  const to = parseDate("REPORT_TO");
+  if (from !== undefined && to !== undefined && from >= to) {
+    throw new Error("REPORT_FROM must be before REPORT_TO");
+  }
+
+  const dbPath = process.env.INDEXER_DB || join("indexer", `${networkName}.sqlite`);
+  if (!existsSync(dbPath)) {
+    throw new Error(`Event database ${dbPath} not found. Run the indexer first: npm run indexer:${networkName}`);
+  }
+
+  const db = openEventStore(dbPath);
+  bindEventStore(db, capAddress, networkConfig.chainId);
+  const events = queryEvents(db, { confirmedOnly: true });
+  const confirmedBlock = getState(db, "confirmedBlock");
+  db.close();
+
+  const cap = await CapClient.connect(capAddress, ethers.provider);
+  const initialSupply = BigInt((await cap.token.INITIAL_SUPPLY()).toString());
+  // totalSupply is only comparable with the indexed events when the report runs to the present
+  const totalSupply = to === undefined ? BigInt((await cap.token.totalSupply()).toString()) : undefined;
+
+  const report = buildTaxReport(events, {
+    network: networkName,
+    contract: capAddress,
+    period,
+    from,
+    to,
+    initialSupply,
+    totalSupply,
+  });
+  const output = formatTaxReport(report, format);
+
+  const outputPath =
+    process.env.REPORT_OUTPUT ||
+    join(
+      "reports",
+      `tax-${networkName}-${process.env.REPORT_FROM || "deployment"}-${process.env.REPORT_TO || "latest"}.${EXTENSIONS[format]}`
+    );
+
+  if (outputPath === "-") {
+    process.stdout.write(output);
+    return;
+  }
+
+  if (!existsSync(dirname(outputPath))) {
+    mkdirSync(dirname(outputPath), { recursive: true });
+  }
+  writeFileSync(outputPath, output, "utf8");
+
+  console.log(`📊 ${report.totals.count} taxed transfer(s) up to confirmed block ${confirmedBlock}`);
+  console.log(`📄 Report written to: ${outputPath}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,333 @@
+import type { IndexedEvent } from "../indexer/event-store";
+
+/**
+ * Tax revenue and burn report built from indexed TaxCollected/TaxBurned events
+ *
+ * The direction of each taxed transfer is inferred from pool membership at that point in the
+ * chain, replayed from the indexed PoolAdded/PoolRemoved events (not from the current isPool).
+ */
+
+export type ReportPeriod = "day" | "week" | "month";
+
+export const REPORT_PERIODS: ReportPeriod[] = ["day", "week", "month"];
+
+export type ReportFormat = "markdown" | "csv" | "json";
+
+export const REPORT_FORMATS: ReportFormat[] = ["markdown", "csv", "json"];
+
+export type TaxDirection = "buy" | "sell" | "transfer";
+
+export interface ReportRow {
+  key: string;
+  count: number;
+  /** Sent to a fee recipient (wei) */
+  collected: bigint;
+  /** Burned in burn mode (wei) */
+  burned: bigint;
+}
+
+export interface SupplySummary {
+  initialSupply: bigint;
+  /** Sum of TaxBurned amounts */
+  taxBurned: bigint;
+  /** Sum of TokensMinted amounts */
+  minted: bigint;
+  /** On-chain totalSupply, only when the report runs to the latest block */
+  totalSupply?: bigint;
+  /** initialSupply + minted - totalSupply: tax burns plus burn()/burnFrom(), when totalSupply is known */
+  totalBurned?: bigint;
+}
+
+export interface TaxReport {
+  network: string;
+  contract: string;
+  period: ReportPeriod;
+  /** Unix seconds, inclusive */
+  from?: number;
+  /** Unix seconds, exclusive */
+  to?: number;
+  generatedAt: string;
+  totals: ReportRow;
+  byPeriod: ReportRow[];
+  byDirection: ReportRow[];
+  byRecipient: ReportRow[];
+  byPool: ReportRow[];
+  supply: SupplySummary;
+}
+
+export interface TaxReportOptions {
+  network: string;
+  contract: string;
+  period: ReportPeriod;
+  from?: number;
+  to?: number;
+  initialSupply: bigint;
+  totalSupply?: bigint;
+}
+
+/**
+ * Period bucket of a timestamp (UTC): "2025-10-14" for days, "2025-10-13/W" (the Monday) for weeks, "2025-10" for months
+ */
+export function periodKey(timestamp: number, period: ReportPeriod): string {
+  const date = new Date(timestamp * 1000);
+  if (period === "month") {
+    return date.toISOString().slice(0, 7);
+  }
+  if (period === "week") {
+    const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * 86_400_000);
+    return `${monday.toISOString().slice(0, 10)}/W`;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function position(event: IndexedEvent): number {
+  return event.blockNumber * 1_000_000 + event.logIndex;
+}
+
+function addTo(rows: Map<string, ReportRow>, key: string, collected: bigint, burned: bigint): void {
+  const row = rows.get(key) || { key, count: 0, collected: 0n, burned: 0n };
+  row.count++;
+  row.collected += collected;
+  row.burned += burned;
+  rows.set(key, row);
+}
+
+function sortedRows(rows: Map<string, ReportRow>, byKey = false): ReportRow[] {
+  const list = [...rows.values()];
+  if (byKey) {
+    return list.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  return list.sort((a, b) => {
+    const totalA = a.collected + a.burned;
+    const totalB = b.collected + b.burned;
+    return totalB > totalA ? 1 : totalB < totalA ? -1 : a.key.localeCompare(b.key);
+  });
+}
+
+/**
+ * Aggregate indexed events into a report
+ * @param events - Every indexed event of the token (pool events are needed from the deployment block on)
+ */
+export function buildTaxReport(events: IndexedEvent[], options: TaxReportOptions): TaxReport {
+  const ordered = [...events].sort((a, b) => position(a) - position(b));
+
+  const pools = new Set<string>();
+  const totals = new Map<string, ReportRow>();
+  const byPeriod = new Map<string, ReportRow>();
+  const byDirection = new Map<string, ReportRow>();
+  const byRecipient = new Map<string, ReportRow>();
+  const byPool = new Map<string, ReportRow>();
+  let taxBurned = 0n;
+  let minted = 0n;
+
+  for (const event of ordered) {
+    // Cumulative figures stop at the end of the range; breakdowns only cover the range itself
+    if (options.to !== undefined && event.blockTimestamp >= options.to) {
+      break;
+    }
+
+    switch (event.event) {
+      case "PoolAdded":
+        pools.add(event.args.pool.toLowerCase());
+        continue;
+      case "PoolRemoved":
+        pools.delete(event.args.pool.toLowerCase());
+        continue;
+      case "TokensMinted":
+        minted += BigInt(event.args.amount);
+        continue;
+      case "TaxCollected":
+      case "TaxBurned":
+        break;
+      default:
+        continue;
+    }
+
+    const taxAmount = BigInt(event.args.taxAmount);
+    const isBurn = event.event === "TaxBurned";
+    if (isBurn) {
+      taxBurned += taxAmount;
+    }
+    if (options.from !== undefined && event.blockTimestamp < options.from) {
+      continue;
+    }
+
+    const fromPool = pools.has(event.args.from.toLowerCase());
+    const toPool = pools.has(event.args.to.toLowerCase());
+    const direction: TaxDirection = fromPool ? "buy" : toPool ? "sell" : "transfer";
+    const pool = fromPool ? event.args.from : toPool ? event.args.to : undefined;
+
+    const collected = isBurn ? 0n : taxAmount;
+    const burned = isBurn ? taxAmount : 0n;
+
+    addTo(totals, "total", collected, burned);
+    addTo(byPeriod, periodKey(event.blockTimestamp, options.period), collected, burned);
+    addTo(byDirection, direction, collected, burned);
+    addTo(byRecipient, isBurn ? "burn" : event.args.recipient, collected, burned);
+    if (pool) {
+      addTo(byPool, pool, collected, burned);
+    }
+  }
+
+  const supply: SupplySummary = { initialSupply: options.initialSupply, taxBurned, minted };
+  if (options.totalSupply !== undefined) {
+    supply.totalSupply = options.totalSupply;
+    supply.totalBurned = options.initialSupply + minted - options.totalSupply;
+  }
+
+  return {
+    network: options.network,
+    contract: options.contract,
+    period: options.period,
+    from: options.from,
+    to: options.to,
+    generatedAt: new Date().toISOString(),
+    totals: totals.get("total") || { key: "total", count: 0, collected: 0n, burned: 0n },
+    byPeriod: sortedRows(byPeriod, true),
+    byDirection: sortedRows(byDirection),
+    byRecipient: sortedRows(byRecipient),
+    byPool: sortedRows(byPool),
+    supply,
+  };
+}
+
+/**
+ * Format a wei amount as CAP with up to 18 decimals, without trailing zeros
+ */
+export function formatCapAmount(wei: bigint): string {
+  const negative = wei < 0n;
+  const value = negative ? -wei : wei;
+  const whole = value / 10n ** 18n;
+  const fraction = (value % 10n ** 18n).toString().padStart(18, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+function formatPercent(part: bigint, whole: bigint): string {
+  if (whole === 0n) {
+    return "0%";
+  }
+  // Four decimals of a percent
+  const basis = (part * 1_000_000n) / whole;
+  return `${(Number(basis) / 10_000).toFixed(4)}%`;
+}
+
+function describeRange(report: TaxReport): string {
+  const from = report.from !== undefined ? new Date(report.from * 1000).toISOString() : "deployment";
+  const to = report.to !== undefined ? new Date(report.to * 1000).toISOString() : "latest confirmed block";
+  return `${from} → ${to}`;
+}
+
+const BREAKDOWNS: { title: string; column: string; rows: (report: TaxReport) => ReportRow[] }[] = [
+  { title: "By Period", column: "period", rows: (report) => report.byPeriod },
+  { title: "By Direction", column: "direction", rows: (report) => report.byDirection },
+  { title: "By Fee Recipient", column: "recipient", rows: (report) => report.byRecipient },
+  { title: "By Pool", column: "pool", rows: (report) => report.byPool },
+];
+
+function supplyEntries(supply: SupplySummary): [string, string][] {
+  const entries: [string, string][] = [
+    ["Initial supply", formatCapAmount(supply.initialSupply)],
+    ["Minted", formatCapAmount(supply.minted)],
+    [
+      "Burned by tax",
+      `${formatCapAmount(supply.taxBurned)} (${formatPercent(supply.taxBurned, supply.initialSupply)})`,
+    ],
+  ];
+  if (supply.totalSupply !== undefined && supply.totalBurned !== undefined) {
+    entries.push(["Total supply", formatCapAmount(supply.totalSupply)]);
+    entries.push([
+      "Burned in total",
+      `${formatCapAmount(supply.totalBurned)} (${formatPercent(supply.totalBurned, supply.initialSupply)})`,
+    ]);
+  }
+  return entries;
+}
+
+export function formatMarkdown(report: TaxReport): string {
+  const lines = [
+    `# CAP Tax Report (${report.network})`,
+    "",
+    `- Token: \`${report.contract}\``,
+    `- Range: ${describeRange(report)}`,
+    `- Generated: ${report.generatedAt}`,
+    "",
+    "| Taxed transfers | Collected (CAP) | Burned (CAP) | Total (CAP) |",
+    "| --------------- | --------------- | ------------ | ----------- |",
+    `| ${report.totals.count} | ${formatCapAmount(report.totals.collected)} | ${formatCapAmount(report.totals.burned)} | ${formatCapAmount(report.totals.collected + report.totals.burned)} |`,
+  ];
+
+  for (const breakdown of BREAKDOWNS) {
+    const rows = breakdown.rows(report);
+    lines.push("", `## ${breakdown.title}`, "");
+    if (rows.length === 0) {
+      lines.push("_No taxed transfers._");
+      continue;
+    }
+    lines.push(`| ${breakdown.column} | transfers | collected (CAP) | burned (CAP) | total (CAP) |`);
+    lines.push("| --- | ---: | ---: | ---: | ---: |");
+    for (const row of rows) {
+      lines.push(
+        `| ${row.key} | ${row.count} | ${formatCapAmount(row.collected)} | ${formatCapAmount(row.burned)} | ${formatCapAmount(row.collected + row.burned)} |`
+      );
+    }
+  }
+
+  lines.push("", "## Supply", "", "| | CAP |", "| --- | ---: |");
+  for (const [label, value] of supplyEntries(report.supply)) {
+    lines.push(`| ${label} | ${value} |`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * One CSV with a `breakdown` column, so a single file holds every table
+ */
+export function formatCsv(report: TaxReport): string {
+  const lines = ["breakdown,key,transfers,collected_cap,burned_cap,total_cap"];
+  const push = (breakdown: string, row: ReportRow) =>
+    lines.push(
+      [
+        breakdown,
+        row.key,
+        row.count,
+        formatCapAmount(row.collected),
+        formatCapAmount(row.burned),
+        formatCapAmount(row.collected + row.burned),
+      ].join(",")
+    );
+
+  push("total", report.totals);
+  for (const breakdown of BREAKDOWNS) {
+    breakdown.rows(report).forEach((row) => push(breakdown.column, row));
+  }
+
+  // Supply figures go in the total_cap column
+  const { supply } = report;
+  lines.push(`supply,initial_supply,,,,${formatCapAmount(supply.initialSupply)}`);
+  lines.push(`supply,minted,,,,${formatCapAmount(supply.minted)}`);
+  lines.push(`supply,tax_burned,,,,${formatCapAmount(supply.taxBurned)}`);
+  if (supply.totalSupply !== undefined && supply.totalBurned !== undefined) {
+    lines.push(`supply,total_supply,,,,${formatCapAmount(supply.totalSupply)}`);
+    lines.push(`supply,total_burned,,,,${formatCapAmount(supply.totalBurned)}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function formatJson(report: TaxReport): string {
+  return (
+    JSON.stringify(report, (_key, value) => (typeof value === "bigint" ? formatCapAmount(value) : value), 2) + "\n"
+  );
+}
+
+export function formatTaxReport(report: TaxReport, format: ReportFormat): string {
+  switch (format) {
+    case "csv":
+      return formatCsv(report);
+    case "json":
+      return formatJson(report);
+    default:
+      return formatMarkdown(report);
+  }
+}
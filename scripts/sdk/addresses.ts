@@ -0,0 +1,25 @@
+import { getDeployment } from "../utils/deployment-tracker";
+
+/**
+ * Address lookups shared by the scripts: .env overrides first, then deployments.json
+ */
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * CAP token proxy for a network: CAP_TOKEN_ADDRESS, else the latest CAPToken in deployments.json
+ */
+export function resolveCapTokenAddress(networkName: string, override = process.env.CAP_TOKEN_ADDRESS): string {
+  const address = override || getDeployment(networkName)?.proxyAddress;
+
+  if (!address) {
+    throw new Error(
+      `CAP_TOKEN_ADDRESS not set and no deployment found for ${networkName}. ` +
+        `Please set CAP_TOKEN_ADDRESS in .env or deploy first.`
+    );
+  }
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid CAP_TOKEN_ADDRESS: ${address}`);
+  }
+  return address;
+}
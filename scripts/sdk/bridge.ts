@@ -0,0 +1,271 @@
+import { Options } from "@layerzerolabs/lz-v2-utilities";
+import { CAPTokenOFTAdapter__factory, CAPTokenOFT__factory } from "../../typechain-types";
+import type { CAPTokenOFT, CAPTokenOFTAdapter } from "../../typechain-types";
+import type { OFTContractKind } from "../utils/deployment-tracker";
+import { BASIS_POINTS_DENOMINATOR, TransferQuote } from "../utils/tax-simulator";
+import { CapClient, SignerOrProvider } from "./cap-client";
+
+/**
+ * Bridge quotes and sends across CAPTokenOFTAdapter (home chain) and CAPTokenOFT (every other chain)
+ *
+ * The adapter locks CAP with a regular transferFrom, so the source-side transfer tax is taken
+ * before the amount is sent cross-chain: minAmountLD must be computed from the taxed amount,
+ * not from amountLD. Amounts are also truncated to the 6 shared decimals ("dust" removal).
+ */
+
+export const DEFAULT_LZ_RECEIVE_GAS = 200_000;
+
+export interface SendParam {
+  dstEid: number;
+  to: string;
+  amountLD: bigint;
+  minAmountLD: bigint;
+  extraOptions: string;
+  composeMsg: string;
+  oftCmd: string;
+}
+
+export interface BridgeQuoteRequest {
+  dstEid: number;
+  /** Recipient on the destination chain */
+  to: string;
+  amountLD: bigint;
+  /** Sender, for the tax classification (default: the connected signer) */
+  from?: string;
+  /** Tolerance below the expected amount, applied to minAmountLD (default: 0) */
+  slippageBp?: number;
+  /** Executor gas for lzReceive on the destination (default: 200000) */
+  gasLimit?: number;
+  /** Raw options; overrides gasLimit */
+  extraOptions?: string;
+}
+
+export interface BridgeQuote {
+  kind: OFTContractKind;
+  sendParam: SendParam;
+  /** Amount debited from the sender */
+  amountSentLD: bigint;
+  /** Source-side transfer tax (adapter only) */
+  taxAmountLD: bigint;
+  /** Tax quote of the sender → adapter transfer (adapter only) */
+  taxQuote?: TransferQuote;
+  /** Amount credited on the destination, before any unlock tax on the home chain */
+  amountReceivedLD: bigint;
+  nativeFee: bigint;
+  lzTokenFee: bigint;
+}
+
+/**
+ * What the adapter's _credit does with an inbound amount: a taxed adapter → recipient transfer,
+ * reverted if the recipient gets less than amountLD * (10000 - maxInboundSlippageBp) / 10000
+ */
+export interface UnlockQuote {
+  taxQuote: TransferQuote;
+  /** Amount the recipient ends up with on the home chain */
+  amountReceivedLD: bigint;
+  maxInboundSlippageBp: number;
+  /** Smallest amount _credit accepts */
+  minInboundLD: bigint;
+  /** False if the message would revert with "CAPOFTAdapter: inbound slippage exceeded" at the current taxes */
+  withinSlippage: boolean;
+}
+
+export interface BridgeReceipt {
+  transactionHash: string;
+  /** LayerZero message GUID, from the OFTSent event */
+  guid: string;
+  amountSentLD: bigint;
+  amountReceivedLD: bigint;
+  /** approve() sent before the bridge transaction, if the allowance was too low */
+  approvalHash?: string;
+}
+
+/**
+ * Left-pad an address to the bytes32 format LayerZero uses for peers and recipients
+ */
+export function addressToBytes32(address: string): string {
+  return "0x" + address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
+/**
+ * Executor options with the given lzReceive gas
+ */
+export function lzReceiveOptions(gasLimit: number = DEFAULT_LZ_RECEIVE_GAS, value = 0): string {
+  return Options.newOptions().addExecutorLzReceiveOption(gasLimit, value).toHex();
+}
+
+function applySlippage(amount: bigint, slippageBp: number): bigint {
+  if (!Number.isInteger(slippageBp) || slippageBp < 0 || slippageBp > 10_000) {
+    throw new Error(`Invalid slippage: ${slippageBp} bp (expected an integer between 0 and 10000)`);
+  }
+  return (amount * (BASIS_POINTS_DENOMINATOR - BigInt(slippageBp))) / BASIS_POINTS_DENOMINATOR;
+}
+
+export class CapBridge {
+  readonly kind: OFTContractKind;
+  readonly address: string;
+  readonly contract: CAPTokenOFT | CAPTokenOFTAdapter;
+  /** The locked CAP token, adapter only */
+  readonly cap?: CapClient;
+
+  private constructor(kind: OFTContractKind, contract: CAPTokenOFT | CAPTokenOFTAdapter, cap?: CapClient) {
+    this.kind = kind;
+    this.address = contract.address;
+    this.contract = contract;
+    this.cap = cap;
+  }
+
+  /**
+   * Connect to an OFTAdapter or OFT; the kind is detected with approvalRequired()
+   */
+  static async connect(address: string, signerOrProvider: SignerOrProvider): Promise<CapBridge> {
+    const adapter = CAPTokenOFTAdapter__factory.connect(address, signerOrProvider);
+    if (!(await adapter.approvalRequired())) {
+      return new CapBridge("CAPTokenOFT", CAPTokenOFT__factory.connect(address, signerOrProvider));
+    }
+
+    const cap = await CapClient.connect(await adapter.token(), signerOrProvider);
+    return new CapBridge("CAPTokenOFTAdapter", adapter, cap);
+  }
+
+  async peer(eid: number): Promise<string> {
+    return this.contract.peers(eid);
+  }
+
+  /**
+   * Remove the dust below the shared decimals, like OFTCore._removeDust
+   */
+  async removeDust(amountLD: bigint): Promise<bigint> {
+    const rate = BigInt((await this.contract.decimalConversionRate()).toString());
+    return (amountLD / rate) * rate;
+  }
+
+  private async signerAddress(): Promise<string> {
+    if (!this.contract.signer) {
+      throw new Error("CapBridge is connected to a provider; connect it to a signer to send");
+    }
+    return this.contract.signer.getAddress();
+  }
+
+  /**
+   * Build the SendParam with a tax-aware minAmountLD and quote the LayerZero fee
+   */
+  async quote(request: BridgeQuoteRequest): Promise<BridgeQuote> {
+    if (/^0x0{64}$/i.test(await this.peer(request.dstEid))) {
+      throw new Error(`${this.kind} at ${this.address} has no peer for EID ${request.dstEid}`);
+    }
+
+    let amountSentLD = request.amountLD;
+    let amountReceivedLD: bigint;
+    let taxQuote: TransferQuote | undefined;
+
+    if (this.cap) {
+      // _debit transfers the full amountLD; what reaches the adapter is what gets sent, minus dust
+      taxQuote = await this.cap.quoteTransfer(request.from || (await this.signerAddress()), this.address, amountSentLD);
+      amountReceivedLD = await this.removeDust(taxQuote.sendAmount);
+    } else {
+      amountSentLD = await this.removeDust(request.amountLD);
+      amountReceivedLD = amountSentLD;
+    }
+
+    if (amountReceivedLD === 0n) {
+      throw new Error(`Amount ${request.amountLD} is below the shared-decimals precision after tax`);
+    }
+
+    const sendParam: SendParam = {
+      dstEid: request.dstEid,
+      to: addressToBytes32(request.to),
+      amountLD: amountSentLD,
+      minAmountLD: applySlippage(amountReceivedLD, request.slippageBp || 0),
+      extraOptions: request.extraOptions || lzReceiveOptions(request.gasLimit),
+      composeMsg: "0x",
+      oftCmd: "0x",
+    };
+
+    const fee = await this.contract.quoteSend(sendParam, false);
+    return {
+      kind: this.kind,
+      sendParam,
+      amountSentLD,
+      taxAmountLD: taxQuote ? taxQuote.taxAmount : 0n,
+      taxQuote,
+      amountReceivedLD,
+      nativeFee: BigInt(fee.nativeFee.toString()),
+      lzTokenFee: BigInt(fee.lzTokenFee.toString()),
+    };
+  }
+
+  /**
+   * Quote the unlock of an inbound amount on the home chain (adapter only)
+   * @param to - Recipient of the unlocked CAP
+   * @param amountLD - amountReceivedLD of the source-chain quote
+   */
+  async quoteUnlock(to: string, amountLD: bigint): Promise<UnlockQuote> {
+    if (!this.cap) {
+      throw new Error(`${this.address} is a CAPTokenOFT; only the OFTAdapter unlocks CAP`);
+    }
+
+    const adapter = this.contract as CAPTokenOFTAdapter;
+    const [taxQuote, slippage] = await Promise.all([
+      this.cap.quoteTransfer(this.address, to, amountLD),
+      adapter.maxInboundSlippageBp(),
+    ]);
+    const maxInboundSlippageBp = Number(slippage);
+    const minInboundLD = applySlippage(amountLD, maxInboundSlippageBp);
+
+    return {
+      taxQuote,
+      amountReceivedLD: taxQuote.sendAmount,
+      maxInboundSlippageBp,
+      minInboundLD,
+      withinSlippage: taxQuote.sendAmount >= minInboundLD,
+    };
+  }
+
+  /**
+   * Approve the adapter if needed, send the quoted transfer and wait for it to be mined
+   * @param refundAddress - Receives the unspent native fee (default: the signer)
+   */
+  async send(quote: BridgeQuote, refundAddress?: string): Promise<BridgeReceipt> {
+    const sender = await this.signerAddress();
+    let approvalHash: string | undefined;
+
+    if (this.cap && (await this.cap.allowance(sender, this.address)) < quote.sendParam.amountLD) {
+      const approval = await this.cap.token.approve(this.address, quote.sendParam.amountLD);
+      await approval.wait();
+      approvalHash = approval.hash;
+    }
+
+    const tx = await this.contract.send(
+      quote.sendParam,
+      { nativeFee: quote.nativeFee, lzTokenFee: 0 },
+      refundAddress || sender,
+      { value: quote.nativeFee }
+    );
+    const receipt = await tx.wait();
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) {
+        continue;
+      }
+
+      let parsed;
+      try {
+        parsed = this.contract.interface.parseLog(log);
+      } catch {
+        continue;
+      }
+      if (parsed && parsed.name === "OFTSent") {
+        return {
+          transactionHash: receipt.transactionHash,
+          guid: parsed.args.guid,
+          amountSentLD: BigInt(parsed.args.amountSentLD.toString()),
+          amountReceivedLD: BigInt(parsed.args.amountReceivedLD.toString()),
+          approvalHash,
+        };
+      }
+    }
+
+    throw new Error(`No OFTSent event in transaction ${receipt.transactionHash}`);
+  }
+}
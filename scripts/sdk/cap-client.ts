@@ -0,0 +1,212 @@
+import { CAPToken__factory } from "../../typechain-types";
+import type { CAPToken } from "../../typechain-types";
+import {
+  MintLimits,
+  MintState,
+  MintWindow,
+  readMintLimits,
+  readMintState,
+  simulateMintWindow,
+} from "../utils/mint-window";
+import { TaxState, TransferQuote, simulateTransfer } from "../utils/tax-simulator";
+import type { TaxRates } from "../utils/tax-validation";
+
+/**
+ * Typed client for a deployed CAPToken
+ *
+ * Wraps the typechain contract with the reads scripts keep needing (tax quotes, pending
+ * governance changes, the mint window) and converts every amount to bigint, so callers do not
+ * depend on the ethers version behind the typechain types.
+ */
+
+export const CAP_TOKEN_NAME = "Cyberia";
+export const CAP_TOKEN_SYMBOL = "CAP";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export type SignerOrProvider = Parameters<typeof CAPToken__factory.connect>[1];
+
+export interface PendingTaxChange {
+  taxes: TaxRates;
+  /** taxChangeTimestamp: applyTaxChange() is allowed from here on */
+  executableAt: bigint;
+}
+
+export interface PendingMint {
+  to: string;
+  amount: bigint;
+  /** mintTimestamp: executeMint() is allowed from here on */
+  executableAt: bigint;
+}
+
+export interface GovernanceState {
+  governance: string;
+  /** Zero address = burn mode */
+  feeRecipient: string;
+  taxes: TaxRates;
+  pendingTaxChange: PendingTaxChange | null;
+  pendingMint: PendingMint | null;
+}
+
+export interface MintStatus {
+  limits: MintLimits;
+  state: MintState;
+  /** Window at `now`, after the rollover proposeMint/executeMint would apply */
+  window: MintWindow;
+  /** Latest block timestamp the window was computed at */
+  now: bigint;
+}
+
+export interface ConnectOptions {
+  /** Check name() and symbol() before returning the client (default: true) */
+  verify?: boolean;
+}
+
+export class CapClient {
+  readonly address: string;
+  readonly token: CAPToken;
+
+  private constructor(token: CAPToken) {
+    this.address = token.address;
+    this.token = token;
+  }
+
+  /**
+   * Connect to the CAP token at `address`
+   * @throws If verification is enabled and the contract is not the Cyberia (CAP) token
+   */
+  static async connect(
+    address: string,
+    signerOrProvider: SignerOrProvider,
+    options: ConnectOptions = {}
+  ): Promise<CapClient> {
+    const client = new CapClient(CAPToken__factory.connect(address, signerOrProvider));
+    if (options.verify !== false) {
+      await client.verify();
+    }
+    return client;
+  }
+
+  /**
+   * Check that the contract answers name() = "Cyberia" and symbol() = "CAP"
+   */
+  async verify(): Promise<void> {
+    let name: string;
+    let symbol: string;
+    try {
+      [name, symbol] = await Promise.all([this.token.name(), this.token.symbol()]);
+    } catch (error) {
+      throw new Error(`Failed to connect to contract at ${this.address}: ${error}`);
+    }
+
+    if (name !== CAP_TOKEN_NAME || symbol !== CAP_TOKEN_SYMBOL) {
+      throw new Error(`Contract at ${this.address} is not a CAP token (name: ${name}, symbol: ${symbol})`);
+    }
+  }
+
+  async governance(): Promise<string> {
+    return this.token.governance();
+  }
+
+  async isGovernance(account: string): Promise<boolean> {
+    return (await this.governance()).toLowerCase() === account.toLowerCase();
+  }
+
+  async balanceOf(account: string): Promise<bigint> {
+    return BigInt((await this.token.balanceOf(account)).toString());
+  }
+
+  async allowance(owner: string, spender: string): Promise<bigint> {
+    return BigInt((await this.token.allowance(owner, spender)).toString());
+  }
+
+  async latestTimestamp(): Promise<bigint> {
+    const block = await this.token.provider.getBlock("latest");
+    if (!block) {
+      throw new Error("Could not fetch latest block");
+    }
+    return BigInt(block.timestamp);
+  }
+
+  async getTaxes(): Promise<TaxRates> {
+    const [transfer, sell, buy] = await Promise.all([
+      this.token.transferTaxBp(),
+      this.token.sellTaxBp(),
+      this.token.buyTaxBp(),
+    ]);
+    return { transfer: Number(transfer), sell: Number(sell), buy: Number(buy) };
+  }
+
+  /**
+   * Tax simulator state for transfers between `accounts`
+   * @param accounts - Addresses to look up with isPool (only those that are pools end up in `pools`)
+   */
+  async readTaxState(accounts: string[] = []): Promise<TaxState> {
+    const [taxes, feeRecipient, registered] = await Promise.all([
+      this.getTaxes(),
+      this.token.feeRecipient(),
+      Promise.all(accounts.map((account) => this.token.isPool(account))),
+    ]);
+
+    return { taxes, feeRecipient, pools: accounts.filter((_account, index) => registered[index]) };
+  }
+
+  /**
+   * Quote a transfer of `amount` from `from` to `to` with the current taxes and pool registry
+   */
+  async quoteTransfer(from: string, to: string, amount: bigint): Promise<TransferQuote> {
+    const accounts = [from, to].filter((account) => account.toLowerCase() !== ZERO_ADDRESS);
+    return simulateTransfer(await this.readTaxState(accounts), from, to, amount);
+  }
+
+  /**
+   * Governance, fee recipient, current taxes and the timelocked tax change and mint, if any
+   */
+  async getGovernanceState(): Promise<GovernanceState> {
+    const token = this.token;
+    const [governance, feeRecipient, taxes, taxChangeTimestamp, mintState] = await Promise.all([
+      token.governance(),
+      token.feeRecipient(),
+      this.getTaxes(),
+      token.taxChangeTimestamp(),
+      readMintState(token),
+    ]);
+
+    const taxChangeAt = BigInt(taxChangeTimestamp.toString());
+    let pendingTaxChange: PendingTaxChange | null = null;
+    if (taxChangeAt !== 0n) {
+      const [transfer, sell, buy] = await Promise.all([
+        token.pendingTransferTaxBp(),
+        token.pendingSellTaxBp(),
+        token.pendingBuyTaxBp(),
+      ]);
+      pendingTaxChange = {
+        taxes: { transfer: Number(transfer), sell: Number(sell), buy: Number(buy) },
+        executableAt: taxChangeAt,
+      };
+    }
+
+    const pendingMint: PendingMint | null =
+      mintState.mintTimestamp === 0n
+        ? null
+        : {
+            to: mintState.pendingMintTo,
+            amount: mintState.pendingMintAmount,
+            executableAt: mintState.mintTimestamp,
+          };
+
+    return { governance, feeRecipient, taxes, pendingTaxChange, pendingMint };
+  }
+
+  /**
+   * Mint limits, mint storage and the effective window at the latest block (or at `now`)
+   */
+  async getMintStatus(now?: bigint): Promise<MintStatus> {
+    const [limits, state, latest] = await Promise.all([
+      readMintLimits(this.token),
+      readMintState(this.token),
+      now === undefined ? this.latestTimestamp() : Promise.resolve(now),
+    ]);
+    return { limits, state, window: simulateMintWindow(state, limits, latest), now: latest };
+  }
+}
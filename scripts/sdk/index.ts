@@ -0,0 +1,12 @@
+/**
+ * CAP SDK: typed clients for the token and its LayerZero bridge, built on the typechain bindings
+ *
+ *   const cap = await CapClient.connect(resolveCapTokenAddress(network.name), signer);
+ *   const quote = await cap.quoteTransfer(from, to, amount);
+ *
+ *   const bridge = await CapBridge.connect(adapterAddress, signer);
+ *   const receipt = await bridge.send(await bridge.quote({ dstEid, to, amountLD }));
+ */
+export * from "./cap-client";
+export * from "./bridge";
+export * from "./addresses";
@@ -1,9 +1,10 @@
 import { ethers } from "hardhat";
-import deployments from "../deployments.json";
+import { CapClient } from "./sdk";
+import { getDeployment } from "./utils/deployment-tracker";
 
 async function main() {
   const network = "sepolia";
-  const deployment = deployments.deployments[network];
+  const deployment = getDeployment(network);
 
   if (!deployment) {
     throw new Error(`No deployment found for network: ${network}`);
@@ -29,41 +30,40 @@ async function main() {
   console.log("");
 
   // Get CAP token contract
-  const cap = await ethers.getContractAt("CAPToken", capTokenAddress);
+  const cap = await CapClient.connect(capTokenAddress, signer);
 
   // =============================================================================
   // STEP 1: Check and Transfer Ownership
   // =============================================================================
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log("STEP 1: Transfer Token Ownership to DAO");
+  console.log("STEP 1: Transfer Token Governance to DAO");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
-  const currentOwner = await cap.owner();
-  console.log("Current owner:", currentOwner);
+  const currentGovernance = await cap.governance();
+  console.log("Current governance:", currentGovernance);
   console.log("Target DAO:", daoAddress);
 
-  if (currentOwner.toLowerCase() === daoAddress.toLowerCase()) {
-    console.log("✅ DAO already owns the token!");
-  } else if (currentOwner.toLowerCase() === signer.address.toLowerCase()) {
+  if (await cap.isGovernance(daoAddress)) {
+    console.log("✅ DAO already governs the token!");
+  } else if (await cap.isGovernance(signer.address)) {
     console.log("");
-    console.log("🔄 Transferring ownership to DAO...");
-    const tx = await cap.transferOwnership(daoAddress);
+    console.log("🔄 Transferring governance to DAO...");
+    const tx = await cap.token.setGovernance(daoAddress);
     console.log("📤 Transaction sent:", tx.hash);
 
     await tx.wait();
-    console.log("✅ Ownership transferred successfully!");
+    console.log("✅ Governance transferred successfully!");
 
     // Verify
-    const newOwner = await cap.owner();
-    console.log("✅ Verified new owner:", newOwner);
+    console.log("✅ Verified new governance:", await cap.governance());
     console.log("");
     console.log("⚠️  IMPORTANT: All admin functions now require DAO governance!");
   } else {
-    console.log("❌ ERROR: You are not the current owner!");
-    console.log(`   Current owner: ${currentOwner}`);
+    console.log("❌ ERROR: You are not the current governance!");
+    console.log(`   Current governance: ${currentGovernance}`);
     console.log(`   Your address: ${signer.address}`);
     console.log("");
-    console.log("⏭️  Skipping ownership transfer...");
+    console.log("⏭️  Skipping governance transfer...");
   }
 
   console.log("");
@@ -76,7 +76,7 @@ async function main() {
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
   // Check current delegation
-  const currentDelegate = await cap.delegates(signer.address);
+  const currentDelegate = await cap.token.delegates(signer.address);
   console.log("Current delegate:", currentDelegate);
 
   if (currentDelegate.toLowerCase() === signer.address.toLowerCase()) {
@@ -84,7 +84,7 @@ async function main() {
   } else {
     console.log("");
     console.log("🗳️  Self-delegating to activate voting power...");
-    const tx = await cap.delegate(signer.address);
+    const tx = await cap.token.delegate(signer.address);
     console.log("📤 Transaction sent:", tx.hash);
 
     await tx.wait();
@@ -93,12 +93,12 @@ async function main() {
 
   // Check voting power
   const balance = await cap.balanceOf(signer.address);
-  const votes = await cap.getVotes(signer.address);
+  const votes = await cap.token.getVotes(signer.address);
 
   console.log("");
   console.log("📊 Your Voting Power:");
-  console.log("├─ Balance:", ethers.formatEther(balance), "CAP");
-  console.log("└─ Votes:", ethers.formatEther(votes), "CAP");
+  console.log("├─ Balance:", ethers.utils.formatEther(balance), "CAP");
+  console.log("└─ Votes:", ethers.utils.formatEther(votes), "CAP");
 
   console.log("");
 
@@ -109,43 +109,34 @@ async function main() {
   console.log("STEP 3: Current Token State");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
-  const totalSupply = await cap.totalSupply();
-  const owner = await cap.owner();
-  const feeRecipient = await cap.feeRecipient();
-  const transferTax = await cap.transferTaxBp();
-  const sellTax = await cap.sellTaxBp();
-  const buyTax = await cap.buyTaxBp();
+  const totalSupply = await cap.token.totalSupply();
+  const { governance, feeRecipient, taxes, pendingTaxChange } = await cap.getGovernanceState();
 
   console.log("Token Information:");
-  console.log("├─ Name:", await cap.name());
-  console.log("├─ Symbol:", await cap.symbol());
-  console.log("├─ Total Supply:", ethers.formatEther(totalSupply), "CAP");
-  console.log("└─ Decimals:", await cap.decimals());
+  console.log("├─ Name:", await cap.token.name());
+  console.log("├─ Symbol:", await cap.token.symbol());
+  console.log("├─ Total Supply:", ethers.utils.formatEther(totalSupply), "CAP");
+  console.log("└─ Decimals:", await cap.token.decimals());
   console.log("");
   console.log("Governance:");
-  console.log("└─ Owner (DAO):", owner);
+  console.log("└─ Governance (DAO):", governance);
   console.log("");
   console.log("Tax Configuration:");
-  console.log("├─ Transfer Tax:", transferTax, "bp (", Number(transferTax) / 100, "%)");
-  console.log("├─ Sell Tax:", sellTax, "bp (", Number(sellTax) / 100, "%)");
-  console.log("└─ Buy Tax:", buyTax, "bp (", Number(buyTax) / 100, "%)");
+  console.log("├─ Transfer Tax:", taxes.transfer, "bp (", taxes.transfer / 100, "%)");
+  console.log("├─ Sell Tax:", taxes.sell, "bp (", taxes.sell / 100, "%)");
+  console.log("└─ Buy Tax:", taxes.buy, "bp (", taxes.buy / 100, "%)");
   console.log("");
   console.log("Fee Recipient:");
   console.log("└─", feeRecipient);
 
   // Check for pending tax changes
-  const pendingTimestamp = await cap.taxChangeTimestamp();
-  if (pendingTimestamp > 0) {
-    const pendingTransfer = await cap.pendingTransferTaxBp();
-    const pendingSell = await cap.pendingSellTaxBp();
-    const pendingBuy = await cap.pendingBuyTaxBp();
-
+  if (pendingTaxChange) {
     console.log("");
     console.log("⏳ Pending Tax Change:");
-    console.log("├─ Transfer Tax:", pendingTransfer, "bp");
-    console.log("├─ Sell Tax:", pendingSell, "bp");
-    console.log("├─ Buy Tax:", pendingBuy, "bp");
-    console.log("└─ Ready at:", new Date(Number(pendingTimestamp) * 1000).toLocaleString());
+    console.log("├─ Transfer Tax:", pendingTaxChange.taxes.transfer, "bp");
+    console.log("├─ Sell Tax:", pendingTaxChange.taxes.sell, "bp");
+    console.log("├─ Buy Tax:", pendingTaxChange.taxes.buy, "bp");
+    console.log("└─ Ready at:", new Date(Number(pendingTaxChange.executableAt) * 1000).toLocaleString());
   }
 
   console.log("");
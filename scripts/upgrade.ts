@@ -1,29 +1,91 @@
 import { network, ethers as hardhatEthers, upgrades as hardhatUpgrades } from "hardhat";
 import { ethers } from "ethers";
-import { getNetworkConfig, validateEnvironment } from "./config/environments";
-import { getDeployment, saveDeployment } from "./utils/deployment-tracker";
+import { impersonateAccount, setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { getEnvPrefix, getNetworkConfig, validateEnvironment } from "./config/environments";
+import {
+  CapSnapshot,
+  SnapshotChange,
+  diffCapSnapshots,
+  discoverCapAccounts,
+  isExpectedChange,
+  takeCapSnapshot,
+} from "./utils/cap-snapshot";
+import { buildProposal, submitProposal, writeProposal } from "./dao/build-proposal";
+import { CapClient, resolveCapTokenAddress } from "./sdk";
+import { getDeployment, recordDeploymentEvent, saveDeployment } from "./utils/deployment-tracker";
+import { queryInChunks } from "./utils/logs";
+
+/**
+ * Modes (UPGRADE_MODE):
+ *   direct      Signer is governance(): upgrade the proxy in one transaction (default)
+ *   governance  Governance is the DAO: deploy the implementation with prepareUpgrade, record it in
+ *               deployments.json and write the upgradeToAndCall DAO proposal
+ *   confirm     After the vote executed: check the ERC-1967 slot points at the prepared implementation
+ *
+ * Reinitializer (all modes): UPGRADE_INIT_FUNCTION=initializeV2 UPGRADE_INIT_ARGS='[...]' encodes the
+ * call passed to upgradeToAndCall.
+ *
+ * Dry run (UPGRADE_DRY_RUN=true, run on the in-process hardhat network):
+ *   FORK_NETWORK=sepolia npm run upgrade:dry-run
+ *
+ * Forks FORK_NETWORK, impersonates governance(), runs upgradeToAndCall with the compiled
+ * CAPToken and diffs a state snapshot taken before and after. Nothing is sent to the real network.
+ *
+ * Optional:
+ *   FORK_BLOCK_NUMBER          Block to fork at (default: latest)
+ *   DRY_RUN_FROM_BLOCK         First block scanned for pools and holders (default: deployment block)
+ *   DRY_RUN_TOP_HOLDERS        Number of top holders to snapshot (default: 20)
+ *   DRY_RUN_EXPECTED_CHANGES   Comma-separated snapshot paths the upgrade is allowed to change (e.g. "taxes.sell")
+ */
+const DEFAULT_TOP_HOLDERS = 20;
+
+type UpgradeMode = "direct" | "governance" | "confirm";
+
+interface UpgradeCall {
+  fn: string;
+  args: unknown[];
+}
 
-async function validateExistingDeployment(networkName: string): Promise<string> {
-  let proxyAddress = process.env.CAP_TOKEN_ADDRESS;
-
-  // Try to get address from deployment history if not provided
-  if (!proxyAddress) {
-    console.log("📖 CAP_TOKEN_ADDRESS not set, checking deployment history...");
-    const deployment = getDeployment(networkName);
-    if (deployment) {
-      proxyAddress = deployment.proxyAddress;
-      console.log(`✅ Found deployed contract for ${networkName}: ${proxyAddress}`);
-    } else {
-      throw new Error(
-        `CAP_TOKEN_ADDRESS not set and no deployment found for ${networkName}. ` +
-          `Please set CAP_TOKEN_ADDRESS in .env or deploy first.`
-      );
-    }
+function getUpgradeMode(): UpgradeMode {
+  const mode = process.env.UPGRADE_MODE || "direct";
+  if (mode !== "direct" && mode !== "governance" && mode !== "confirm") {
+    throw new Error(`Invalid UPGRADE_MODE: ${mode}. Use direct, governance or confirm`);
+  }
+  return mode;
+}
+
+/**
+ * Reinitializer to run with the upgrade, from UPGRADE_INIT_FUNCTION / UPGRADE_INIT_ARGS
+ */
+function getUpgradeCall(): UpgradeCall | undefined {
+  const fn = process.env.UPGRADE_INIT_FUNCTION;
+  if (!fn) {
+    return undefined;
   }
 
-  if (!ethers.isAddress(proxyAddress)) {
-    throw new Error(`Invalid CAP_TOKEN_ADDRESS: ${proxyAddress}`);
+  const args = process.env.UPGRADE_INIT_ARGS ? JSON.parse(process.env.UPGRADE_INIT_ARGS) : [];
+  if (!Array.isArray(args)) {
+    throw new Error(`UPGRADE_INIT_ARGS must be a JSON array, got ${process.env.UPGRADE_INIT_ARGS}`);
   }
+  return { fn, args };
+}
+
+/**
+ * Calldata for upgradeToAndCall ("0x" when there is no reinitializer)
+ */
+async function encodeUpgradeCall(call: UpgradeCall | undefined): Promise<string> {
+  if (!call) {
+    return "0x";
+  }
+  const contractFactoryV2 = await hardhatEthers.getContractFactory("CAPToken");
+  const data = contractFactoryV2.interface.encodeFunctionData(call.fn, call.args);
+  console.log(`📞 Reinitializer: ${call.fn}(${call.args.map(String).join(", ")})`);
+  return data;
+}
+
+async function validateExistingDeployment(networkName: string): Promise<string> {
+  const proxyAddress = resolveCapTokenAddress(networkName);
+  console.log(`📍 CAP token: ${proxyAddress}`);
 
   // Verify it's a valid UUPS proxy
   try {
@@ -37,19 +99,20 @@ async function validateExistingDeployment(networkName: string): Promise<string>
 }
 
 async function verifyContractOwnership(proxyAddress: string, signerAddress: string): Promise<void> {
-  const contract = await hardhatEthers.getContractAt("CAPToken", proxyAddress);
-  const owner = await contract.owner();
+  const cap = await CapClient.connect(proxyAddress, hardhatEthers.provider);
+  const governance = await cap.governance();
 
-  if (owner !== signerAddress) {
+  if (!(await cap.isGovernance(signerAddress))) {
     throw new Error(
-      `Signer (${signerAddress}) is not the contract owner (${owner}). ` + `Only the owner can upgrade the contract.`
+      `Signer (${signerAddress}) is not governance (${governance}). ` +
+        `Only governance can upgrade the contract. If governance is the DAO, use UPGRADE_MODE=governance.`
     );
   }
 
-  console.log(`✅ Ownership verified: ${signerAddress}`);
+  console.log(`✅ Governance verified: ${signerAddress}`);
 }
 
-async function upgradeContract(proxyAddress: string, networkName: string) {
+async function upgradeContract(proxyAddress: string, networkName: string, call?: UpgradeCall) {
   const networkConfig = getNetworkConfig(networkName);
 
   console.log("\n⏳ Preparing upgrade...");
@@ -58,7 +121,7 @@ async function upgradeContract(proxyAddress: string, networkName: string) {
   console.log(`🔑 Upgrader: ${deployer.address}`);
 
   const balance = await hardhatEthers.provider.getBalance(deployer.address);
-  console.log(`💵 Upgrader Balance: ${ethers.formatEther(balance)} ETH`);
+  console.log(`💵 Upgrader Balance: ${ethers.utils.formatEther(balance)} ETH`);
 
   // Get the new contract factory
   const contractFactoryV2 = await hardhatEthers.getContractFactory("CAPToken");
@@ -79,9 +142,15 @@ async function upgradeContract(proxyAddress: string, networkName: string) {
 
   console.log("\n⏳ Upgrading proxy contract...");
   console.log("   This will deploy a new implementation and update the proxy...");
+  if (call) {
+    console.log(`📞 Reinitializer: ${call.fn}(${call.args.map(String).join(", ")})`);
+  }
 
-  const upgradedContract = await hardhatUpgrades.upgradeProxy(proxyAddress, contractFactoryV2);
-  await upgradedContract.waitForDeployment();
+  const upgradedContract = await hardhatUpgrades.upgradeProxy(proxyAddress, contractFactoryV2, {
+    kind: "uups",
+    call,
+  });
+  await upgradedContract.deployed();
 
   // Get new implementation address
   const newImplementationAddress = await hardhatUpgrades.erc1967.getImplementationAddress(proxyAddress);
@@ -91,7 +160,7 @@ async function upgradeContract(proxyAddress: string, networkName: string) {
   console.log(`📍 New Implementation Address: ${newImplementationAddress}`);
 
   // Get transaction details
-  const deployTx = upgradedContract.deploymentTransaction();
+  const deployTx = upgradedContract.deployTransaction;
   if (!deployTx) {
     console.warn("⚠️  Could not retrieve deployment transaction details");
     return {
@@ -115,13 +184,13 @@ async function upgradeContract(proxyAddress: string, networkName: string) {
     };
   }
 
-  console.log(`📝 Transaction Hash: ${receipt.hash}`);
+  console.log(`📝 Transaction Hash: ${receipt.transactionHash}`);
   console.log(`⛽ Gas Used: ${receipt.gasUsed.toString()}`);
 
   return {
     proxyAddress,
     implementationAddress: newImplementationAddress,
-    txHash: receipt.hash,
+    txHash: receipt.transactionHash,
     blockNumber: receipt.blockNumber,
     deployer: deployer.address,
   };
@@ -130,34 +199,265 @@ async function upgradeContract(proxyAddress: string, networkName: string) {
 async function verifyUpgrade(proxyAddress: string) {
   console.log("\n🔍 Verifying upgrade...");
 
-  const contract = await hardhatEthers.getContractAt("CAPToken", proxyAddress);
+  const cap = await CapClient.connect(proxyAddress, hardhatEthers.provider, { verify: false });
 
-  const name = await contract.name();
-  const symbol = await contract.symbol();
-  const totalSupply = await contract.totalSupply();
-  const owner = await contract.owner();
-  const feeRecipient = await contract.feeRecipient();
+  const name = await cap.token.name();
+  const symbol = await cap.token.symbol();
+  const totalSupply = await cap.token.totalSupply();
+  const { governance, feeRecipient } = await cap.getGovernanceState();
 
   console.log(`Token Name: ${name}`);
   console.log(`Token Symbol: ${symbol}`);
-  console.log(`Total Supply: ${ethers.formatEther(totalSupply)} CAP`);
-  console.log(`Owner: ${owner}`);
+  console.log(`Total Supply: ${ethers.utils.formatEther(totalSupply)} CAP`);
+  console.log(`Governance: ${governance}`);
   console.log(`Fee Recipient: ${feeRecipient}`);
 
   // Validate critical properties are preserved
-  if (name !== "Cyberia") {
-    console.warn("⚠️  WARNING: Token name changed after upgrade!");
-  }
-  if (symbol !== "CAP") {
-    console.warn("⚠️  WARNING: Token symbol changed after upgrade!");
+  try {
+    await cap.verify();
+  } catch {
+    console.warn("⚠️  WARNING: Token name or symbol changed after upgrade!");
   }
-  if (totalSupply === BigInt(0)) {
+  if (totalSupply.isZero()) {
     console.warn("⚠️  WARNING: Total supply is zero after upgrade!");
   }
 
   console.log("✅ Upgrade verification passed!");
 }
 
+function printChanges(changes: SnapshotChange[], expected: string[]): void {
+  for (const change of changes) {
+    const marker = isExpectedChange(change, expected) ? "✅ expected" : "❌ unexpected";
+    console.log(`   ${marker}  ${change.path}: ${change.before ?? "(absent)"} → ${change.after ?? "(absent)"}`);
+  }
+}
+
+async function dryRunUpgrade(): Promise<void> {
+  if (network.name !== "hardhat") {
+    throw new Error(
+      `Dry runs fork into the in-process hardhat network. Run with --network hardhat and FORK_NETWORK=${network.name}`
+    );
+  }
+
+  const forkNetwork = process.env.FORK_NETWORK;
+  if (!forkNetwork) {
+    throw new Error("FORK_NETWORK not set. Set it to the network to fork (e.g. sepolia, mainnet)");
+  }
+  const forkConfig = getNetworkConfig(forkNetwork);
+  if (!forkConfig.rpcUrl) {
+    throw new Error(`RPC URL not configured for ${forkNetwork}. Set ${getEnvPrefix(forkNetwork)}_RPC_URL in .env`);
+  }
+
+  console.log(`🍴 Forking ${forkConfig.name} (Chain ID: ${forkConfig.chainId}) into the hardhat network...`);
+  const forkBlock = process.env.FORK_BLOCK_NUMBER ? Number(process.env.FORK_BLOCK_NUMBER) : undefined;
+  await network.provider.request({
+    method: "hardhat_reset",
+    params: [{ forking: { jsonRpcUrl: forkConfig.rpcUrl, blockNumber: forkBlock } }],
+  });
+  const headBlock = await hardhatEthers.provider.getBlockNumber();
+  console.log(`✅ Forked at block ${headBlock}`);
+
+  const proxyAddress = await validateExistingDeployment(forkNetwork);
+  const { token: cap } = await CapClient.connect(proxyAddress, hardhatEthers.provider);
+  const oldImplementation = await hardhatUpgrades.erc1967.getImplementationAddress(proxyAddress);
+
+  // Pools and top holders come from the event logs of the real deployment
+  const fromBlock = Number(process.env.DRY_RUN_FROM_BLOCK || getDeployment(forkNetwork)?.blockNumber || 0);
+  const topHolders = Number(process.env.DRY_RUN_TOP_HOLDERS) || DEFAULT_TOP_HOLDERS;
+  if (fromBlock === 0) {
+    console.warn(
+      "⚠️  No deployment block known - scanning logs from block 0 (set DRY_RUN_FROM_BLOCK to speed this up)"
+    );
+  }
+  console.log(`\n🔍 Scanning logs from block ${fromBlock} for pools and the top ${topHolders} holders...`);
+  const accounts = await discoverCapAccounts(cap, fromBlock, headBlock, topHolders);
+  console.log(`   Found ${accounts.pools.length} pool(s), tracking ${accounts.holders.length} holder(s)`);
+
+  const before: CapSnapshot = await takeCapSnapshot(cap, accounts, headBlock);
+
+  // Deploy the new implementation on the fork (also validates the storage layout)
+  console.log("\n⏳ Deploying new implementation on the fork...");
+  const contractFactoryV2 = await hardhatEthers.getContractFactory("CAPToken");
+  const newImplementation = String(
+    await hardhatUpgrades.prepareUpgrade(proxyAddress, contractFactoryV2, { kind: "uups" })
+  );
+  console.log(`📍 New Implementation: ${newImplementation}`);
+
+  // Upgrade the way the DAO would: upgradeToAndCall from governance()
+  const governance = before.token.governance;
+  console.log(`\n🎭 Impersonating governance ${governance}...`);
+  await impersonateAccount(governance);
+  await setBalance(governance, ethers.utils.parseEther("10"));
+  const governanceSigner = await hardhatEthers.getSigner(governance);
+  const initData = await encodeUpgradeCall(getUpgradeCall());
+  const tx = await cap.connect(governanceSigner).upgradeToAndCall(newImplementation, initData);
+  await tx.wait();
+
+  const implementationAfter = await hardhatUpgrades.erc1967.getImplementationAddress(proxyAddress);
+  if (implementationAfter.toLowerCase() !== newImplementation.toLowerCase()) {
+    throw new Error(`ERC-1967 implementation slot is ${implementationAfter}, expected ${newImplementation}`);
+  }
+  console.log(`✅ Implementation slot: ${oldImplementation} → ${implementationAfter}`);
+
+  const after = await takeCapSnapshot(cap, accounts, await hardhatEthers.provider.getBlockNumber());
+
+  const expected = (process.env.DRY_RUN_EXPECTED_CHANGES || "")
+    .split(",")
+    .map((path) => path.trim())
+    .filter((path) => path !== "");
+  const changes = diffCapSnapshots(before, after);
+  const unexpected = changes.filter((change) => !isExpectedChange(change, expected));
+
+  console.log(
+    `\n📸 State snapshot: ${Object.keys(before.holders).length} holders, ${Object.keys(before.pools).length} pools`
+  );
+  if (changes.length === 0) {
+    console.log("   No state changes");
+  } else {
+    printChanges(changes, expected);
+  }
+
+  if (unexpected.length > 0) {
+    throw new Error(`Dry run found ${unexpected.length} unexpected state change(s) - do not submit this upgrade`);
+  }
+
+  console.log("\n🎉 Dry run passed: the upgrade preserves CAP token state");
+  console.log("   Nothing was sent to", forkConfig.name);
+}
+
+export async function proposeGovernanceUpgrade(proxyAddress: string, networkName: string): Promise<void> {
+  const networkConfig = getNetworkConfig(networkName);
+  const deployment = getDeployment(networkName);
+  const cap = await CapClient.connect(proxyAddress, hardhatEthers.provider);
+  const currentImplementation = await hardhatUpgrades.erc1967.getImplementationAddress(proxyAddress);
+
+  // prepareUpgrade validates the storage layout and deploys the implementation (or reuses an identical one)
+  console.log("\n⏳ Validating storage layout and deploying new implementation...");
+  const contractFactoryV2 = await hardhatEthers.getContractFactory("CAPToken");
+  const newImplementation = String(
+    await hardhatUpgrades.prepareUpgrade(proxyAddress, contractFactoryV2, { kind: "uups" })
+  );
+  console.log(`📍 New Implementation: ${newImplementation}`);
+
+  if (newImplementation.toLowerCase() === currentImplementation.toLowerCase()) {
+    throw new Error("The compiled CAPToken matches the current implementation - nothing to upgrade");
+  }
+
+  const initData = await encodeUpgradeCall(getUpgradeCall());
+
+  recordDeploymentEvent(networkName, {
+    action: "upgrade-proposed",
+    contract: "CAPToken",
+    timestamp: new Date().toISOString(),
+    txHash: "",
+    record: {
+      network: networkName,
+      chainId: networkConfig.chainId,
+      timestamp: new Date().toISOString(),
+      proxyAddress,
+      implementationAddress: currentImplementation,
+      deployer: deployment?.deployer || "",
+      owner: await cap.governance(),
+      feeRecipient: await cap.token.feeRecipient(),
+      txHash: deployment?.txHash || "",
+      blockNumber: deployment?.blockNumber || 0,
+      verified: deployment?.verified || false,
+      pendingImplementation: newImplementation,
+    },
+    note: "Implementation prepared; awaiting DAO vote on upgradeToAndCall",
+  });
+
+  const daoAddress = process.env.ARAGON_DAO_ADDRESS;
+  const pluginAddress = process.env.CAP_GOVERNANCE_PLUGIN_ADDRESS;
+  const proposal = buildProposal(
+    {
+      title: `Upgrade CAP token to ${newImplementation}`,
+      summary: `Upgrade the CAP proxy ${proxyAddress} from ${currentImplementation} to ${newImplementation}.`,
+      actions: [{ method: "upgradeToAndCall", args: [newImplementation, initData] }],
+    },
+    {
+      network: networkName,
+      chainId: networkConfig.chainId,
+      capToken: proxyAddress,
+      dao: daoAddress,
+      plugin: pluginAddress,
+    }
+  );
+
+  const outputPath = writeProposal(proposal, process.env.PROPOSAL_OUTPUT);
+  console.log("\n📄 DAO proposal written to:", outputPath);
+  console.log(`   to:    ${proposal.actions[0].to}`);
+  console.log(`   value: ${proposal.actions[0].value}`);
+  console.log(`   data:  ${proposal.actions[0].data}`);
+
+  if (process.env.SUBMIT_PROPOSAL === "true") {
+    if (!pluginAddress) {
+      throw new Error("❌ CAP_GOVERNANCE_PLUGIN_ADDRESS not set in .env");
+    }
+    console.log("\n📤 Submitting proposal to TokenVoting plugin:", pluginAddress);
+    const { proposalId, txHash } = await submitProposal(proposal, pluginAddress, process.env.PROPOSAL_METADATA_URI);
+    console.log(`✅ Proposal ${proposalId} created (tx ${txHash})`);
+  }
+
+  console.log(`\n📝 Next steps:`);
+  console.log(`1. Verify the implementation: npx hardhat verify --network ${networkName} ${newImplementation}`);
+  if (process.env.SUBMIT_PROPOSAL !== "true") {
+    console.log(`2. Submit the proposal (re-run with SUBMIT_PROPOSAL=true, or via the Aragon UI)`);
+  }
+  console.log(
+    `3. After the vote executes: UPGRADE_MODE=confirm npx hardhat run scripts/upgrade.ts --network ${networkName}`
+  );
+}
+
+export async function confirmGovernanceUpgrade(proxyAddress: string, networkName: string): Promise<void> {
+  const deployment = getDeployment(networkName);
+  const pendingImplementation = deployment?.pendingImplementation;
+  if (!deployment || !pendingImplementation) {
+    throw new Error(`No prepared upgrade recorded for ${networkName}. Run with UPGRADE_MODE=governance first.`);
+  }
+
+  const implementation = await hardhatUpgrades.erc1967.getImplementationAddress(proxyAddress);
+  console.log(`\n📍 Prepared Implementation: ${pendingImplementation}`);
+  console.log(`📍 ERC-1967 Slot:            ${implementation}`);
+
+  if (implementation.toLowerCase() !== pendingImplementation.toLowerCase()) {
+    const state =
+      implementation.toLowerCase() === deployment.implementationAddress.toLowerCase()
+        ? "still points at the previous implementation - has the DAO proposal been executed?"
+        : "points at an unexpected implementation";
+    throw new Error(`ERC-1967 slot ${state}`);
+  }
+
+  // Find the Upgraded event emitted when the DAO executed the proposal
+  const { token: cap } = await CapClient.connect(proxyAddress, hardhatEthers.provider);
+  const latestBlock = await hardhatEthers.provider.getBlockNumber();
+  const logs = await queryInChunks(
+    (from, to) => cap.queryFilter(cap.filters.Upgraded(pendingImplementation), from, to),
+    deployment.blockNumber,
+    latestBlock
+  );
+  const upgradeLog = logs[logs.length - 1];
+
+  saveDeployment(
+    networkName,
+    {
+      ...deployment,
+      timestamp: new Date().toISOString(),
+      implementationAddress: pendingImplementation,
+      pendingImplementation: undefined,
+      txHash: upgradeLog?.transactionHash || "",
+      blockNumber: upgradeLog?.blockNumber || latestBlock,
+      verified: false,
+    },
+    "upgrade"
+  );
+
+  console.log("\n✅ Upgrade confirmed: the proxy now points at the prepared implementation");
+  if (upgradeLog) {
+    console.log(`📝 Executed in transaction ${upgradeLog.transactionHash} (block ${upgradeLog.blockNumber})`);
+  }
+}
+
 async function main() {
   try {
     const networkName = network.name;
@@ -167,9 +467,14 @@ async function main() {
     console.log("║         CYBERIA (CAP) TOKEN UPGRADE SCRIPT (UUPS)            ║");
     console.log("╚════════════════════════════════════════════════════════════════╝\n");
 
+    if (process.env.UPGRADE_DRY_RUN === "true") {
+      await dryRunUpgrade();
+      return;
+    }
+
     console.log(`🌐 Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
 
-    if (networkName === "mainnet") {
+    if (networkName === "mainnet" && getUpgradeMode() === "direct") {
       console.warn("\n⚠️  ⚠️  ⚠️  WARNING: UPGRADING MAINNET CONTRACT ⚠️  ⚠️  ⚠️");
       console.warn("This will upgrade the production contract!");
       console.warn("Ensure you have:");
@@ -186,6 +491,16 @@ async function main() {
     // Get and validate existing deployment
     const proxyAddress = await validateExistingDeployment(networkName);
 
+    const mode = getUpgradeMode();
+    if (mode === "governance") {
+      await proposeGovernanceUpgrade(proxyAddress, networkName);
+      return;
+    }
+    if (mode === "confirm") {
+      await confirmGovernanceUpgrade(proxyAddress, networkName);
+      return;
+    }
+
     // Get signer
     const [signer] = await hardhatEthers.getSigners();
 
@@ -193,30 +508,34 @@ async function main() {
     await verifyContractOwnership(proxyAddress, signer.address);
 
     // Get current contract state for comparison
-    const contractBefore = await hardhatEthers.getContractAt("CAPToken", proxyAddress);
-    const ownerBefore = await contractBefore.owner();
-    const feeRecipientBefore = await contractBefore.feeRecipient();
+    const capBefore = await CapClient.connect(proxyAddress, signer);
+    const governanceBefore = await capBefore.governance();
+    const feeRecipientBefore = await capBefore.token.feeRecipient();
 
     // Perform upgrade
-    const upgrade = await upgradeContract(proxyAddress, networkName);
+    const upgrade = await upgradeContract(proxyAddress, networkName, getUpgradeCall());
 
     // Verify upgrade
     await verifyUpgrade(proxyAddress);
 
-    // Update deployment record
-    saveDeployment(networkName, {
-      network: networkName,
-      chainId: networkConfig.chainId,
-      timestamp: new Date().toISOString(),
-      proxyAddress: upgrade.proxyAddress,
-      implementationAddress: upgrade.implementationAddress,
-      deployer: upgrade.deployer,
-      owner: ownerBefore,
-      feeRecipient: feeRecipientBefore,
-      txHash: upgrade.txHash,
-      blockNumber: upgrade.blockNumber,
-      verified: false,
-    });
+    // Append the upgrade to the deployment history
+    saveDeployment(
+      networkName,
+      {
+        network: networkName,
+        chainId: networkConfig.chainId,
+        timestamp: new Date().toISOString(),
+        proxyAddress: upgrade.proxyAddress,
+        implementationAddress: upgrade.implementationAddress,
+        deployer: upgrade.deployer,
+        owner: governanceBefore,
+        feeRecipient: feeRecipientBefore,
+        txHash: upgrade.txHash,
+        blockNumber: upgrade.blockNumber,
+        verified: false,
+      },
+      "upgrade"
+    );
 
     console.log("\n🎉 Upgrade completed successfully!");
     console.log(`\n📝 Next steps:`);
@@ -244,4 +563,7 @@ async function main() {
   }
 }
 
-main();
+// The governance upgrade flow is reused by test/unit/GovernanceUpgrade.test.ts
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,200 @@
+import type { CAPToken } from "../../typechain-types";
+import { queryInChunks } from "./logs";
+
+/**
+ * Point-in-time view of CAPToken storage, used to check that an upgrade preserves state.
+ * Every leaf is a string so snapshots can be diffed and printed without BigNumber/bigint concerns.
+ */
+export interface HolderSnapshot {
+  balance: string;
+  votes: string;
+  delegate: string;
+  numCheckpoints: string;
+  /** Latest checkpoint as "<timepoint>:<votes>" (empty when there is none) */
+  lastCheckpoint: string;
+  nonce: string;
+}
+
+export interface CapSnapshot {
+  block: number;
+  token: {
+    name: string;
+    symbol: string;
+    decimals: string;
+    totalSupply: string;
+    governance: string;
+    feeRecipient: string;
+  };
+  taxes: { transfer: string; sell: string; buy: string };
+  pendingTax: { transfer: string; sell: string; buy: string; effectiveTime: string };
+  pendingMint: { to: string; amount: string; effectiveTime: string };
+  mintPeriod: { start: string; minted: string };
+  pools: Record<string, string>;
+  holders: Record<string, HolderSnapshot>;
+}
+
+export interface SnapshotChange {
+  /** Dotted path, e.g. "taxes.sell" or "holders.0xabc….balance" */
+  path: string;
+  before: string | undefined;
+  after: string | undefined;
+}
+
+export interface CapAccounts {
+  /** Every address ever passed to addPool */
+  pools: string[];
+  /** Largest holders by balance, derived from Transfer logs */
+  holders: string[];
+}
+
+/**
+ * Find pools and the top holders of a CAP deployment from its event logs
+ * @param fromBlock - Usually the deployment block from deployments.json
+ */
+export async function discoverCapAccounts(
+  cap: CAPToken,
+  fromBlock: number,
+  toBlock: number,
+  topHolders: number
+): Promise<CapAccounts> {
+  const pools = new Set<string>();
+  const poolLogs = await queryInChunks(
+    (from, to) => cap.queryFilter(cap.filters.PoolAdded(), from, to),
+    fromBlock,
+    toBlock
+  );
+  for (const log of poolLogs) {
+    pools.add(String(log.args.pool).toLowerCase());
+  }
+
+  // Net balances from Transfer logs; only used to rank holders, the snapshot reads balanceOf
+  const balances = new Map<string, bigint>();
+  const transfers = await queryInChunks(
+    (from, to) => cap.queryFilter(cap.filters.Transfer(), from, to),
+    fromBlock,
+    toBlock
+  );
+  for (const log of transfers) {
+    const from = String(log.args.from).toLowerCase();
+    const to = String(log.args.to).toLowerCase();
+    const value = BigInt(log.args.value.toString());
+    balances.set(from, (balances.get(from) || 0n) - value);
+    balances.set(to, (balances.get(to) || 0n) + value);
+  }
+  balances.delete("0x0000000000000000000000000000000000000000");
+
+  const holders = [...balances.entries()]
+    .filter(([, balance]) => balance > 0n)
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0))
+    .slice(0, topHolders)
+    .map(([address]) => address);
+
+  return { pools: [...pools], holders };
+}
+
+async function snapshotHolder(cap: CAPToken, holder: string): Promise<HolderSnapshot> {
+  const numCheckpoints = Number(await cap.numCheckpoints(holder));
+  let lastCheckpoint = "";
+  if (numCheckpoints > 0) {
+    const checkpoint = await cap.checkpoints(holder, numCheckpoints - 1);
+    lastCheckpoint = `${checkpoint._key.toString()}:${checkpoint._value.toString()}`;
+  }
+
+  return {
+    balance: (await cap.balanceOf(holder)).toString(),
+    votes: (await cap.getVotes(holder)).toString(),
+    delegate: await cap.delegates(holder),
+    numCheckpoints: numCheckpoints.toString(),
+    lastCheckpoint,
+    nonce: (await cap.nonces(holder)).toString(),
+  };
+}
+
+export async function takeCapSnapshot(cap: CAPToken, accounts: CapAccounts, block: number): Promise<CapSnapshot> {
+  const governance = await cap.governance();
+  const feeRecipient = await cap.feeRecipient();
+
+  const pools: Record<string, string> = {};
+  for (const pool of accounts.pools) {
+    pools[pool.toLowerCase()] = String(await cap.isPool(pool));
+  }
+
+  // Governance and the fee recipient are always tracked alongside the top holders
+  const holders: Record<string, HolderSnapshot> = {};
+  const holderSet = new Set([...accounts.holders, governance, feeRecipient].map((address) => address.toLowerCase()));
+  holderSet.delete("0x0000000000000000000000000000000000000000");
+  for (const holder of holderSet) {
+    holders[holder] = await snapshotHolder(cap, holder);
+  }
+
+  return {
+    block,
+    token: {
+      name: await cap.name(),
+      symbol: await cap.symbol(),
+      decimals: (await cap.decimals()).toString(),
+      totalSupply: (await cap.totalSupply()).toString(),
+      governance,
+      feeRecipient,
+    },
+    taxes: {
+      transfer: (await cap.transferTaxBp()).toString(),
+      sell: (await cap.sellTaxBp()).toString(),
+      buy: (await cap.buyTaxBp()).toString(),
+    },
+    pendingTax: {
+      transfer: (await cap.pendingTransferTaxBp()).toString(),
+      sell: (await cap.pendingSellTaxBp()).toString(),
+      buy: (await cap.pendingBuyTaxBp()).toString(),
+      effectiveTime: (await cap.taxChangeTimestamp()).toString(),
+    },
+    pendingMint: {
+      to: await cap.pendingMintTo(),
+      amount: (await cap.pendingMintAmount()).toString(),
+      effectiveTime: (await cap.mintTimestamp()).toString(),
+    },
+    mintPeriod: {
+      start: (await cap.lastMintPeriodStart()).toString(),
+      minted: (await cap.mintedInCurrentPeriod()).toString(),
+    },
+    pools,
+    holders,
+  };
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, string>): void {
+  if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.set(prefix, String(value));
+  }
+}
+
+/**
+ * Every leaf that differs between two snapshots (the block number is ignored)
+ */
+export function diffCapSnapshots(before: CapSnapshot, after: CapSnapshot): SnapshotChange[] {
+  const { block: _beforeBlock, ...beforeState } = before;
+  const { block: _afterBlock, ...afterState } = after;
+  const a = new Map<string, string>();
+  const b = new Map<string, string>();
+  flatten(beforeState, "", a);
+  flatten(afterState, "", b);
+
+  const changes: SnapshotChange[] = [];
+  for (const path of new Set([...a.keys(), ...b.keys()])) {
+    if (a.get(path) !== b.get(path)) {
+      changes.push({ path, before: a.get(path), after: b.get(path) });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Whether a change is covered by an expected path or path prefix (e.g. "taxes" covers "taxes.sell")
+ */
+export function isExpectedChange(change: SnapshotChange, expected: string[]): boolean {
+  return expected.some((path) => change.path === path || change.path.startsWith(`${path}.`));
+}
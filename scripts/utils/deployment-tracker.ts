@@ -1,6 +1,14 @@
 import { writeFileSync, readFileSync, existsSync } from "fs";
 import { join } from "path";
 
+/**
+ * deployments.json schema version
+ *
+ * 1.0.0 - one DeploymentRecord per network, overwritten on every deploy/upgrade
+ * 2.0.0 - append-only history per network (see DeploymentHistoryEntry)
+ */
+export const DEPLOYMENTS_SCHEMA_VERSION = "2.0.0";
+
 export interface DeploymentRecord {
   network: string;
   chainId: number;
@@ -13,66 +21,330 @@ export interface DeploymentRecord {
   txHash: string;
   blockNumber: number;
   verified: boolean;
+  /** Implementation prepared for a governance upgrade that has not been executed yet */
+  pendingImplementation?: string;
+}
+
+export interface OFTDeploymentRecord {
+  network: string;
+  chainId: number;
+  timestamp: string;
+  address: string;
+  deployer: string;
+  owner: string;
+  /** LayerZero endpoint ID of the chain the contract lives on */
+  eid: number;
+  endpoint: string;
+  /** Underlying CAP token (OFTAdapter only) */
+  token?: string;
+  /** Configured peers keyed by remote EID */
+  peers: Record<string, string>;
+  txHash: string;
+  blockNumber: number;
+  verified: boolean;
+}
+
+/** Record type stored for each contract kind */
+export interface ContractRecords {
+  CAPToken: DeploymentRecord;
+  CAPTokenOFT: OFTDeploymentRecord;
+  CAPTokenOFTAdapter: OFTDeploymentRecord;
+}
+
+export type ContractKind = keyof ContractRecords;
+
+export type OFTContractKind = "CAPTokenOFT" | "CAPTokenOFTAdapter";
+
+export type DeploymentAction =
+  "deploy" | "upgrade" | "upgrade-proposed" | "verify" | "governance-transfer" | "oft-deploy" | "peer-update";
+
+export interface DeploymentHistoryEntry<K extends ContractKind = ContractKind> {
+  action: DeploymentAction;
+  contract: K;
+  timestamp: string;
+  /** Transaction that caused this entry (empty for off-chain actions such as verification) */
+  txHash: string;
+  /** Full record of the contract as it stood after this action */
+  record: ContractRecords[K];
+  note?: string;
+}
+
+export interface NetworkDeployments {
+  chainId: number;
+  history: DeploymentHistoryEntry[];
 }
 
 export interface DeploymentsFile {
   version: string;
+  deployments: Record<string, NetworkDeployments>;
+}
+
+/** Files written before the version field was added are also 1.0.0 */
+interface DeploymentsFileV1 {
+  version?: "1.0.0";
   deployments: Record<string, DeploymentRecord>;
 }
 
-const DEPLOYMENTS_FILE = join(process.cwd(), "deployments.json");
+export interface DeploymentQuery<K extends ContractKind = ContractKind> {
+  network?: string;
+  contract?: K;
+  action?: DeploymentAction;
+  /** Only include entries recorded at or before this point in time */
+  at?: Date | string | number;
+}
 
-export function loadDeployments(): DeploymentsFile {
-  if (!existsSync(DEPLOYMENTS_FILE)) {
-    return {
-      version: "1.0.0",
-      deployments: {},
+/**
+ * deployments.json in the working directory, unless DEPLOYMENTS_FILE points elsewhere (e.g. a test fixture)
+ */
+function deploymentsFile(): string {
+  return process.env.DEPLOYMENTS_FILE || join(process.cwd(), "deployments.json");
+}
+
+function emptyDeployments(): DeploymentsFile {
+  return {
+    version: DEPLOYMENTS_SCHEMA_VERSION,
+    deployments: {},
+  };
+}
+
+function fileVersion(data: DeploymentsFileV1 | DeploymentsFile): string {
+  return data.version ?? "1.0.0";
+}
+
+/**
+ * Convert a v1.0.0 file (one record per network) into the v2.0.0 history format
+ * The single v1 record becomes the first CAPToken entry of each network's history
+ */
+export function migrateDeployments(data: DeploymentsFileV1 | DeploymentsFile): DeploymentsFile {
+  const version = fileVersion(data);
+  if (version === DEPLOYMENTS_SCHEMA_VERSION) {
+    return data as DeploymentsFile;
+  }
+
+  if (version !== "1.0.0") {
+    throw new Error(`Unsupported deployments.json version: ${version}`);
+  }
+
+  const migrated = emptyDeployments();
+  for (const [network, record] of Object.entries((data as DeploymentsFileV1).deployments)) {
+    migrated.deployments[network] = {
+      chainId: record.chainId,
+      history: [
+        {
+          action: "deploy",
+          contract: "CAPToken",
+          timestamp: record.timestamp,
+          txHash: record.txHash,
+          record,
+          note: "Migrated from deployments.json v1.0.0 (latest record only, earlier history was not kept)",
+        },
+      ],
     };
   }
 
+  return migrated;
+}
+
+/**
+ * @throws If the file exists but is not valid JSON: starting fresh would overwrite the history on the next save
+ */
+export function loadDeployments(): DeploymentsFile {
+  const file = deploymentsFile();
+  if (!existsSync(file)) {
+    return emptyDeployments();
+  }
+
+  let data: DeploymentsFileV1 | DeploymentsFile;
   try {
-    const data = readFileSync(DEPLOYMENTS_FILE, "utf8");
-    return JSON.parse(data);
-  } catch {
-    console.warn("Warning: Could not read deployments.json, starting fresh");
-    return {
-      version: "1.0.0",
-      deployments: {},
-    };
+    data = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not parse ${file}: ${error instanceof Error ? error.message : error}. Fix or restore it first`
+    );
   }
+
+  if (fileVersion(data) !== DEPLOYMENTS_SCHEMA_VERSION) {
+    console.warn(
+      `Warning: deployments.json is v${fileVersion(data)}, migrating to v${DEPLOYMENTS_SCHEMA_VERSION} on next save`
+    );
+  }
+
+  return migrateDeployments(data);
+}
+
+function writeDeployments(deployments: DeploymentsFile): void {
+  writeFileSync(deploymentsFile(), JSON.stringify(deployments, null, 2) + "\n", "utf8");
 }
 
-export function saveDeployment(network: string, record: DeploymentRecord): void {
+/**
+ * Append an entry to a network's deployment history
+ */
+export function recordDeploymentEvent<K extends ContractKind>(network: string, entry: DeploymentHistoryEntry<K>): void {
   const deployments = loadDeployments();
-  deployments.deployments[network] = record;
 
-  writeFileSync(DEPLOYMENTS_FILE, JSON.stringify(deployments, null, 2) + "\n", "utf8");
+  if (!deployments.deployments[network]) {
+    deployments.deployments[network] = { chainId: entry.record.chainId, history: [] };
+  }
+  deployments.deployments[network].history.push(entry as DeploymentHistoryEntry);
+
+  writeDeployments(deployments);
 
-  console.log(`\n✅ Deployment record saved to deployments.json`);
+  console.log(`\n✅ ${entry.contract} ${entry.action} recorded in deployments.json`);
 }
 
-export function getDeployment(network: string): DeploymentRecord | null {
-  const deployments = loadDeployments();
-  return deployments.deployments[network] || null;
+/**
+ * Append a CAPToken record to the network's history
+ * @param action - What produced the record (defaults to a fresh deployment)
+ */
+export function saveDeployment(network: string, record: DeploymentRecord, action: DeploymentAction = "deploy"): void {
+  recordDeploymentEvent(network, {
+    action,
+    contract: "CAPToken",
+    timestamp: new Date().toISOString(),
+    txHash: action === "verify" ? "" : record.txHash,
+    record,
+  });
 }
 
-export function listDeployments(): void {
+function toTime(at: Date | string | number): number {
+  const time = at instanceof Date ? at.getTime() : new Date(at).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid point in time: ${at}`);
+  }
+  return time;
+}
+
+/**
+ * Query the deployment history across networks
+ * @returns Matching entries in the order they were recorded
+ */
+export function listDeployments<K extends ContractKind = ContractKind>(
+  query: DeploymentQuery<K> = {}
+): (DeploymentHistoryEntry<K> & { network: string })[] {
   const deployments = loadDeployments();
-  const networks = Object.keys(deployments.deployments);
+  const networks = query.network ? [query.network] : Object.keys(deployments.deployments);
+  const until = query.at !== undefined ? toTime(query.at) : undefined;
+
+  const entries: (DeploymentHistoryEntry<K> & { network: string })[] = [];
+  for (const network of networks) {
+    const history = deployments.deployments[network]?.history || [];
+    for (const entry of history) {
+      if (query.contract && entry.contract !== query.contract) continue;
+      if (query.action && entry.action !== query.action) continue;
+      if (until !== undefined && toTime(entry.timestamp) > until) continue;
+      entries.push({ ...(entry as DeploymentHistoryEntry<K>), network });
+    }
+  }
 
-  if (networks.length === 0) {
+  return entries;
+}
+
+/**
+ * Get the latest record of a contract on a network
+ * @param query.contract - Contract kind (defaults to CAPToken)
+ * @param query.at - Return the record as it stood at this point in time
+ */
+export function getDeployment<K extends ContractKind = "CAPToken">(
+  network: string,
+  query: Omit<DeploymentQuery<K>, "network" | "action"> = {}
+): ContractRecords[K] | null {
+  const contract = (query.contract || "CAPToken") as K;
+  const entries = listDeployments<K>({ network, contract, at: query.at });
+
+  return entries.length > 0 ? entries[entries.length - 1].record : null;
+}
+
+/**
+ * Append a freshly deployed CAPTokenOFT or CAPTokenOFTAdapter to the network's history
+ */
+export function saveOFTDeployment(network: string, contract: OFTContractKind, record: OFTDeploymentRecord): void {
+  recordDeploymentEvent(network, {
+    action: "oft-deploy",
+    contract,
+    timestamp: record.timestamp,
+    txHash: record.txHash,
+    record,
+  });
+}
+
+/**
+ * Record peer changes made with setPeer()
+ * @param peers - Remote EID => peer address, or null when the peer was removed
+ * @returns false if the contract is not tracked on this network
+ */
+export function updateOFTPeers(
+  network: string,
+  contract: OFTContractKind,
+  peers: Record<number, string | null>,
+  txHash = ""
+): boolean {
+  const current = getDeployment(network, { contract });
+  if (!current) {
+    return false;
+  }
+
+  const updated = { ...current.peers };
+  for (const [eid, peer] of Object.entries(peers)) {
+    if (peer) {
+      updated[eid] = peer;
+    } else {
+      delete updated[eid];
+    }
+  }
+
+  recordDeploymentEvent(network, {
+    action: "peer-update",
+    contract,
+    timestamp: new Date().toISOString(),
+    txHash,
+    record: { ...current, peers: updated },
+  });
+  return true;
+}
+
+/**
+ * Find the latest OFT/OFTAdapter record on any network by LayerZero EID or chain ID
+ */
+export function findOFTDeployment(
+  contract: OFTContractKind,
+  selector: { eid?: number; chainId?: number }
+): OFTDeploymentRecord | null {
+  const matches = listDeployments({ contract }).filter(
+    ({ record }) =>
+      (selector.eid === undefined || record.eid === selector.eid) &&
+      (selector.chainId === undefined || record.chainId === selector.chainId)
+  );
+
+  return matches.length > 0 ? matches[matches.length - 1].record : null;
+}
+
+export function printDeploymentHistory(query: DeploymentQuery = {}): void {
+  const entries = listDeployments(query);
+
+  if (entries.length === 0) {
     console.log("No deployments found.");
     return;
   }
 
   console.log("\n=== Deployment History ===\n");
-  for (const network of networks) {
-    const deployment = deployments.deployments[network];
-    console.log(`${network.toUpperCase()}:`);
-    console.log(`  Proxy: ${deployment.proxyAddress}`);
-    console.log(`  Deployed: ${deployment.timestamp}`);
-    console.log(`  Verified: ${deployment.verified ? "Yes" : "No"}`);
-    console.log(`  Chain ID: ${deployment.chainId}`);
-    console.log();
+  let currentNetwork = "";
+  for (const entry of entries) {
+    if (entry.network !== currentNetwork) {
+      currentNetwork = entry.network;
+      console.log(`${currentNetwork.toUpperCase()} (Chain ID: ${entry.record.chainId}):`);
+    }
+
+    const address = "proxyAddress" in entry.record ? entry.record.proxyAddress : entry.record.address;
+    console.log(`  ${entry.timestamp}  ${entry.action.padEnd(19)} ${entry.contract.padEnd(18)} ${address}`);
+    if ("implementationAddress" in entry.record && entry.action === "upgrade") {
+      console.log(`    Implementation: ${entry.record.implementationAddress}`);
+    }
+    if ("pendingImplementation" in entry.record && entry.action === "upgrade-proposed") {
+      console.log(`    Pending implementation: ${entry.record.pendingImplementation}`);
+    }
+    if (entry.txHash) {
+      console.log(`    Tx: ${entry.txHash}`);
+    }
   }
+  console.log();
 }
@@ -0,0 +1,23 @@
+/**
+ * Block range per eth_getLogs call. Public RPCs cap the range (often 10k blocks or less),
+ * so long scans are split into chunks. Override with LOG_CHUNK_SIZE.
+ */
+export const DEFAULT_LOG_CHUNK_SIZE = 5000;
+
+/**
+ * Run a log query over [fromBlock, toBlock] in chunks
+ * @param query - Query for one chunk, e.g. (from, to) => cap.queryFilter(cap.filters.Transfer(), from, to)
+ */
+export async function queryInChunks<T>(
+  query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize = Number(process.env.LOG_CHUNK_SIZE) || DEFAULT_LOG_CHUNK_SIZE
+): Promise<T[]> {
+  const results: T[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    results.push(...(await query(start, end)));
+  }
+  return results;
+}
@@ -0,0 +1,185 @@
+import type { CAPToken } from "../../typechain-types";
+
+export interface MintLimits {
+  /** MINT_CAP_PER_PERIOD */
+  capPerPeriod: bigint;
+  /** MINT_PERIOD in seconds */
+  period: bigint;
+  /** MINT_DELAY in seconds */
+  delay: bigint;
+  /** MAX_SUPPLY */
+  maxSupply: bigint;
+}
+
+/**
+ * Mint limits as declared in CAPToken.sol
+ * Used as a fallback when the on-chain constants cannot be read
+ */
+export const CAP_MINT_LIMITS: MintLimits = {
+  capPerPeriod: 100_000_000n * 10n ** 18n,
+  period: 30n * 24n * 3600n,
+  delay: 7n * 24n * 3600n,
+  maxSupply: 10_000_000_000n * 10n ** 18n,
+};
+
+/**
+ * Mint-related CAPToken storage
+ */
+export interface MintState {
+  totalSupply: bigint;
+  lastMintPeriodStart: bigint;
+  mintedInCurrentPeriod: bigint;
+  pendingMintTo: string;
+  pendingMintAmount: bigint;
+  /** 0 when no mint is pending */
+  mintTimestamp: bigint;
+}
+
+/**
+ * Effective mint period at a given timestamp, after the rollover CAPToken applies on proposeMint/executeMint
+ */
+export interface MintWindow {
+  periodStart: bigint;
+  /** First timestamp of the next period */
+  periodEnd: bigint;
+  /** Minted in this period (0 if the stored period has expired) */
+  minted: bigint;
+  /** Whether a rollover would happen at this timestamp */
+  rolledOver: boolean;
+  /** MINT_CAP_PER_PERIOD - minted */
+  periodRemaining: bigint;
+  /** MAX_SUPPLY - totalSupply */
+  supplyRemaining: bigint;
+  /** Largest amount that can be minted in this window */
+  remaining: bigint;
+}
+
+/**
+ * Read the mint limit constants from a deployed CAP token
+ */
+export async function readMintLimits(contract: CAPToken): Promise<MintLimits> {
+  const [capPerPeriod, period, delay, maxSupply] = await Promise.all([
+    contract.MINT_CAP_PER_PERIOD(),
+    contract.MINT_PERIOD(),
+    contract.MINT_DELAY(),
+    contract.MAX_SUPPLY(),
+  ]);
+
+  return {
+    capPerPeriod: BigInt(capPerPeriod.toString()),
+    period: BigInt(period.toString()),
+    delay: BigInt(delay.toString()),
+    maxSupply: BigInt(maxSupply.toString()),
+  };
+}
+
+/**
+ * Read the mint-related storage of a deployed CAP token
+ */
+export async function readMintState(contract: CAPToken): Promise<MintState> {
+  const [totalSupply, lastMintPeriodStart, mintedInCurrentPeriod, pendingMintTo, pendingMintAmount, mintTimestamp] =
+    await Promise.all([
+      contract.totalSupply(),
+      contract.lastMintPeriodStart(),
+      contract.mintedInCurrentPeriod(),
+      contract.pendingMintTo(),
+      contract.pendingMintAmount(),
+      contract.mintTimestamp(),
+    ]);
+
+  return {
+    totalSupply: BigInt(totalSupply.toString()),
+    lastMintPeriodStart: BigInt(lastMintPeriodStart.toString()),
+    mintedInCurrentPeriod: BigInt(mintedInCurrentPeriod.toString()),
+    pendingMintTo,
+    pendingMintAmount: BigInt(pendingMintAmount.toString()),
+    mintTimestamp: BigInt(mintTimestamp.toString()),
+  };
+}
+
+/**
+ * Mirror the period rollover of CAPToken.proposeMint/executeMint:
+ *   if (now >= lastMintPeriodStart + MINT_PERIOD) {
+ *     lastMintPeriodStart += ((now - lastMintPeriodStart) / MINT_PERIOD) * MINT_PERIOD;
+ *     mintedInCurrentPeriod = 0;
+ *   }
+ * Periods stay aligned to the initialization timestamp, so a window never starts at "now".
+ */
+export function simulateMintWindow(state: MintState, limits: MintLimits, now: bigint): MintWindow {
+  let periodStart = state.lastMintPeriodStart;
+  let minted = state.mintedInCurrentPeriod;
+  const rolledOver = now >= periodStart + limits.period;
+
+  if (rolledOver) {
+    periodStart += ((now - periodStart) / limits.period) * limits.period;
+    minted = 0n;
+  }
+
+  const periodRemaining = limits.capPerPeriod > minted ? limits.capPerPeriod - minted : 0n;
+  const supplyRemaining = limits.maxSupply > state.totalSupply ? limits.maxSupply - state.totalSupply : 0n;
+
+  return {
+    periodStart,
+    periodEnd: periodStart + limits.period,
+    minted,
+    rolledOver,
+    periodRemaining,
+    supplyRemaining,
+    remaining: periodRemaining < supplyRemaining ? periodRemaining : supplyRemaining,
+  };
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Mirror the require() checks of CAPToken.proposeMint
+ * @returns The revert reasons the contract would produce (empty if the proposal is valid)
+ */
+export function checkMintProposal(
+  state: MintState,
+  limits: MintLimits,
+  to: string,
+  amount: bigint,
+  now: bigint
+): string[] {
+  const errors: string[] = [];
+
+  if (to === ZERO_ADDRESS) {
+    errors.push("MINT_TO_ZERO: cannot mint to the zero address");
+  }
+  if (state.totalSupply + amount > limits.maxSupply) {
+    errors.push("EXCEEDS_MAX_SUPPLY: totalSupply + amount is above MAX_SUPPLY");
+  }
+
+  const window = simulateMintWindow(state, limits, now);
+  if (window.minted + amount > limits.capPerPeriod) {
+    errors.push("EXCEEDS_MINT_CAP_PER_PERIOD: amount is above what is left of the current period's cap");
+  }
+
+  return errors;
+}
+
+/**
+ * Mirror the require() checks of CAPToken.executeMint, including the rollover at execution time
+ * @returns The revert reasons the contract would produce (empty if the pending mint can execute at `now`)
+ */
+export function checkMintExecution(state: MintState, limits: MintLimits, now: bigint): string[] {
+  if (state.mintTimestamp === 0n) {
+    return ["NO_PENDING_MINT: there is no pending mint"];
+  }
+
+  const errors: string[] = [];
+  if (now < state.mintTimestamp) {
+    errors.push("MINT_TIMELOCK_NOT_EXPIRED: the 7 day mint delay has not passed");
+  }
+  if (state.totalSupply + state.pendingMintAmount > limits.maxSupply) {
+    errors.push("EXCEEDS_MAX_SUPPLY: totalSupply + amount is above MAX_SUPPLY");
+  }
+
+  const window = simulateMintWindow(state, limits, now);
+  if (window.minted + state.pendingMintAmount > limits.capPerPeriod) {
+    errors.push("EXCEEDS_MINT_CAP_PER_PERIOD: the pending amount no longer fits in the period's cap");
+  }
+
+  return errors;
+}
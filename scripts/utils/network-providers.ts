@@ -0,0 +1,38 @@
+import { config, ethers, network } from "hardhat";
+import type { providers } from "ethers";
+
+/**
+ * Read-only providers for the other networks in hardhat.config.ts
+ *
+ * `hardhat run` only connects to --network; cross-chain scripts (bridging, supply and peer
+ * checks) reach every other chain through the RPC URL configured for it.
+ */
+
+const cache = new Map<string, providers.Provider>();
+
+/**
+ * Provider for a network defined in hardhat.config.ts; the current --network reuses ethers.provider
+ * @throws If the network is unknown or has no RPC URL configured
+ */
+export function getNetworkProvider(networkName: string): providers.Provider {
+  if (networkName === network.name) {
+    return ethers.provider;
+  }
+
+  const cached = cache.get(networkName);
+  if (cached) {
+    return cached;
+  }
+
+  const networkConfig = config.networks[networkName];
+  if (!networkConfig) {
+    throw new Error(`Network ${networkName} is not defined in hardhat.config.ts`);
+  }
+  if (!("url" in networkConfig) || !networkConfig.url) {
+    throw new Error(`No RPC URL configured for ${networkName}. Set its *_RPC_URL in .env`);
+  }
+
+  const provider = new ethers.providers.JsonRpcProvider(networkConfig.url, networkConfig.chainId);
+  cache.set(networkName, provider);
+  return provider;
+}
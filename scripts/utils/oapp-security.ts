@@ -0,0 +1,404 @@
+import { ethers } from "hardhat";
+import { Options } from "@layerzerolabs/lz-v2-utilities";
+import { LayerZeroChain, getDVNAddress, getMessageLibs } from "../config/layerzero";
+
+/**
+ * Per-pathway security configuration of an OApp (OFTAdapter or OFT)
+ *
+ * For every remote EID an OApp has a send library (with a ULN config naming the DVNs that verify
+ * outbound messages and an executor config), a receive library (with the ULN config inbound
+ * messages must satisfy) and enforced options per message type. Until they are set explicitly
+ * the endpoint falls back to LayerZero's defaults, which can change under the OApp.
+ *
+ * Both ends of a pathway must agree: the DVNs and confirmations of A's send config for B are the
+ * ones B's receive config for A expects (with each chain's own DVN addresses).
+ */
+
+// OAppOptionsType3 message types
+export const MSG_TYPE_SEND = 1;
+export const MSG_TYPE_SEND_AND_CALL = 2;
+export const MSG_TYPES = [MSG_TYPE_SEND, MSG_TYPE_SEND_AND_CALL];
+
+// SendUln302/ReceiveUln302 config types
+export const CONFIG_TYPE_EXECUTOR = 1;
+export const CONFIG_TYPE_ULN = 2;
+
+/** UlnBase: a count of 255 means "none", where 0 would fall back to the default DVNs */
+const NIL_DVN_COUNT = 255;
+
+export const DEFAULT_MAX_MESSAGE_SIZE = 10_000;
+
+const ULN_CONFIG_TYPE =
+  "tuple(uint64 confirmations, uint8 requiredDVNCount, uint8 optionalDVNCount, uint8 optionalDVNThreshold, address[] requiredDVNs, address[] optionalDVNs)";
+const EXECUTOR_CONFIG_TYPE = "tuple(uint32 maxMessageSize, address executor)";
+
+const ENDPOINT_ABI = [
+  "function getSendLibrary(address sender, uint32 dstEid) view returns (address)",
+  "function isDefaultSendLibrary(address sender, uint32 dstEid) view returns (bool)",
+  "function getReceiveLibrary(address receiver, uint32 srcEid) view returns (address lib, bool isDefault)",
+  "function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes)",
+  "function isRegisteredLibrary(address lib) view returns (bool)",
+  "function delegates(address oapp) view returns (address)",
+  "function setSendLibrary(address oapp, uint32 eid, address newLib)",
+  "function setReceiveLibrary(address oapp, uint32 eid, address newLib, uint256 gracePeriod)",
+  "function setConfig(address oapp, address lib, tuple(uint32 eid, uint32 configType, bytes config)[] params)",
+];
+
+const OAPP_ABI = [
+  "function enforcedOptions(uint32 eid, uint16 msgType) view returns (bytes)",
+  "function setEnforcedOptions(tuple(uint32 eid, uint16 msgType, bytes options)[] enforcedOptions)",
+];
+
+export const endpointInterface = new ethers.utils.Interface(ENDPOINT_ABI);
+export const oappInterface = new ethers.utils.Interface(OAPP_ABI);
+
+export interface UlnConfig {
+  confirmations: number;
+  requiredDVNs: string[];
+  optionalDVNs: string[];
+  optionalDVNThreshold: number;
+}
+
+export interface ExecutorConfig {
+  maxMessageSize: number;
+  executor: string;
+}
+
+export interface EnforcedOptionsConfig {
+  /** Gas for lzReceive on the destination chain */
+  lzReceiveGas: number;
+  /** Native value forwarded to lzReceive (wei, default 0) */
+  lzReceiveValue?: number;
+  /** Gas for lzCompose, added to SEND_AND_CALL only */
+  lzComposeGas?: number;
+}
+
+/** Security policy shared by every pathway of an environment */
+export interface SecurityPolicy {
+  /** Block confirmations DVNs wait for, by hardhat network of the sending chain */
+  confirmations: Record<string, number>;
+  /** DVN names, resolved per chain through LayerZeroChain.dvns */
+  requiredDVNs: string[];
+  optionalDVNs?: string[];
+  optionalDVNThreshold?: number;
+  /** Executor max message size in bytes (default 10000) */
+  maxMessageSize?: number;
+}
+
+/** Configuration of one OApp towards one remote EID; undefined fields are not managed */
+export interface PathwaySecurity {
+  sendLibrary?: string;
+  receiveLibrary?: string;
+  sendUln?: UlnConfig;
+  receiveUln?: UlnConfig;
+  executor?: ExecutorConfig;
+  /** Hex options by message type */
+  enforcedOptions?: Record<number, string>;
+}
+
+/** What the endpoint and the OApp currently use */
+export interface PathwayReadback extends Required<PathwaySecurity> {
+  /** The library comes from the endpoint default rather than being pinned */
+  sendLibraryIsDefault: boolean;
+  receiveLibraryIsDefault: boolean;
+}
+
+/** A transaction that moves one setting to its declared value */
+export interface SecurityChange {
+  setting: "send-library" | "receive-library" | "send-config" | "receive-config" | "enforced-options";
+  description: string;
+  current: string;
+  desired: string;
+  /** Endpoint calls need the OApp delegate, setEnforcedOptions the OApp owner */
+  sender: "delegate" | "owner";
+  to: string;
+  data: string;
+}
+
+/**
+ * Options enforced on every send of a message type (executor lzReceive gas/value, plus compose gas for SEND_AND_CALL)
+ */
+export function enforcedOptionsHex(options: EnforcedOptionsConfig, msgType: number = MSG_TYPE_SEND): string {
+  let builder = Options.newOptions().addExecutorLzReceiveOption(options.lzReceiveGas, options.lzReceiveValue || 0);
+  if (msgType === MSG_TYPE_SEND_AND_CALL && options.lzComposeGas) {
+    builder = builder.addExecutorComposeOption(0, options.lzComposeGas, 0);
+  }
+  return builder.toHex().toLowerCase();
+}
+
+/**
+ * Enforced options for every message type
+ */
+export function enforcedOptionsByType(options: EnforcedOptionsConfig): Record<number, string> {
+  return Object.fromEntries(MSG_TYPES.map((msgType) => [msgType, enforcedOptionsHex(options, msgType)]));
+}
+
+function sortAddresses(addresses: string[]): string[] {
+  // UlnBase requires DVN lists sorted ascending without duplicates
+  return addresses.map((address) => ethers.utils.getAddress(address)).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+}
+
+export function encodeUlnConfig(config: UlnConfig): string {
+  const required = sortAddresses(config.requiredDVNs);
+  const optional = sortAddresses(config.optionalDVNs);
+  return ethers.utils.defaultAbiCoder.encode(
+    [ULN_CONFIG_TYPE],
+    [
+      {
+        confirmations: config.confirmations,
+        requiredDVNCount: required.length || NIL_DVN_COUNT,
+        optionalDVNCount: optional.length || NIL_DVN_COUNT,
+        optionalDVNThreshold: config.optionalDVNThreshold,
+        requiredDVNs: required,
+        optionalDVNs: optional,
+      },
+    ]
+  );
+}
+
+export function decodeUlnConfig(data: string): UlnConfig {
+  const [config] = ethers.utils.defaultAbiCoder.decode([ULN_CONFIG_TYPE], data);
+  return {
+    confirmations: Number(config.confirmations),
+    requiredDVNs: sortAddresses([...config.requiredDVNs]),
+    optionalDVNs: sortAddresses([...config.optionalDVNs]),
+    optionalDVNThreshold: Number(config.optionalDVNThreshold),
+  };
+}
+
+export function encodeExecutorConfig(config: ExecutorConfig): string {
+  return ethers.utils.defaultAbiCoder.encode([EXECUTOR_CONFIG_TYPE], [config]);
+}
+
+export function decodeExecutorConfig(data: string): ExecutorConfig {
+  const [config] = ethers.utils.defaultAbiCoder.decode([EXECUTOR_CONFIG_TYPE], data);
+  return { maxMessageSize: Number(config.maxMessageSize), executor: ethers.utils.getAddress(config.executor) };
+}
+
+/**
+ * Declared configuration of the OApp on `local` towards `remote`
+ * @throws If the registry lacks a library, executor or DVN address the policy needs
+ */
+export function desiredPathwaySecurity(
+  policy: SecurityPolicy,
+  local: LayerZeroChain,
+  remote: LayerZeroChain,
+  enforced?: EnforcedOptionsConfig
+): PathwaySecurity {
+  const { sendLibrary, receiveLibrary, executor } = getMessageLibs(local);
+
+  const confirmations = (network: string) => {
+    const value = policy.confirmations[network];
+    if (value === undefined) {
+      throw new Error(`No confirmations declared for ${network}`);
+    }
+    return value;
+  };
+  const uln = (network: string): UlnConfig => ({
+    confirmations: confirmations(network),
+    requiredDVNs: sortAddresses(policy.requiredDVNs.map((name) => getDVNAddress(local, name))),
+    optionalDVNs: sortAddresses((policy.optionalDVNs || []).map((name) => getDVNAddress(local, name))),
+    optionalDVNThreshold: policy.optionalDVNThreshold || 0,
+  });
+
+  return {
+    sendLibrary: ethers.utils.getAddress(sendLibrary),
+    receiveLibrary: ethers.utils.getAddress(receiveLibrary),
+    // Outbound messages wait for this chain's confirmations, inbound ones for the remote's
+    sendUln: uln(local.hardhatNetwork),
+    receiveUln: uln(remote.hardhatNetwork),
+    executor: {
+      maxMessageSize: policy.maxMessageSize || DEFAULT_MAX_MESSAGE_SIZE,
+      executor: ethers.utils.getAddress(executor),
+    },
+    enforcedOptions: enforced ? enforcedOptionsByType(enforced) : undefined,
+  };
+}
+
+/**
+ * Read the libraries, ULN/executor configs and enforced options an OApp uses towards `remoteEid`
+ */
+export async function readPathwaySecurity(
+  endpointAddress: string,
+  oappAddress: string,
+  remoteEid: number
+): Promise<PathwayReadback> {
+  const endpoint = new ethers.Contract(endpointAddress, ENDPOINT_ABI, ethers.provider);
+  const oapp = new ethers.Contract(oappAddress, OAPP_ABI, ethers.provider);
+
+  const sendLibrary: string = await endpoint.getSendLibrary(oappAddress, remoteEid);
+  const sendLibraryIsDefault: boolean = await endpoint.isDefaultSendLibrary(oappAddress, remoteEid);
+  const [receiveLibrary, receiveLibraryIsDefault]: [string, boolean] = await endpoint.getReceiveLibrary(
+    oappAddress,
+    remoteEid
+  );
+
+  // getConfig returns the effective config: the OApp's own settings merged over the defaults
+  const sendUln = decodeUlnConfig(await endpoint.getConfig(oappAddress, sendLibrary, remoteEid, CONFIG_TYPE_ULN));
+  const executor = decodeExecutorConfig(
+    await endpoint.getConfig(oappAddress, sendLibrary, remoteEid, CONFIG_TYPE_EXECUTOR)
+  );
+  const receiveUln = decodeUlnConfig(await endpoint.getConfig(oappAddress, receiveLibrary, remoteEid, CONFIG_TYPE_ULN));
+
+  const enforcedOptions: Record<number, string> = {};
+  for (const msgType of MSG_TYPES) {
+    enforcedOptions[msgType] = ((await oapp.enforcedOptions(remoteEid, msgType)) as string).toLowerCase();
+  }
+
+  return {
+    sendLibrary: ethers.utils.getAddress(sendLibrary),
+    sendLibraryIsDefault,
+    receiveLibrary: ethers.utils.getAddress(receiveLibrary),
+    receiveLibraryIsDefault,
+    sendUln,
+    receiveUln,
+    executor,
+    enforcedOptions,
+  };
+}
+
+/**
+ * Account allowed to change the OApp's endpoint configuration (the owner at deployment)
+ */
+export async function readDelegate(endpointAddress: string, oappAddress: string): Promise<string> {
+  const endpoint = new ethers.Contract(endpointAddress, ENDPOINT_ABI, ethers.provider);
+  return endpoint.delegates(oappAddress);
+}
+
+/**
+ * Whether the endpoint knows a message library (guards against pinning a wrong address)
+ */
+export async function isRegisteredLibrary(endpointAddress: string, library: string): Promise<boolean> {
+  const endpoint = new ethers.Contract(endpointAddress, ENDPOINT_ABI, ethers.provider);
+  return endpoint.isRegisteredLibrary(library);
+}
+
+/**
+ * Settings a declared configuration covers, in the order diffPathwaySecurity sends them
+ */
+export function managedSettings(desired: PathwaySecurity): SecurityChange["setting"][] {
+  const settings: SecurityChange["setting"][] = [];
+  if (desired.sendLibrary) settings.push("send-library");
+  if (desired.receiveLibrary) settings.push("receive-library");
+  if (desired.sendUln || desired.executor) settings.push("send-config");
+  if (desired.receiveUln) settings.push("receive-config");
+  if (desired.enforcedOptions) settings.push("enforced-options");
+  return settings;
+}
+
+export function formatUlnConfig(config: UlnConfig): string {
+  const optional =
+    config.optionalDVNs.length > 0
+      ? `, optional ${config.optionalDVNThreshold}/${config.optionalDVNs.length} [${config.optionalDVNs.join(", ")}]`
+      : "";
+  return `${config.confirmations} confirmations, required [${config.requiredDVNs.join(", ")}]${optional}`;
+}
+
+export function formatExecutorConfig(config: ExecutorConfig): string {
+  return `${config.executor} (max ${config.maxMessageSize} bytes)`;
+}
+
+/**
+ * Transactions that bring `current` to `desired`, in the order they must be sent
+ * (libraries first: ULN and executor configs are stored per library)
+ */
+export function diffPathwaySecurity(
+  endpointAddress: string,
+  oappAddress: string,
+  remoteEid: number,
+  current: PathwayReadback,
+  desired: PathwaySecurity
+): SecurityChange[] {
+  const changes: SecurityChange[] = [];
+  const endpointCall = (method: string, args: unknown[]) => ({
+    to: endpointAddress,
+    data: endpointInterface.encodeFunctionData(method, args),
+  });
+
+  if (desired.sendLibrary && (current.sendLibraryIsDefault || current.sendLibrary !== desired.sendLibrary)) {
+    changes.push({
+      setting: "send-library",
+      description: `Pin send library for EID ${remoteEid}`,
+      current: `${current.sendLibrary}${current.sendLibraryIsDefault ? " (default)" : ""}`,
+      desired: desired.sendLibrary,
+      sender: "delegate",
+      ...endpointCall("setSendLibrary", [oappAddress, remoteEid, desired.sendLibrary]),
+    });
+  }
+  if (
+    desired.receiveLibrary &&
+    (current.receiveLibraryIsDefault || current.receiveLibrary !== desired.receiveLibrary)
+  ) {
+    changes.push({
+      setting: "receive-library",
+      description: `Pin receive library for EID ${remoteEid}`,
+      current: `${current.receiveLibrary}${current.receiveLibraryIsDefault ? " (default)" : ""}`,
+      desired: desired.receiveLibrary,
+      sender: "delegate",
+      ...endpointCall("setReceiveLibrary", [oappAddress, remoteEid, desired.receiveLibrary, 0]),
+    });
+  }
+
+  const sendLibrary = desired.sendLibrary || current.sendLibrary;
+  const sendParams: { eid: number; configType: number; config: string }[] = [];
+  const before: string[] = [];
+  const after: string[] = [];
+  if (desired.sendUln && formatUlnConfig(desired.sendUln) !== formatUlnConfig(current.sendUln)) {
+    sendParams.push({ eid: remoteEid, configType: CONFIG_TYPE_ULN, config: encodeUlnConfig(desired.sendUln) });
+    before.push(`ULN ${formatUlnConfig(current.sendUln)}`);
+    after.push(`ULN ${formatUlnConfig(desired.sendUln)}`);
+  }
+  if (desired.executor && formatExecutorConfig(desired.executor) !== formatExecutorConfig(current.executor)) {
+    sendParams.push({
+      eid: remoteEid,
+      configType: CONFIG_TYPE_EXECUTOR,
+      config: encodeExecutorConfig(desired.executor),
+    });
+    before.push(`executor ${formatExecutorConfig(current.executor)}`);
+    after.push(`executor ${formatExecutorConfig(desired.executor)}`);
+  }
+  if (sendParams.length > 0) {
+    changes.push({
+      setting: "send-config",
+      description: `Set send ULN/executor config for EID ${remoteEid}`,
+      current: before.join("; "),
+      desired: after.join("; "),
+      sender: "delegate",
+      ...endpointCall("setConfig", [oappAddress, sendLibrary, sendParams]),
+    });
+  }
+
+  if (desired.receiveUln && formatUlnConfig(desired.receiveUln) !== formatUlnConfig(current.receiveUln)) {
+    changes.push({
+      setting: "receive-config",
+      description: `Set receive ULN config for EID ${remoteEid}`,
+      current: formatUlnConfig(current.receiveUln),
+      desired: formatUlnConfig(desired.receiveUln),
+      sender: "delegate",
+      ...endpointCall("setConfig", [
+        oappAddress,
+        desired.receiveLibrary || current.receiveLibrary,
+        [{ eid: remoteEid, configType: CONFIG_TYPE_ULN, config: encodeUlnConfig(desired.receiveUln) }],
+      ]),
+    });
+  }
+
+  if (desired.enforcedOptions) {
+    const params = MSG_TYPES.filter(
+      (msgType) => current.enforcedOptions[msgType] !== desired.enforcedOptions![msgType]
+    ).map((msgType) => ({ eid: remoteEid, msgType, options: desired.enforcedOptions![msgType] }));
+    if (params.length > 0) {
+      changes.push({
+        setting: "enforced-options",
+        description: `Set enforced options for EID ${remoteEid} (message type ${params.map((p) => p.msgType).join(", ")})`,
+        current: params.map((p) => current.enforcedOptions[p.msgType] || "0x").join(", "),
+        desired: params.map((p) => p.options).join(", "),
+        sender: "owner",
+        to: oappAddress,
+        data: oappInterface.encodeFunctionData("setEnforcedOptions", [params]),
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,75 @@
+import { findLayerZeroChain } from "../config/layerzero";
+import { OFTContractKind, OFTDeploymentRecord, findOFTDeployment } from "./deployment-tracker";
+
+export interface ResolvedOFTAddress {
+  address: string;
+  /** Env var name the address came from, or "deployments.json" */
+  source: string;
+  record: OFTDeploymentRecord | null;
+}
+
+/**
+ * Env vars that override the registry for a contract on a chain, in priority order
+ */
+export function oftEnvOverrides(contract: OFTContractKind, chainId: number): string[] {
+  const chain = findLayerZeroChain({ chainId });
+  if (!chain) {
+    return contract === "CAPTokenOFTAdapter" ? ["OFT_ADAPTER_ADDRESS"] : [];
+  }
+
+  return contract === "CAPTokenOFTAdapter"
+    ? [`${chain.envPrefix}_OFT_ADAPTER_ADDRESS`, "OFT_ADAPTER_ADDRESS"]
+    : [`${chain.envPrefix}_OFT_ADDRESS`];
+}
+
+/**
+ * Resolve an OFT/OFTAdapter address from env overrides first, then deployments.json
+ * @param selector - Chain the contract lives on (by EID and/or chain ID)
+ * @param envVars - Override env vars, in priority order
+ */
+export function resolveOFTAddress(
+  contract: OFTContractKind,
+  selector: { eid?: number; chainId?: number },
+  envVars: string[] = selector.chainId !== undefined ? oftEnvOverrides(contract, selector.chainId) : []
+): ResolvedOFTAddress | null {
+  const record = findOFTDeployment(contract, selector);
+
+  for (const name of envVars) {
+    const value = process.env[name];
+    if (value) {
+      return { address: value, source: name, record };
+    }
+  }
+
+  return record ? { address: record.address, source: "deployments.json", record } : null;
+}
+
+/**
+ * Like resolveOFTAddress, but throws with a hint when nothing is configured
+ */
+export function requireOFTAddress(
+  contract: OFTContractKind,
+  selector: { eid?: number; chainId?: number },
+  envVars?: string[]
+): ResolvedOFTAddress {
+  const resolved = resolveOFTAddress(contract, selector, envVars);
+  if (!resolved) {
+    const overrides = envVars ?? (selector.chainId !== undefined ? oftEnvOverrides(contract, selector.chainId) : []);
+    const where = selector.eid !== undefined ? `EID ${selector.eid}` : `chain ${selector.chainId}`;
+    throw new Error(
+      `${contract} address not found for ${where}. Deploy it first so it is recorded in deployments.json` +
+        (overrides.length > 0 ? `, or set ${overrides.join(" / ")} in .env` : "")
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Convert a bytes32 peer value to an address (zero peers return null)
+ */
+export function peerToAddress(peer: string): string | null {
+  if (/^0x0{64}$/i.test(peer)) {
+    return null;
+  }
+  return "0x" + peer.slice(-40);
+}
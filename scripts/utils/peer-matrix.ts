@@ -0,0 +1,233 @@
+import { CAPTokenOFT__factory } from "../../typechain-types";
+import { LAYERZERO_CHAINS } from "../config/layerzero";
+import { SignerOrProvider, addressToBytes32 } from "../sdk";
+import type { OFTContractKind } from "./deployment-tracker";
+import { peerToAddress, resolveOFTAddress } from "./oft-registry";
+
+/**
+ * Bidirectional peer consistency across every OApp (OFTAdapter and OFTs)
+ *
+ * peers(eid) is read on each contract for every EID in the registry, mainnet and testnet alike,
+ * giving an NxN matrix. A peer is consistent when it is the registered contract of that EID and
+ * the remote trusts this contract back; anything else gets a finding and a setPeer fix:
+ *   cross-network  a testnet contract trusts a mainnet EID or vice versa → remove
+ *   unregistered   the peer is not the contract recorded for that EID → point it at the registered one,
+ *                  or remove it when nothing is registered there
+ *   asymmetric     B trusts A but A has no peer for B → set A's peer to B
+ */
+
+export interface PeerEndpoint {
+  name: string;
+  /** Hardhat network */
+  network: string;
+  eid: number;
+  isTestnet: boolean;
+  /** Registered OFTAdapter/OFT on this EID, if any */
+  address?: string;
+}
+
+/** A deployed OApp whose peers are read */
+export interface PeerNode extends PeerEndpoint {
+  kind: OFTContractKind;
+  address: string;
+  provider: SignerOrProvider;
+}
+
+export interface PeerMatrix {
+  nodes: PeerNode[];
+  /** Every EID the nodes were queried for */
+  remotes: PeerEndpoint[];
+  /** peers[fromEid][toEid] = peer address; unset peers are omitted */
+  peers: Record<number, Record<number, string>>;
+}
+
+export type PeerIssue = "cross-network" | "unregistered" | "asymmetric";
+
+export interface PeerFinding {
+  issue: PeerIssue;
+  /** Contract holding the offending (or missing) peer */
+  from: PeerEndpoint;
+  to: PeerEndpoint;
+  /** Current peer, null when unset */
+  peer: string | null;
+  message: string;
+}
+
+/** One setPeer call that resolves a finding */
+export interface PeerFix {
+  /** Hardhat network to send it on */
+  network: string;
+  oapp: string;
+  eid: number;
+  /** New peer (zero address removes it) */
+  peer: string;
+  reason: string;
+  data: string;
+}
+
+export interface PeerReport {
+  matrix: PeerMatrix;
+  findings: PeerFinding[];
+  fixes: PeerFix[];
+  ok: boolean;
+}
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Every chain in the registry with its registered OFTAdapter/OFT (deployments.json or env override)
+ */
+export function registeredEndpoints(): PeerEndpoint[] {
+  return Object.values(LAYERZERO_CHAINS).map((chain) => ({
+    name: chain.name,
+    network: chain.hardhatNetwork,
+    eid: chain.eid,
+    isTestnet: chain.isTestnet,
+    address: resolveOFTAddress(chain.contract, { chainId: chain.chainId })?.address,
+  }));
+}
+
+/**
+ * setPeer call on `node` for `eid`; the zero address removes the peer
+ */
+export function setPeerFix(node: PeerNode, eid: number, peer: string, reason: string): PeerFix {
+  return {
+    network: node.network,
+    oapp: node.address,
+    eid,
+    peer,
+    reason,
+    data: CAPTokenOFT__factory.createInterface().encodeFunctionData("setPeer", [eid, addressToBytes32(peer)]),
+  };
+}
+
+function toEndpoint({ name, network, eid, isTestnet, address }: PeerEndpoint): PeerEndpoint {
+  return { name, network, eid, isTestnet, address };
+}
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Read peers(eid) on every node for every remote EID
+ */
+export async function readPeerMatrix(nodes: PeerNode[], remotes: PeerEndpoint[]): Promise<PeerMatrix> {
+  const peers: PeerMatrix["peers"] = {};
+  for (const node of nodes) {
+    // peers() comes from OAppCore, shared by the adapter and the OFT
+    const oapp = CAPTokenOFT__factory.connect(node.address, node.provider);
+    peers[node.eid] = {};
+    for (const remote of remotes) {
+      if (remote.eid === node.eid) {
+        continue;
+      }
+      const peer = peerToAddress(await oapp.peers(remote.eid));
+      if (peer) {
+        peers[node.eid][remote.eid] = peer;
+      }
+    }
+  }
+  return { nodes, remotes, peers };
+}
+
+/**
+ * Flag cross-network, unregistered and one-way peers and plan the setPeer calls fixing them
+ */
+export function evaluatePeerMatrix(matrix: PeerMatrix): PeerReport {
+  const nodes = new Map(matrix.nodes.map((node) => [node.eid, node]));
+  const findings: PeerFinding[] = [];
+  const fixes: PeerFix[] = [];
+
+  const report = (node: PeerNode, finding: PeerFinding, fix: { peer: string; reason: string }) => {
+    findings.push(finding);
+    fixes.push(setPeerFix(node, finding.to.eid, fix.peer, fix.reason));
+  };
+
+  for (const node of matrix.nodes) {
+    const from = toEndpoint(node);
+    for (const to of matrix.remotes) {
+      if (to.eid === from.eid) {
+        continue;
+      }
+      const peer = matrix.peers[from.eid]?.[to.eid] || null;
+      const remote = nodes.get(to.eid);
+      const label = `${from.name} → ${to.name} (EID ${to.eid})`;
+
+      if (!peer) {
+        // Only a remote that was read can be known to trust this node
+        if (remote && sameAddress(matrix.peers[remote.eid]?.[from.eid], from.address)) {
+          report(
+            node,
+            {
+              issue: "asymmetric",
+              from,
+              to,
+              peer,
+              message: `${label}: no peer, but ${to.name} trusts ${from.name}`,
+            },
+            { peer: remote.address, reason: `${to.name} already trusts ${from.name}` }
+          );
+        }
+        continue;
+      }
+
+      if (to.isTestnet !== from.isTestnet) {
+        report(
+          node,
+          {
+            issue: "cross-network",
+            from,
+            to,
+            peer,
+            message: `${label}: ${from.isTestnet ? "testnet" : "mainnet"} contract trusts ${peer} on ${to.isTestnet ? "testnet" : "mainnet"}`,
+          },
+          { peer: ZERO_ADDRESS, reason: "mainnet/testnet cross-link" }
+        );
+      } else if (!to.address) {
+        report(
+          node,
+          {
+            issue: "unregistered",
+            from,
+            to,
+            peer,
+            message: `${label}: peer ${peer}, but no contract is registered on ${to.name}`,
+          },
+          { peer: ZERO_ADDRESS, reason: `no registered contract on ${to.name}` }
+        );
+      } else if (!sameAddress(peer, to.address)) {
+        report(
+          node,
+          {
+            issue: "unregistered",
+            from,
+            to,
+            peer,
+            message: `${label}: peer ${peer} is not the registered contract ${to.address}`,
+          },
+          { peer: to.address, reason: `registered contract on ${to.name}` }
+        );
+      }
+    }
+  }
+
+  return { matrix, findings, fixes, ok: findings.length === 0 };
+}
+
+/**
+ * setPeer(eid, 0x0) for every peer a node should not have: cross-links, unregistered contracts and
+ * addresses other than the registered one (configure-oft-peers.ts sets the right one afterwards)
+ */
+export function planPeerRemovals(report: PeerReport, node: PeerNode): PeerFix[] {
+  return report.findings
+    .filter((finding) => finding.from.eid === node.eid && finding.peer !== null)
+    .map((finding) => setPeerFix(node, finding.to.eid, ZERO_ADDRESS, finding.message));
+}
+
+/**
+ * Read and evaluate in one go
+ */
+export async function checkPeerMatrix(nodes: PeerNode[], remotes: PeerEndpoint[]): Promise<PeerReport> {
+  return evaluatePeerMatrix(await readPeerMatrix(nodes, remotes));
+}
@@ -0,0 +1,143 @@
+import { ethers } from "hardhat";
+import type { CAPToken } from "../../typechain-types";
+import { queryInChunks } from "./logs";
+
+/**
+ * isPool is a mapping and cannot be enumerated, so the registered pool set is rebuilt
+ * from PoolAdded/PoolRemoved logs and cross-checked against isPool.
+ */
+
+const PAIR_ABI = ["function token0() view returns (address)", "function token1() view returns (address)"];
+
+// Uniswap V2-style factories (and their forks) emit this when a pair is created
+const FACTORY_ABI = ["event PairCreated(address indexed token0, address indexed token1, address pair, uint256)"];
+
+export interface PoolCheck {
+  pool: string;
+  token0?: string;
+  token1?: string;
+  /** token0() or token1() is the CAP token */
+  containsCap: boolean;
+  /** Why the pool failed the check, if it did */
+  error?: string;
+}
+
+export interface PoolSyncPlan {
+  add: string[];
+  remove: string[];
+  unchanged: string[];
+}
+
+export interface DiscoveredPair {
+  factory: string;
+  pair: string;
+  token0: string;
+  token1: string;
+  blockNumber: number;
+}
+
+/**
+ * Replay PoolAdded/PoolRemoved logs in order
+ * @returns Lowercased addresses of the pools registered as of toBlock
+ */
+export async function rebuildPoolSet(cap: CAPToken, fromBlock: number, toBlock: number): Promise<string[]> {
+  const [added, removed] = await Promise.all([
+    queryInChunks((from, to) => cap.queryFilter(cap.filters.PoolAdded(), from, to), fromBlock, toBlock),
+    queryInChunks((from, to) => cap.queryFilter(cap.filters.PoolRemoved(), from, to), fromBlock, toBlock),
+  ]);
+
+  const events = [
+    ...added.map((log) => ({ log, registered: true })),
+    ...removed.map((log) => ({ log, registered: false })),
+  ].sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.logIndex - b.log.logIndex);
+
+  const pools = new Set<string>();
+  for (const { log, registered } of events) {
+    const pool = String(log.args.pool).toLowerCase();
+    if (registered) {
+      pools.add(pool);
+    } else {
+      pools.delete(pool);
+    }
+  }
+
+  return [...pools];
+}
+
+/**
+ * Check that a pool exposes token0()/token1() and that one of them is CAP
+ */
+export async function checkPoolPair(pool: string, capAddress: string): Promise<PoolCheck> {
+  if ((await ethers.provider.getCode(pool)) === "0x") {
+    return { pool, containsCap: false, error: "no contract deployed at this address" };
+  }
+
+  const pair = new ethers.Contract(pool, PAIR_ABI, ethers.provider);
+  let token0: string;
+  let token1: string;
+  try {
+    [token0, token1] = await Promise.all([pair.token0(), pair.token1()]);
+  } catch {
+    return { pool, containsCap: false, error: "does not expose token0()/token1()" };
+  }
+
+  const cap = capAddress.toLowerCase();
+  const containsCap = token0.toLowerCase() === cap || token1.toLowerCase() === cap;
+  return {
+    pool,
+    token0,
+    token1,
+    containsCap,
+    error: containsCap ? undefined : `neither token0 (${token0}) nor token1 (${token1}) is CAP`,
+  };
+}
+
+/**
+ * Diff the registered pools against the desired list (addresses compared case-insensitively)
+ */
+export function planPoolSync(current: string[], desired: string[]): PoolSyncPlan {
+  const currentSet = new Set(current.map((pool) => pool.toLowerCase()));
+  const desiredSet = new Set(desired.map((pool) => pool.toLowerCase()));
+
+  return {
+    add: [...desiredSet].filter((pool) => !currentSet.has(pool)),
+    remove: [...currentSet].filter((pool) => !desiredSet.has(pool)),
+    unchanged: [...desiredSet].filter((pool) => currentSet.has(pool)),
+  };
+}
+
+/**
+ * Find CAP pairs created by a Uniswap V2-style factory (CAP as either token0 or token1)
+ */
+export async function discoverFactoryPairs(
+  factoryAddress: string,
+  capAddress: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<DiscoveredPair[]> {
+  const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, ethers.provider);
+
+  const [asToken0, asToken1] = await Promise.all([
+    queryInChunks(
+      (from, to) => factory.queryFilter(factory.filters.PairCreated(capAddress, null), from, to),
+      fromBlock,
+      toBlock
+    ),
+    queryInChunks(
+      (from, to) => factory.queryFilter(factory.filters.PairCreated(null, capAddress), from, to),
+      fromBlock,
+      toBlock
+    ),
+  ]);
+
+  return [...asToken0, ...asToken1].map((log) => {
+    const args = factory.interface.parseLog(log)!.args;
+    return {
+      factory: factoryAddress,
+      pair: String(args.pair),
+      token0: String(args.token0),
+      token1: String(args.token1),
+      blockNumber: log.blockNumber,
+    };
+  });
+}
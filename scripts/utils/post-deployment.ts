@@ -1,6 +1,7 @@
 import { readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 import { DeploymentRecord } from "./deployment-tracker";
+import { CAP_TOKEN_NAME, CAP_TOKEN_SYMBOL } from "../sdk";
 import packageJson from "../../package.json";
 
 interface UpdateTarget {
@@ -143,8 +144,8 @@ function generateDeploymentSummary(network: string, deployment: DeploymentRecord
 
 ## Contract Configuration
 
-- **Name:** Cyberia
-- **Symbol:** CAP
+- **Name:** ${CAP_TOKEN_NAME}
+- **Symbol:** ${CAP_TOKEN_SYMBOL}
 - **Initial Supply:** 1,000,000,000 CAP
 - **Max Supply:** 10,000,000,000 CAP
 
@@ -162,9 +163,9 @@ CAP_TOKEN_ADDRESS=${deployment.proxyAddress}
 \`\`\`
 
 ### 3. Transfer Governance to DAO
-\`\`\`javascript
-const capToken = await ethers.getContractAt("CAPToken", "${deployment.proxyAddress}");
-await capToken.setGovernance(ARAGON_DAO_ADDRESS);
+\`\`\`typescript
+const cap = await CapClient.connect("${deployment.proxyAddress}", signer); // scripts/sdk
+await cap.token.setGovernance(ARAGON_DAO_ADDRESS);
 \`\`\`
 
 ### 4. Configure AMM Pools
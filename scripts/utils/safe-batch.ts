@@ -0,0 +1,71 @@
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+/**
+ * Safe Transaction Builder batches
+ *
+ * When a contract is owned by a Safe, scripts write the calls they would have sent as a batch
+ * file instead. In the Safe app: Apps → Transaction Builder → drag the JSON file in, review,
+ * then create the batch for the other signers to confirm.
+ */
+
+/** One call, raw calldata (the Transaction Builder shows it decoded when it knows the ABI) */
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: null;
+  contractInputsValues: null;
+}
+
+export interface SafeBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+export function buildSafeBatch(options: {
+  chainId: number;
+  safe: string;
+  name: string;
+  description: string;
+  transactions: { to: string; data: string; value?: string }[];
+}): SafeBatch {
+  return {
+    version: "1.0",
+    chainId: String(options.chainId),
+    createdAt: Date.now(),
+    meta: {
+      name: options.name,
+      description: options.description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: options.safe,
+      createdFromOwnerAddress: "",
+    },
+    transactions: options.transactions.map((tx) => ({
+      to: tx.to,
+      value: tx.value || "0",
+      data: tx.data,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  };
+}
+
+export function writeSafeBatch(path: string, batch: SafeBatch): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(batch, null, 2) + "\n", "utf8");
+}
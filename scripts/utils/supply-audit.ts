@@ -0,0 +1,206 @@
+import { CAPTokenOFTAdapter__factory, CAPTokenOFT__factory, CAPToken__factory } from "../../typechain-types";
+import type { SignerOrProvider } from "../sdk";
+import type { OFTContractKind } from "./deployment-tracker";
+import { queryInChunks } from "./logs";
+
+/**
+ * Cross-chain supply audit: CAP locked in the OFTAdapter must back every CAPTokenOFT in circulation
+ *
+ *   balanceOf(adapter) = Σ totalSupply(OFT) + in flight
+ *
+ * A message is in flight from its OFTSent on the source until the OFTReceived with the same GUID
+ * on the destination. Whatever the direction, the source side has already moved (locked or
+ * burned) and the destination side has not, so the amount to be credited is added to the right.
+ *
+ * The adapter may hold more than that: adapter sends lock the shared-decimals dust that is never
+ * bridged, and anyone can transfer CAP to the adapter. Holding less means OFTs were minted
+ * without backing, which is the invariant violation.
+ */
+
+export interface AuditTarget {
+  name: string;
+  eid: number;
+  kind: OFTContractKind;
+  address: string;
+  provider: SignerOrProvider;
+  /** First block to scan for OFTSent/OFTReceived (the deployment block) */
+  fromBlock: number;
+}
+
+export interface OFTMessage {
+  guid: string;
+  srcEid: number;
+  dstEid: number;
+  /** Amount credited on the destination (dust already removed) */
+  amountLD: bigint;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface ChainSnapshot {
+  name: string;
+  eid: number;
+  kind: OFTContractKind;
+  address: string;
+  /** Block every figure of this chain was read at */
+  blockNumber: number;
+  /** balanceOf(adapter) on the home chain, totalSupply() on OFT chains */
+  amountLD: bigint;
+  sent: OFTMessage[];
+  received: OFTMessage[];
+}
+
+export interface SupplyAudit {
+  /** CAP held by the OFTAdapter */
+  locked: bigint;
+  /** Sum of totalSupply() over the OFT chains */
+  oftSupply: bigint;
+  inFlight: OFTMessage[];
+  inFlightLD: bigint;
+  /** locked - (oftSupply + inFlightLD); negative breaks the invariant */
+  discrepancy: bigint;
+  chains: ChainSnapshot[];
+  /** Invariant violations */
+  issues: string[];
+  /** Unexpected but not a violation (surplus on the adapter) */
+  warnings: string[];
+  ok: boolean;
+}
+
+/**
+ * Read the locked balance or total supply and every OFTSent/OFTReceived of one chain at its latest block
+ */
+export async function snapshotChain(target: AuditTarget): Promise<ChainSnapshot> {
+  // OFTSent, OFTReceived and decimalConversionRate come from OFTCore, shared by both contracts
+  const contract = CAPTokenOFT__factory.connect(target.address, target.provider);
+
+  const blockNumber = await contract.provider.getBlockNumber();
+  const overrides = { blockTag: blockNumber };
+
+  let amountLD: bigint;
+  if (target.kind === "CAPTokenOFTAdapter") {
+    const adapter = CAPTokenOFTAdapter__factory.connect(target.address, target.provider);
+    const token = CAPToken__factory.connect(await adapter.token(overrides), target.provider);
+    amountLD = BigInt((await token.balanceOf(target.address, overrides)).toString());
+  } else {
+    amountLD = BigInt((await contract.totalSupply(overrides)).toString());
+  }
+
+  // OFTSent carries the amount before dust removal on the adapter; the destination credits _toLD(_toSD(x))
+  const rate = BigInt((await contract.decimalConversionRate(overrides)).toString());
+
+  const sentEvents = await queryInChunks(
+    (from, to) => contract.queryFilter(contract.filters.OFTSent(), from, to),
+    target.fromBlock,
+    blockNumber
+  );
+  const receivedEvents = await queryInChunks(
+    (from, to) => contract.queryFilter(contract.filters.OFTReceived(), from, to),
+    target.fromBlock,
+    blockNumber
+  );
+
+  return {
+    name: target.name,
+    eid: target.eid,
+    kind: target.kind,
+    address: target.address,
+    blockNumber,
+    amountLD,
+    sent: sentEvents.map((event) => ({
+      guid: event.args.guid,
+      srcEid: target.eid,
+      dstEid: Number(event.args.dstEid),
+      amountLD: (BigInt(event.args.amountReceivedLD.toString()) / rate) * rate,
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+    })),
+    received: receivedEvents.map((event) => ({
+      guid: event.args.guid,
+      srcEid: Number(event.args.srcEid),
+      dstEid: target.eid,
+      amountLD: BigInt(event.args.amountReceivedLD.toString()),
+      transactionHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+    })),
+  };
+}
+
+/**
+ * Match GUIDs across chains and check the supply invariant
+ */
+export function evaluateSupply(chains: ChainSnapshot[]): SupplyAudit {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  const homes = chains.filter((chain) => chain.kind === "CAPTokenOFTAdapter");
+  if (homes.length !== 1) {
+    issues.push(`Expected exactly one OFTAdapter chain, got ${homes.length}`);
+  }
+  const locked = homes.reduce((sum, chain) => sum + chain.amountLD, 0n);
+  const oftSupply = chains
+    .filter((chain) => chain.kind === "CAPTokenOFT")
+    .reduce((sum, chain) => sum + chain.amountLD, 0n);
+
+  const byEid = new Map(chains.map((chain) => [chain.eid, chain]));
+  const sent = new Map<string, OFTMessage>();
+  for (const message of chains.flatMap((chain) => chain.sent)) {
+    sent.set(message.guid.toLowerCase(), message);
+  }
+  const received = new Set<string>();
+  for (const message of chains.flatMap((chain) => chain.received)) {
+    received.add(message.guid.toLowerCase());
+    if (byEid.has(message.srcEid) && !sent.has(message.guid.toLowerCase())) {
+      issues.push(
+        `${byEid.get(message.dstEid)?.name} received ${message.guid} from EID ${message.srcEid}, ` +
+          `which has no matching OFTSent (tx ${message.transactionHash})`
+      );
+    }
+  }
+
+  const inFlight: OFTMessage[] = [];
+  for (const [guid, message] of sent) {
+    if (received.has(guid)) {
+      continue;
+    }
+    if (!byEid.has(message.dstEid)) {
+      issues.push(
+        `${byEid.get(message.srcEid)?.name} sent ${message.guid} to EID ${message.dstEid}, which is not audited ` +
+          `(tx ${message.transactionHash})`
+      );
+      continue;
+    }
+    inFlight.push(message);
+  }
+  inFlight.sort((a, b) => a.srcEid - b.srcEid || a.blockNumber - b.blockNumber);
+
+  const inFlightLD = inFlight.reduce((sum, message) => sum + message.amountLD, 0n);
+  const discrepancy = locked - (oftSupply + inFlightLD);
+  if (discrepancy < 0n) {
+    issues.push(`OFTAdapter holds ${-discrepancy} wei less than the OFT supply plus messages in flight`);
+  } else if (discrepancy > 0n) {
+    warnings.push(
+      `OFTAdapter holds ${discrepancy} wei more than the OFT supply plus messages in flight (dust or direct transfers)`
+    );
+  }
+
+  return { locked, oftSupply, inFlight, inFlightLD, discrepancy, chains, issues, warnings, ok: issues.length === 0 };
+}
+
+/**
+ * Snapshot every target and evaluate the invariant
+ *
+ * OFT chains are read before the adapter: a message from the adapter that lands between the two
+ * reads is then seen as in flight rather than as unbacked supply.
+ */
+export async function auditSupply(targets: AuditTarget[]): Promise<SupplyAudit> {
+  const ordered = [...targets].sort(
+    (a, b) => Number(a.kind === "CAPTokenOFTAdapter") - Number(b.kind === "CAPTokenOFTAdapter")
+  );
+
+  const chains: ChainSnapshot[] = [];
+  for (const target of ordered) {
+    chains.push(await snapshotChain(target));
+  }
+  return evaluateSupply(chains);
+}
@@ -0,0 +1,145 @@
+import type { CapSnapshot } from "./cap-snapshot";
+import type { TaxRates } from "./tax-validation";
+
+/**
+ * Off-chain mirror of CAPToken._update
+ *
+ * Reproduces the tax classification, the integer basis-point rounding and the burn/collect split,
+ * so transfers can be quoted without an RPC call. Pure and dependency-free: amounts are bigint,
+ * addresses are compared case-insensitively.
+ *
+ * test/unit/TaxSimulator.test.ts runs it differentially against the hardhat-deployed contract;
+ * any change to _update must be mirrored here.
+ */
+
+export const BASIS_POINTS_DENOMINATOR = 10_000n;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export type TransferKind = "mint" | "burn" | "pool-to-pool" | "buy" | "sell" | "transfer";
+
+export interface TaxState {
+  taxes: TaxRates;
+  /** Zero address = burn mode */
+  feeRecipient: string;
+  /** Addresses with isPool = true */
+  pools: string[];
+}
+
+export type SimulatedEvent =
+  | { name: "Transfer"; args: { from: string; to: string; value: bigint } }
+  | { name: "TaxBurned"; args: { from: string; to: string; grossAmount: bigint; taxAmount: bigint } }
+  | {
+      name: "TaxCollected";
+      args: { from: string; to: string; grossAmount: bigint; taxAmount: bigint; recipient: string };
+    };
+
+export interface TransferQuote {
+  kind: TransferKind;
+  taxBp: number;
+  /** Amount credited to `to` */
+  sendAmount: bigint;
+  taxAmount: bigint;
+  /** "none" when no tax is taken, "burn" in burn mode, otherwise "recipient" */
+  taxDestination: "none" | "burn" | "recipient";
+  /** feeRecipient when taxDestination is "recipient" */
+  taxRecipient?: string;
+  /** CAPToken events in emission order (ERC20Votes' DelegateVotesChanged is not included) */
+  events: SimulatedEvent[];
+}
+
+function isPool(state: TaxState, address: string): boolean {
+  const target = address.toLowerCase();
+  return state.pools.some((pool) => pool.toLowerCase() === target);
+}
+
+/**
+ * Classify a transfer the way _update does
+ */
+export function classifyTransfer(state: TaxState, from: string, to: string): { kind: TransferKind; taxBp: number } {
+  if (from.toLowerCase() === ZERO_ADDRESS) {
+    return { kind: "mint", taxBp: 0 };
+  }
+  if (to.toLowerCase() === ZERO_ADDRESS) {
+    return { kind: "burn", taxBp: 0 };
+  }
+
+  const fromIsPool = isPool(state, from);
+  const toIsPool = isPool(state, to);
+
+  if (fromIsPool && toIsPool) {
+    return { kind: "pool-to-pool", taxBp: 0 };
+  }
+  if (fromIsPool) {
+    return { kind: "buy", taxBp: state.taxes.buy };
+  }
+  if (toIsPool) {
+    // Sells pay the sell tax on top of the base transfer tax
+    return { kind: "sell", taxBp: state.taxes.sell + state.taxes.transfer };
+  }
+  return { kind: "transfer", taxBp: state.taxes.transfer };
+}
+
+/**
+ * Quote a transfer of `value` from `from` to `to`
+ */
+export function simulateTransfer(state: TaxState, from: string, to: string, value: bigint): TransferQuote {
+  const { kind, taxBp } = classifyTransfer(state, from, to);
+
+  if (kind === "mint" || kind === "burn") {
+    return {
+      kind,
+      taxBp: 0,
+      sendAmount: value,
+      taxAmount: 0n,
+      taxDestination: "none",
+      events: [{ name: "Transfer", args: { from, to, value } }],
+    };
+  }
+
+  const taxAmount = (value * BigInt(taxBp)) / BASIS_POINTS_DENOMINATOR;
+  const sendAmount = value - taxAmount;
+  const events: SimulatedEvent[] = [];
+  const burnMode = state.feeRecipient.toLowerCase() === ZERO_ADDRESS;
+
+  if (taxAmount > 0n) {
+    if (burnMode) {
+      events.push({ name: "Transfer", args: { from, to: ZERO_ADDRESS, value: taxAmount } });
+      events.push({ name: "TaxBurned", args: { from, to, grossAmount: value, taxAmount } });
+    } else {
+      events.push({ name: "Transfer", args: { from, to: state.feeRecipient, value: taxAmount } });
+      events.push({
+        name: "TaxCollected",
+        args: { from, to, grossAmount: value, taxAmount, recipient: state.feeRecipient },
+      });
+    }
+  }
+  events.push({ name: "Transfer", args: { from, to, value: sendAmount } });
+
+  return {
+    kind,
+    taxBp,
+    sendAmount,
+    taxAmount,
+    taxDestination: taxAmount === 0n ? "none" : burnMode ? "burn" : "recipient",
+    taxRecipient: taxAmount > 0n && !burnMode ? state.feeRecipient : undefined,
+    events,
+  };
+}
+
+/**
+ * Build the simulator state from an upgrade snapshot (scripts/utils/cap-snapshot.ts)
+ */
+export function taxStateFromSnapshot(snapshot: CapSnapshot): TaxState {
+  return {
+    taxes: {
+      transfer: Number(snapshot.taxes.transfer),
+      sell: Number(snapshot.taxes.sell),
+      buy: Number(snapshot.taxes.buy),
+    },
+    feeRecipient: snapshot.token.feeRecipient,
+    pools: Object.entries(snapshot.pools)
+      .filter(([, registered]) => registered === "true")
+      .map(([pool]) => pool),
+  };
+}
@@ -0,0 +1,88 @@
+import type { CAPToken } from "../../typechain-types";
+
+export interface TaxRates {
+  transfer: number;
+  sell: number;
+  buy: number;
+}
+
+export interface TaxLimits {
+  maxTaxBp: number;
+  maxCombinedTaxBp: number;
+  maxTotalTaxBp: number;
+}
+
+/**
+ * Tax limits as declared in CAPToken.sol
+ * Used as a fallback when the on-chain constants cannot be read
+ */
+export const CAP_TAX_LIMITS: TaxLimits = {
+  maxTaxBp: 500,
+  maxCombinedTaxBp: 800,
+  maxTotalTaxBp: 1000,
+};
+
+/**
+ * Read the tax limit constants from a deployed CAP token
+ */
+export async function readTaxLimits(contract: CAPToken): Promise<TaxLimits> {
+  const [maxTaxBp, maxCombinedTaxBp, maxTotalTaxBp] = await Promise.all([
+    contract.MAX_TAX_BP(),
+    contract.MAX_COMBINED_TAX_BP(),
+    contract.MAX_TOTAL_TAX_BP(),
+  ]);
+
+  return {
+    maxTaxBp: Number(maxTaxBp),
+    maxCombinedTaxBp: Number(maxCombinedTaxBp),
+    maxTotalTaxBp: Number(maxTotalTaxBp),
+  };
+}
+
+/**
+ * Mirror the require() checks of CAPToken.proposeTaxChange
+ * @returns The revert reasons the contract would produce (empty if the proposal is valid)
+ */
+export function validateTaxRates(taxes: TaxRates, limits: TaxLimits = CAP_TAX_LIMITS): string[] {
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(taxes)) {
+    if (!Number.isInteger(value) || value < 0) {
+      errors.push(`INVALID_${name.toUpperCase()}_TAX: ${value} is not a non-negative integer (basis points)`);
+    }
+  }
+
+  if (taxes.transfer > limits.maxTaxBp) {
+    errors.push(`TRANSFER_TAX_TOO_HIGH: ${taxes.transfer} bp > MAX_TAX_BP (${limits.maxTaxBp} bp)`);
+  }
+  if (taxes.sell > limits.maxTaxBp) {
+    errors.push(`SELL_TAX_TOO_HIGH: ${taxes.sell} bp > MAX_TAX_BP (${limits.maxTaxBp} bp)`);
+  }
+  if (taxes.buy > limits.maxTaxBp) {
+    errors.push(`BUY_TAX_TOO_HIGH: ${taxes.buy} bp > MAX_TAX_BP (${limits.maxTaxBp} bp)`);
+  }
+
+  // Sells pay transfer + sell tax
+  if (taxes.transfer + taxes.sell > limits.maxCombinedTaxBp) {
+    errors.push(
+      `COMBINED_SELL_TAX_TOO_HIGH: transfer + sell = ${taxes.transfer + taxes.sell} bp > MAX_COMBINED_TAX_BP (${limits.maxCombinedTaxBp} bp)`
+    );
+  }
+
+  if (taxes.transfer + taxes.buy > limits.maxTotalTaxBp) {
+    errors.push(
+      `TOTAL_TAX_TOO_HIGH: transfer + buy = ${taxes.transfer + taxes.buy} bp > MAX_TOTAL_TAX_BP (${limits.maxTotalTaxBp} bp)`
+    );
+  }
+  if (taxes.sell + taxes.buy > limits.maxTotalTaxBp) {
+    errors.push(
+      `TOTAL_TAX_TOO_HIGH: sell + buy = ${taxes.sell + taxes.buy} bp > MAX_TOTAL_TAX_BP (${limits.maxTotalTaxBp} bp)`
+    );
+  }
+
+  return errors;
+}
+
+export function formatTaxRates(taxes: TaxRates): string {
+  return `${taxes.transfer / 100}% transfer, ${taxes.sell / 100}% sell, ${taxes.buy / 100}% buy`;
+}
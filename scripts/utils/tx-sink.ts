@@ -0,0 +1,194 @@
+import { ethers, network } from "hardhat";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { getNetworkConfig } from "../config/environments";
+import { DaoAction, submitProposal } from "../dao/build-proposal";
+import { buildSafeBatch, writeSafeBatch } from "./safe-batch";
+
+/**
+ * Where mutating scripts send their transactions
+ *
+ *   send  sign and send from getSigners()[0], waiting for the network's confirmations
+ *   safe  collect the calls into a Safe Transaction Builder batch for a Safe to execute
+ *   dao   collect the calls into an Aragon IDAO.Action[] list for a DAO proposal
+ *         (SUBMIT_PROPOSAL=true submits it through CAP_GOVERNANCE_PLUGIN_ADDRESS)
+ *
+ * Scripts build calldata once and hand it to the sink; only `send` changes state right away, so
+ * scripts read back results only when `sink.sends` is true.
+ *
+ * Environment:
+ *   TX_SINK         send | safe | dao (default: send, or what the script picks for a contract owner)
+ *   TX_SINK_SAFE    Safe executing the batch (default: the owner the script detected)
+ *   TX_SINK_DAO     DAO executing the actions (default: ARAGON_DAO_ADDRESS)
+ *   TX_SINK_OUTPUT  Batch file (default: PROPOSAL_OUTPUT for dao, else proposals/<name>-<network>-<timestamp>.json)
+ */
+
+export type TxSinkMode = "send" | "safe" | "dao";
+
+export const TX_SINK_MODES: TxSinkMode[] = ["send", "safe", "dao"];
+
+/** One call; ProposalActions from buildCapAction can be submitted as they are */
+export interface SinkCall {
+  to: string;
+  data: string;
+  /** Wei, as a decimal string (default "0") */
+  value?: string;
+  description: string;
+  /** Decoded call, kept in the DAO action list for reviewers */
+  method?: string;
+  args?: (string | number)[];
+}
+
+export interface TxSinkOptions {
+  /** Batch title, e.g. "Configure OFT peers" */
+  title: string;
+  /** File name prefix of the batch */
+  name: string;
+  /** Mode when TX_SINK is unset (default: send) */
+  fallback?: TxSinkMode;
+  /** Safe used by the safe backend when TX_SINK_SAFE is unset */
+  safe?: string;
+  /** DAO used by the dao backend when TX_SINK_DAO and ARAGON_DAO_ADDRESS are unset */
+  dao?: string;
+}
+
+/** IDAO.Action list written by the dao backend */
+export interface DaoActionList {
+  title: string;
+  network: string;
+  chainId: number;
+  dao: string;
+  plugin?: string;
+  createdAt: string;
+  actions: (DaoAction & Omit<SinkCall, "value">)[];
+}
+
+function requireAddress(name: string, value: string | undefined): string {
+  if (!value || !ethers.utils.isAddress(value)) {
+    throw new Error(`${name} must be set to a valid address (got ${value || "nothing"})`);
+  }
+  return ethers.utils.getAddress(value);
+}
+
+export function parseTxSinkMode(fallback: TxSinkMode = "send"): TxSinkMode {
+  const mode = process.env.TX_SINK || fallback;
+  if (!TX_SINK_MODES.includes(mode as TxSinkMode)) {
+    throw new Error(`Invalid TX_SINK: ${mode}. Supported: ${TX_SINK_MODES.join(", ")}`);
+  }
+  return mode as TxSinkMode;
+}
+
+export class TxSink {
+  readonly calls: SinkCall[] = [];
+
+  private constructor(
+    readonly mode: TxSinkMode,
+    /** Account the calls execute as: the signer, the Safe or the DAO */
+    readonly sender: string,
+    private readonly options: TxSinkOptions,
+    private readonly chainId: number
+  ) {}
+
+  static async open(options: TxSinkOptions): Promise<TxSink> {
+    const mode = parseTxSinkMode(options.fallback);
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+    let sender: string;
+    if (mode === "safe") {
+      sender = requireAddress("TX_SINK_SAFE", process.env.TX_SINK_SAFE || options.safe);
+    } else if (mode === "dao") {
+      sender = requireAddress("TX_SINK_DAO", process.env.TX_SINK_DAO || process.env.ARAGON_DAO_ADDRESS || options.dao);
+    } else {
+      const [signer] = await ethers.getSigners();
+      sender = signer.address;
+    }
+    return new TxSink(mode, sender, options, chainId);
+  }
+
+  /** Whether calls change state as they are submitted */
+  get sends(): boolean {
+    return this.mode === "send";
+  }
+
+  /**
+   * Send the call (send) or add it to the batch (safe, dao)
+   * @returns The transaction hash once confirmed, undefined when batched
+   */
+  async submit(call: SinkCall): Promise<string | undefined> {
+    if (!this.sends) {
+      this.calls.push(call);
+      console.log(`📥 Queued for ${this.mode === "safe" ? "the Safe" : "the DAO"}: ${call.description}`);
+      console.log(`   to:   ${call.to}`);
+      console.log(`   data: ${call.data}`);
+      return undefined;
+    }
+
+    const [signer] = await ethers.getSigners();
+    const tx = await signer.sendTransaction({ to: call.to, data: call.data, value: call.value || "0" });
+    console.log(`⏳ Transaction submitted: ${tx.hash}`);
+    const receipt = await tx.wait(getNetworkConfig(network.name).confirmations);
+    this.calls.push(call);
+    return receipt.transactionHash;
+  }
+
+  /**
+   * Write the batch (safe, dao); nothing to do for send
+   * @returns The batch file, if one was written
+   */
+  async flush(): Promise<string | undefined> {
+    if (this.sends || this.calls.length === 0) {
+      return undefined;
+    }
+
+    const path =
+      process.env.TX_SINK_OUTPUT ||
+      (this.mode === "dao" ? process.env.PROPOSAL_OUTPUT : undefined) ||
+      join(
+        process.cwd(),
+        "proposals",
+        `${this.options.name}-${network.name}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`
+      );
+
+    if (this.mode === "safe") {
+      writeSafeBatch(
+        path,
+        buildSafeBatch({
+          chainId: this.chainId,
+          safe: this.sender,
+          name: this.options.title,
+          description: this.calls.map((call) => call.description).join("\n"),
+          transactions: this.calls,
+        })
+      );
+      console.log(`\n📦 Safe Transaction Builder batch (${this.calls.length} call(s)) written to ${path}`);
+      console.log(`   Import it in the Safe app (Apps → Transaction Builder) for ${this.sender}`);
+      return path;
+    }
+
+    const list: DaoActionList = {
+      title: this.options.title,
+      network: network.name,
+      chainId: this.chainId,
+      dao: this.sender,
+      plugin: process.env.CAP_GOVERNANCE_PLUGIN_ADDRESS,
+      createdAt: new Date().toISOString(),
+      actions: this.calls.map((call) => ({ ...call, value: call.value || "0" })),
+    };
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(path, JSON.stringify(list, null, 2) + "\n", "utf8");
+    console.log(`\n📄 DAO action list (${list.actions.length} action(s)) written to ${path}`);
+
+    if (process.env.SUBMIT_PROPOSAL === "true") {
+      const plugin = requireAddress("CAP_GOVERNANCE_PLUGIN_ADDRESS", process.env.CAP_GOVERNANCE_PLUGIN_ADDRESS);
+      console.log("📤 Submitting proposal to TokenVoting plugin:", plugin);
+      const { proposalId, txHash } = await submitProposal(list, plugin, process.env.PROPOSAL_METADATA_URI);
+      console.log(`✅ Proposal ${proposalId} created (tx ${txHash})`);
+    } else {
+      console.log("   Re-run with SUBMIT_PROPOSAL=true to submit it through the TokenVoting plugin");
+    }
+    return path;
+  }
+}
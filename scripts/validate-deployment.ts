@@ -2,6 +2,7 @@ import { network } from "hardhat";
 import { getDeployment } from "./utils/deployment-tracker";
 import { validateDeploymentConsistency } from "./utils/post-deployment";
 import { getNetworkConfig } from "./config/environments";
+import { CapClient } from "./sdk";
 
 /**
  * Validation script to ensure deployment is consistent across all files
@@ -50,26 +51,33 @@ async function main() {
     if (networkName !== "localhost" && networkName !== "hardhat") {
       try {
         const hardhat = await import("hardhat");
-        const contract = await hardhat.ethers.getContractAt("CAPToken", deployment.proxyAddress);
+        const cap = await CapClient.connect(deployment.proxyAddress, hardhat.ethers.provider, { verify: false });
 
         console.log("\n🔍 Checking contract state...");
 
-        const [name, symbol, governance, feeRecipient, totalSupply] = await Promise.all([
-          contract.name(),
-          contract.symbol(),
-          contract.governance(),
-          contract.feeRecipient(),
-          contract.totalSupply(),
+        const [name, symbol, { governance, feeRecipient }, totalSupply] = await Promise.all([
+          cap.token.name(),
+          cap.token.symbol(),
+          cap.getGovernanceState(),
+          cap.token.totalSupply(),
         ]);
 
         console.log(`   Name: ${name}`);
         console.log(`   Symbol: ${symbol}`);
         console.log(`   Governance: ${governance}`);
         console.log(`   Fee Recipient: ${feeRecipient}`);
-        console.log(`   Total Supply: ${hardhat.ethers.formatEther(totalSupply)} CAP`);
+        console.log(`   Total Supply: ${hardhat.ethers.utils.formatEther(totalSupply)} CAP`);
+
+        try {
+          await cap.verify();
+        } catch (error) {
+          console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+          process.exitCode = 1;
+          return;
+        }
 
         // Validate against deployment record
-        if (governance !== deployment.owner) {
+        if (!(await cap.isGovernance(deployment.owner))) {
           console.error(`\n❌ Governance mismatch:`);
           console.error(`   Expected: ${deployment.owner}`);
           console.error(`   Actual: ${governance}`);
@@ -1,6 +1,8 @@
 import * as fs from "fs";
 import * as path from "path";
 import { ethers } from "ethers";
+import { TargetAbi, artifactTargetAbis, defaultTargetAbis } from "./zodiac/abis";
+import { validateRolesSemantics } from "./zodiac/semantic-validation";
 
 interface ZodiacTarget {
   address?: string;
@@ -28,9 +30,30 @@ interface ZodiacConfig {
   scopeConfig: Record<string, unknown>;
 }
 
+/**
+ * Validate a Zodiac Roles config before importing it into the Safe
+ *
+ * Checks the structure and addresses, then runs the semantic pass (scripts/zodiac/semantic-validation.ts):
+ * sighashes against names, functions against the target ABI, condition children against parameter
+ * types and compValues against paramTypes. Semantic issues are reported with their JSON path.
+ *
+ * Usage:
+ *   npm run build
+ *   npm run validate:zodiac
+ *
+ * Optional:
+ *   ZODIAC_CONFIG_PATH     Config file (default: docs/zodiac-roles-config.json)
+ *   CAP_TOKEN_ADDRESS      CAPToken address, for rendered configs
+ *   TREASURY_SAFE_ADDRESS  Treasury Safe address, for rendered configs
+ *   ZODIAC_TARGETS         Extra targets as 0xAddress=ContractName,... (ABI from artifacts)
+ */
+
 const TEMPLATE_VARIABLES = ["{{TREASURY_SAFE_ADDRESS}}", "{{CAP_TOKEN_ADDRESS}}", "{{ARAGON_DAO_ADDRESS}}"];
 
-function validateZodiacConfig(configPath: string): { valid: boolean; errors: string[]; warnings: string[] } {
+function validateZodiacConfig(
+  configPath: string,
+  targets: Map<string, TargetAbi>
+): { valid: boolean; errors: string[]; warnings: string[] } {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -62,7 +85,7 @@ function validateZodiacConfig(configPath: string): { valid: boolean; errors: str
 
   if (foundTemplateVars.length > 0) {
     errors.push(`Configuration contains unreplaced template variables: ${foundTemplateVars.join(", ")}`);
-    errors.push("Please replace these with actual addresses before deployment.");
+    errors.push("Render a network config with npm run zodiac:render:<network> before deployment.");
   }
 
   // Validate structure
@@ -96,7 +119,7 @@ function validateZodiacConfig(configPath: string): { valid: boolean; errors: str
       role.members.forEach((member, memberIndex) => {
         if (!member.startsWith("{{") && !member.endsWith("}}")) {
           try {
-            ethers.getAddress(member);
+            ethers.utils.getAddress(member);
           } catch {
             errors.push(
               `Role ${index} (${role.name || "unknown"}) member ${memberIndex} has invalid address: ${member}`
@@ -113,7 +136,7 @@ function validateZodiacConfig(configPath: string): { valid: boolean; errors: str
       role.targets.forEach((target, targetIndex) => {
         if (target.address && !target.address.startsWith("{{") && !target.address.endsWith("}}")) {
           try {
-            ethers.getAddress(target.address);
+            ethers.utils.getAddress(target.address);
           } catch {
             errors.push(
               `Role ${index} (${role.name || "unknown"}) target ${targetIndex} has invalid address: ${target.address}`
@@ -124,6 +147,10 @@ function validateZodiacConfig(configPath: string): { valid: boolean; errors: str
     }
   });
 
+  const semantics = validateRolesSemantics(config, targets);
+  semantics.errors.forEach((issue) => errors.push(`${issue.path}: ${issue.message}`));
+  semantics.warnings.forEach((issue) => warnings.push(`${issue.path}: ${issue.message}`));
+
   return {
     valid: errors.length === 0,
     errors,
@@ -167,7 +194,15 @@ async function main() {
 
   console.log(`📄 Validating configuration file: ${configPath}\n`);
 
-  const result = validateZodiacConfig(configPath);
+  const targets = artifactTargetAbis(
+    process.env.ZODIAC_TARGETS || "",
+    defaultTargetAbis({
+      capToken: process.env.CAP_TOKEN_ADDRESS,
+      treasurySafe: process.env.TREASURY_SAFE_ADDRESS,
+    })
+  );
+
+  const result = validateZodiacConfig(configPath, targets);
   printResults(result);
 }
 
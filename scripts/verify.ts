@@ -97,10 +97,9 @@ async function verifyProxyPattern(proxyAddress: string, implementationAddress: s
 async function updateDeploymentRecord(networkName: string, verified: boolean): Promise<void> {
   try {
     const deployment = getDeployment(networkName);
-    if (deployment) {
+    if (deployment && deployment.verified !== verified) {
       const { saveDeployment } = await import("./utils/deployment-tracker");
-      deployment.verified = verified;
-      saveDeployment(networkName, deployment);
+      saveDeployment(networkName, { ...deployment, verified }, "verify");
       console.log(`\n✅ Deployment record updated (verified: ${verified})`);
     }
   } catch (error) {
@@ -0,0 +1,87 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { CAPToken__factory } from "../../typechain-types";
+import type { Abi } from "./policy";
+
+/**
+ * ABIs of the contracts a Zodiac Roles config can target
+ *
+ * CAPToken comes from typechain and any other contract compiled in this repo from its hardhat
+ * artifact (both need `npm run build`). The Safe is not compiled here, so its external functions
+ * (Safe v1.4.1) are pinned below.
+ */
+
+export interface TargetAbi {
+  contract: string;
+  abi: Abi;
+}
+
+/** Safe v1.4.1 (OwnerManager, ModuleManager, GuardManager, FallbackManager, Safe) */
+export const SAFE_ABI = [
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)",
+  "function execTransactionFromModule(address to, uint256 value, bytes data, uint8 operation) returns (bool)",
+  "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+  "function removeOwner(address prevOwner, address owner, uint256 _threshold)",
+  "function swapOwner(address prevOwner, address oldOwner, address newOwner)",
+  "function changeThreshold(uint256 _threshold)",
+  "function enableModule(address module)",
+  "function disableModule(address prevModule, address module)",
+  "function setGuard(address guard)",
+  "function setFallbackHandler(address handler)",
+  "function approveHash(bytes32 hashToApprove)",
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function isOwner(address owner) view returns (bool)",
+  "function nonce() view returns (uint256)",
+];
+
+const ARTIFACTS_DIR = path.join(__dirname, "..", "..", "artifacts", "contracts");
+
+/**
+ * ABI from artifacts/contracts/<name>.sol/<name>.json
+ */
+export function loadArtifactAbi(contract: string): Abi {
+  const artifactPath = path.join(ARTIFACTS_DIR, `${contract}.sol`, `${contract}.json`);
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`Artifact for ${contract} not found at ${artifactPath}; run npm run build`);
+  }
+  return JSON.parse(fs.readFileSync(artifactPath, "utf-8")).abi;
+}
+
+/**
+ * Target ABIs keyed by placeholder, plus the concrete addresses when they are known
+ * (rendered configs carry addresses instead of placeholders)
+ */
+export function defaultTargetAbis(
+  addresses: { capToken?: string; treasurySafe?: string } = {}
+): Map<string, TargetAbi> {
+  const capToken: TargetAbi = { contract: "CAPToken", abi: CAPToken__factory.abi };
+  const safe: TargetAbi = { contract: "Safe", abi: SAFE_ABI };
+
+  const targets = new Map<string, TargetAbi>([
+    ["{{CAP_TOKEN_ADDRESS}}", capToken],
+    ["{{TREASURY_SAFE_ADDRESS}}", safe],
+  ]);
+  if (addresses.capToken) {
+    targets.set(addresses.capToken.toLowerCase(), capToken);
+  }
+  if (addresses.treasurySafe) {
+    targets.set(addresses.treasurySafe.toLowerCase(), safe);
+  }
+  return targets;
+}
+
+/**
+ * Extra targets from "0xAddress=ContractName,..." (e.g. ZODIAC_TARGETS), ABIs read from artifacts
+ */
+export function artifactTargetAbis(spec: string, targets: Map<string, TargetAbi>): Map<string, TargetAbi> {
+  for (const entry of spec.split(",").filter((item) => item.trim() !== "")) {
+    const [address, contract] = entry.split("=").map((item) => item.trim());
+    if (!ethers.utils.isAddress(address) || !contract) {
+      throw new Error(`Invalid target "${entry}", expected 0xAddress=ContractName`);
+    }
+    targets.set(address.toLowerCase(), { contract, abi: loadArtifactAbi(contract) });
+  }
+  return targets;
+}
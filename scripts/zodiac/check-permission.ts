@@ -0,0 +1,91 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Operation, PlaceholderValues, checkPermission } from "./permissions";
+
+/**
+ * Check offline whether a Zodiac role may execute a transaction
+ *
+ * Evaluates the roles config the way the Roles modifier would (see permissions.ts) and explains
+ * which condition passed or failed. Exits with code 1 when the transaction would be rejected.
+ *
+ * Usage:
+ *   ZODIAC_ROLE=BOARD_DAILY_OPS ZODIAC_TO=0xCapToken ZODIAC_DATA=0xa9059cbb... npm run zodiac:simulate
+ *
+ * Optional:
+ *   ZODIAC_VALUE           Wei sent with the call (default: 0)
+ *   ZODIAC_OPERATION       call or delegatecall (default: call)
+ *   ZODIAC_CONFIG_PATH     Roles config, rendered or template (default: docs/zodiac-roles-config.json)
+ *   CAP_TOKEN_ADDRESS      Value of {{CAP_TOKEN_ADDRESS}} when checking the template
+ *   TREASURY_SAFE_ADDRESS  Value of {{TREASURY_SAFE_ADDRESS}} when checking the template
+ *   ARAGON_DAO_ADDRESS     Value of {{ARAGON_DAO_ADDRESS}} when checking the template
+ */
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} not set`);
+  }
+  return value;
+}
+
+function placeholderValues(): PlaceholderValues {
+  const values: PlaceholderValues = {};
+  for (const name of ["CAP_TOKEN_ADDRESS", "TREASURY_SAFE_ADDRESS", "ARAGON_DAO_ADDRESS"]) {
+    const value = process.env[name];
+    if (value) {
+      values[`{{${name}}}`] = value;
+    }
+  }
+  return values;
+}
+
+async function main() {
+  const configPath =
+    process.env.ZODIAC_CONFIG_PATH || path.join(__dirname, "..", "..", "docs", "zodiac-roles-config.json");
+  const operationName = (process.env.ZODIAC_OPERATION || "call").toLowerCase();
+  if (operationName !== "call" && operationName !== "delegatecall") {
+    throw new Error(`Invalid ZODIAC_OPERATION: ${operationName} (expected call or delegatecall)`);
+  }
+  const operation: Operation = operationName === "call" ? "Call" : "DelegateCall";
+
+  const request = {
+    roleKey: requireEnv("ZODIAC_ROLE"),
+    to: requireEnv("ZODIAC_TO"),
+    data: requireEnv("ZODIAC_DATA"),
+    value: process.env.ZODIAC_VALUE || "0",
+    operation,
+  };
+
+  console.log("\n╔════════════════════════════════════════════════════════════════╗");
+  console.log("║        CYBERIA (CAP) ZODIAC PERMISSION CHECK                   ║");
+  console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+  console.log(`📄 Config:    ${configPath}`);
+  console.log(`👤 Role:      ${request.roleKey}`);
+  console.log(`🎯 Target:    ${request.to}`);
+  console.log(`📦 Calldata:  ${request.data}`);
+  console.log(`💰 Value:     ${request.value} wei (${operation})\n`);
+
+  const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  const result = checkPermission(config, request, placeholderValues());
+
+  if (result.function) {
+    console.log(`🔍 ${result.function}`);
+  }
+  for (const step of result.trace) {
+    console.log(`   ${step.passed ? "✅" : "❌"} ${step.operator}: ${step.detail}`);
+    console.log(`      ${step.path}`);
+  }
+
+  if (result.allowed) {
+    console.log(`\n✅ ALLOWED: ${result.reason}`);
+  } else {
+    console.log(`\n❌ REJECTED (${result.status}): ${result.reason}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error("\n❌ Zodiac permission check failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,160 @@
+import { ethers } from "ethers";
+import { CAPToken__factory } from "../../typechain-types";
+import { RolesPolicy, and, equalTo, greaterThan, lessThan, oneOf, pass } from "./policy";
+
+/**
+ * Cyberia treasury roles ("Board + DAO")
+ *
+ * Source of docs/zodiac-roles-config.json; edit this file, then run `npm run zodiac:generate`.
+ *
+ *   BOARD_DAILY_OPS   transfers below 50k CAP to the approved recipients
+ *   BOARD_MEDIUM_OPS  transfers between 50k and 200k CAP
+ *   DAO_LARGE_OPS     transfers above 200k CAP
+ *   DAO_TOKEN_ADMIN   CAPToken governance functions, taxes capped at 500 bp and mints at 100M CAP
+ *
+ * Addresses in {{...}} are filled in per network when the config is rendered.
+ */
+
+export const TREASURY_SAFE = "{{TREASURY_SAFE_ADDRESS}}";
+export const CAP_TOKEN = "{{CAP_TOKEN_ADDRESS}}";
+
+const BOARD_MEMBERS = [
+  "0x1234567890123456789012345678901234567890",
+  "0x2345678901234567890123456789012345678901",
+  "0x3456789012345678901234567890123456789012",
+];
+
+const BOARD_MEDIUM_MEMBERS = [
+  ...BOARD_MEMBERS,
+  "0x4567890123456789012345678901234567890123",
+  "0x5678901234567890123456789012345678901234",
+];
+
+const DAO_MEMBER = "0x7AFAa93021b4b267DBB5DA7F2721BE23Bd77eE33";
+
+/** Recipients the board may pay without a DAO vote */
+const APPROVED_RECIPIENTS = [
+  "0x1111111111111111111111111111111111111111",
+  "0x2222222222222222222222222222222222222222",
+  "0x3333333333333333333333333333333333333333",
+];
+
+export const DAILY_LIMIT = ethers.utils.parseEther("50000").toBigInt();
+export const MEDIUM_LIMIT = ethers.utils.parseEther("200000").toBigInt();
+const MAX_TAX_BP_EXCLUSIVE = 501n;
+const MAX_MINT_EXCLUSIVE = ethers.utils.parseEther("100000000").toBigInt();
+
+/** The treasury Safe target scopes ERC-20 transfers, as in the original hand-written config */
+const ERC20_TRANSFER_ABI = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+];
+
+export const CYBERIA_ROLES: RolesPolicy = {
+  chainId: 11155111,
+  meta: {
+    name: "Cyberia DAO Treasury Roles",
+    description: "Board + DAO governance configuration for Cyberia treasury management",
+    txBuilderVersion: "1.16.0",
+  },
+  createdAt: 1697123456789,
+  roles: [
+    {
+      key: "BOARD_DAILY_OPS",
+      name: "Board Daily Operations",
+      description: "Day-to-day treasury operations with spending limits",
+      members: BOARD_MEMBERS,
+      targets: [
+        {
+          address: TREASURY_SAFE,
+          abi: ERC20_TRANSFER_ABI,
+          functions: [
+            {
+              signature: "transfer(address,uint256)",
+              params: [oneOf(APPROVED_RECIPIENTS), lessThan(DAILY_LIMIT)],
+            },
+            {
+              signature: "transferFrom(address,address,uint256)",
+              params: [equalTo(TREASURY_SAFE), oneOf(APPROVED_RECIPIENTS), lessThan(DAILY_LIMIT)],
+            },
+          ],
+        },
+        {
+          address: CAP_TOKEN,
+          abi: CAPToken__factory.abi,
+          functions: [
+            {
+              signature: "transfer(address,uint256)",
+              params: [oneOf(APPROVED_RECIPIENTS), lessThan(DAILY_LIMIT)],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      key: "BOARD_MEDIUM_OPS",
+      name: "Board Medium Operations",
+      description: "Medium-value operations requiring higher threshold",
+      members: BOARD_MEDIUM_MEMBERS,
+      targets: [
+        {
+          address: TREASURY_SAFE,
+          abi: ERC20_TRANSFER_ABI,
+          functions: [
+            {
+              signature: "transfer(address,uint256)",
+              params: [pass(), and(greaterThan(DAILY_LIMIT), lessThan(MEDIUM_LIMIT))],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      key: "DAO_LARGE_OPS",
+      name: "DAO Large Operations",
+      description: "High-value transfers requiring DAO governance approval",
+      members: [DAO_MEMBER],
+      targets: [
+        {
+          address: TREASURY_SAFE,
+          abi: ERC20_TRANSFER_ABI,
+          functions: [{ signature: "transfer(address,uint256)", params: [pass(), greaterThan(MEDIUM_LIMIT)] }],
+        },
+      ],
+    },
+    {
+      key: "DAO_TOKEN_ADMIN",
+      name: "DAO Token Administration",
+      description: "CAP token administrative functions restricted to DAO",
+      members: [DAO_MEMBER],
+      targets: [
+        {
+          address: CAP_TOKEN,
+          abi: CAPToken__factory.abi,
+          functions: [
+            {
+              signature: "proposeTaxChange(uint256,uint256,uint256)",
+              params: [lessThan(MAX_TAX_BP_EXCLUSIVE), lessThan(MAX_TAX_BP_EXCLUSIVE), lessThan(MAX_TAX_BP_EXCLUSIVE)],
+            },
+            { signature: "applyTaxChange()" },
+            { signature: "cancelTaxChange()" },
+            { signature: "setFeeRecipient(address)" },
+            { signature: "addPool(address)" },
+            { signature: "removePool(address)" },
+            { signature: "proposeMint(address,uint256)", params: [pass(), lessThan(MAX_MINT_EXCLUSIVE)] },
+            { signature: "executeMint()" },
+            { signature: "cancelMint()" },
+            { signature: "upgradeToAndCall(address,bytes)" },
+            { signature: "setGovernance(address)" },
+          ],
+        },
+      ],
+    },
+  ],
+  scopeConfig: {
+    allowTargetAddress: true,
+    allowFunction: true,
+    allowTxvalue: false,
+    allowDelegateCall: false,
+  },
+};
@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CYBERIA_ROLES } from "./cyberia-roles";
+import { buildRolesConfig, serializeRolesConfig } from "./policy";
+
+/**
+ * Generate docs/zodiac-roles-config.json from the typed policy in scripts/zodiac/cyberia-roles.ts
+ *
+ * ZODIAC_CHECK=true regenerates in memory and exits with code 1 when the committed file differs
+ * (run in CI after `npm run build`, since the CAPToken ABI comes from typechain).
+ *
+ * Usage:
+ *   npm run zodiac:generate
+ *   npm run zodiac:check
+ *
+ * Optional:
+ *   ZODIAC_CONFIG_PATH  Output file (default: docs/zodiac-roles-config.json)
+ */
+
+function printDiff(expected: string, actual: string) {
+  const expectedLines = expected.split("\n");
+  const actualLines = actual.split("\n");
+  const length = Math.max(expectedLines.length, actualLines.length);
+  let shown = 0;
+
+  for (let line = 0; line < length && shown < 20; line++) {
+    if (expectedLines[line] !== actualLines[line]) {
+      console.log(`   line ${line + 1}:`);
+      console.log(`   - ${actualLines[line] ?? "(missing)"}`);
+      console.log(`   + ${expectedLines[line] ?? "(missing)"}`);
+      shown++;
+    }
+  }
+}
+
+async function main() {
+  const configPath =
+    process.env.ZODIAC_CONFIG_PATH || path.join(__dirname, "..", "..", "docs", "zodiac-roles-config.json");
+  const check = process.env.ZODIAC_CHECK === "true";
+
+  console.log("\n╔════════════════════════════════════════════════════════════════╗");
+  console.log("║        CYBERIA (CAP) ZODIAC ROLES CONFIG                       ║");
+  console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+  const config = buildRolesConfig(CYBERIA_ROLES);
+  const generated = serializeRolesConfig(config);
+  const functions = config.roles.reduce(
+    (count, role) => count + role.targets.reduce((sum, target) => sum + target.functions.length, 0),
+    0
+  );
+  console.log(`📋 ${config.roles.length} role(s), ${functions} function permission(s)`);
+
+  if (!check) {
+    fs.writeFileSync(configPath, generated);
+    console.log(`✅ Written to ${configPath}`);
+    return;
+  }
+
+  const committed = fs.existsSync(configPath) ? fs.readFileSync(configPath, "utf-8") : "";
+  if (committed === generated) {
+    console.log(`✅ ${configPath} is up to date`);
+    return;
+  }
+
+  console.error(`❌ ${configPath} differs from the policy (- committed, + generated):`);
+  printDiff(generated, committed);
+  console.error("\n   Edit scripts/zodiac/cyberia-roles.ts and run `npm run zodiac:generate`");
+  process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error("\n❌ Zodiac roles generation failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,294 @@
+import type { RolesCondition, RolesFunction, ZodiacRolesConfig } from "./policy";
+
+/**
+ * Offline Zodiac Roles permission check
+ *
+ * Decides whether the Roles modifier would let a role member execute a transaction, using only the
+ * roles config: role → target → clearance → function (by sighash) → execution options → condition
+ * tree against the decoded calldata. Statuses follow the Roles modifier's (TargetAddressNotAllowed,
+ * FunctionNotAllowed, ParameterGreaterThanAllowed, ...), and every evaluated condition is traced
+ * with its JSON path in the config, so a rejection says which limit was hit.
+ *
+ * Conditions are evaluated on static parameters (address, bool, intN/uintN, bytesN), read from their
+ * head word. Dynamic parameters, tuples and arrays only support Pass. Allowances and membership are
+ * not simulated: the caller is assumed to hold the role.
+ */
+
+export type PermissionStatus =
+  | "Ok"
+  | "RoleNotFound"
+  | "TargetAddressNotAllowed"
+  | "FunctionSignatureTooShort"
+  | "FunctionNotAllowed"
+  | "SendNotAllowed"
+  | "DelegateCallNotAllowed"
+  | "CalldataOutOfBounds"
+  | "ParameterNotAllowed"
+  | "ParameterLessThanAllowed"
+  | "ParameterGreaterThanAllowed"
+  | "OrViolation"
+  | "UnsupportedCondition";
+
+export type Operation = "Call" | "DelegateCall";
+
+export interface PermissionRequest {
+  roleKey: string;
+  to: string;
+  data: string;
+  /** Wei sent with the call (default 0) */
+  value?: bigint | string;
+  operation?: Operation;
+}
+
+export interface ConditionTrace {
+  path: string;
+  operator: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface PermissionResult {
+  allowed: boolean;
+  status: PermissionStatus;
+  reason: string;
+  /** Matched function permission, e.g. transfer(address,uint256) */
+  function?: string;
+  trace: ConditionTrace[];
+}
+
+/** Values for {{...}} placeholders in a template config, e.g. { "{{CAP_TOKEN_ADDRESS}}": "0x..." } */
+export type PlaceholderValues = Record<string, string>;
+
+const PLACEHOLDER = /^\{\{[A-Z0-9_]+\}\}$/;
+const WORD = 64;
+
+interface Verdict {
+  status: PermissionStatus;
+  detail: string;
+}
+
+function resolve(value: string, placeholders: PlaceholderValues): string | undefined {
+  if (!PLACEHOLDER.test(value)) {
+    return value;
+  }
+  return placeholders[value];
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Parameter value from its head word (ints sign-extended, bytesN left as the raw word)
+ */
+function readParameter(paramType: string, word: string): bigint {
+  const raw = BigInt(`0x${word}`);
+  if (/^Int\d*$/.test(paramType) && raw >> 255n === 1n) {
+    return raw - (1n << 256n);
+  }
+  return raw;
+}
+
+function parseCompValue(paramType: string, compValue: string, placeholders: PlaceholderValues): bigint | undefined {
+  const value = resolve(compValue, placeholders);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (/^(Uint|Int)\d*$/.test(paramType)) {
+    return BigInt(value);
+  }
+  if (paramType === "Bool" && (value === "true" || value === "false")) {
+    return value === "true" ? 1n : 0n;
+  }
+  if (/^Bytes\d+$/.test(paramType)) {
+    // bytesN is left-aligned in its word
+    return BigInt(`0x${value.slice(2).padEnd(WORD, "0")}`);
+  }
+  return BigInt(value);
+}
+
+function display(paramType: string, value: bigint): string {
+  if (paramType === "Address") {
+    return `0x${value.toString(16).padStart(40, "0")}`;
+  }
+  if (/^Bytes\d+$/.test(paramType)) {
+    return `0x${value.toString(16).padStart(WORD, "0")}`;
+  }
+  return value.toString();
+}
+
+function isStatic(paramType: string): boolean {
+  return /^(Address|Bool|Uint\d*|Int\d*|Bytes\d+)$/.test(paramType);
+}
+
+/**
+ * Evaluate one parameter condition; records every node it visits in `trace`
+ */
+function evaluateCondition(
+  condition: RolesCondition,
+  word: string,
+  label: string,
+  path: string,
+  placeholders: PlaceholderValues,
+  trace: ConditionTrace[]
+): Verdict {
+  const operator = condition.operator || "Pass";
+  const record = (verdict: Verdict): Verdict => {
+    trace.push({ path, operator, passed: verdict.status === "Ok", detail: verdict.detail });
+    return verdict;
+  };
+
+  if (operator === "Pass") {
+    return record({ status: "Ok", detail: `${label} is not restricted` });
+  }
+  if (!isStatic(condition.paramType)) {
+    return record({
+      status: "UnsupportedCondition",
+      detail: `${operator} on ${label} (${condition.paramType}) cannot be simulated`,
+    });
+  }
+
+  if (operator === "And") {
+    for (const [index, child] of (condition.children || []).entries()) {
+      const verdict = evaluateCondition(child, word, label, `${path}.children[${index}]`, placeholders, trace);
+      if (verdict.status !== "Ok") {
+        return record(verdict);
+      }
+    }
+    return record({ status: "Ok", detail: `${label} meets every And condition` });
+  }
+
+  const actual = readParameter(condition.paramType, word);
+  const shown = `${label} = ${display(condition.paramType, actual)}`;
+  const compValues = Array.isArray(condition.compValue) ? condition.compValue : [condition.compValue || ""];
+  const expected = compValues.map((value) => parseCompValue(condition.paramType, value, placeholders));
+
+  const unresolved = compValues.find((_, index) => expected[index] === undefined);
+  if (unresolved !== undefined) {
+    return record({ status: "UnsupportedCondition", detail: `${unresolved} has no value (pass the address)` });
+  }
+  const [limit] = expected as bigint[];
+
+  switch (operator) {
+    case "EqualTo":
+      return record(
+        actual === limit
+          ? { status: "Ok", detail: `${shown} is EqualTo ${compValues[0]}` }
+          : { status: "ParameterNotAllowed", detail: `${shown} is not EqualTo ${compValues[0]}` }
+      );
+    case "OneOf":
+      return record(
+        (expected as bigint[]).includes(actual)
+          ? { status: "Ok", detail: `${shown} is OneOf the allowed values` }
+          : { status: "OrViolation", detail: `${shown} is not OneOf ${compValues.join(", ")}` }
+      );
+    case "LessThan":
+      return record(
+        actual < limit
+          ? { status: "Ok", detail: `${shown} is LessThan ${compValues[0]}` }
+          : { status: "ParameterGreaterThanAllowed", detail: `${shown} is not LessThan ${compValues[0]}` }
+      );
+    case "GreaterThan":
+      return record(
+        actual > limit
+          ? { status: "Ok", detail: `${shown} is GreaterThan ${compValues[0]}` }
+          : { status: "ParameterLessThanAllowed", detail: `${shown} is not GreaterThan ${compValues[0]}` }
+      );
+    default:
+      return record({ status: "UnsupportedCondition", detail: `Unknown operator ${operator}` });
+  }
+}
+
+function checkExecutionOptions(func: RolesFunction, value: bigint, operation: Operation): Verdict | undefined {
+  const options = func.executionOptions;
+  if (value > 0n && options !== "Send" && options !== "Both") {
+    return { status: "SendNotAllowed", detail: `${func.name} may not send value (executionOptions ${options})` };
+  }
+  if (operation === "DelegateCall" && options !== "DelegateCall" && options !== "Both") {
+    return {
+      status: "DelegateCallNotAllowed",
+      detail: `${func.name} may not be delegatecalled (executionOptions ${options})`,
+    };
+  }
+  return undefined;
+}
+
+function reject(
+  status: PermissionStatus,
+  reason: string,
+  trace: ConditionTrace[] = [],
+  name?: string
+): PermissionResult {
+  return { allowed: false, status, reason, function: name, trace };
+}
+
+/**
+ * Would the Roles modifier allow `request` for its role?
+ * @param placeholders - Addresses for {{...}} placeholders when checking the unrendered template
+ */
+export function checkPermission(
+  config: ZodiacRolesConfig,
+  request: PermissionRequest,
+  placeholders: PlaceholderValues = {}
+): PermissionResult {
+  const roleIndex = config.roles.findIndex((role) => role.key === request.roleKey);
+  if (roleIndex === -1) {
+    return reject("RoleNotFound", `Role ${request.roleKey} is not in the config`);
+  }
+  const role = config.roles[roleIndex];
+
+  const targetIndex = role.targets.findIndex((target) => {
+    const address = resolve(target.address, placeholders);
+    return target.address === request.to || (address !== undefined && sameAddress(address, request.to));
+  });
+  if (targetIndex === -1) {
+    return reject("TargetAddressNotAllowed", `${request.to} is not a target of ${role.key}`);
+  }
+  const target = role.targets[targetIndex];
+  const targetPath = `$.roles[${roleIndex}].targets[${targetIndex}]`;
+  if (target.clearance === "Target") {
+    return { allowed: true, status: "Ok", reason: `${role.key} may call anything on ${request.to}`, trace: [] };
+  }
+
+  const data = request.data.toLowerCase().replace(/^0x/, "");
+  if (data.length < 8) {
+    return reject("FunctionSignatureTooShort", `Calldata ${request.data} has no function selector`);
+  }
+  const sighash = `0x${data.slice(0, 8)}`;
+  const functionIndex = target.functions.findIndex((func) => func.sighash.toLowerCase() === sighash);
+  if (functionIndex === -1) {
+    return reject("FunctionNotAllowed", `${sighash} is not allowed on ${target.address} for ${role.key}`);
+  }
+  const func = target.functions[functionIndex];
+  const functionPath = `${targetPath}.functions[${functionIndex}]`;
+
+  const notAllowed = checkExecutionOptions(func, BigInt(request.value || 0), request.operation || "Call");
+  if (notAllowed) {
+    return reject(notAllowed.status, notAllowed.detail, [], func.name);
+  }
+
+  const children = func.wildcarded || !func.condition ? [] : func.condition.children || [];
+  const words = data.slice(8);
+  const trace: ConditionTrace[] = [];
+  for (const [index, child] of children.entries()) {
+    const label = `parameter ${index} (${child.paramType})`;
+    const path = `${functionPath}.condition.children[${index}]`;
+    const word = words.slice(index * WORD, (index + 1) * WORD);
+    if (word.length < WORD) {
+      return reject("CalldataOutOfBounds", `Calldata ends before ${label}`, trace, func.name);
+    }
+
+    const verdict = evaluateCondition(child, word, label, path, placeholders, trace);
+    if (verdict.status !== "Ok") {
+      return reject(verdict.status, `${func.name} rejected for ${role.key}: ${verdict.detail}`, trace, func.name);
+    }
+  }
+
+  return {
+    allowed: true,
+    status: "Ok",
+    reason: `${func.name} allowed for ${role.key}`,
+    function: func.name,
+    trace,
+  };
+}
@@ -0,0 +1,345 @@
+import { ethers } from "ethers";
+
+/**
+ * Typed policy DSL for the Zodiac Roles config
+ *
+ * docs/zodiac-roles-config.json is generated from scripts/zodiac/cyberia-roles.ts. A policy lists
+ * roles with their members and, per target, the functions each role may call by signature, with
+ * one condition per parameter:
+ *
+ *   {
+ *     address: CAP_TOKEN,
+ *     abi: CAPToken__factory.abi,
+ *     functions: [
+ *       { signature: "transfer(address,uint256)", params: [oneOf(RECIPIENTS), lessThan(parseEther("50000"))] },
+ *       { signature: "applyTaxChange()" },
+ *     ],
+ *   }
+ *
+ * The sighash, canonical name and every paramType are taken from the target's ABI, so a misspelt
+ * signature, a condition on a missing parameter or a LessThan on an address fails the build instead
+ * of producing a permission that never matches. Output order follows the declaration order, so the
+ * same policy always yields the same JSON.
+ */
+
+export type Operator = "Pass" | "EqualTo" | "OneOf" | "LessThan" | "GreaterThan" | "And";
+
+export type ExecutionOptions = "None" | "Send" | "DelegateCall" | "Both";
+
+/** Human-readable signatures or JSON ABI entries, as accepted by ethers.utils.Interface */
+export type Abi = Exclude<ConstructorParameters<typeof ethers.utils.Interface>[0], string>;
+
+/** Address, hex value or a {{PLACEHOLDER}}; integers are bigint */
+export type CompValue = string | bigint;
+
+export type ParamCondition =
+  | { operator: "Pass" }
+  | { operator: "EqualTo"; value: CompValue }
+  | { operator: "OneOf"; values: CompValue[] }
+  | { operator: "LessThan" | "GreaterThan"; value: bigint }
+  | { operator: "And"; conditions: ParamCondition[] };
+
+export interface FunctionPolicy {
+  /** Signature or unique function name, e.g. "transfer(address,uint256)" */
+  signature: string;
+  /** One condition per ABI input; omit to allow any arguments */
+  params?: ParamCondition[];
+  executionOptions?: ExecutionOptions;
+}
+
+export interface TargetPolicy {
+  /** Target address or a {{PLACEHOLDER}} filled in when the config is rendered */
+  address: string;
+  abi: Abi;
+  functions: FunctionPolicy[];
+}
+
+export interface RolePolicy {
+  key: string;
+  name: string;
+  description: string;
+  members: string[];
+  targets: TargetPolicy[];
+}
+
+export interface ScopeConfig {
+  allowTargetAddress: boolean;
+  allowFunction: boolean;
+  allowTxvalue: boolean;
+  allowDelegateCall: boolean;
+}
+
+export interface RolesMeta {
+  name: string;
+  description: string;
+  txBuilderVersion: string;
+}
+
+export interface RolesPolicy {
+  chainId: number;
+  meta: RolesMeta;
+  /** Fixed timestamp, so regenerating does not change the file */
+  createdAt: number;
+  roles: RolePolicy[];
+  scopeConfig: ScopeConfig;
+}
+
+/** Condition node as written to docs/zodiac-roles-config.json */
+export interface RolesCondition {
+  paramType: string;
+  operator?: Operator;
+  compValue?: string | string[];
+  children?: RolesCondition[];
+}
+
+export interface RolesFunction {
+  sighash: string;
+  name: string;
+  executionOptions: ExecutionOptions;
+  wildcarded: boolean;
+  condition?: RolesCondition;
+}
+
+export interface RolesTarget {
+  address: string;
+  clearance: "Target" | "Function";
+  functions: RolesFunction[];
+}
+
+export interface RolesRole {
+  key: string;
+  name: string;
+  description: string;
+  members: string[];
+  targets: RolesTarget[];
+}
+
+export interface ZodiacRolesConfig {
+  version: string;
+  chainId: string;
+  meta: RolesMeta;
+  createdAt: number;
+  roles: RolesRole[];
+  scopeConfig: ScopeConfig;
+}
+
+export const ROLES_CONFIG_VERSION = "1.0";
+
+const PLACEHOLDER = /^\{\{[A-Z0-9_]+\}\}$/;
+
+export function pass(): ParamCondition {
+  return { operator: "Pass" };
+}
+
+export function equalTo(value: CompValue): ParamCondition {
+  return { operator: "EqualTo", value };
+}
+
+export function oneOf(values: CompValue[]): ParamCondition {
+  return { operator: "OneOf", values };
+}
+
+export function lessThan(value: bigint): ParamCondition {
+  return { operator: "LessThan", value };
+}
+
+export function greaterThan(value: bigint): ParamCondition {
+  return { operator: "GreaterThan", value };
+}
+
+export function and(...conditions: ParamCondition[]): ParamCondition {
+  return { operator: "And", conditions };
+}
+
+export function isPlaceholder(value: string): boolean {
+  return PLACEHOLDER.test(value);
+}
+
+/**
+ * Zodiac paramType for an ABI type: address → Address, uint256 → Uint256, bytes32 → Bytes32, ...
+ */
+export function paramTypeOf(param: ethers.utils.ParamType): string {
+  if (param.baseType === "tuple") {
+    return "Tuple";
+  }
+  if (param.baseType === "array") {
+    return "Array";
+  }
+  return param.type.charAt(0).toUpperCase() + param.type.slice(1);
+}
+
+function requireAddress(value: string, path: string): string {
+  if (isPlaceholder(value)) {
+    return value;
+  }
+  if (!ethers.utils.isAddress(value)) {
+    throw new Error(`${path}: invalid address ${value}`);
+  }
+  return value;
+}
+
+function encodeCompValue(param: ethers.utils.ParamType, value: CompValue, path: string): string {
+  const isInteger = param.baseType.startsWith("uint") || param.baseType.startsWith("int");
+
+  if (typeof value === "bigint") {
+    if (!isInteger) {
+      throw new Error(`${path}: integer compValue for ${param.type}`);
+    }
+    if (value < 0n && param.baseType.startsWith("uint")) {
+      throw new Error(`${path}: negative compValue for ${param.type}`);
+    }
+    return value.toString();
+  }
+
+  if (param.baseType === "address") {
+    return requireAddress(value, path);
+  }
+  if (isInteger) {
+    throw new Error(`${path}: ${param.type} compValue must be a bigint, got "${value}"`);
+  }
+  if (!isPlaceholder(value) && !ethers.utils.isHexString(value)) {
+    throw new Error(`${path}: ${param.type} compValue must be hex, got "${value}"`);
+  }
+  return value;
+}
+
+function buildCondition(param: ethers.utils.ParamType, condition: ParamCondition, path: string): RolesCondition {
+  const paramType = paramTypeOf(param);
+  if (condition.operator !== "Pass" && (param.baseType === "tuple" || param.baseType === "array")) {
+    throw new Error(`${path}: only Pass is supported on ${param.type}`);
+  }
+
+  switch (condition.operator) {
+    case "Pass":
+      return { paramType, operator: "Pass" };
+    case "EqualTo":
+      return { paramType, operator: "EqualTo", compValue: encodeCompValue(param, condition.value, path) };
+    case "OneOf":
+      if (condition.values.length < 2) {
+        throw new Error(`${path}: OneOf needs at least two values (use EqualTo)`);
+      }
+      return {
+        paramType,
+        operator: "OneOf",
+        compValue: condition.values.map((value, index) => encodeCompValue(param, value, `${path}[${index}]`)),
+      };
+    case "LessThan":
+    case "GreaterThan":
+      if (!param.baseType.startsWith("uint") && !param.baseType.startsWith("int")) {
+        throw new Error(`${path}: ${condition.operator} needs an integer parameter, not ${param.type}`);
+      }
+      return { paramType, operator: condition.operator, compValue: encodeCompValue(param, condition.value, path) };
+    case "And":
+      if (condition.conditions.length === 0) {
+        throw new Error(`${path}: And needs at least one condition`);
+      }
+      return {
+        paramType,
+        operator: "And",
+        children: condition.conditions.map((child, index) => buildCondition(param, child, `${path}.and[${index}]`)),
+      };
+  }
+}
+
+function buildFunction(iface: ethers.utils.Interface, policy: FunctionPolicy, path: string): RolesFunction {
+  let fragment: ethers.utils.FunctionFragment;
+  try {
+    fragment = iface.getFunction(policy.signature);
+  } catch (error) {
+    // ethers errors carry a short reason ("multiple matching functions") next to the full message
+    const reason = (error as { reason?: string }).reason;
+    if (reason === "no matching function") {
+      throw new Error(`${path}: ${policy.signature} is not in the target ABI`);
+    }
+    throw new Error(`${path}: ${reason || (error instanceof Error ? error.message : error)}`);
+  }
+
+  const name = fragment.format("sighash");
+  const entry: RolesFunction = {
+    sighash: iface.getSighash(fragment),
+    name,
+    executionOptions: policy.executionOptions || "None",
+    wildcarded: false,
+  };
+
+  if (policy.params) {
+    if (policy.params.length !== fragment.inputs.length) {
+      throw new Error(
+        `${path}: ${name} takes ${fragment.inputs.length} parameter(s), ${policy.params.length} condition(s) given`
+      );
+    }
+    entry.condition = {
+      paramType: "Tuple",
+      children: fragment.inputs.map((input, index) =>
+        buildCondition(input, policy.params![index], `${path}.${name}.params[${index}]`)
+      ),
+    };
+  }
+
+  return entry;
+}
+
+function buildTarget(target: TargetPolicy, path: string): RolesTarget {
+  const iface = new ethers.utils.Interface(target.abi);
+  const seen = new Set<string>();
+
+  const functions = target.functions.map((policy) => {
+    const entry = buildFunction(iface, policy, path);
+    if (seen.has(entry.sighash)) {
+      throw new Error(`${path}: ${entry.name} is declared twice`);
+    }
+    seen.add(entry.sighash);
+    return entry;
+  });
+
+  return { address: requireAddress(target.address, path), clearance: "Function", functions };
+}
+
+function buildRole(role: RolePolicy): RolesRole {
+  if (role.members.length === 0) {
+    throw new Error(`${role.key}: a role needs at least one member`);
+  }
+  const targets = new Set<string>();
+  for (const target of role.targets) {
+    if (targets.has(target.address.toLowerCase())) {
+      throw new Error(`${role.key}: target ${target.address} is declared twice`);
+    }
+    targets.add(target.address.toLowerCase());
+  }
+
+  return {
+    key: role.key,
+    name: role.name,
+    description: role.description,
+    members: role.members.map((member, index) => requireAddress(member, `${role.key}.members[${index}]`)),
+    targets: role.targets.map((target) => buildTarget(target, `${role.key}.${target.address}`)),
+  };
+}
+
+/**
+ * Build the Zodiac Roles config for a policy
+ * @throws On the first function, condition or address that does not fit the target ABI
+ */
+export function buildRolesConfig(policy: RolesPolicy): ZodiacRolesConfig {
+  const keys = new Set<string>();
+  for (const role of policy.roles) {
+    if (keys.has(role.key)) {
+      throw new Error(`Role ${role.key} is declared twice`);
+    }
+    keys.add(role.key);
+  }
+
+  return {
+    version: ROLES_CONFIG_VERSION,
+    chainId: String(policy.chainId),
+    meta: { ...policy.meta },
+    createdAt: policy.createdAt,
+    roles: policy.roles.map(buildRole),
+    scopeConfig: { ...policy.scopeConfig },
+  };
+}
+
+/** The JSON written to disk; two-space indent, no trailing newline, as in the committed file */
+export function serializeRolesConfig(config: ZodiacRolesConfig): string {
+  return JSON.stringify(config, null, 2);
+}
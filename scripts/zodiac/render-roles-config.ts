@@ -0,0 +1,72 @@
+import * as fs from "fs";
+import * as path from "path";
+import { renderRolesConfig, resolveTemplateValues, templateVariables } from "./render";
+
+/**
+ * Render docs/zodiac-roles-config.json for one network
+ *
+ * Fills the {{...}} placeholders from deployments.json and .env (see render.ts), sets chainId to
+ * the network's and writes docs/zodiac-roles-config.<network>.json, ready to import into the Safe.
+ * Refuses (exit code 1, nothing written) when the CAPToken deployment is missing or unverified or
+ * an address is not configured.
+ *
+ * Usage:
+ *   npm run zodiac:render:sepolia
+ *   npm run zodiac:render:mainnet
+ *
+ * Optional:
+ *   ZODIAC_NETWORK        Network to render for (set by the npm scripts)
+ *   ZODIAC_CONFIG_PATH    Template (default: docs/zodiac-roles-config.json)
+ *   ZODIAC_RENDER_OUTPUT  Output file (default: docs/zodiac-roles-config.<network>.json)
+ */
+
+async function main() {
+  const networkName = process.env.ZODIAC_NETWORK;
+  if (!networkName) {
+    throw new Error("ZODIAC_NETWORK not set (e.g. ZODIAC_NETWORK=sepolia)");
+  }
+  const docsDir = path.join(__dirname, "..", "..", "docs");
+  const templatePath = process.env.ZODIAC_CONFIG_PATH || path.join(docsDir, "zodiac-roles-config.json");
+  const outputPath = process.env.ZODIAC_RENDER_OUTPUT || path.join(docsDir, `zodiac-roles-config.${networkName}.json`);
+
+  console.log("\n╔════════════════════════════════════════════════════════════════╗");
+  console.log("║        CYBERIA (CAP) ZODIAC ROLES RENDER                       ║");
+  console.log("╚════════════════════════════════════════════════════════════════╝\n");
+
+  const template = JSON.parse(fs.readFileSync(templatePath, "utf-8"));
+  const variables = templateVariables(template);
+  const resolution = resolveTemplateValues(networkName, variables);
+
+  console.log(`📄 Template: ${templatePath}`);
+  console.log(`🌐 Network:  ${networkName} (chain ${resolution.chainId})\n`);
+  for (const variable of variables) {
+    const resolved = resolution.values[variable];
+    console.log(`   {{${variable}}} → ${resolved ? `${resolved.value} (${resolved.source})` : "❌ unresolved"}`);
+  }
+
+  if (resolution.problems.length > 0) {
+    console.error("\n❌ Refusing to render:");
+    resolution.problems.forEach((problem) => console.error(`   - ${problem}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const rendered = renderRolesConfig(template, resolution);
+  fs.writeFileSync(outputPath, JSON.stringify(rendered, null, 2));
+  console.log(`\n✅ Written to ${outputPath}`);
+
+  const cap = resolution.values.CAP_TOKEN_ADDRESS;
+  const safe = resolution.values.TREASURY_SAFE_ADDRESS;
+  console.log("\n📋 Validate before importing it into the Safe:");
+  console.log(
+    `   ZODIAC_CONFIG_PATH=${outputPath}` +
+      (cap ? ` CAP_TOKEN_ADDRESS=${cap.value}` : "") +
+      (safe ? ` TREASURY_SAFE_ADDRESS=${safe.value}` : "") +
+      " npm run validate:zodiac"
+  );
+}
+
+main().catch((error) => {
+  console.error("\n❌ Zodiac roles render failed:", error);
+  process.exitCode = 1;
+});
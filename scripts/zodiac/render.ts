@@ -0,0 +1,155 @@
+import { getEnvPrefix, getNetworkConfig } from "../config/environments";
+import { DeploymentRecord, getDeployment } from "../utils/deployment-tracker";
+
+/**
+ * Rendering of the Zodiac Roles config template for one network
+ *
+ * The template (docs/zodiac-roles-config.json) uses {{...}} placeholders for per-network addresses:
+ *   {{CAP_TOKEN_ADDRESS}}      latest CAPToken proxy in deployments.json, which must be verified
+ *                              (except on networks without an explorer, i.e. hardhat/localhost)
+ *   {{TREASURY_SAFE_ADDRESS}}  <PREFIX>_TREASURY_SAFE_ADDRESS, else TREASURY_SAFE_ADDRESS
+ *   {{ARAGON_DAO_ADDRESS}}     <PREFIX>_ARAGON_DAO_ADDRESS, else ARAGON_DAO_ADDRESS
+ */
+
+const PLACEHOLDER = /\{\{([A-Z0-9_]+)\}\}/g;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/** Placeholders filled from .env; CAP_TOKEN_ADDRESS only ever comes from deployments.json */
+const ENV_VARIABLES = ["TREASURY_SAFE_ADDRESS", "ARAGON_DAO_ADDRESS"];
+
+export interface TemplateValue {
+  value: string;
+  /** Where the value came from, for display */
+  source: string;
+}
+
+export interface TemplateResolution {
+  chainId: number;
+  values: Record<string, TemplateValue>;
+  /** Reasons the template cannot be rendered; empty when every placeholder resolved */
+  problems: string[];
+}
+
+/**
+ * Placeholder names used anywhere in the template, sorted
+ */
+export function templateVariables(template: unknown): string[] {
+  const found = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === "string") {
+      for (const match of value.matchAll(PLACEHOLDER)) {
+        found.add(match[1]);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (typeof value === "object" && value !== null) {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(template);
+  return [...found].sort();
+}
+
+function resolveCapToken(
+  networkName: string,
+  chainId: number,
+  record: DeploymentRecord | null,
+  problems: string[]
+): TemplateValue | undefined {
+  if (!record) {
+    problems.push(`No CAPToken deployment for ${networkName} in deployments.json`);
+    return undefined;
+  }
+  if (record.chainId !== chainId) {
+    problems.push(`CAPToken deployment for ${networkName} is on chain ${record.chainId}, expected ${chainId}`);
+    return undefined;
+  }
+  if (!record.verified && getNetworkConfig(networkName).explorerUrl !== "") {
+    problems.push(
+      `CAPToken ${record.proxyAddress} on ${networkName} is not verified (run npm run verify:${networkName})`
+    );
+    return undefined;
+  }
+  return { value: record.proxyAddress, source: "deployments.json" };
+}
+
+function resolveEnvAddress(
+  networkName: string,
+  variable: string,
+  env: typeof process.env,
+  problems: string[]
+): TemplateValue | undefined {
+  const networkVariable = `${getEnvPrefix(networkName)}_${variable}`;
+  const source = env[networkVariable] ? networkVariable : variable;
+  const value = env[source];
+
+  if (!value) {
+    problems.push(`${networkVariable} or ${variable} not set in .env`);
+    return undefined;
+  }
+  if (!ADDRESS_PATTERN.test(value)) {
+    problems.push(`Invalid ${source}: ${value}`);
+    return undefined;
+  }
+  return { value, source };
+}
+
+/**
+ * Resolve every placeholder of the template for a network
+ * @param record - CAPToken deployment (default: latest in deployments.json)
+ */
+export function resolveTemplateValues(
+  networkName: string,
+  variables: string[],
+  env: typeof process.env = process.env,
+  record: DeploymentRecord | null = getDeployment(networkName)
+): TemplateResolution {
+  const chainId = getNetworkConfig(networkName).chainId;
+  const resolution: TemplateResolution = { chainId, values: {}, problems: [] };
+
+  for (const variable of variables) {
+    let resolved: TemplateValue | undefined;
+    if (variable === "CAP_TOKEN_ADDRESS") {
+      resolved = resolveCapToken(networkName, chainId, record, resolution.problems);
+    } else if (ENV_VARIABLES.includes(variable)) {
+      resolved = resolveEnvAddress(networkName, variable, env, resolution.problems);
+    } else {
+      resolution.problems.push(`No source for {{${variable}}}`);
+    }
+
+    if (resolved) {
+      resolution.values[variable] = resolved;
+    }
+  }
+
+  return resolution;
+}
+
+/**
+ * Copy of the template with every placeholder replaced and chainId set to the network's
+ * @throws if a placeholder has no value (resolve first and refuse on problems)
+ */
+export function renderRolesConfig<T>(template: T, resolution: TemplateResolution): T {
+  const render = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return value.replace(PLACEHOLDER, (placeholder, variable: string) => {
+        const resolved = resolution.values[variable];
+        if (!resolved) {
+          throw new Error(`No value for ${placeholder}`);
+        }
+        return resolved.value;
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, render(entry)]));
+    }
+    return value;
+  };
+
+  const rendered = render(template) as T & { chainId?: unknown };
+  rendered.chainId = String(resolution.chainId);
+  return rendered;
+}
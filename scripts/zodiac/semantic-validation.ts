@@ -0,0 +1,271 @@
+import { ethers } from "ethers";
+import { TargetAbi } from "./abis";
+import { isPlaceholder, paramTypeOf } from "./policy";
+
+/**
+ * Semantic validation of a Zodiac Roles config against contract ABIs
+ *
+ * validate-zodiac-config.ts checks the shape of the file; this pass checks that it means what it
+ * says. Every issue carries the JSON path of the offending value, e.g.
+ * `$.roles[0].targets[1].functions[0].condition.children[1].compValue`:
+ *   - each sighash is the selector of its name
+ *   - each function exists on the target contract (when the target's ABI is known)
+ *   - a condition has one child per parameter, and each child's paramType matches the ABI type
+ *   - operators are known, compValues have the right shape (scalar, list) and fit the paramType
+ *     (addresses, integers in range, hex of the right length)
+ */
+
+export interface SemanticIssue {
+  path: string;
+  message: string;
+}
+
+export interface SemanticReport {
+  errors: SemanticIssue[];
+  warnings: SemanticIssue[];
+}
+
+const OPERATORS = ["Pass", "And", "Or", "EqualTo", "OneOf", "LessThan", "GreaterThan"];
+const EXECUTION_OPTIONS = ["None", "Send", "DelegateCall", "Both"];
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Range check for uintN/intN compValues
+ */
+function checkInteger(param: ethers.utils.ParamType, value: string): string | undefined {
+  if (!/^-?\d+$/.test(value)) {
+    return `${value} is not a decimal integer`;
+  }
+  const bits = BigInt(param.type.replace(/^u?int/, "") || "256");
+  const number = BigInt(value);
+  const [min, max] = param.baseType.startsWith("uint")
+    ? [0n, (1n << bits) - 1n]
+    : [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n];
+  if (number < min || number > max) {
+    return `${value} is out of range for ${param.type}`;
+  }
+  return undefined;
+}
+
+function checkCompValue(param: ethers.utils.ParamType, value: unknown, path: string, report: SemanticReport) {
+  if (typeof value !== "string") {
+    report.errors.push({ path, message: `compValue must be a string, got ${JSON.stringify(value)}` });
+    return;
+  }
+  if (isPlaceholder(value)) {
+    if (param.baseType !== "address") {
+      report.errors.push({ path, message: `placeholder ${value} used for a ${param.type} parameter` });
+    }
+    return;
+  }
+
+  let problem: string | undefined;
+  if (param.baseType === "address") {
+    problem = ethers.utils.isAddress(value) ? undefined : `${value} is not an address`;
+  } else if (param.baseType.startsWith("uint") || param.baseType.startsWith("int")) {
+    problem = checkInteger(param, value);
+  } else if (param.baseType === "bool") {
+    problem = value === "true" || value === "false" ? undefined : `${value} is not a bool`;
+  } else if (/^bytes\d+$/.test(param.baseType)) {
+    const size = Number(param.baseType.slice(5));
+    problem = ethers.utils.isHexString(value, size) ? undefined : `${value} is not ${size} bytes of hex`;
+  } else if (param.baseType === "bytes") {
+    problem = ethers.utils.isHexString(value) ? undefined : `${value} is not hex`;
+  }
+
+  if (problem) {
+    report.errors.push({ path, message: `${problem} (paramType ${paramTypeOf(param)})` });
+  }
+}
+
+function checkCondition(param: ethers.utils.ParamType, condition: unknown, path: string, report: SemanticReport) {
+  if (!isObject(condition)) {
+    report.errors.push({ path, message: "condition must be an object" });
+    return;
+  }
+
+  const expected = paramTypeOf(param);
+  if (condition.paramType !== expected) {
+    report.errors.push({
+      path: `${path}.paramType`,
+      message: `${String(condition.paramType)} does not match the ABI type ${param.type} (expected ${expected})`,
+    });
+  }
+
+  const operator = condition.operator;
+  if (typeof operator !== "string" || !OPERATORS.includes(operator)) {
+    report.errors.push({ path: `${path}.operator`, message: `unknown operator ${String(operator)}` });
+    return;
+  }
+
+  switch (operator) {
+    case "Pass":
+      if (condition.compValue !== undefined || condition.children !== undefined) {
+        report.errors.push({ path, message: "Pass takes no compValue or children" });
+      }
+      break;
+    case "And":
+    case "Or":
+      if (!Array.isArray(condition.children) || condition.children.length === 0) {
+        report.errors.push({ path: `${path}.children`, message: `${operator} needs at least one child` });
+        break;
+      }
+      condition.children.forEach((child, index) => checkCondition(param, child, `${path}.children[${index}]`, report));
+      break;
+    case "OneOf":
+      if (!Array.isArray(condition.compValue) || condition.compValue.length < 2) {
+        report.errors.push({ path: `${path}.compValue`, message: "OneOf needs a list of at least two values" });
+        break;
+      }
+      condition.compValue.forEach((value, index) =>
+        checkCompValue(param, value, `${path}.compValue[${index}]`, report)
+      );
+      break;
+    default:
+      if ((operator === "LessThan" || operator === "GreaterThan") && !/^u?int\d*$/.test(param.type)) {
+        report.errors.push({ path: `${path}.operator`, message: `${operator} needs an integer, not ${param.type}` });
+        break;
+      }
+      checkCompValue(param, condition.compValue, `${path}.compValue`, report);
+  }
+
+  if (param.baseType === "tuple" || param.baseType === "array") {
+    if (operator !== "Pass") {
+      report.warnings.push({ path, message: `${operator} on ${param.type} is not checked` });
+    }
+  }
+}
+
+/**
+ * Parse the function name, from the target ABI when known
+ */
+function resolveFunction(
+  name: string,
+  target: TargetAbi | undefined,
+  path: string,
+  report: SemanticReport
+): ethers.utils.FunctionFragment | undefined {
+  if (target) {
+    try {
+      return new ethers.utils.Interface(target.abi).getFunction(name);
+    } catch {
+      report.errors.push({ path, message: `${name} is not a function of ${target.contract}` });
+      return undefined;
+    }
+  }
+
+  try {
+    return ethers.utils.FunctionFragment.from(name);
+  } catch {
+    report.errors.push({ path, message: `${name} is not a function signature` });
+    return undefined;
+  }
+}
+
+function checkFunction(func: unknown, target: TargetAbi | undefined, path: string, report: SemanticReport) {
+  if (!isObject(func) || typeof func.name !== "string" || typeof func.sighash !== "string") {
+    report.errors.push({ path, message: "function needs a name and a sighash" });
+    return;
+  }
+
+  const fragment = resolveFunction(func.name, target, `${path}.name`, report);
+  if (fragment && fragment.format("sighash") !== func.name) {
+    report.errors.push({
+      path: `${path}.name`,
+      message: `${func.name} is not canonical (expected ${fragment.format("sighash")})`,
+    });
+  }
+
+  const selector = ethers.utils.id(func.name).slice(0, 10);
+  if (func.sighash.toLowerCase() !== selector) {
+    report.errors.push({
+      path: `${path}.sighash`,
+      message: `${func.sighash} is not the selector of ${func.name} (${selector})`,
+    });
+  }
+
+  if (func.executionOptions !== undefined && !EXECUTION_OPTIONS.includes(String(func.executionOptions))) {
+    report.errors.push({
+      path: `${path}.executionOptions`,
+      message: `unknown execution option ${String(func.executionOptions)}`,
+    });
+  }
+
+  if (func.condition === undefined || !fragment) {
+    return;
+  }
+  const condition = func.condition;
+  if (!isObject(condition) || condition.paramType !== "Tuple" || !Array.isArray(condition.children)) {
+    report.errors.push({ path: `${path}.condition`, message: "condition must be a Tuple with children" });
+    return;
+  }
+  const children: unknown[] = condition.children;
+  if (children.length !== fragment.inputs.length) {
+    report.errors.push({
+      path: `${path}.condition.children`,
+      message: `${func.name} takes ${fragment.inputs.length} parameter(s), the condition has ${children.length}`,
+    });
+    return;
+  }
+  fragment.inputs.forEach((input, index) =>
+    checkCondition(input, children[index], `${path}.condition.children[${index}]`, report)
+  );
+}
+
+/**
+ * Check every function permission of a parsed Zodiac Roles config
+ * @param targets - ABIs by target address (lowercase) or placeholder; functions on other targets
+ *                  are only checked against their own signature
+ */
+export function validateRolesSemantics(config: unknown, targets: Map<string, TargetAbi>): SemanticReport {
+  const report: SemanticReport = { errors: [], warnings: [] };
+  if (!isObject(config) || !Array.isArray(config.roles)) {
+    report.errors.push({ path: "$.roles", message: "roles must be an array" });
+    return report;
+  }
+
+  config.roles.forEach((role, roleIndex) => {
+    const rolePath = `$.roles[${roleIndex}]`;
+    if (!isObject(role) || !Array.isArray(role.targets)) {
+      return;
+    }
+
+    role.targets.forEach((target, targetIndex) => {
+      const targetPath = `${rolePath}.targets[${targetIndex}]`;
+      if (!isObject(target) || typeof target.address !== "string") {
+        return;
+      }
+      const abi = targets.get(isPlaceholder(target.address) ? target.address : target.address.toLowerCase());
+      if (!abi) {
+        report.warnings.push({
+          path: `${targetPath}.address`,
+          message: `no ABI known for ${target.address}; functions are only checked against their signature`,
+        });
+      }
+
+      const functions = Array.isArray(target.functions) ? target.functions : [];
+      const seen = new Map<string, number>();
+      functions.forEach((func, functionIndex) => {
+        const path = `${targetPath}.functions[${functionIndex}]`;
+        checkFunction(func, abi, path, report);
+
+        const sighash = isObject(func) && typeof func.sighash === "string" ? func.sighash.toLowerCase() : undefined;
+        if (sighash && seen.has(sighash)) {
+          report.errors.push({
+            path: `${path}.sighash`,
+            message: `${sighash} is already scoped at ${targetPath}.functions[${seen.get(sighash)}]`,
+          });
+        } else if (sighash) {
+          seen.set(sighash, functionIndex);
+        }
+      });
+    });
+  });
+
+  return report;
+}
@@ -0,0 +1,115 @@
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken, CAPTokenOFT, CAPTokenOFTAdapter } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { LAYERZERO_CHAINS } from "../../scripts/config/layerzero";
+import { configureAdapterPeers, configureOFTPeer } from "../../scripts/layerzero/configure-oft-peers";
+import { addressToBytes32 } from "../../scripts/sdk";
+
+/**
+ * configure-oft-peers.ts against MockLayerZeroEndpoint.
+ * The adapter ("sepolia") and an OFT ("arbitrumSepolia") live on the in-process hardhat node and are
+ * located through the env overrides; the setPeer calls go through the transaction sink.
+ */
+describe("Configure OFT peers", function () {
+  const HOME_EID = 40161;
+  const ARB_EID = 40231;
+  const OP_EID = 40232;
+  const ENV_VARS = [
+    "DEPLOYMENTS_FILE",
+    "TX_SINK",
+    "TX_SINK_SAFE",
+    "TX_SINK_OUTPUT",
+    "SEPOLIA_OFT_ADAPTER_ADDRESS",
+    "OFT_ADAPTER_ADDRESS",
+    "ARBITRUM_SEPOLIA_OFT_ADDRESS",
+  ];
+
+  let adapter: CAPTokenOFTAdapter;
+  let oft: CAPTokenOFT;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let outputDir: string;
+  let env: Record<string, string | undefined>;
+
+  before(function () {
+    env = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+  });
+
+  after(function () {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  beforeEach(async function () {
+    for (const name of ENV_VARS) {
+      delete process.env[name];
+    }
+    // Never touch the developer's deployments.json
+    outputDir = mkdtempSync(join(tmpdir(), "oft-peers-"));
+    process.env.DEPLOYMENTS_FILE = join(outputDir, "deployments.json");
+
+    [owner, treasury] = await ethers.getSigners();
+    const cap = (await upgrades.deployProxy(
+      await ethers.getContractFactory("CAPToken"),
+      [owner.address, treasury.address],
+      {
+        kind: "uups",
+        initializer: "initialize",
+      }
+    )) as unknown as CAPToken;
+    const endpoint = await (await ethers.getContractFactory("MockLayerZeroEndpoint")).deploy();
+    adapter = await (
+      await ethers.getContractFactory("CAPTokenOFTAdapter")
+    ).deploy(cap.address, endpoint.address, owner.address);
+    oft = await (await ethers.getContractFactory("CAPTokenOFT")).deploy(endpoint.address, owner.address);
+
+    process.env.SEPOLIA_OFT_ADAPTER_ADDRESS = adapter.address;
+    process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS = oft.address;
+  });
+
+  afterEach(function () {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("Should send setPeer on the adapter for every OFT it can locate", async function () {
+    await configureAdapterPeers(LAYERZERO_CHAINS.sepolia, [
+      { chainName: "Arbitrum Sepolia", eid: ARB_EID, oftAddress: oft.address },
+      { chainName: "Optimism Sepolia", eid: OP_EID, oftAddress: "" },
+    ]);
+
+    expect(await adapter.peers(ARB_EID)).to.equal(addressToBytes32(oft.address));
+    expect(await adapter.peers(OP_EID)).to.equal(ethers.constants.HashZero);
+  });
+
+  it("Should queue the OFT's setPeer towards the home adapter in a Safe batch", async function () {
+    process.env.TX_SINK = "safe";
+    process.env.TX_SINK_OUTPUT = join(outputDir, "batch.json");
+
+    await configureOFTPeer(LAYERZERO_CHAINS.arbitrumSepolia);
+
+    const batch = JSON.parse(readFileSync(process.env.TX_SINK_OUTPUT, "utf8"));
+    expect(batch.meta).to.include({
+      name: "Configure Arbitrum Sepolia OFT peer",
+      createdFromSafeAddress: owner.address,
+    });
+    expect(batch.transactions).to.deep.equal([
+      {
+        to: oft.address,
+        value: "0",
+        data: oft.interface.encodeFunctionData("setPeer", [HOME_EID, ethers.utils.hexZeroPad(adapter.address, 32)]),
+        contractMethod: null,
+        contractInputsValues: null,
+      },
+    ]);
+    expect(await oft.peers(HOME_EID)).to.equal(ethers.constants.HashZero);
+  });
+});
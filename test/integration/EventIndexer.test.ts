@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { EventStore, bindEventStore, openEventStore, queryEvents } from "../../scripts/indexer/event-store";
+import { syncEvents } from "../../scripts/indexer/indexer";
+
+/**
+ * Event indexer against the in-process hardhat node.
+ * Reorgs are simulated with evm_snapshot/evm_revert: the reverted blocks are replaced by
+ * blocks with the same numbers and different hashes.
+ */
+describe("Event indexer", function () {
+  const CONFIRMATIONS = 2;
+
+  let cap: CAPToken;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let pool: SignerWithAddress;
+  let db: EventStore;
+  let deployBlock: number;
+
+  beforeEach(async function () {
+    [owner, treasury, user1, user2, pool] = await ethers.getSigners();
+
+    deployBlock = await ethers.provider.getBlockNumber();
+    const CAP = await ethers.getContractFactory("CAPToken");
+    cap = (await upgrades.deployProxy(CAP, [owner.address, treasury.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as CAPToken;
+
+    db = openEventStore(":memory:");
+    bindEventStore(db, cap.address, 31337);
+  });
+
+  afterEach(function () {
+    db.close();
+  });
+
+  function sync() {
+    return syncEvents(db, cap.address, { fromBlock: deployBlock, confirmations: CONFIRMATIONS });
+  }
+
+  it("Should backfill decoded events", async function () {
+    await cap.addPool(pool.address);
+    await cap.transfer(user1.address, ethers.utils.parseEther("1000"));
+    await cap.proposeTaxChange(200, 200, 0);
+
+    const result = await sync();
+    expect(result.inserted).to.equal(3);
+
+    const [poolAdded, taxCollected, taxChange] = queryEvents(db);
+    expect(poolAdded.event).to.equal("PoolAdded");
+    expect(poolAdded.args.pool).to.equal(pool.address);
+
+    expect(taxCollected.event).to.equal("TaxCollected");
+    expect(taxCollected.args).to.deep.equal({
+      from: owner.address,
+      to: user1.address,
+      grossAmount: ethers.utils.parseEther("1000").toString(),
+      taxAmount: ethers.utils.parseEther("10").toString(),
+      recipient: treasury.address,
+    });
+    expect(taxCollected.blockTimestamp).to.be.greaterThan(0);
+
+    expect(taxChange.event).to.equal("TaxChangeProposed");
+    expect(taxChange.args.transferTaxBp).to.equal("200");
+  });
+
+  it("Should only index new blocks on the next sync", async function () {
+    await cap.addPool(pool.address);
+    await sync();
+
+    expect((await sync()).inserted).to.equal(0);
+
+    await cap.removePool(pool.address);
+    const result = await sync();
+    expect(result.inserted).to.equal(1);
+    expect(queryEvents(db, { event: ["PoolAdded", "PoolRemoved"] }).map((event) => event.event)).to.deep.equal([
+      "PoolAdded",
+      "PoolRemoved",
+    ]);
+  });
+
+  it("Should exclude blocks within the confirmation depth when asked", async function () {
+    await cap.addPool(pool.address);
+    await sync();
+    expect(queryEvents(db, { confirmedOnly: true })).to.have.length(0);
+
+    for (let i = 0; i < CONFIRMATIONS; i++) {
+      await ethers.provider.send("evm_mine", []);
+    }
+    await sync();
+    expect(queryEvents(db, { confirmedOnly: true })).to.have.length(1);
+  });
+
+  it("Should roll back and re-index reorged blocks", async function () {
+    await cap.addPool(pool.address);
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+    await cap.transfer(user1.address, ethers.utils.parseEther("1000"));
+    await sync();
+    expect(queryEvents(db, { event: "TaxCollected" })[0].args.to).to.equal(user1.address);
+
+    // Replace the transfer block with a different one at the same height
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await cap.transfer(user2.address, ethers.utils.parseEther("500"));
+
+    const result = await sync();
+    expect(result.reorgedFrom).to.equal(await ethers.provider.getBlockNumber());
+
+    const taxes = queryEvents(db, { event: "TaxCollected" });
+    expect(taxes).to.have.length(1);
+    expect(taxes[0].args.to).to.equal(user2.address);
+    expect(queryEvents(db, { event: "PoolAdded" })).to.have.length(1);
+  });
+
+  it("Should refuse a database bound to another contract", function () {
+    expect(() => bindEventStore(db, user1.address, 31337)).to.throw("Event database belongs to");
+    expect(() => bindEventStore(db, cap.address, 1)).to.throw("Event database belongs to");
+  });
+});
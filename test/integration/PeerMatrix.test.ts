@@ -0,0 +1,168 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken, CAPTokenOFT, CAPTokenOFTAdapter, CAPTokenOFT__factory } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { addressToBytes32 } from "../../scripts/sdk";
+import {
+  PeerEndpoint,
+  PeerNode,
+  ZERO_ADDRESS,
+  checkPeerMatrix,
+  planPeerRemovals,
+} from "../../scripts/utils/peer-matrix";
+
+/**
+ * Peer matrix against MockLayerZeroEndpoint.
+ * The adapter and two OFTs live on the in-process hardhat node under different EIDs; the registry
+ * also lists a mainnet EID (for cross-links) and a testnet EID without a deployment.
+ */
+describe("Peer matrix", function () {
+  const HOME_EID = 40161;
+  const ARB_EID = 40231;
+  const OP_EID = 40232;
+  const BASE_EID = 40245;
+  const MAINNET_EID = 30101;
+
+  let adapter: CAPTokenOFTAdapter;
+  let arbitrum: CAPTokenOFT;
+  let optimism: CAPTokenOFT;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let stranger: SignerWithAddress;
+  let nodes: PeerNode[];
+  let remotes: PeerEndpoint[];
+
+  beforeEach(async function () {
+    [owner, treasury, stranger] = await ethers.getSigners();
+
+    const cap = (await upgrades.deployProxy(
+      await ethers.getContractFactory("CAPToken"),
+      [owner.address, treasury.address],
+      {
+        kind: "uups",
+        initializer: "initialize",
+      }
+    )) as unknown as CAPToken;
+    const endpoint = await (await ethers.getContractFactory("MockLayerZeroEndpoint")).deploy();
+    adapter = await (
+      await ethers.getContractFactory("CAPTokenOFTAdapter")
+    ).deploy(cap.address, endpoint.address, owner.address);
+    const OFTFactory = await ethers.getContractFactory("CAPTokenOFT");
+    arbitrum = await OFTFactory.deploy(endpoint.address, owner.address);
+    optimism = await OFTFactory.deploy(endpoint.address, owner.address);
+
+    const node = (
+      name: string,
+      network: string,
+      eid: number,
+      contract: CAPTokenOFTAdapter | CAPTokenOFT
+    ): PeerNode => ({
+      name,
+      network,
+      eid,
+      isTestnet: true,
+      address: contract.address,
+      kind: eid === HOME_EID ? "CAPTokenOFTAdapter" : "CAPTokenOFT",
+      provider: ethers.provider,
+    });
+    nodes = [
+      node("Sepolia", "sepolia", HOME_EID, adapter),
+      node("Arbitrum Sepolia", "arbitrumSepolia", ARB_EID, arbitrum),
+      node("Optimism Sepolia", "optimismSepolia", OP_EID, optimism),
+    ];
+    remotes = [
+      ...nodes.map(({ name, network, eid, isTestnet, address }) => ({ name, network, eid, isTestnet, address })),
+      { name: "Base Sepolia", network: "baseSepolia", eid: BASE_EID, isTestnet: true },
+      { name: "Ethereum", network: "mainnet", eid: MAINNET_EID, isTestnet: false, address: stranger.address },
+    ];
+
+    // Hub and spoke: the adapter and each OFT trust each other
+    for (const [eid, oft] of [
+      [ARB_EID, arbitrum],
+      [OP_EID, optimism],
+    ] as const) {
+      await adapter.setPeer(eid, addressToBytes32(oft.address));
+      await oft.setPeer(HOME_EID, addressToBytes32(adapter.address));
+    }
+  });
+
+  function decodeSetPeer(data: string): [number, string] {
+    const [eid, peer] = CAPTokenOFT__factory.createInterface().decodeFunctionData("setPeer", data);
+    return [Number(eid), peer];
+  }
+
+  it("Should accept a symmetric mesh of registered contracts", async function () {
+    await arbitrum.setPeer(OP_EID, addressToBytes32(optimism.address));
+    await optimism.setPeer(ARB_EID, addressToBytes32(arbitrum.address));
+
+    const report = await checkPeerMatrix(nodes, remotes);
+    expect(report.ok).to.equal(true);
+    expect(report.findings).to.deep.equal([]);
+    expect(report.matrix.peers[HOME_EID]).to.deep.equal({
+      [ARB_EID]: arbitrum.address.toLowerCase(),
+      [OP_EID]: optimism.address.toLowerCase(),
+    });
+  });
+
+  it("Should flag a one-way peer on the side that does not trust back", async function () {
+    await arbitrum.setPeer(OP_EID, addressToBytes32(optimism.address));
+
+    const report = await checkPeerMatrix(nodes, remotes);
+    expect(report.ok).to.equal(false);
+    expect(report.findings.map((finding) => [finding.issue, finding.from.eid, finding.to.eid])).to.deep.equal([
+      ["asymmetric", OP_EID, ARB_EID],
+    ]);
+
+    const [fix] = report.fixes;
+    expect(fix.network).to.equal("optimismSepolia");
+    expect(fix.oapp).to.equal(optimism.address);
+    expect(decodeSetPeer(fix.data)).to.deep.equal([ARB_EID, addressToBytes32(arbitrum.address)]);
+  });
+
+  it("Should point unregistered peers at the registered contract, or remove them", async function () {
+    await arbitrum.setPeer(HOME_EID, addressToBytes32(stranger.address));
+    await optimism.setPeer(BASE_EID, addressToBytes32(stranger.address));
+
+    const report = await checkPeerMatrix(nodes, remotes);
+    expect(report.findings.map((finding) => [finding.issue, finding.from.eid, finding.to.eid])).to.deep.equal([
+      ["unregistered", ARB_EID, HOME_EID],
+      ["unregistered", OP_EID, BASE_EID],
+    ]);
+    expect(report.fixes.map((fix) => decodeSetPeer(fix.data))).to.deep.equal([
+      [HOME_EID, addressToBytes32(adapter.address)],
+      [BASE_EID, addressToBytes32(ZERO_ADDRESS)],
+    ]);
+  });
+
+  it("Should remove mainnet peers from testnet contracts", async function () {
+    await adapter.setPeer(MAINNET_EID, addressToBytes32(stranger.address));
+
+    const report = await checkPeerMatrix(nodes, remotes);
+    expect(report.findings).to.have.length(1);
+    expect(report.findings[0].issue).to.equal("cross-network");
+    expect(report.findings[0].message).to.include("testnet contract trusts");
+    expect(report.fixes[0].network).to.equal("sepolia");
+    expect(decodeSetPeer(report.fixes[0].data)).to.deep.equal([MAINNET_EID, addressToBytes32(ZERO_ADDRESS)]);
+  });
+
+  it("Should plan the removal of every unexpected peer on one contract", async function () {
+    const [arbitrumNode] = nodes.filter((node) => node.eid === ARB_EID);
+    await arbitrum.setPeer(MAINNET_EID, addressToBytes32(stranger.address));
+    await arbitrum.setPeer(BASE_EID, addressToBytes32(stranger.address));
+    await arbitrum.setPeer(OP_EID, addressToBytes32(stranger.address));
+
+    // Only the contract being cleaned up is read, as in remove-stale-peer.ts
+    const report = await checkPeerMatrix([arbitrumNode], remotes);
+    const removals = planPeerRemovals(report, arbitrumNode);
+    expect(removals.map((fix) => decodeSetPeer(fix.data))).to.deep.equal([
+      [OP_EID, addressToBytes32(ZERO_ADDRESS)],
+      [BASE_EID, addressToBytes32(ZERO_ADDRESS)],
+      [MAINNET_EID, addressToBytes32(ZERO_ADDRESS)],
+    ]);
+    expect(removals.every((fix) => fix.oapp === arbitrum.address)).to.equal(true);
+
+    await arbitrum.setPeer(OP_EID, addressToBytes32(optimism.address));
+    const kept = planPeerRemovals(await checkPeerMatrix([arbitrumNode], remotes), arbitrumNode);
+    expect(kept.map((fix) => fix.eid)).to.deep.equal([BASE_EID, MAINNET_EID]);
+  });
+});
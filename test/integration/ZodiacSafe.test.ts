@@ -1,16 +1,18 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
 import { CAPToken } from "../../typechain-types";
-import { Signer } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import zodiacConfig from "../../docs/zodiac-roles-config.json";
+import type { ZodiacRolesConfig } from "../../scripts/zodiac/policy";
+import { PermissionRequest, checkPermission } from "../../scripts/zodiac/permissions";
 
 describe("Zodiac Safe Integration Tests", function () {
   let cap: CAPToken;
-  let owner: Signer;
-  let treasury: Signer;
-  let daoAddress: Signer;
-  let boardMember1: Signer;
-  let user: Signer;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let daoAddress: SignerWithAddress;
+  let boardMember1: SignerWithAddress;
+  let user: SignerWithAddress;
 
   // Simulated Safe address (in real scenario, this would be actual Safe contract)
   let safeAddress: string;
@@ -298,6 +300,129 @@ describe("Zodiac Safe Integration Tests", function () {
     });
   });
 
+  describe("Zodiac Roles Permission Evaluator", function () {
+    const config = zodiacConfig as unknown as ZodiacRolesConfig;
+    const approvedRecipient = "0x1111111111111111111111111111111111111111";
+    const unknownRecipient = "0x9999999999999999999999999999999999999999";
+
+    function check(roleKey: string, to: string, data: string, extra: Partial<PermissionRequest> = {}) {
+      return checkPermission(
+        config,
+        { roleKey, to, data, ...extra },
+        { "{{CAP_TOKEN_ADDRESS}}": cap.address, "{{TREASURY_SAFE_ADDRESS}}": safeAddress }
+      );
+    }
+
+    function transfer(to: string, amount: string) {
+      return cap.interface.encodeFunctionData("transfer", [to, ethers.utils.parseEther(amount)]);
+    }
+
+    describe("BOARD_DAILY_OPS (OneOf recipients, LessThan 50k CAP)", function () {
+      it("Should allow a 30k CAP transfer to an approved recipient", function () {
+        const result = check("BOARD_DAILY_OPS", cap.address, transfer(approvedRecipient, "30000"));
+
+        expect(result.allowed).to.be.true;
+        expect(result.function).to.equal("transfer(address,uint256)");
+        expect(result.trace.map((step) => step.path)).to.deep.equal([
+          "$.roles[0].targets[1].functions[0].condition.children[0]",
+          "$.roles[0].targets[1].functions[0].condition.children[1]",
+        ]);
+      });
+
+      it("Should reject a transfer above the LessThan 50000e18 limit with a reason", function () {
+        const result = check("BOARD_DAILY_OPS", cap.address, transfer(approvedRecipient, "60000"));
+
+        expect(result.allowed).to.be.false;
+        expect(result.status).to.equal("ParameterGreaterThanAllowed");
+        expect(result.reason).to.equal(
+          "transfer(address,uint256) rejected for BOARD_DAILY_OPS: parameter 1 (Uint256) = 60000000000000000000000 " +
+            "is not LessThan 50000000000000000000000"
+        );
+        expect(result.trace[1]).to.include({
+          path: "$.roles[0].targets[1].functions[0].condition.children[1]",
+          operator: "LessThan",
+          passed: false,
+        });
+      });
+
+      it("Should reject exactly 50k CAP (LessThan is strict)", function () {
+        const result = check("BOARD_DAILY_OPS", cap.address, transfer(approvedRecipient, "50000"));
+        expect(result.status).to.equal("ParameterGreaterThanAllowed");
+      });
+
+      it("Should reject a recipient outside the OneOf list", function () {
+        const result = check("BOARD_DAILY_OPS", cap.address, transfer(unknownRecipient, "1000"));
+
+        expect(result.status).to.equal("OrViolation");
+        expect(result.trace).to.have.length(1);
+      });
+
+      it("Should check transferFrom against the Safe placeholder (EqualTo)", function () {
+        const amount = ethers.utils.parseEther("1000");
+        const fromSafe = cap.interface.encodeFunctionData("transferFrom", [safeAddress, approvedRecipient, amount]);
+        const fromUser = cap.interface.encodeFunctionData("transferFrom", [user.address, approvedRecipient, amount]);
+
+        expect(check("BOARD_DAILY_OPS", safeAddress, fromSafe).allowed).to.be.true;
+        expect(check("BOARD_DAILY_OPS", safeAddress, fromUser).status).to.equal("ParameterNotAllowed");
+      });
+
+      it("Should reject functions, targets, value and delegatecalls outside the role", function () {
+        const approve = cap.interface.encodeFunctionData("approve", [approvedRecipient, 1]);
+        const small = transfer(approvedRecipient, "1000");
+
+        expect(check("BOARD_DAILY_OPS", cap.address, approve).status).to.equal("FunctionNotAllowed");
+        expect(check("BOARD_DAILY_OPS", user.address, small).status).to.equal("TargetAddressNotAllowed");
+        expect(check("BOARD_DAILY_OPS", cap.address, small, { value: 1n }).status).to.equal("SendNotAllowed");
+        expect(check("BOARD_DAILY_OPS", cap.address, small, { operation: "DelegateCall" }).status).to.equal(
+          "DelegateCallNotAllowed"
+        );
+        expect(check("BOARD_DAILY_OPS", cap.address, "0x1234").status).to.equal("FunctionSignatureTooShort");
+        expect(check("UNKNOWN_ROLE", cap.address, small).status).to.equal("RoleNotFound");
+      });
+    });
+
+    describe("BOARD_MEDIUM_OPS and DAO_LARGE_OPS (GreaterThan / And ranges)", function () {
+      it("Should allow 50k-200k CAP for BOARD_MEDIUM_OPS only inside the range", function () {
+        expect(check("BOARD_MEDIUM_OPS", safeAddress, transfer(unknownRecipient, "100000")).allowed).to.be.true;
+        expect(check("BOARD_MEDIUM_OPS", safeAddress, transfer(unknownRecipient, "30000")).status).to.equal(
+          "ParameterLessThanAllowed"
+        );
+        expect(check("BOARD_MEDIUM_OPS", safeAddress, transfer(unknownRecipient, "250000")).status).to.equal(
+          "ParameterGreaterThanAllowed"
+        );
+      });
+
+      it("Should allow only transfers above 200k CAP for DAO_LARGE_OPS", function () {
+        expect(check("DAO_LARGE_OPS", safeAddress, transfer(unknownRecipient, "250000")).allowed).to.be.true;
+        expect(check("DAO_LARGE_OPS", safeAddress, transfer(unknownRecipient, "100000")).status).to.equal(
+          "ParameterLessThanAllowed"
+        );
+      });
+    });
+
+    describe("DAO_TOKEN_ADMIN (LessThan 501 bp, LessThan 100M CAP mint)", function () {
+      it("Should allow taxes up to 500 bp and reject 501 bp", function () {
+        const atLimit = cap.interface.encodeFunctionData("proposeTaxChange", [500, 300, 50]);
+        const aboveLimit = cap.interface.encodeFunctionData("proposeTaxChange", [501, 300, 50]);
+
+        expect(check("DAO_TOKEN_ADMIN", cap.address, atLimit).allowed).to.be.true;
+        const result = check("DAO_TOKEN_ADMIN", cap.address, aboveLimit);
+        expect(result.status).to.equal("ParameterGreaterThanAllowed");
+        expect(result.reason).to.contain("parameter 0 (Uint256) = 501 is not LessThan 501");
+      });
+
+      it("Should cap proposeMint below 100M CAP and allow unconditioned admin functions", function () {
+        const mint = (amount: string) =>
+          cap.interface.encodeFunctionData("proposeMint", [user.address, ethers.utils.parseEther(amount)]);
+
+        expect(check("DAO_TOKEN_ADMIN", cap.address, mint("1000000")).allowed).to.be.true;
+        expect(check("DAO_TOKEN_ADMIN", cap.address, mint("100000000")).status).to.equal("ParameterGreaterThanAllowed");
+        expect(check("DAO_TOKEN_ADMIN", cap.address, cap.interface.encodeFunctionData("applyTaxChange")).allowed).to.be
+          .true;
+      });
+    });
+  });
+
   describe("Complete Governance Workflow Simulation", function () {
     beforeEach(async function () {
       // Give DAO some tokens before transferring governance
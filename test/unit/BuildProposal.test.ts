@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { CAPToken__factory } from "../../typechain-types";
+import { buildCapAction, buildProposal, toDaoActions } from "../../scripts/dao/build-proposal";
+
+describe("DAO proposal builder", function () {
+  const CAP_TOKEN = "0xA6B680A88c16056de7194CF775D04A45D0692C11";
+  const POOL = "0x1111111111111111111111111111111111111111";
+  const capInterface = CAPToken__factory.createInterface();
+
+  it("Should encode a governance call into an IDAO.Action", function () {
+    const action = buildCapAction(CAP_TOKEN, { method: "proposeTaxChange", args: [100, 50, 0] });
+
+    expect(action.to).to.equal(CAP_TOKEN);
+    expect(action.value).to.equal("0");
+    expect(action.data).to.equal(capInterface.encodeFunctionData("proposeTaxChange", [100, 50, 0]));
+    expect(action.description).to.contain("24h timelock");
+  });
+
+  it("Should checksum addresses and format mint amounts", function () {
+    const amount = ethers.utils.parseEther("1000").toString();
+    const action = buildCapAction(CAP_TOKEN, { method: "proposeMint", args: [POOL, amount] });
+
+    expect(action.args).to.deep.equal([ethers.utils.getAddress(POOL), amount]);
+    expect(action.description).to.equal(`Propose mint of 1000.0 CAP to ${POOL} (7d timelock)`);
+    expect(capInterface.decodeFunctionData("proposeMint", action.data)[1].toString()).to.equal(amount);
+  });
+
+  it("Should reject calls that would revert", function () {
+    expect(() => buildCapAction(CAP_TOKEN, { method: "addPool", args: ["0x1234"] })).to.throw(
+      "addPool: invalid address 0x1234"
+    );
+    expect(() => buildCapAction(CAP_TOKEN, { method: "proposeTaxChange", args: [600, 0, 0] })).to.throw(
+      "proposeTaxChange would revert"
+    );
+    expect(() => buildCapAction(CAP_TOKEN, { method: "upgradeToAndCall", args: [POOL, "not-hex"] })).to.throw(
+      "init data must be hex"
+    );
+  });
+
+  it("Should build a proposal and strip it to DAO actions", function () {
+    const proposal = buildProposal(
+      { title: "Register pool", actions: [{ method: "addPool", args: [POOL] }, { method: "applyTaxChange" }] },
+      { network: "sepolia", chainId: 11155111, capToken: CAP_TOKEN }
+    );
+
+    expect(proposal.actions.map((action) => action.method)).to.deep.equal(["addPool", "applyTaxChange"]);
+    expect(toDaoActions(proposal)).to.deep.equal([
+      { to: CAP_TOKEN, value: "0", data: capInterface.encodeFunctionData("addPool", [POOL]) },
+      { to: CAP_TOKEN, value: "0", data: capInterface.encodeFunctionData("applyTaxChange") },
+    ]);
+  });
+});
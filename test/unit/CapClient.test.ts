@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken, CAPTokenOFT, CAPTokenOFTAdapter, MockLayerZeroEndpoint } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { CapBridge, CapClient, addressToBytes32 } from "../../scripts/sdk";
+
+describe("CAP SDK", function () {
+  const CAP = 10n ** 18n;
+  const OFT_EID = 40231;
+  const HOME_EID = 40161;
+
+  let cap: CAPToken;
+  let client: CapClient;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let pool: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, treasury, user1, user2, pool] = await ethers.getSigners();
+
+    const CAPFactory = await ethers.getContractFactory("CAPToken");
+    cap = (await upgrades.deployProxy(CAPFactory, [owner.address, treasury.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as CAPToken;
+
+    await cap.addPool(pool.address);
+    await cap.transfer(user1.address, ethers.utils.parseEther("10000"));
+
+    client = await CapClient.connect(cap.address, owner);
+  });
+
+  async function expectRejection(promise: Promise<unknown>, message: string) {
+    try {
+      await promise;
+    } catch (error) {
+      expect(String(error)).to.include(message);
+      return;
+    }
+    expect.fail(`Expected a rejection with "${message}"`);
+  }
+
+  describe("CapClient", function () {
+    it("Should refuse a contract that is not the CAP token", async function () {
+      const endpoint = await (await ethers.getContractFactory("MockLayerZeroEndpoint")).deploy();
+      await expectRejection(CapClient.connect(endpoint.address, owner), "Failed to connect to contract");
+    });
+
+    it("Should quote transfers with the current taxes and pool registry", async function () {
+      const amount = 1000n * CAP;
+
+      const transfer = await client.quoteTransfer(user1.address, user2.address, amount);
+      expect(transfer).to.include({ kind: "transfer", taxBp: 100, taxAmount: 10n * CAP, taxDestination: "recipient" });
+
+      const sell = await client.quoteTransfer(user1.address, pool.address, amount);
+      expect(sell).to.include({ kind: "sell", taxBp: 200, sendAmount: 980n * CAP });
+
+      await cap.connect(user1).transfer(pool.address, amount.toString());
+      expect(await client.balanceOf(pool.address)).to.equal(sell.sendAmount);
+    });
+
+    it("Should report pending tax changes and mints", async function () {
+      const idle = await client.getGovernanceState();
+      expect(idle).to.deep.include({
+        governance: owner.address,
+        feeRecipient: treasury.address,
+        taxes: { transfer: 100, sell: 100, buy: 0 },
+        pendingTaxChange: null,
+        pendingMint: null,
+      });
+
+      await cap.proposeTaxChange(200, 150, 50);
+      await cap.proposeMint(user2.address, ethers.utils.parseEther("5000"));
+      const now = await client.latestTimestamp();
+
+      const pending = await client.getGovernanceState();
+      expect(pending.pendingTaxChange).to.deep.equal({
+        taxes: { transfer: 200, sell: 150, buy: 50 },
+        executableAt: BigInt((await cap.taxChangeTimestamp()).toString()),
+      });
+      expect(pending.pendingMint).to.deep.equal({
+        to: user2.address,
+        amount: 5000n * CAP,
+        executableAt: now + 7n * 86400n,
+      });
+    });
+
+    it("Should compute the mint window from the contract state", async function () {
+      await cap.proposeMint(user2.address, ethers.utils.parseEther("1000000"));
+      await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await cap.executeMint();
+
+      const status = await client.getMintStatus();
+      expect(status.state.mintedInCurrentPeriod).to.equal(1_000_000n * CAP);
+      expect(status.window.remaining).to.equal(99_000_000n * CAP);
+      expect(status.window.rolledOver).to.equal(false);
+
+      // One period later the rollover frees the full allowance again
+      const later = await client.getMintStatus(status.now + status.limits.period);
+      expect(later.window.rolledOver).to.equal(true);
+      expect(later.window.remaining).to.equal(status.limits.capPerPeriod);
+    });
+  });
+
+  describe("CapBridge", function () {
+    let endpoint: MockLayerZeroEndpoint;
+    let adapter: CAPTokenOFTAdapter;
+    let oft: CAPTokenOFT;
+
+    beforeEach(async function () {
+      endpoint = await (await ethers.getContractFactory("MockLayerZeroEndpoint")).deploy();
+      adapter = await (
+        await ethers.getContractFactory("CAPTokenOFTAdapter")
+      ).deploy(cap.address, endpoint.address, owner.address);
+      oft = await (await ethers.getContractFactory("CAPTokenOFT")).deploy(endpoint.address, owner.address);
+
+      await adapter.setPeer(OFT_EID, addressToBytes32(oft.address));
+      await oft.setPeer(HOME_EID, addressToBytes32(adapter.address));
+    });
+
+    it("Should detect the adapter and the OFT", async function () {
+      const home = await CapBridge.connect(adapter.address, user1);
+      expect(home.kind).to.equal("CAPTokenOFTAdapter");
+      expect(home.cap?.address).to.equal(cap.address);
+
+      const remote = await CapBridge.connect(oft.address, user1);
+      expect(remote.kind).to.equal("CAPTokenOFT");
+      expect(remote.cap).to.equal(undefined);
+    });
+
+    it("Should set minAmountLD from the transfer tax and the shared decimals", async function () {
+      const bridge = await CapBridge.connect(adapter.address, user1);
+      const amountLD = 100n * CAP + 123n;
+
+      const quote = await bridge.quote({ dstEid: OFT_EID, to: user2.address, amountLD });
+      const taxAmount = (amountLD * 100n) / 10000n;
+      const dustFree = ((amountLD - taxAmount) / 10n ** 12n) * 10n ** 12n;
+
+      expect(quote.taxAmountLD).to.equal(taxAmount);
+      expect(quote.amountReceivedLD).to.equal(dustFree);
+      expect(quote.sendParam).to.include({ amountLD, minAmountLD: dustFree, to: addressToBytes32(user2.address) });
+
+      const tolerant = await bridge.quote({ dstEid: OFT_EID, to: user2.address, amountLD, slippageBp: 50 });
+      expect(tolerant.sendParam.minAmountLD).to.equal((dustFree * 9950n) / 10000n);
+    });
+
+    it("Should approve, send and return the LayerZero GUID", async function () {
+      const bridge = await CapBridge.connect(adapter.address, user1);
+      const quote = await bridge.quote({ dstEid: OFT_EID, to: user2.address, amountLD: 100n * CAP });
+
+      const receipt = await bridge.send(quote);
+      expect(receipt.approvalHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(receipt.guid).to.match(/^0x[0-9a-f]{64}$/);
+      expect(receipt.amountSentLD).to.equal(100n * CAP);
+      expect(receipt.amountReceivedLD).to.equal(99n * CAP);
+      expect(BigInt((await cap.balanceOf(adapter.address)).toString())).to.equal(99n * CAP);
+    });
+
+    it("Should quote the taxed unlock against maxInboundSlippageBp", async function () {
+      const bridge = await CapBridge.connect(adapter.address, user1);
+
+      const unlock = await bridge.quoteUnlock(user2.address, 100n * CAP);
+      expect(unlock.amountReceivedLD).to.equal(99n * CAP);
+      expect(unlock.minInboundLD).to.equal(95n * CAP);
+      expect(unlock.withinSlippage).to.equal(true);
+
+      // With a 0.5% tolerance the 1% transfer tax would make _credit revert
+      await adapter.setMaxInboundSlippage(50);
+      const strict = await bridge.quoteUnlock(user2.address, 100n * CAP);
+      expect(strict.minInboundLD).to.equal((100n * CAP * 9950n) / 10000n);
+      expect(strict.withinSlippage).to.equal(false);
+
+      const remote = await CapBridge.connect(oft.address, user1);
+      await expectRejection(remote.quoteUnlock(user2.address, CAP), "only the OFTAdapter unlocks CAP");
+    });
+
+    it("Should quote OFT sends without tax and refuse unknown peers", async function () {
+      const bridge = await CapBridge.connect(oft.address, user1);
+
+      const quote = await bridge.quote({ dstEid: HOME_EID, to: user1.address, amountLD: 5n * CAP + 1n });
+      expect(quote.amountSentLD).to.equal(5n * CAP);
+      expect(quote.amountReceivedLD).to.equal(5n * CAP);
+      expect(quote.taxAmountLD).to.equal(0n);
+
+      await expectRejection(
+        bridge.quote({ dstEid: 30101, to: user1.address, amountLD: CAP }),
+        "has no peer for EID 30101"
+      );
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { CapSnapshot, diffCapSnapshots, isExpectedChange } from "../../scripts/utils/cap-snapshot";
+
+describe("CAP snapshot diff", function () {
+  const HOLDER = "0x1111111111111111111111111111111111111111";
+  const POOL = "0x2222222222222222222222222222222222222222";
+
+  function snapshot(): CapSnapshot {
+    return {
+      block: 100,
+      token: {
+        name: "Cyberia",
+        symbol: "CAP",
+        decimals: "18",
+        totalSupply: "1000000000000000000000000000",
+        governance: HOLDER,
+        feeRecipient: HOLDER,
+      },
+      taxes: { transfer: "100", sell: "100", buy: "0" },
+      pendingTax: { transfer: "0", sell: "0", buy: "0", effectiveTime: "0" },
+      pendingMint: { to: "0x0000000000000000000000000000000000000000", amount: "0", effectiveTime: "0" },
+      mintPeriod: { start: "0", minted: "0" },
+      pools: { [POOL]: "true" },
+      holders: {
+        [HOLDER]: {
+          balance: "1000",
+          votes: "1000",
+          delegate: HOLDER,
+          numCheckpoints: "1",
+          lastCheckpoint: "10:1000",
+          nonce: "0",
+        },
+      },
+    };
+  }
+
+  /** Dotted paths of every leaf except the block number */
+  function leafPaths(value: unknown, prefix = ""): string[] {
+    if (value !== null && typeof value === "object") {
+      return Object.entries(value).flatMap(([key, child]) => leafPaths(child, prefix ? `${prefix}.${key}` : key));
+    }
+    return prefix === "block" ? [] : [prefix];
+  }
+
+  /** Object holding the leaf at `path`, and the leaf's key */
+  function leafOf(target: CapSnapshot, path: string): [Record<string, string>, string] {
+    const keys = path.split(".");
+    const parent = keys
+      .slice(0, -1)
+      .reduce((node, key) => node[key] as Record<string, unknown>, target as unknown as Record<string, unknown>);
+    return [parent as Record<string, string>, keys[keys.length - 1]];
+  }
+
+  it("Should find no changes between equal snapshots, whatever the block", function () {
+    expect(diffCapSnapshots(snapshot(), snapshot())).to.deep.equal([]);
+    expect(diffCapSnapshots(snapshot(), { ...snapshot(), block: 200 })).to.deep.equal([]);
+  });
+
+  it("Should report each changed field by its path", function () {
+    const paths = leafPaths(snapshot());
+    expect(paths).to.include.members(["token.totalSupply", "taxes.sell", `pools.${POOL}`, `holders.${HOLDER}.nonce`]);
+
+    for (const path of paths) {
+      const after = snapshot();
+      const [parent, key] = leafOf(after, path);
+      const before = parent[key];
+      parent[key] = "changed";
+
+      expect(diffCapSnapshots(snapshot(), after), path).to.deep.equal([{ path, before, after: "changed" }]);
+    }
+  });
+
+  it("Should report holders and pools that appear or disappear", function () {
+    const after = snapshot();
+    after.pools = {};
+    after.holders["0x3333333333333333333333333333333333333333"] = { ...after.holders[HOLDER], balance: "5" };
+
+    const changes = diffCapSnapshots(snapshot(), after);
+    expect(changes).to.deep.include({ path: `pools.${POOL}`, before: "true", after: undefined });
+    expect(changes).to.deep.include({
+      path: "holders.0x3333333333333333333333333333333333333333.balance",
+      before: undefined,
+      after: "5",
+    });
+    expect(changes).to.have.length(7);
+  });
+
+  it("Should match expected changes by path or path prefix", function () {
+    const change = { path: "taxes.sell", before: "100", after: "200" };
+
+    expect(isExpectedChange(change, ["taxes.sell"])).to.equal(true);
+    expect(isExpectedChange(change, ["taxes"])).to.equal(true);
+    expect(isExpectedChange(change, ["tax", "taxes.buy"])).to.equal(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DEPLOYMENTS_SCHEMA_VERSION,
+  DeploymentRecord,
+  DeploymentsFile,
+  OFTDeploymentRecord,
+  getDeployment,
+  listDeployments,
+  loadDeployments,
+  migrateDeployments,
+  saveDeployment,
+} from "../../scripts/utils/deployment-tracker";
+
+describe("Deployment tracker", function () {
+  let DEPLOYMENTS_FILE: string;
+  let env: string | undefined;
+
+  const PROXY = "0xA6B680A88c16056de7194CF775D04A45D0692C11";
+  const IMPL_V1 = "0x1111111111111111111111111111111111111111";
+  const IMPL_V2 = "0x2222222222222222222222222222222222222222";
+
+  function capRecord(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+    return {
+      network: "sepolia",
+      chainId: 11155111,
+      timestamp: "2025-01-01T00:00:00.000Z",
+      proxyAddress: PROXY,
+      implementationAddress: IMPL_V1,
+      deployer: IMPL_V1,
+      owner: IMPL_V1,
+      feeRecipient: IMPL_V1,
+      txHash: "0x01",
+      blockNumber: 100,
+      verified: false,
+      ...overrides,
+    };
+  }
+
+  const oftRecord: OFTDeploymentRecord = {
+    network: "arbitrumSepolia",
+    chainId: 421614,
+    timestamp: "2025-01-05T00:00:00.000Z",
+    address: "0x3333333333333333333333333333333333333333",
+    deployer: IMPL_V1,
+    owner: IMPL_V1,
+    eid: 40231,
+    endpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
+    peers: {},
+    txHash: "0x04",
+    blockNumber: 500,
+    verified: false,
+  };
+
+  const history: DeploymentsFile = {
+    version: DEPLOYMENTS_SCHEMA_VERSION,
+    deployments: {
+      sepolia: {
+        chainId: 11155111,
+        history: [
+          {
+            action: "deploy",
+            contract: "CAPToken",
+            timestamp: "2025-01-01T00:00:00.000Z",
+            txHash: "0x01",
+            record: capRecord(),
+          },
+          {
+            action: "upgrade",
+            contract: "CAPToken",
+            timestamp: "2025-02-01T00:00:00.000Z",
+            txHash: "0x02",
+            record: capRecord({ implementationAddress: IMPL_V2, txHash: "0x02" }),
+          },
+          {
+            action: "verify",
+            contract: "CAPToken",
+            timestamp: "2025-02-02T00:00:00.000Z",
+            txHash: "",
+            record: capRecord({ implementationAddress: IMPL_V2, txHash: "0x02", verified: true }),
+          },
+        ],
+      },
+      arbitrumSepolia: {
+        chainId: 421614,
+        history: [
+          {
+            action: "oft-deploy",
+            contract: "CAPTokenOFT",
+            timestamp: oftRecord.timestamp,
+            txHash: "0x04",
+            record: oftRecord,
+          },
+        ],
+      },
+    },
+  };
+
+  // Never touch the developer's deployments.json
+  before(function () {
+    env = process.env.DEPLOYMENTS_FILE;
+    DEPLOYMENTS_FILE = join(mkdtempSync(join(tmpdir(), "deployments-")), "deployments.json");
+    process.env.DEPLOYMENTS_FILE = DEPLOYMENTS_FILE;
+  });
+
+  after(function () {
+    if (env === undefined) {
+      delete process.env.DEPLOYMENTS_FILE;
+    } else {
+      process.env.DEPLOYMENTS_FILE = env;
+    }
+    rmSync(join(DEPLOYMENTS_FILE, ".."), { recursive: true, force: true });
+  });
+
+  describe("migrateDeployments", function () {
+    it("Should turn each v1.0.0 record into the first CAPToken deploy entry", function () {
+      const migrated = migrateDeployments({ version: "1.0.0", deployments: { sepolia: capRecord() } });
+
+      expect(migrated.version).to.equal(DEPLOYMENTS_SCHEMA_VERSION);
+      expect(migrated.deployments.sepolia.chainId).to.equal(11155111);
+      expect(migrated.deployments.sepolia.history).to.have.length(1);
+      expect(migrated.deployments.sepolia.history[0]).to.include({
+        action: "deploy",
+        contract: "CAPToken",
+        timestamp: "2025-01-01T00:00:00.000Z",
+        txHash: "0x01",
+      });
+      expect(migrated.deployments.sepolia.history[0].record).to.deep.equal(capRecord());
+    });
+
+    it("Should treat a file without a version as v1.0.0", function () {
+      const migrated = migrateDeployments({ deployments: { sepolia: capRecord() } });
+      expect(migrated.deployments.sepolia.history[0].record).to.deep.equal(capRecord());
+    });
+
+    it("Should leave v2.0.0 files untouched and reject unknown versions", function () {
+      expect(migrateDeployments(history)).to.equal(history);
+      expect(() => migrateDeployments({ version: "3.0.0", deployments: {} } as unknown as DeploymentsFile)).to.throw(
+        "Unsupported deployments.json version: 3.0.0"
+      );
+    });
+
+    it("Should migrate a versionless deployments.json on load", function () {
+      writeFileSync(DEPLOYMENTS_FILE, JSON.stringify({ deployments: { sepolia: capRecord() } }), "utf8");
+
+      expect(loadDeployments().deployments.sepolia.history[0].action).to.equal("deploy");
+      expect(getDeployment("sepolia")).to.deep.equal(capRecord());
+    });
+
+    it("Should refuse to load, or append to, a file that is not valid JSON", function () {
+      writeFileSync(DEPLOYMENTS_FILE, "{ not json", "utf8");
+
+      expect(() => loadDeployments()).to.throw(`Could not parse ${DEPLOYMENTS_FILE}`);
+      expect(() => saveDeployment("sepolia", capRecord())).to.throw(`Could not parse ${DEPLOYMENTS_FILE}`);
+      expect(readFileSync(DEPLOYMENTS_FILE, "utf8")).to.equal("{ not json");
+    });
+  });
+
+  describe("queries", function () {
+    beforeEach(function () {
+      writeFileSync(DEPLOYMENTS_FILE, JSON.stringify(history), "utf8");
+    });
+
+    it("Should list entries across networks, filtered by network, contract and action", function () {
+      expect(listDeployments().map((entry) => entry.txHash)).to.deep.equal(["0x01", "0x02", "", "0x04"]);
+      expect(listDeployments({ network: "sepolia", action: "upgrade" }).map((entry) => entry.txHash)).to.deep.equal([
+        "0x02",
+      ]);
+      expect(listDeployments({ contract: "CAPTokenOFT" }).map((entry) => entry.network)).to.deep.equal([
+        "arbitrumSepolia",
+      ]);
+      expect(listDeployments({ network: "mainnet" })).to.deep.equal([]);
+    });
+
+    it("Should only list entries recorded at or before `at`", function () {
+      expect(listDeployments({ network: "sepolia", at: "2025-02-01T00:00:00.000Z" })).to.have.length(2);
+      expect(listDeployments({ at: new Date("2024-12-31T00:00:00.000Z") })).to.deep.equal([]);
+      expect(() => listDeployments({ at: "not a date" })).to.throw("Invalid point in time");
+    });
+
+    it("Should return the latest record, or the record as of a point in time", function () {
+      expect(getDeployment("sepolia")).to.include({ implementationAddress: IMPL_V2, verified: true });
+      expect(getDeployment("sepolia", { at: "2025-01-15T00:00:00.000Z" })).to.include({
+        implementationAddress: IMPL_V1,
+        verified: false,
+      });
+      expect(getDeployment("sepolia", { at: "2024-12-31T00:00:00.000Z" })).to.equal(null);
+      expect(getDeployment("arbitrumSepolia", { contract: "CAPTokenOFT" })).to.deep.equal(oftRecord);
+      expect(getDeployment("arbitrumSepolia")).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { DaoProposal } from "../../scripts/dao/build-proposal";
+import { confirmGovernanceUpgrade, proposeGovernanceUpgrade } from "../../scripts/upgrade";
+import { getDeployment, listDeployments, saveDeployment } from "../../scripts/utils/deployment-tracker";
+
+/**
+ * UPGRADE_MODE=governance then UPGRADE_MODE=confirm on the in-process hardhat network, with the
+ * governance signer standing in for the DAO executing the proposal.
+ */
+describe("Governance upgrade", function () {
+  const NETWORK = "hardhat";
+  const ENV_VARS = [
+    "DEPLOYMENTS_FILE",
+    "PROPOSAL_OUTPUT",
+    "UPGRADE_INIT_FUNCTION",
+    "UPGRADE_INIT_ARGS",
+    "SUBMIT_PROPOSAL",
+    "ARAGON_DAO_ADDRESS",
+    "CAP_GOVERNANCE_PLUGIN_ADDRESS",
+  ];
+
+  let cap: CAPToken;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let previousImplementation: string;
+  let outputDir: string;
+  let env: Record<string, string | undefined>;
+
+  before(function () {
+    env = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+  });
+
+  after(function () {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  beforeEach(async function () {
+    for (const name of ENV_VARS) {
+      delete process.env[name];
+    }
+    // Never touch the developer's deployments.json or proposals/
+    outputDir = mkdtempSync(join(tmpdir(), "governance-upgrade-"));
+    process.env.DEPLOYMENTS_FILE = join(outputDir, "deployments.json");
+    process.env.PROPOSAL_OUTPUT = join(outputDir, "proposal.json");
+
+    [owner, treasury] = await ethers.getSigners();
+    const CAP = await ethers.getContractFactory("CAPToken");
+    cap = (await upgrades.deployProxy(CAP, [owner.address, treasury.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as CAPToken;
+
+    // Point the proxy at a separate copy, registered alongside the one deployProxy recorded, so
+    // prepareUpgrade has a different implementation to offer
+    const previous = await CAP.deploy();
+    await cap.upgradeToAndCall(previous.address, "0x");
+    await upgrades.forceImport(cap.address, CAP, { kind: "uups" });
+    previousImplementation = previous.address;
+
+    const receipt = await cap.deployTransaction.wait();
+    saveDeployment(NETWORK, {
+      network: NETWORK,
+      chainId: 31337,
+      timestamp: new Date().toISOString(),
+      proxyAddress: cap.address,
+      implementationAddress: previousImplementation,
+      deployer: owner.address,
+      owner: owner.address,
+      feeRecipient: treasury.address,
+      txHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      verified: false,
+    });
+  });
+
+  afterEach(function () {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  function readProposal(): DaoProposal {
+    return JSON.parse(readFileSync(process.env.PROPOSAL_OUTPUT!, "utf8"));
+  }
+
+  async function expectRejection(promise: Promise<unknown>, message: string) {
+    try {
+      await promise;
+    } catch (error) {
+      expect(String(error)).to.include(message);
+      return;
+    }
+    expect.fail(`Expected a rejection with "${message}"`);
+  }
+
+  it("Should prepare the implementation, record it and write the upgradeToAndCall proposal", async function () {
+    await proposeGovernanceUpgrade(cap.address, NETWORK);
+
+    const pendingImplementation = getDeployment(NETWORK)!.pendingImplementation!;
+    expect(pendingImplementation).to.not.equal(previousImplementation);
+    expect(await ethers.provider.getCode(pendingImplementation)).to.not.equal("0x");
+    expect(getDeployment(NETWORK)).to.include({ implementationAddress: previousImplementation });
+    expect(listDeployments({ network: NETWORK }).map((entry) => entry.action)).to.deep.equal([
+      "deploy",
+      "upgrade-proposed",
+    ]);
+
+    const [action] = readProposal().actions;
+    expect(action).to.include({ to: cap.address, method: "upgradeToAndCall", value: "0" });
+    expect(action.data).to.equal(cap.interface.encodeFunctionData("upgradeToAndCall", [pendingImplementation, "0x"]));
+
+    // Nothing changes on-chain until the DAO executes the proposal
+    expect(await upgrades.erc1967.getImplementationAddress(cap.address)).to.equal(previousImplementation);
+  });
+
+  it("Should confirm once governance has executed the proposal", async function () {
+    await proposeGovernanceUpgrade(cap.address, NETWORK);
+    const pendingImplementation = getDeployment(NETWORK)!.pendingImplementation!;
+
+    await expectRejection(
+      confirmGovernanceUpgrade(cap.address, NETWORK),
+      "ERC-1967 slot still points at the previous implementation - has the DAO proposal been executed?"
+    );
+
+    const [action] = readProposal().actions;
+    const tx = await owner.sendTransaction({ to: action.to, value: action.value, data: action.data });
+    const receipt = await tx.wait();
+
+    await confirmGovernanceUpgrade(cap.address, NETWORK);
+
+    expect(await upgrades.erc1967.getImplementationAddress(cap.address)).to.equal(pendingImplementation);
+    const confirmed = listDeployments({ network: NETWORK }).pop()!;
+    expect(confirmed).to.include({ action: "upgrade", contract: "CAPToken", txHash: receipt.transactionHash });
+    // txHash and blockNumber come from the Upgraded log of the executed proposal
+    expect(confirmed.record).to.include({
+      implementationAddress: pendingImplementation,
+      txHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+    });
+    expect(getDeployment(NETWORK)!.pendingImplementation).to.equal(undefined);
+  });
+
+  it("Should refuse to confirm without a prepared upgrade, or with an unexpected implementation", async function () {
+    await expectRejection(
+      confirmGovernanceUpgrade(cap.address, NETWORK),
+      "No prepared upgrade recorded for hardhat. Run with UPGRADE_MODE=governance first."
+    );
+
+    await proposeGovernanceUpgrade(cap.address, NETWORK);
+    const other = await (await ethers.getContractFactory("CAPToken")).deploy();
+    await cap.upgradeToAndCall(other.address, "0x");
+
+    await expectRejection(
+      confirmGovernanceUpgrade(cap.address, NETWORK),
+      "ERC-1967 slot points at an unexpected implementation"
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  LAYERZERO_CHAINS,
+  getDVNAddress,
+  getHomeChain,
+  getLayerZeroChain,
+  getLayerZeroChainById,
+  getMessageLibs,
+  getOFTChains,
+  getPairedChain,
+} from "../../scripts/config/layerzero";
+
+describe("LayerZero chain registry", function () {
+  // Chains oft:configure:security can pin libraries and DVNs on
+  const SECURED = ["mainnet", "sepolia", "arbitrum", "arbitrumSepolia"];
+  const chains = Object.values(LAYERZERO_CHAINS);
+
+  it("Should key every chain by its hardhat network, with unique chain IDs and EIDs", function () {
+    for (const [name, chain] of Object.entries(LAYERZERO_CHAINS)) {
+      expect(chain.hardhatNetwork, name).to.equal(name);
+      expect(getPairedChain(chain).pair, name).to.equal(name);
+      expect(getPairedChain(chain).isTestnet, name).to.equal(!chain.isTestnet);
+    }
+    expect(new Set(chains.map((chain) => chain.chainId)).size).to.equal(chains.length);
+    expect(new Set(chains.map((chain) => chain.eid)).size).to.equal(chains.length);
+  });
+
+  it("Should look chains up by network name and chain ID", function () {
+    expect(getLayerZeroChain("arbitrumSepolia").eid).to.equal(40231);
+    expect(getLayerZeroChainById(421614)).to.equal(LAYERZERO_CHAINS.arbitrumSepolia);
+    expect(getLayerZeroChainById(1n)).to.equal(LAYERZERO_CHAINS.mainnet);
+
+    expect(() => getLayerZeroChain("zksync")).to.throw("No LayerZero chain for network: zksync. Supported: mainnet,");
+    expect(() => getLayerZeroChainById(31337)).to.throw("Unsupported network for LayerZero: chain ID 31337");
+  });
+
+  it("Should host the OFTAdapter on Ethereum and OFTs everywhere else", function () {
+    expect(getHomeChain(false)).to.equal(LAYERZERO_CHAINS.mainnet);
+    expect(getHomeChain(true)).to.equal(LAYERZERO_CHAINS.sepolia);
+
+    expect(getOFTChains(false).map((chain) => chain.hardhatNetwork)).to.deep.equal([
+      "arbitrum",
+      "optimism",
+      "base",
+      "polygon",
+    ]);
+    expect(getOFTChains(true).map((chain) => chain.hardhatNetwork)).to.deep.equal([
+      "arbitrumSepolia",
+      "optimismSepolia",
+      "baseSepolia",
+      "polygonAmoy",
+    ]);
+  });
+
+  it("Should return checksummed message libraries and DVNs on the secured chains", function () {
+    for (const name of SECURED) {
+      const chain = LAYERZERO_CHAINS[name];
+      const { sendLibrary, receiveLibrary, executor } = getMessageLibs(chain);
+
+      for (const address of [sendLibrary, receiveLibrary, executor, getDVNAddress(chain, "layerzero")]) {
+        expect(ethers.utils.getAddress(address), name).to.equal(address);
+      }
+    }
+  });
+
+  it("Should name the missing registry entry on the other chains", function () {
+    for (const chain of chains.filter((chain) => !SECURED.includes(chain.hardhatNetwork))) {
+      expect(() => getMessageLibs(chain)).to.throw(
+        `${chain.name} has no send/receive library or executor in the LayerZero registry ` +
+          `(set LAYERZERO_CHAINS.${chain.hardhatNetwork}.messageLibs)`
+      );
+      expect(() => getDVNAddress(chain, "layerzero")).to.throw(
+        `${chain.name} has no DVNs in the LayerZero registry (set LAYERZERO_CHAINS.${chain.hardhatNetwork}.dvns)`
+      );
+    }
+
+    expect(() => getDVNAddress(LAYERZERO_CHAINS.sepolia, "nethermind")).to.throw(
+      'DVN "nethermind" has no address on Ethereum Sepolia. Configured: layerzero'
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken, CAPTokenOFTAdapter } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { CapManifest } from "../../scripts/manifest/manifest";
+import { ManifestPlan, buildPlan } from "../../scripts/manifest/planner";
+import { CapClient } from "../../scripts/sdk";
+import { getDeployment } from "../../scripts/utils/deployment-tracker";
+
+/**
+ * Manifest plans against the in-process hardhat node.
+ * The plan is built for "sepolia" (the manifest's token network) while every read goes to the local
+ * CAP proxy and an OFTAdapter on MockLayerZeroEndpoint, located through the env overrides.
+ */
+describe("Manifest planner", function () {
+  const ARB_EID = 40231;
+  const ENV_VARS = ["DEPLOYMENTS_FILE", "SEPOLIA_OFT_ADAPTER_ADDRESS", "ARBITRUM_SEPOLIA_OFT_ADDRESS"];
+
+  let cap: CAPToken;
+  let adapter: CAPTokenOFTAdapter;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let pool: SignerWithAddress;
+  let remote: SignerWithAddress;
+  let stranger: SignerWithAddress;
+  let manifest: CapManifest;
+  let deploymentsDir: string;
+  let env: Record<string, string | undefined>;
+
+  before(function () {
+    env = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+    // OFT addresses must only come from the env overrides set below, never from a deployments.json
+    deploymentsDir = mkdtempSync(join(tmpdir(), "manifest-planner-"));
+    process.env.DEPLOYMENTS_FILE = join(deploymentsDir, "deployments.json");
+  });
+
+  after(function () {
+    rmSync(deploymentsDir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  beforeEach(async function () {
+    [owner, treasury, pool, remote, stranger] = await ethers.getSigners();
+
+    cap = (await upgrades.deployProxy(await ethers.getContractFactory("CAPToken"), [owner.address, treasury.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as CAPToken;
+    await cap.addPool(pool.address);
+
+    const endpoint = await (await ethers.getContractFactory("MockLayerZeroEndpoint")).deploy();
+    adapter = await (
+      await ethers.getContractFactory("CAPTokenOFTAdapter")
+    ).deploy(cap.address, endpoint.address, owner.address);
+    await adapter.setPeer(ARB_EID, ethers.utils.hexZeroPad(remote.address, 32));
+
+    process.env.SEPOLIA_OFT_ADAPTER_ADDRESS = adapter.address;
+    process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS = remote.address;
+
+    // Matches the state set up above
+    manifest = {
+      name: "test",
+      token: {
+        network: "sepolia",
+        address: cap.address,
+        feeRecipient: treasury.address,
+        taxes: { transfer: 100, sell: 100, buy: 0 },
+        pools: [pool.address],
+        governance: owner.address,
+      },
+      layerzero: { adapter: {}, chains: [{ network: "arbitrumSepolia" }] },
+    };
+  });
+
+  function step(plan: ManifestPlan, id: string) {
+    const found = plan.steps.find((entry) => entry.id === id);
+    expect(found, `step ${id}`).to.not.equal(undefined);
+    return found!;
+  }
+
+  it("Should report every step as done when the chain matches the manifest", async function () {
+    const plan = await buildPlan(manifest, "sepolia");
+
+    expect(plan).to.include({ manifest: "test", network: "sepolia", signer: owner.address, capToken: cap.address });
+    expect(plan.steps.map((entry) => [entry.id, entry.status])).to.deep.equal([
+      ["sepolia:cap:fee-recipient", "done"],
+      [`sepolia:cap:pool:${pool.address.toLowerCase()}`, "done"],
+      ["sepolia:cap:taxes", "done"],
+      ["sepolia:cap:governance", "done"],
+      ["sepolia:adapter:peer:arbitrumSepolia", "done"],
+    ]);
+  });
+
+  it("Should plan a missing peer, and block it until the remote OFT is deployed", async function () {
+    await adapter.setPeer(ARB_EID, ethers.constants.HashZero);
+
+    const pending = step(await buildPlan(manifest, "sepolia"), "sepolia:adapter:peer:arbitrumSepolia");
+    expect(pending).to.include({ status: "pending", current: "none", desired: remote.address });
+    expect(pending.execute).to.be.a("function");
+
+    delete process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS;
+    const blocked = step(await buildPlan(manifest, "sepolia"), "sepolia:adapter:peer:arbitrumSepolia");
+    expect(blocked).to.include({ status: "blocked", reason: "deploy on arbitrumSepolia first" });
+  });
+
+  it("Should leave a peer in place when its chain is removed from the manifest", async function () {
+    manifest.layerzero!.chains = [];
+
+    const plan = await buildPlan(manifest, "sepolia");
+    expect(plan.steps.filter((entry) => entry.id.includes("arbitrumSepolia"))).to.deep.equal([]);
+    expect(plan.steps.every((entry) => entry.status === "done")).to.equal(true);
+  });
+
+  it("Should plan the changes that bring drifted settings back to the manifest", async function () {
+    await cap.setFeeRecipient(stranger.address);
+    await adapter.setPeer(ARB_EID, ethers.utils.hexZeroPad(stranger.address, 32));
+    manifest.token.taxes = { transfer: 50, sell: 100, buy: 0 };
+
+    const plan = await buildPlan(manifest, "sepolia");
+    expect(step(plan, "sepolia:cap:fee-recipient")).to.include({
+      status: "pending",
+      current: stranger.address,
+      desired: treasury.address,
+    });
+    expect(step(plan, "sepolia:cap:taxes")).to.include({
+      status: "pending",
+      description: "Propose tax change (24h timelock)",
+    });
+    expect(step(plan, "sepolia:adapter:peer:arbitrumSepolia")).to.include({
+      status: "pending",
+      current: stranger.address.toLowerCase(),
+      desired: remote.address,
+    });
+    expect(step(plan, "sepolia:cap:governance").status).to.equal("done");
+  });
+
+  it("Should wait for the tax timelock, and route drift to the DAO when the signer is not governance", async function () {
+    manifest.token.taxes = { transfer: 50, sell: 100, buy: 0 };
+    await cap.proposeTaxChange(50, 100, 0);
+
+    expect(step(await buildPlan(manifest, "sepolia"), "sepolia:cap:taxes")).to.include({
+      status: "blocked",
+      description: "Apply tax change",
+    });
+
+    await cap.setFeeRecipient(stranger.address);
+    await cap.setGovernance(stranger.address);
+    manifest.token.governance = stranger.address;
+
+    const fee = step(await buildPlan(manifest, "sepolia"), "sepolia:cap:fee-recipient");
+    expect(fee.status).to.equal("pending");
+    expect(fee.execute).to.equal(undefined);
+    expect(fee.governanceCall).to.deep.equal({ method: "setFeeRecipient", args: [treasury.address] });
+  });
+
+  it("Should deploy the CAPToken proxy when the network has none, and record it", async function () {
+    // "hardhat" waits for a single confirmation, which automine provides
+    manifest.token = { ...manifest.token, network: "hardhat", address: undefined, governance: stranger.address };
+    delete manifest.layerzero;
+
+    const deploy = step(await buildPlan(manifest, "hardhat"), "hardhat:cap:deploy");
+    expect(deploy).to.include({
+      status: "pending",
+      description: "Deploy CAPToken proxy",
+      desired: `governance ${owner.address}, fee recipient ${treasury.address}`,
+    });
+
+    const txHash = await deploy.execute!();
+    const recorded = getDeployment("hardhat")!;
+    expect(recorded).to.include({ chainId: 31337, owner: owner.address, feeRecipient: treasury.address, txHash });
+    expect((await ethers.provider.getTransactionReceipt(txHash)).blockNumber).to.equal(recorded.blockNumber);
+
+    const client = await CapClient.connect(recorded.proxyAddress, owner);
+    expect(await client.governance()).to.equal(owner.address);
+    expect(await upgrades.erc1967.getImplementationAddress(recorded.proxyAddress)).to.equal(
+      recorded.implementationAddress
+    );
+
+    // The next plan finds the recorded proxy and moves on to configuring it
+    const plan = await buildPlan(manifest, "hardhat");
+    expect(plan.capToken).to.equal(recorded.proxyAddress);
+    expect(step(plan, "hardhat:cap:fee-recipient").status).to.equal("done");
+    expect(step(plan, `hardhat:cap:pool:${pool.address.toLowerCase()}`).status).to.equal("pending");
+    expect(step(plan, "hardhat:cap:governance")).to.include({ status: "blocked", desired: stranger.address });
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import {
+  CAP_MINT_LIMITS,
+  MintState,
+  checkMintExecution,
+  checkMintProposal,
+  simulateMintWindow,
+} from "../../scripts/utils/mint-window";
+
+describe("Mint window", function () {
+  const CAP = 10n ** 18n;
+  const { capPerPeriod, period, delay, maxSupply } = CAP_MINT_LIMITS;
+  const START = 1_700_000_000n;
+  const TO = "0x1111111111111111111111111111111111111111";
+
+  function state(overrides: Partial<MintState> = {}): MintState {
+    return {
+      totalSupply: 1_000_000_000n * CAP,
+      lastMintPeriodStart: START,
+      mintedInCurrentPeriod: 40_000_000n * CAP,
+      pendingMintTo: "0x0000000000000000000000000000000000000000",
+      pendingMintAmount: 0n,
+      mintTimestamp: 0n,
+      ...overrides,
+    };
+  }
+
+  describe("simulateMintWindow", function () {
+    it("Should keep the stored period until it has fully elapsed", function () {
+      const window = simulateMintWindow(state(), CAP_MINT_LIMITS, START + period - 1n);
+
+      expect(window).to.deep.include({
+        periodStart: START,
+        periodEnd: START + period,
+        minted: 40_000_000n * CAP,
+        rolledOver: false,
+        periodRemaining: 60_000_000n * CAP,
+      });
+    });
+
+    it("Should roll over to a fresh period aligned to the stored start", function () {
+      expect(simulateMintWindow(state(), CAP_MINT_LIMITS, START + period)).to.deep.include({
+        periodStart: START + period,
+        minted: 0n,
+        rolledOver: true,
+        remaining: capPerPeriod,
+      });
+
+      // Several idle periods skip ahead in whole periods, never starting at "now"
+      const window = simulateMintWindow(state(), CAP_MINT_LIMITS, START + 3n * period + 12345n);
+      expect(window.periodStart).to.equal(START + 3n * period);
+      expect(window.periodEnd).to.equal(START + 4n * period);
+    });
+
+    it("Should limit the remaining amount to what is left below MAX_SUPPLY", function () {
+      const window = simulateMintWindow(state({ totalSupply: maxSupply - 5n * CAP }), CAP_MINT_LIMITS, START);
+
+      expect(window.periodRemaining).to.equal(60_000_000n * CAP);
+      expect(window.supplyRemaining).to.equal(5n * CAP);
+      expect(window.remaining).to.equal(5n * CAP);
+
+      expect(simulateMintWindow(state({ totalSupply: maxSupply }), CAP_MINT_LIMITS, START).remaining).to.equal(0n);
+    });
+  });
+
+  describe("checkMintProposal", function () {
+    it("Should accept a mint up to the period cap and reject one wei more", function () {
+      const left = capPerPeriod - state().mintedInCurrentPeriod;
+
+      expect(checkMintProposal(state(), CAP_MINT_LIMITS, TO, left, START)).to.deep.equal([]);
+      expect(checkMintProposal(state(), CAP_MINT_LIMITS, TO, left + 1n, START)).to.deep.equal([
+        "EXCEEDS_MINT_CAP_PER_PERIOD: amount is above what is left of the current period's cap",
+      ]);
+      // The same amount fits once the period has rolled over
+      expect(checkMintProposal(state(), CAP_MINT_LIMITS, TO, capPerPeriod, START + period)).to.deep.equal([]);
+    });
+
+    it("Should reject mints above MAX_SUPPLY or to the zero address", function () {
+      const errors = checkMintProposal(
+        state({ totalSupply: maxSupply - CAP }),
+        CAP_MINT_LIMITS,
+        "0x0000000000000000000000000000000000000000",
+        2n * CAP,
+        START
+      );
+
+      expect(errors).to.deep.equal([
+        "MINT_TO_ZERO: cannot mint to the zero address",
+        "EXCEEDS_MAX_SUPPLY: totalSupply + amount is above MAX_SUPPLY",
+      ]);
+    });
+  });
+
+  describe("checkMintExecution", function () {
+    const pending = (amount: bigint) =>
+      state({ pendingMintTo: TO, pendingMintAmount: amount, mintTimestamp: START + delay });
+
+    it("Should wait for the mint delay", function () {
+      expect(checkMintExecution(state(), CAP_MINT_LIMITS, START)).to.deep.equal([
+        "NO_PENDING_MINT: there is no pending mint",
+      ]);
+      expect(checkMintExecution(pending(CAP), CAP_MINT_LIMITS, START + delay - 1n)).to.deep.equal([
+        "MINT_TIMELOCK_NOT_EXPIRED: the 7 day mint delay has not passed",
+      ]);
+      expect(checkMintExecution(pending(CAP), CAP_MINT_LIMITS, START + delay)).to.deep.equal([]);
+    });
+
+    it("Should recheck the period cap at execution time", function () {
+      const amount = capPerPeriod - state().mintedInCurrentPeriod + 1n;
+
+      expect(checkMintExecution(pending(amount), CAP_MINT_LIMITS, START + delay)).to.deep.equal([
+        "EXCEEDS_MINT_CAP_PER_PERIOD: the pending amount no longer fits in the period's cap",
+      ]);
+      expect(checkMintExecution(pending(amount), CAP_MINT_LIMITS, START + period)).to.deep.equal([]);
+    });
+  });
+});
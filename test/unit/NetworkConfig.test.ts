@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import { config } from "hardhat";
+import { NETWORKS, checkNetworkConsistency, getEnvPrefix, getNetworkConfig } from "../../scripts/config/environments";
+
+describe("Network configuration", function () {
+  it("Should keep NETWORKS in sync with hardhat.config.ts and the LayerZero registry", function () {
+    expect(checkNetworkConsistency(config.networks)).to.deep.equal([]);
+  });
+
+  it("Should resolve a config for every hardhat network", function () {
+    for (const name of Object.keys(config.networks)) {
+      expect(getNetworkConfig(name).chainId).to.equal(NETWORKS[name].chainId);
+    }
+  });
+
+  it("Should report drift between the two lists", function () {
+    const drifted = {
+      ...config.networks,
+      zksync: { chainId: 324 },
+      arbitrum: { chainId: 1 },
+    } as Record<string, { chainId?: number }>;
+    delete drifted.polygonAmoy;
+
+    expect(checkNetworkConsistency(drifted)).to.deep.equal([
+      "arbitrum: chain ID 1 in hardhat.config.ts, 42161 in NETWORKS",
+      "zksync: defined in hardhat.config.ts but missing from NETWORKS",
+      "polygonAmoy: defined in NETWORKS but missing from hardhat.config.ts",
+    ]);
+  });
+
+  it("Should derive env var prefixes from camelCase network names", function () {
+    expect(getEnvPrefix("mainnet")).to.equal("MAINNET");
+    expect(getEnvPrefix("arbitrumSepolia")).to.equal("ARBITRUM_SEPOLIA");
+    expect(getEnvPrefix("polygonAmoy")).to.equal("POLYGON_AMOY");
+  });
+});
@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  CONFIG_TYPE_EXECUTOR,
+  CONFIG_TYPE_ULN,
+  PathwayReadback,
+  UlnConfig,
+  decodeExecutorConfig,
+  decodeUlnConfig,
+  diffPathwaySecurity,
+  encodeExecutorConfig,
+  encodeUlnConfig,
+  endpointInterface,
+} from "../../scripts/utils/oapp-security";
+
+describe("OApp security config", function () {
+  const DVN_A = "0x589dEDbD617e0CBcB916A9223F4d1300c294236b";
+  const DVN_B = "0x8eebf8b423B73bFCa51a1Db4B7354AA0bFCA9193";
+  const EXECUTOR = "0x173272739Bd7Aa6e4e214714048a9fE699453059";
+  const LIBRARY = "0xbB2Ea70C9E858123480642Cf96acbcCE1372dCe1";
+  const ENDPOINT = "0x1a44076050125825900e736c501f859c50fE728c";
+  const OAPP = "0x1111111111111111111111111111111111111111";
+
+  const uln: UlnConfig = { confirmations: 15, requiredDVNs: [DVN_A, DVN_B], optionalDVNs: [], optionalDVNThreshold: 0 };
+
+  it("Should round-trip a ULN config with DVNs sorted and checksummed", function () {
+    const encoded = encodeUlnConfig({ ...uln, requiredDVNs: [DVN_B.toLowerCase(), DVN_A.toLowerCase()] });
+
+    expect(decodeUlnConfig(encoded)).to.deep.equal(uln);
+  });
+
+  it("Should encode empty DVN lists with the NIL count instead of 0", function () {
+    const [config] = ethers.utils.defaultAbiCoder.decode(
+      ["tuple(uint64, uint8 requiredDVNCount, uint8 optionalDVNCount, uint8, address[], address[])"],
+      encodeUlnConfig(uln)
+    );
+
+    expect(config.requiredDVNCount).to.equal(2);
+    expect(config.optionalDVNCount).to.equal(255);
+  });
+
+  it("Should round-trip an executor config", function () {
+    const encoded = encodeExecutorConfig({ maxMessageSize: 10_000, executor: EXECUTOR.toLowerCase() });
+
+    expect(decodeExecutorConfig(encoded)).to.deep.equal({ maxMessageSize: 10_000, executor: EXECUTOR });
+  });
+
+  it("Should send drifted ULN and executor configs in one setConfig call", function () {
+    const current: PathwayReadback = {
+      sendLibrary: LIBRARY,
+      sendLibraryIsDefault: false,
+      receiveLibrary: LIBRARY,
+      receiveLibraryIsDefault: false,
+      sendUln: { ...uln, confirmations: 1, requiredDVNs: [DVN_A] },
+      receiveUln: uln,
+      executor: { maxMessageSize: 10_000, executor: OAPP },
+      enforcedOptions: {},
+    };
+    const desired = { sendUln: uln, receiveUln: uln, executor: { maxMessageSize: 10_000, executor: EXECUTOR } };
+
+    const changes = diffPathwaySecurity(ENDPOINT, OAPP, 40231, current, desired);
+    expect(changes.map((change) => change.setting)).to.deep.equal(["send-config"]);
+    expect(changes[0]).to.include({ to: ENDPOINT, sender: "delegate" });
+
+    const [oapp, lib, params] = endpointInterface.decodeFunctionData("setConfig", changes[0].data);
+    expect([oapp, lib]).to.deep.equal([OAPP, LIBRARY]);
+    expect(params.map((param: { configType: number }) => param.configType)).to.deep.equal([
+      CONFIG_TYPE_ULN,
+      CONFIG_TYPE_EXECUTOR,
+    ]);
+    expect(decodeUlnConfig(params[0].config)).to.deep.equal(uln);
+    expect(decodeExecutorConfig(params[1].config)).to.deep.equal(desired.executor);
+  });
+});
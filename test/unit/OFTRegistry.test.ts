@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OFTDeploymentRecord, saveOFTDeployment } from "../../scripts/utils/deployment-tracker";
+import { oftEnvOverrides, peerToAddress, requireOFTAddress, resolveOFTAddress } from "../../scripts/utils/oft-registry";
+
+describe("OFT registry", function () {
+  const SEPOLIA = { chainId: 11155111, eid: 40161 };
+  const ARBITRUM_SEPOLIA = { chainId: 421614, eid: 40231 };
+  const ENV_VARS = [
+    "DEPLOYMENTS_FILE",
+    "SEPOLIA_OFT_ADAPTER_ADDRESS",
+    "OFT_ADAPTER_ADDRESS",
+    "ARBITRUM_SEPOLIA_OFT_ADDRESS",
+  ];
+
+  const ADAPTER = "0x1111111111111111111111111111111111111111";
+  const OFT = "0x2222222222222222222222222222222222222222";
+  const OVERRIDE = "0x3333333333333333333333333333333333333333";
+  const FALLBACK = "0x4444444444444444444444444444444444444444";
+
+  let deploymentsDir: string;
+  let env: Record<string, string | undefined>;
+
+  function oftRecord(network: string, chain: typeof SEPOLIA, address: string): OFTDeploymentRecord {
+    return {
+      network,
+      chainId: chain.chainId,
+      timestamp: "2025-01-05T00:00:00.000Z",
+      address,
+      deployer: ADAPTER,
+      owner: ADAPTER,
+      eid: chain.eid,
+      endpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
+      peers: {},
+      txHash: "0x01",
+      blockNumber: 100,
+      verified: false,
+    };
+  }
+
+  // Never touch the developer's deployments.json
+  before(function () {
+    env = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+  });
+
+  beforeEach(function () {
+    for (const name of ENV_VARS) {
+      delete process.env[name];
+    }
+    deploymentsDir = mkdtempSync(join(tmpdir(), "oft-registry-"));
+    process.env.DEPLOYMENTS_FILE = join(deploymentsDir, "deployments.json");
+  });
+
+  afterEach(function () {
+    rmSync(deploymentsDir, { recursive: true, force: true });
+  });
+
+  after(function () {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  describe("oftEnvOverrides", function () {
+    it("Should derive the override env vars from the chain's env prefix", function () {
+      expect(oftEnvOverrides("CAPTokenOFTAdapter", SEPOLIA.chainId)).to.deep.equal([
+        "SEPOLIA_OFT_ADAPTER_ADDRESS",
+        "OFT_ADAPTER_ADDRESS",
+      ]);
+      expect(oftEnvOverrides("CAPTokenOFT", ARBITRUM_SEPOLIA.chainId)).to.deep.equal(["ARBITRUM_SEPOLIA_OFT_ADDRESS"]);
+    });
+
+    it("Should only fall back to OFT_ADAPTER_ADDRESS on an unknown chain", function () {
+      expect(oftEnvOverrides("CAPTokenOFTAdapter", 31337)).to.deep.equal(["OFT_ADAPTER_ADDRESS"]);
+      expect(oftEnvOverrides("CAPTokenOFT", 31337)).to.deep.equal([]);
+    });
+  });
+
+  describe("resolveOFTAddress", function () {
+    it("Should return null when neither deployments.json nor the env has the contract", function () {
+      expect(resolveOFTAddress("CAPTokenOFTAdapter", SEPOLIA)).to.equal(null);
+      expect(resolveOFTAddress("CAPTokenOFT", ARBITRUM_SEPOLIA)).to.equal(null);
+    });
+
+    it("Should resolve the latest deployment by EID or chain ID", function () {
+      saveOFTDeployment("sepolia", "CAPTokenOFTAdapter", oftRecord("sepolia", SEPOLIA, FALLBACK));
+      saveOFTDeployment("sepolia", "CAPTokenOFTAdapter", oftRecord("sepolia", SEPOLIA, ADAPTER));
+      saveOFTDeployment("arbitrumSepolia", "CAPTokenOFT", oftRecord("arbitrumSepolia", ARBITRUM_SEPOLIA, OFT));
+
+      expect(resolveOFTAddress("CAPTokenOFTAdapter", { eid: SEPOLIA.eid })).to.deep.equal({
+        address: ADAPTER,
+        source: "deployments.json",
+        record: oftRecord("sepolia", SEPOLIA, ADAPTER),
+      });
+      expect(resolveOFTAddress("CAPTokenOFT", { chainId: ARBITRUM_SEPOLIA.chainId })).to.include({
+        address: OFT,
+        source: "deployments.json",
+      });
+      expect(resolveOFTAddress("CAPTokenOFT", SEPOLIA)).to.equal(null);
+    });
+
+    it("Should prefer env overrides over deployments.json, in priority order", function () {
+      saveOFTDeployment("sepolia", "CAPTokenOFTAdapter", oftRecord("sepolia", SEPOLIA, ADAPTER));
+      process.env.OFT_ADAPTER_ADDRESS = FALLBACK;
+
+      const fallback = resolveOFTAddress("CAPTokenOFTAdapter", SEPOLIA);
+      expect(fallback).to.include({ address: FALLBACK, source: "OFT_ADAPTER_ADDRESS" });
+      // The record is still returned so callers can compare it with the override
+      expect(fallback!.record).to.deep.equal(oftRecord("sepolia", SEPOLIA, ADAPTER));
+
+      process.env.SEPOLIA_OFT_ADAPTER_ADDRESS = OVERRIDE;
+      expect(resolveOFTAddress("CAPTokenOFTAdapter", SEPOLIA)).to.include({
+        address: OVERRIDE,
+        source: "SEPOLIA_OFT_ADAPTER_ADDRESS",
+      });
+    });
+
+    it("Should only consult the env vars it is given", function () {
+      process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS = OVERRIDE;
+
+      // Without a chain ID there are no default overrides
+      expect(resolveOFTAddress("CAPTokenOFT", { eid: ARBITRUM_SEPOLIA.eid })).to.equal(null);
+      expect(resolveOFTAddress("CAPTokenOFT", ARBITRUM_SEPOLIA, [])).to.equal(null);
+      expect(
+        resolveOFTAddress("CAPTokenOFT", { eid: ARBITRUM_SEPOLIA.eid }, ["ARBITRUM_SEPOLIA_OFT_ADDRESS"])
+      ).to.deep.equal({ address: OVERRIDE, source: "ARBITRUM_SEPOLIA_OFT_ADDRESS", record: null });
+    });
+  });
+
+  describe("requireOFTAddress", function () {
+    it("Should return the resolved address", function () {
+      process.env.ARBITRUM_SEPOLIA_OFT_ADDRESS = OVERRIDE;
+      expect(requireOFTAddress("CAPTokenOFT", ARBITRUM_SEPOLIA).address).to.equal(OVERRIDE);
+    });
+
+    it("Should name the chain and the env vars to set when nothing is configured", function () {
+      expect(() => requireOFTAddress("CAPTokenOFTAdapter", SEPOLIA)).to.throw(
+        "CAPTokenOFTAdapter address not found for EID 40161. Deploy it first so it is recorded in deployments.json, " +
+          "or set SEPOLIA_OFT_ADAPTER_ADDRESS / OFT_ADAPTER_ADDRESS in .env"
+      );
+      expect(() => requireOFTAddress("CAPTokenOFT", { chainId: 31337 })).to.throw(
+        "CAPTokenOFT address not found for chain 31337. Deploy it first so it is recorded in deployments.json"
+      );
+    });
+  });
+
+  describe("peerToAddress", function () {
+    it("Should convert a bytes32 peer to an address, and a zero peer to null", function () {
+      expect(peerToAddress("0x000000000000000000000000" + OFT.slice(2))).to.equal(OFT);
+      expect(peerToAddress("0x" + "0".repeat(64))).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken, MockDEXPair } from "../../typechain-types";
+import { checkPoolPair, planPoolSync, rebuildPoolSet } from "../../scripts/utils/pool-registry";
+
+describe("Pool registry", function () {
+  const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"; // Mainnet WETH
+  const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"; // Mainnet USDC
+
+  let cap: CAPToken;
+  let capWeth: MockDEXPair;
+  let wethCap: MockDEXPair;
+  let wethUsdc: MockDEXPair;
+
+  beforeEach(async function () {
+    const [owner, treasury] = await ethers.getSigners();
+
+    const CAP = await ethers.getContractFactory("CAPToken");
+    cap = (await upgrades.deployProxy(CAP, [owner.address, treasury.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as CAPToken;
+
+    const MockDEXPair = await ethers.getContractFactory("MockDEXPair");
+    capWeth = await MockDEXPair.deploy(cap.address, WETH);
+    wethCap = await MockDEXPair.deploy(WETH, cap.address);
+    wethUsdc = await MockDEXPair.deploy(WETH, USDC);
+  });
+
+  it("Should rebuild the pool set from PoolAdded/PoolRemoved logs", async function () {
+    await cap.addPool(capWeth.address);
+    await cap.addPool(wethCap.address);
+    await cap.removePool(capWeth.address);
+    await cap.addPool(capWeth.address);
+    await cap.removePool(wethCap.address);
+
+    const pools = await rebuildPoolSet(cap, 0, await ethers.provider.getBlockNumber());
+
+    expect(pools).to.deep.equal([capWeth.address.toLowerCase()]);
+    expect(await cap.isPool(capWeth.address)).to.be.true;
+    expect(await cap.isPool(wethCap.address)).to.be.false;
+  });
+
+  it("Should accept pairs with CAP as token0 or token1", async function () {
+    expect((await checkPoolPair(capWeth.address, cap.address)).containsCap).to.be.true;
+    expect((await checkPoolPair(wethCap.address, cap.address)).containsCap).to.be.true;
+  });
+
+  it("Should reject pairs without CAP and addresses that are not pairs", async function () {
+    const [, , user] = await ethers.getSigners();
+
+    const other = await checkPoolPair(wethUsdc.address, cap.address);
+    expect(other.containsCap).to.be.false;
+    expect(other.error).to.contain("is CAP");
+
+    const eoa = await checkPoolPair(user.address, cap.address);
+    expect(eoa.containsCap).to.be.false;
+    expect(eoa.error).to.equal("no contract deployed at this address");
+
+    // CAPToken has no token0()/token1()
+    const token = await checkPoolPair(cap.address, cap.address);
+    expect(token.containsCap).to.be.false;
+    expect(token.error).to.equal("does not expose token0()/token1()");
+  });
+
+  it("Should plan additions and removals case-insensitively", function () {
+    const a = "0x1111111111111111111111111111111111111111";
+    const b = "0x2222222222222222222222222222222222222222";
+    const c = "0xAbCdEf0000000000000000000000000000000000";
+
+    expect(planPoolSync([a, b], [b, c])).to.deep.equal({
+      add: [c.toLowerCase()],
+      remove: [a],
+      unchanged: [b],
+    });
+    expect(planPoolSync([c.toLowerCase()], [c])).to.deep.equal({ add: [], remove: [], unchanged: [c.toLowerCase()] });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import { IndexedEvent } from "../../scripts/indexer/event-store";
+import { buildTaxReport, formatCapAmount, formatCsv, periodKey } from "../../scripts/reports/tax-report";
+
+describe("Tax report", function () {
+  const CAP = 10n ** 18n;
+  const INITIAL_SUPPLY = 1_000_000_000n * CAP;
+
+  const POOL = "0x00000000000000000000000000000000000000A1";
+  const ALICE = "0x00000000000000000000000000000000000000B1";
+  const BOB = "0x00000000000000000000000000000000000000B2";
+  const TREASURY = "0x00000000000000000000000000000000000000C1";
+
+  const OCT_1 = Date.UTC(2025, 9, 1) / 1000;
+  const NOV_1 = Date.UTC(2025, 10, 1) / 1000;
+
+  let logIndex = 0;
+  function event(blockNumber: number, blockTimestamp: number, name: string, args: Record<string, string>) {
+    return {
+      blockNumber,
+      blockHash: `0x${blockNumber}`,
+      blockTimestamp,
+      transactionHash: `0x${blockNumber}${logIndex}`,
+      logIndex: logIndex++,
+      event: name,
+      args,
+    } as IndexedEvent;
+  }
+
+  function collected(block: number, time: number, from: string, to: string, tax: bigint) {
+    return event(block, time, "TaxCollected", {
+      from,
+      to,
+      grossAmount: (tax * 100n).toString(),
+      taxAmount: tax.toString(),
+      recipient: TREASURY,
+    });
+  }
+
+  function burned(block: number, time: number, from: string, to: string, tax: bigint) {
+    return event(block, time, "TaxBurned", {
+      from,
+      to,
+      grossAmount: (tax * 100n).toString(),
+      taxAmount: tax.toString(),
+    });
+  }
+
+  const events: IndexedEvent[] = [
+    collected(1, OCT_1, ALICE, POOL, 5n * CAP), // transfer: POOL is not registered yet
+    event(2, OCT_1 + 10, "PoolAdded", { pool: POOL }),
+    collected(3, OCT_1 + 20, ALICE, POOL, 2n * CAP), // sell
+    collected(4, OCT_1 + 30, POOL, BOB, 1n * CAP), // buy
+    burned(5, NOV_1, ALICE, BOB, 3n * CAP), // transfer, next month
+    event(6, NOV_1 + 10, "PoolRemoved", { pool: POOL }),
+    burned(7, NOV_1 + 20, BOB, POOL, 4n * CAP), // transfer again after removal
+    event(8, NOV_1 + 30, "TokensMinted", { to: ALICE, amount: (100n * CAP).toString() }),
+  ];
+
+  const options = {
+    network: "hardhat",
+    contract: "0x00000000000000000000000000000000000000D1",
+    period: "month" as const,
+    initialSupply: INITIAL_SUPPLY,
+  };
+
+  it("Should infer the direction from pool membership at the time of the transfer", function () {
+    const report = buildTaxReport(events, options);
+
+    expect(report.byDirection.map((row) => [row.key, row.count, row.collected + row.burned])).to.deep.equal([
+      ["transfer", 3, 12n * CAP],
+      ["sell", 1, 2n * CAP],
+      ["buy", 1, 1n * CAP],
+    ]);
+    expect(report.byPool).to.deep.equal([{ key: POOL, count: 2, collected: 3n * CAP, burned: 0n }]);
+  });
+
+  it("Should break revenue down by period and fee recipient", function () {
+    const report = buildTaxReport(events, options);
+
+    expect(report.totals).to.deep.equal({ key: "total", count: 5, collected: 8n * CAP, burned: 7n * CAP });
+    expect(report.byPeriod.map((row) => [row.key, row.collected, row.burned])).to.deep.equal([
+      ["2025-10", 8n * CAP, 0n],
+      ["2025-11", 0n, 7n * CAP],
+    ]);
+    expect(report.byRecipient.map((row) => row.key)).to.deep.equal([TREASURY, "burn"]);
+  });
+
+  it("Should compute burned supply against INITIAL_SUPPLY", function () {
+    const totalSupply = INITIAL_SUPPLY + 100n * CAP - 7n * CAP - 10n * CAP; // 10 CAP burned via burn()
+    const report = buildTaxReport(events, { ...options, totalSupply });
+
+    expect(report.supply).to.deep.equal({
+      initialSupply: INITIAL_SUPPLY,
+      taxBurned: 7n * CAP,
+      minted: 100n * CAP,
+      totalSupply,
+      totalBurned: 17n * CAP,
+    });
+  });
+
+  it("Should limit breakdowns to the range but keep cumulative burns up to its end", function () {
+    const report = buildTaxReport(events, { ...options, from: NOV_1, to: NOV_1 + 15 });
+
+    expect(report.totals.count).to.equal(1);
+    expect(report.supply.taxBurned).to.equal(3n * CAP);
+    expect(report.supply.minted).to.equal(0n);
+  });
+
+  it("Should format amounts and buckets", function () {
+    expect(formatCapAmount(1234500000000000000n)).to.equal("1.2345");
+    expect(formatCapAmount(7n * CAP)).to.equal("7");
+    expect(formatCapAmount(1n)).to.equal("0.000000000000000001");
+
+    expect(periodKey(Date.UTC(2025, 9, 15, 12) / 1000, "day")).to.equal("2025-10-15");
+    expect(periodKey(Date.UTC(2025, 9, 15, 12) / 1000, "week")).to.equal("2025-10-13/W");
+    expect(periodKey(Date.UTC(2025, 9, 15, 12) / 1000, "month")).to.equal("2025-10");
+
+    const csv = formatCsv(buildTaxReport(events, options)).split("\n");
+    expect(csv[0]).to.equal("breakdown,key,transfers,collected_cap,burned_cap,total_cap");
+    expect(csv[1]).to.equal("total,total,5,8,7,15");
+  });
+});
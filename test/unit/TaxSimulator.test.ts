@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { CAPToken } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { CapClient } from "../../scripts/sdk";
+import { SimulatedEvent, simulateTransfer } from "../../scripts/utils/tax-simulator";
+import { TaxRates } from "../../scripts/utils/tax-validation";
+
+/**
+ * Differential test: every quote from scripts/utils/tax-simulator.ts (as served by
+ * CapClient.quoteTransfer) must match what the deployed CAPToken actually does
+ * (balances, supply and emitted events).
+ */
+describe("Tax simulator", function () {
+  const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+  const TAX_EVENTS = ["Transfer", "TaxBurned", "TaxCollected"];
+
+  // Amounts chosen to hit the basis-point rounding (values below 10000 / taxBp round the tax to 0)
+  const AMOUNTS = [1n, 33n, 99n, 100n, 101n, 9999n, 12345n, 10n ** 18n + 7n, 123456789n * 10n ** 15n];
+
+  let cap: CAPToken;
+  let client: CapClient;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let pool1: SignerWithAddress;
+  let pool2: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, treasury, user1, user2, pool1, pool2] = await ethers.getSigners();
+
+    const CAP = await ethers.getContractFactory("CAPToken");
+    cap = (await upgrades.deployProxy(CAP, [owner.address, treasury.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as CAPToken;
+
+    client = await CapClient.connect(cap.address, owner);
+
+    // EOAs stand in for AMM pools so they can send tokens directly
+    await cap.addPool(pool1.address);
+    await cap.addPool(pool2.address);
+
+    // Transfers from the governance account are taxed too, which is fine: the
+    // simulator only needs to predict them, not avoid them
+    const funding = ethers.utils.parseEther("1000000");
+    for (const account of [user1, pool1]) {
+      await cap.transfer(account.address, funding);
+    }
+  });
+
+  async function setTaxes(taxes: TaxRates) {
+    await cap.proposeTaxChange(taxes.transfer, taxes.sell, taxes.buy);
+    await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+    await cap.applyTaxChange();
+  }
+
+  function normalize(events: SimulatedEvent[]) {
+    return events.map((event) => ({
+      name: event.name,
+      args: Object.fromEntries(Object.entries(event.args).map(([key, value]) => [key, String(value).toLowerCase()])),
+    }));
+  }
+
+  async function expectMatchesContract(from: SignerWithAddress, to: string, value: bigint) {
+    const quote = await client.quoteTransfer(from.address, to, value);
+    const feeRecipient = await cap.feeRecipient();
+
+    const tracked = [from.address, to, feeRecipient].filter((address) => address !== ZERO_ADDRESS);
+    const before = await Promise.all(tracked.map((address) => cap.balanceOf(address)));
+    const supplyBefore = await cap.totalSupply();
+
+    const receipt = await (await cap.connect(from).transfer(to, value.toString())).wait();
+
+    const after = await Promise.all(tracked.map((address) => cap.balanceOf(address)));
+    const delta = (address: string) => {
+      const index = tracked.indexOf(address);
+      return BigInt(after[index].sub(before[index]).toString());
+    };
+
+    expect(delta(from.address)).to.equal(-value, "sender balance");
+    expect(delta(to)).to.equal(quote.sendAmount, "recipient balance");
+    if (quote.taxDestination === "recipient") {
+      expect(delta(feeRecipient)).to.equal(quote.taxAmount, "fee recipient balance");
+    }
+
+    const burned = BigInt(supplyBefore.sub(await cap.totalSupply()).toString());
+    expect(burned).to.equal(quote.taxDestination === "burn" ? quote.taxAmount : 0n, "burned supply");
+
+    const emitted = (receipt.events || [])
+      .filter((event) => event.address === cap.address && TAX_EVENTS.includes(event.event || ""))
+      .map((event) => ({
+        name: event.event,
+        args: Object.fromEntries(
+          Object.entries(event.args || {})
+            .filter(([key]) => isNaN(Number(key)))
+            .map(([key, value]) => [key, String(value).toLowerCase()])
+        ),
+      }));
+    expect(emitted).to.deep.equal(normalize(quote.events), "emitted events");
+  }
+
+  async function runRoutes() {
+    for (const value of AMOUNTS) {
+      await expectMatchesContract(user1, user2.address, value); // transfer
+      await expectMatchesContract(user1, pool1.address, value); // sell
+      await expectMatchesContract(pool1, user2.address, value); // buy
+      await expectMatchesContract(pool1, pool2.address, value); // pool-to-pool
+    }
+  }
+
+  it("Should classify transfers like _update", async function () {
+    const state = await client.readTaxState([user1.address, user2.address, pool1.address, pool2.address]);
+    expect(state.pools).to.deep.equal([pool1.address, pool2.address]);
+
+    expect(simulateTransfer(state, user1.address, user2.address, 10000n)).to.include({ kind: "transfer", taxBp: 100 });
+    expect(simulateTransfer(state, user1.address, pool1.address, 10000n)).to.include({ kind: "sell", taxBp: 200 });
+    expect(simulateTransfer(state, pool1.address, user1.address, 10000n)).to.include({ kind: "buy", taxBp: 0 });
+    expect(simulateTransfer(state, pool1.address, pool2.address, 10000n)).to.include({
+      kind: "pool-to-pool",
+      taxBp: 0,
+    });
+    expect(simulateTransfer(state, ZERO_ADDRESS, user1.address, 10000n)).to.include({ kind: "mint", taxAmount: 0n });
+    expect(simulateTransfer(state, user1.address, ZERO_ADDRESS, 10000n)).to.include({ kind: "burn", taxAmount: 0n });
+  });
+
+  it("Should match the contract in collect mode with the initial taxes", async function () {
+    await runRoutes();
+  });
+
+  it("Should match the contract in burn mode", async function () {
+    await cap.setFeeRecipient(ZERO_ADDRESS);
+    await runRoutes();
+  });
+
+  it("Should match the contract at the tax limits", async function () {
+    await setTaxes({ transfer: 300, sell: 500, buy: 500 });
+    await runRoutes();
+
+    await cap.setFeeRecipient(ZERO_ADDRESS);
+    await runRoutes();
+  });
+
+  it("Should match the contract with taxes disabled", async function () {
+    await setTaxes({ transfer: 0, sell: 0, buy: 0 });
+    await runRoutes();
+  });
+});
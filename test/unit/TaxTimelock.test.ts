@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { CAPToken } from "../../typechain-types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { applyTaxChange, cancelTaxChange, proposeTaxChange } from "../../scripts/configure";
+import { CapClient } from "../../scripts/sdk";
+import { CAP_TAX_LIMITS, TaxRates, validateTaxRates } from "../../scripts/utils/tax-validation";
+import { TxSink } from "../../scripts/utils/tx-sink";
+
+describe("Tax timelock", function () {
+  const SAFE = "0x1111111111111111111111111111111111111111";
+  const OPTIONS = { title: "Configure CAP token", name: "configure" };
+  const TAX_CHANGE_DELAY = 24 * 60 * 60;
+
+  let cap: CAPToken;
+  let client: CapClient;
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let txSink: string | undefined;
+
+  before(function () {
+    txSink = process.env.TX_SINK;
+    delete process.env.TX_SINK;
+  });
+
+  after(function () {
+    if (txSink !== undefined) {
+      process.env.TX_SINK = txSink;
+    }
+  });
+
+  beforeEach(async function () {
+    [owner, treasury] = await ethers.getSigners();
+
+    const CAP = await ethers.getContractFactory("CAPToken");
+    cap = (await upgrades.deployProxy(CAP, [owner.address, treasury.address], {
+      kind: "uups",
+      initializer: "initialize",
+    })) as unknown as CAPToken;
+
+    client = await CapClient.connect(cap.address, owner);
+  });
+
+  async function expectRejection(promise: Promise<unknown>, message: string) {
+    try {
+      await promise;
+    } catch (error) {
+      expect(String(error)).to.include(message);
+      return;
+    }
+    expect.fail(`Expected a rejection with "${message}"`);
+  }
+
+  /** First revert reason of proposeTaxChange, or "" if the call succeeds */
+  async function contractRevert(taxes: TaxRates): Promise<string> {
+    try {
+      await cap.callStatic.proposeTaxChange(taxes.transfer, taxes.sell, taxes.buy);
+      return "";
+    } catch (error) {
+      return (error as { reason: string }).reason;
+    }
+  }
+
+  describe("validateTaxRates", function () {
+    const CASES: { taxes: TaxRates; errors: string[] }[] = [
+      { taxes: { transfer: 500, sell: 300, buy: 500 }, errors: [] },
+      { taxes: { transfer: 501, sell: 0, buy: 0 }, errors: ["TRANSFER_TAX_TOO_HIGH"] },
+      { taxes: { transfer: 0, sell: 501, buy: 0 }, errors: ["SELL_TAX_TOO_HIGH"] },
+      { taxes: { transfer: 0, sell: 0, buy: 501 }, errors: ["BUY_TAX_TOO_HIGH"] },
+      { taxes: { transfer: 400, sell: 400, buy: 0 }, errors: [] },
+      { taxes: { transfer: 400, sell: 401, buy: 0 }, errors: ["COMBINED_SELL_TAX_TOO_HIGH"] },
+      { taxes: { transfer: 500, sell: 0, buy: 501 }, errors: ["BUY_TAX_TOO_HIGH", "TOTAL_TAX_TOO_HIGH"] },
+      { taxes: { transfer: 0, sell: 500, buy: 501 }, errors: ["BUY_TAX_TOO_HIGH", "TOTAL_TAX_TOO_HIGH"] },
+    ];
+
+    it("Should enforce MAX_TAX_BP, MAX_COMBINED_TAX_BP and MAX_TOTAL_TAX_BP at their boundaries", function () {
+      for (const { taxes, errors } of CASES) {
+        const codes = validateTaxRates(taxes).map((error) => error.split(":")[0]);
+        expect(codes, JSON.stringify(taxes)).to.deep.equal(errors);
+      }
+    });
+
+    it("Should agree with the contract's first revert reason", async function () {
+      for (const { taxes, errors } of CASES) {
+        expect(await contractRevert(taxes), JSON.stringify(taxes)).to.equal(errors[0] || "");
+      }
+    });
+
+    it("Should check the total cap with the limits it is given", function () {
+      const limits = { ...CAP_TAX_LIMITS, maxTaxBp: 1000, maxCombinedTaxBp: 2000 };
+
+      expect(validateTaxRates({ transfer: 600, sell: 0, buy: 400 }, limits)).to.deep.equal([]);
+      expect(validateTaxRates({ transfer: 600, sell: 500, buy: 401 }, limits)).to.deep.equal([
+        "TOTAL_TAX_TOO_HIGH: transfer + buy = 1001 bp > MAX_TOTAL_TAX_BP (1000 bp)",
+      ]);
+    });
+
+    it("Should reject values that are not basis points", function () {
+      expect(validateTaxRates({ transfer: -1, sell: 1.5, buy: 0 })).to.deep.equal([
+        "INVALID_TRANSFER_TAX: -1 is not a non-negative integer (basis points)",
+        "INVALID_SELL_TAX: 1.5 is not a non-negative integer (basis points)",
+      ]);
+    });
+  });
+
+  describe("configure.ts tax actions", function () {
+    it("Should refuse to propose taxes the contract would reject", async function () {
+      const sink = await TxSink.open(OPTIONS);
+
+      await expectRejection(
+        proposeTaxChange(client, sink, { transfer: 400, sell: 401, buy: 0 }),
+        "Tax proposal would revert:\n   - COMBINED_SELL_TAX_TOO_HIGH"
+      );
+      expect((await client.getGovernanceState()).pendingTaxChange).to.equal(null);
+    });
+
+    it("Should refuse to apply or cancel without a pending change", async function () {
+      const sink = await TxSink.open(OPTIONS);
+
+      await expectRejection(applyTaxChange(client, sink), "No pending tax change to apply (NO_PENDING_CHANGE)");
+      await expectRejection(cancelTaxChange(client, sink), "No pending tax change to cancel (NO_PENDING_CHANGE)");
+    });
+
+    it("Should apply a proposal only once the timelock has expired", async function () {
+      const sink = await TxSink.open(OPTIONS);
+      await proposeTaxChange(client, sink, { transfer: 200, sell: 300, buy: 100 });
+
+      const pending = (await client.getGovernanceState()).pendingTaxChange;
+      expect(pending!.taxes).to.deep.equal({ transfer: 200, sell: 300, buy: 100 });
+      expect(pending!.executableAt).to.equal(BigInt(await time.latest()) + BigInt(TAX_CHANGE_DELAY));
+
+      await expectRejection(applyTaxChange(client, sink), "Timelock has not expired (TIMELOCK_NOT_EXPIRED)");
+
+      await time.increaseTo(pending!.executableAt);
+      await applyTaxChange(client, sink);
+      expect(await client.getTaxes()).to.deep.equal({ transfer: 200, sell: 300, buy: 100 });
+      expect((await client.getGovernanceState()).pendingTaxChange).to.equal(null);
+    });
+
+    it("Should queue an early apply for a Safe, which executes after the timelock", async function () {
+      await proposeTaxChange(client, await TxSink.open(OPTIONS), { transfer: 200, sell: 300, buy: 100 });
+
+      const sink = await TxSink.open({ ...OPTIONS, fallback: "safe", safe: SAFE });
+      await applyTaxChange(client, sink);
+
+      expect(sink.sends).to.equal(false);
+      expect((await client.getGovernanceState()).pendingTaxChange).to.not.equal(null);
+    });
+
+    it("Should cancel a pending change", async function () {
+      const sink = await TxSink.open(OPTIONS);
+      await proposeTaxChange(client, sink, { transfer: 200, sell: 300, buy: 100 });
+
+      await cancelTaxChange(client, sink);
+      expect((await client.getGovernanceState()).pendingTaxChange).to.equal(null);
+    });
+  });
+});
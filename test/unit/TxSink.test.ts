@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { TxSink } from "../../scripts/utils/tx-sink";
+
+describe("Transaction sink", function () {
+  const ENV_VARS = [
+    "TX_SINK",
+    "TX_SINK_SAFE",
+    "TX_SINK_DAO",
+    "TX_SINK_OUTPUT",
+    "ARAGON_DAO_ADDRESS",
+    "PROPOSAL_OUTPUT",
+  ];
+  const SAFE = "0x1111111111111111111111111111111111111111";
+  const DAO = "0x2222222222222222222222222222222222222222";
+  const OPTIONS = { title: "Configure pools", name: "pools" };
+
+  let env: Record<string, string | undefined>;
+  let outputDir: string;
+  let signer: SignerWithAddress;
+  let target: SignerWithAddress;
+
+  before(async function () {
+    env = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+    outputDir = mkdtempSync(join(tmpdir(), "tx-sink-"));
+    [signer, target] = await ethers.getSigners();
+  });
+
+  beforeEach(function () {
+    for (const name of ENV_VARS) {
+      delete process.env[name];
+    }
+  });
+
+  after(function () {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  async function expectRejection(promise: Promise<unknown>, message: string) {
+    try {
+      await promise;
+    } catch (error) {
+      expect(String(error)).to.include(message);
+      return;
+    }
+    expect.fail(`Expected a rejection with "${message}"`);
+  }
+
+  describe("open", function () {
+    it("Should send from the signer unless TX_SINK or the script's fallback says otherwise", async function () {
+      const sink = await TxSink.open(OPTIONS);
+      expect(sink.mode).to.equal("send");
+      expect(sink.sender).to.equal(signer.address);
+      expect(sink.sends).to.equal(true);
+
+      const fallback = await TxSink.open({ ...OPTIONS, fallback: "safe", safe: SAFE });
+      expect(fallback).to.include({ mode: "safe", sender: SAFE, sends: false });
+
+      process.env.TX_SINK = "send";
+      expect((await TxSink.open({ ...OPTIONS, fallback: "safe", safe: SAFE })).mode).to.equal("send");
+    });
+
+    it("Should prefer TX_SINK_SAFE over the Safe the script detected", async function () {
+      process.env.TX_SINK = "safe";
+      process.env.TX_SINK_SAFE = SAFE;
+
+      expect((await TxSink.open({ ...OPTIONS, safe: DAO })).sender).to.equal(SAFE);
+    });
+
+    it("Should resolve the DAO from TX_SINK_DAO, then ARAGON_DAO_ADDRESS, then the script", async function () {
+      process.env.TX_SINK = "dao";
+      expect((await TxSink.open({ ...OPTIONS, dao: SAFE })).sender).to.equal(SAFE);
+
+      process.env.ARAGON_DAO_ADDRESS = DAO;
+      expect((await TxSink.open({ ...OPTIONS, dao: SAFE })).sender).to.equal(DAO);
+
+      process.env.TX_SINK_DAO = SAFE;
+      expect((await TxSink.open({ ...OPTIONS, dao: DAO })).sender).to.equal(SAFE);
+    });
+
+    it("Should reject an unknown mode or a missing address", async function () {
+      process.env.TX_SINK = "multisig";
+      await expectRejection(TxSink.open(OPTIONS), "Invalid TX_SINK: multisig. Supported: send, safe, dao");
+
+      process.env.TX_SINK = "safe";
+      await expectRejection(TxSink.open(OPTIONS), "TX_SINK_SAFE must be set to a valid address (got nothing)");
+      process.env.TX_SINK_SAFE = "0x1234";
+      await expectRejection(TxSink.open(OPTIONS), "TX_SINK_SAFE must be set to a valid address (got 0x1234)");
+    });
+  });
+
+  describe("submit and flush", function () {
+    it("Should send calls right away in send mode", async function () {
+      const sink = await TxSink.open(OPTIONS);
+      const hash = await sink.submit({ to: target.address, data: "0x", value: "1", description: "Ping" });
+
+      const receipt = await ethers.provider.getTransactionReceipt(hash!);
+      expect(receipt.from).to.equal(signer.address);
+      expect(receipt.to).to.equal(target.address);
+      expect(await sink.flush()).to.equal(undefined);
+    });
+
+    it("Should write queued calls as a Safe Transaction Builder batch", async function () {
+      process.env.TX_SINK = "safe";
+      process.env.TX_SINK_OUTPUT = join(outputDir, "nested", "batch.json");
+      const sink = await TxSink.open({ ...OPTIONS, safe: SAFE });
+
+      expect(await sink.flush()).to.equal(undefined);
+      expect(await sink.submit({ to: DAO, data: "0x1234", description: "First" })).to.equal(undefined);
+      await sink.submit({ to: target.address, data: "0xabcd", value: "5", description: "Second" });
+
+      const path = await sink.flush();
+      expect(path).to.equal(process.env.TX_SINK_OUTPUT);
+
+      const batch = JSON.parse(readFileSync(path!, "utf8"));
+      expect(batch).to.include({ version: "1.0", chainId: "31337" });
+      expect(batch.meta).to.include({
+        name: "Configure pools",
+        description: "First\nSecond",
+        createdFromSafeAddress: SAFE,
+      });
+      expect(batch.transactions).to.deep.equal([
+        { to: DAO, value: "0", data: "0x1234", contractMethod: null, contractInputsValues: null },
+        { to: target.address, value: "5", data: "0xabcd", contractMethod: null, contractInputsValues: null },
+      ]);
+    });
+  });
+});
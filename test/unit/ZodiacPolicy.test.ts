@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { CAPToken__factory } from "../../typechain-types";
+import { CYBERIA_ROLES, DAILY_LIMIT } from "../../scripts/zodiac/cyberia-roles";
+import {
+  RolesPolicy,
+  TargetPolicy,
+  buildRolesConfig,
+  equalTo,
+  lessThan,
+  oneOf,
+  pass,
+  serializeRolesConfig,
+} from "../../scripts/zodiac/policy";
+
+describe("Zodiac roles policy", function () {
+  const CONFIG_PATH = join(__dirname, "..", "..", "docs", "zodiac-roles-config.json");
+  const MEMBER = "0x7AFAa93021b4b267DBB5DA7F2721BE23Bd77eE33";
+
+  function policy(target: Omit<TargetPolicy, "address">): RolesPolicy {
+    return {
+      ...CYBERIA_ROLES,
+      roles: [
+        {
+          key: "TEST",
+          name: "Test",
+          description: "Test role",
+          members: [MEMBER],
+          targets: [{ address: "{{CAP_TOKEN_ADDRESS}}", ...target }],
+        },
+      ],
+    };
+  }
+
+  it("Should generate exactly the committed docs/zodiac-roles-config.json", function () {
+    expect(serializeRolesConfig(buildRolesConfig(CYBERIA_ROLES))).to.equal(readFileSync(CONFIG_PATH, "utf-8"));
+  });
+
+  it("Should take the sighash, name and paramTypes from the target ABI", function () {
+    const config = buildRolesConfig(
+      policy({
+        abi: CAPToken__factory.abi,
+        functions: [
+          { signature: "transfer", params: [oneOf([MEMBER, "{{TREASURY_SAFE_ADDRESS}}"]), lessThan(DAILY_LIMIT)] },
+          { signature: "applyTaxChange()" },
+        ],
+      })
+    );
+
+    expect(config.roles[0].targets[0].functions).to.deep.equal([
+      {
+        sighash: CAPToken__factory.createInterface().getSighash("transfer"),
+        name: "transfer(address,uint256)",
+        executionOptions: "None",
+        wildcarded: false,
+        condition: {
+          paramType: "Tuple",
+          children: [
+            { paramType: "Address", operator: "OneOf", compValue: [MEMBER, "{{TREASURY_SAFE_ADDRESS}}"] },
+            { paramType: "Uint256", operator: "LessThan", compValue: DAILY_LIMIT.toString() },
+          ],
+        },
+      },
+      { sighash: "0xe7ee6383", name: "applyTaxChange()", executionOptions: "None", wildcarded: false },
+    ]);
+  });
+
+  it("Should reject functions and conditions that do not fit the ABI", function () {
+    const abi = CAPToken__factory.abi;
+    const build = (functions: TargetPolicy["functions"]) => () => buildRolesConfig(policy({ abi, functions }));
+
+    expect(build([{ signature: "transfer(address,uint128)" }])).to.throw(
+      "TEST.{{CAP_TOKEN_ADDRESS}}: transfer(address,uint128) is not in the target ABI"
+    );
+    expect(build([{ signature: "transfer(address,uint256)", params: [pass()] }])).to.throw(
+      "transfer(address,uint256) takes 2 parameter(s), 1 condition(s) given"
+    );
+    expect(build([{ signature: "transfer(address,uint256)", params: [lessThan(1n), pass()] }])).to.throw(
+      "LessThan needs an integer parameter, not address"
+    );
+    expect(build([{ signature: "transfer(address,uint256)", params: [equalTo("0x1234"), pass()] }])).to.throw(
+      "invalid address 0x1234"
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import zodiacConfig from "../../docs/zodiac-roles-config.json";
+import { DeploymentRecord } from "../../scripts/utils/deployment-tracker";
+import { renderRolesConfig, resolveTemplateValues, templateVariables } from "../../scripts/zodiac/render";
+
+describe("Zodiac roles config rendering", function () {
+  const CAP_TOKEN = "0xA6B680A88c16056de7194CF775D04A45D0692C11";
+  const SAFE = "0x9999999999999999999999999999999999999999";
+  const DAO = "0x7AFAa93021b4b267DBB5DA7F2721BE23Bd77eE33";
+
+  function capRecord(overrides: Partial<DeploymentRecord> = {}): DeploymentRecord {
+    return {
+      network: "sepolia",
+      chainId: 11155111,
+      timestamp: "2025-10-01T00:00:00.000Z",
+      proxyAddress: CAP_TOKEN,
+      implementationAddress: "0x8888888888888888888888888888888888888888",
+      deployer: DAO,
+      owner: DAO,
+      feeRecipient: SAFE,
+      txHash: "0x" + "ab".repeat(32),
+      blockNumber: 100,
+      verified: true,
+      ...overrides,
+    };
+  }
+
+  it("Should list the placeholders used by the template", function () {
+    expect(templateVariables(zodiacConfig)).to.deep.equal(["CAP_TOKEN_ADDRESS", "TREASURY_SAFE_ADDRESS"]);
+  });
+
+  it("Should fill every placeholder and set the chain ID", function () {
+    const resolution = resolveTemplateValues(
+      "sepolia",
+      templateVariables(zodiacConfig),
+      { TREASURY_SAFE_ADDRESS: SAFE },
+      capRecord()
+    );
+    expect(resolution.problems).to.deep.equal([]);
+
+    const rendered = renderRolesConfig(zodiacConfig, resolution);
+    expect(templateVariables(rendered)).to.deep.equal([]);
+    expect(rendered.chainId).to.equal("11155111");
+    expect(rendered.roles[0].targets[0].address).to.equal(SAFE);
+    expect(rendered.roles[0].targets[1].address).to.equal(CAP_TOKEN);
+    // transferFrom(from == treasury Safe, ...)
+    expect(JSON.stringify(rendered.roles[0].targets[0].functions[1].condition)).to.include(`"compValue":"${SAFE}"`);
+
+    // The template itself is left untouched
+    expect(zodiacConfig.roles[0].targets[0].address).to.equal("{{TREASURY_SAFE_ADDRESS}}");
+  });
+
+  it("Should prefer network-specific env vars", function () {
+    const other = "0x5555555555555555555555555555555555555555";
+    const resolution = resolveTemplateValues(
+      "mainnet",
+      ["TREASURY_SAFE_ADDRESS", "ARAGON_DAO_ADDRESS"],
+      { TREASURY_SAFE_ADDRESS: other, MAINNET_TREASURY_SAFE_ADDRESS: SAFE, ARAGON_DAO_ADDRESS: DAO },
+      null
+    );
+
+    expect(resolution.chainId).to.equal(1);
+    expect(resolution.values.TREASURY_SAFE_ADDRESS).to.deep.equal({
+      value: SAFE,
+      source: "MAINNET_TREASURY_SAFE_ADDRESS",
+    });
+    expect(resolution.values.ARAGON_DAO_ADDRESS).to.deep.equal({ value: DAO, source: "ARAGON_DAO_ADDRESS" });
+  });
+
+  it("Should refuse missing, unverified or mismatched deployments", function () {
+    const variables = ["CAP_TOKEN_ADDRESS"];
+
+    expect(resolveTemplateValues("sepolia", variables, {}, null).problems).to.deep.equal([
+      "No CAPToken deployment for sepolia in deployments.json",
+    ]);
+    expect(resolveTemplateValues("sepolia", variables, {}, capRecord({ verified: false })).problems).to.deep.equal([
+      `CAPToken ${CAP_TOKEN} on sepolia is not verified (run npm run verify:sepolia)`,
+    ]);
+    expect(resolveTemplateValues("mainnet", variables, {}, capRecord()).problems).to.deep.equal([
+      "CAPToken deployment for mainnet is on chain 11155111, expected 1",
+    ]);
+  });
+
+  it("Should not require verification on local networks", function () {
+    const record = capRecord({ network: "localhost", chainId: 31337, verified: false });
+    const resolution = resolveTemplateValues("localhost", ["CAP_TOKEN_ADDRESS"], {}, record);
+
+    expect(resolution.problems).to.deep.equal([]);
+    expect(resolution.values.CAP_TOKEN_ADDRESS.value).to.equal(CAP_TOKEN);
+  });
+
+  it("Should refuse unset or invalid addresses and unknown placeholders", function () {
+    const resolution = resolveTemplateValues(
+      "sepolia",
+      ["ARAGON_DAO_ADDRESS", "TREASURY_SAFE_ADDRESS", "UNKNOWN_ADDRESS"],
+      { TREASURY_SAFE_ADDRESS: "0x1234" },
+      null
+    );
+
+    expect(resolution.problems).to.deep.equal([
+      "SEPOLIA_ARAGON_DAO_ADDRESS or ARAGON_DAO_ADDRESS not set in .env",
+      "Invalid TREASURY_SAFE_ADDRESS: 0x1234",
+      "No source for {{UNKNOWN_ADDRESS}}",
+    ]);
+    expect(() => renderRolesConfig(zodiacConfig, resolution)).to.throw("No value for {{");
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { CAPToken__factory } from "../../typechain-types";
+import { defaultTargetAbis } from "../../scripts/zodiac/abis";
+import { CYBERIA_ROLES } from "../../scripts/zodiac/cyberia-roles";
+import { ZodiacRolesConfig, buildRolesConfig, lessThan, oneOf, pass } from "../../scripts/zodiac/policy";
+import { validateRolesSemantics } from "../../scripts/zodiac/semantic-validation";
+
+describe("Zodiac roles semantic validation", function () {
+  const RECIPIENT = "0x1111111111111111111111111111111111111111";
+  const TRANSFER = "$.roles[0].targets[0].functions[0]";
+
+  /** One role on the CAP token: capped transfers to two recipients, and proposeMint */
+  function config(): ZodiacRolesConfig {
+    return buildRolesConfig({
+      ...CYBERIA_ROLES,
+      roles: [
+        {
+          key: "TEST",
+          name: "Test",
+          description: "Test role",
+          members: [RECIPIENT],
+          targets: [
+            {
+              address: "{{CAP_TOKEN_ADDRESS}}",
+              abi: CAPToken__factory.abi,
+              functions: [
+                {
+                  signature: "transfer(address,uint256)",
+                  params: [oneOf([RECIPIENT, "{{TREASURY_SAFE_ADDRESS}}"]), lessThan(1000n)],
+                },
+                { signature: "proposeMint(address,uint256)", params: [pass(), lessThan(1000n)] },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  function validate(rolesConfig: ZodiacRolesConfig) {
+    return validateRolesSemantics(rolesConfig, defaultTargetAbis());
+  }
+
+  it("Should accept a config generated from the policy DSL", function () {
+    expect(validate(config())).to.deep.equal({ errors: [], warnings: [] });
+  });
+
+  it("Should report a sighash that is not the selector of its function", function () {
+    const broken = config();
+    broken.roles[0].targets[0].functions[0].sighash = "0xdeadbeef";
+
+    expect(validate(broken).errors).to.deep.equal([
+      {
+        path: `${TRANSFER}.sighash`,
+        message: "0xdeadbeef is not the selector of transfer(address,uint256) (0xa9059cbb)",
+      },
+    ]);
+  });
+
+  it("Should report a paramType that does not match the ABI", function () {
+    const broken = config();
+    broken.roles[0].targets[0].functions[0].condition!.children![1].paramType = "Address";
+
+    expect(validate(broken).errors).to.deep.equal([
+      {
+        path: `${TRANSFER}.condition.children[1].paramType`,
+        message: "Address does not match the ABI type uint256 (expected Uint256)",
+      },
+    ]);
+  });
+
+  it("Should report an invalid address in a compValue list", function () {
+    const broken = config();
+    broken.roles[0].targets[0].functions[0].condition!.children![0].compValue = [RECIPIENT, "0x1234"];
+
+    expect(validate(broken).errors).to.deep.equal([
+      {
+        path: `${TRANSFER}.condition.children[0].compValue[1]`,
+        message: "0x1234 is not an address (paramType Address)",
+      },
+    ]);
+  });
+
+  it("Should report functions missing from the target ABI, and warn about unknown targets", function () {
+    const broken = config();
+    broken.roles[0].targets[0].functions[1].name = "mint(address,uint256)";
+    broken.roles[0].targets[0].functions[1].sighash = "0x40c10f19";
+
+    expect(validate(broken).errors).to.deep.equal([
+      {
+        path: "$.roles[0].targets[0].functions[1].name",
+        message: "mint(address,uint256) is not a function of CAPToken",
+      },
+    ]);
+
+    broken.roles[0].targets[0].address = "0x2222222222222222222222222222222222222222";
+    expect(validate(broken)).to.deep.equal({
+      errors: [],
+      warnings: [
+        {
+          path: "$.roles[0].targets[0].address",
+          message:
+            "no ABI known for 0x2222222222222222222222222222222222222222; functions are only checked against their signature",
+        },
+      ],
+    });
+  });
+});